@@ -1,6 +1,6 @@
 // App.tsx
 import React, { useState, useMemo, useEffect } from 'react';
-import { type Event, type Tournament, type User, type Player, type SummerRankingData, type Match, type SummerRankingMasterMatch } from './types';
+import { type Event, type Tournament, type User, type Player, type SummerRankingData, type Match, type SummerRankingMasterMatch, type Venue } from './types';
 import EventView from './components/EventView';
 import TournamentView from './components/TournamentView';
 import Login from './components/Login';
@@ -9,10 +9,13 @@ import ParticipantDashboard from './components/ParticipantDashboard';
 import ContactModal from './components/ContactModal';
 import SummerRankingView from './components/SummerRankingView';
 import AdminPlayersView from './components/AdminPlayersView';
+import VenueRegistry from './components/VenueRegistry';
+import AccountsAdmin from './components/AccountsAdmin';
+import DataMigrationsPanel from './components/DataMigrationsPanel';
+import FirstLoginPasswordChange from './components/FirstLoginPasswordChange';
+import JoinEventForm from './components/JoinEventForm';
 import { BackArrowIcon, NextTsBrandIcon, PencilIcon, PlusIcon, TrashIcon, UserCircleIcon, LogoutIcon } from './components/Icons';
 
-import { db } from "./firebase";
-import { collection, onSnapshot, addDoc, deleteDoc, doc, updateDoc, getDoc } from "firebase/firestore";
 import {
   DEFAULT_SUMMER_RANKING_RULES,
   calculateSummerRanking,
@@ -20,8 +23,14 @@ import {
   normalizeRulesConfig,
 } from './utils/summerRanking';
 import { isEventConcluded } from './utils/eventStatus';
-
-type View = 'dashboard' | 'event' | 'tournament' | 'playersAdmin';
+import { CURRENT_SCHEMA_VERSION, normalizeRankingData } from './utils/schemaMigrations';
+import { getAuditActor } from './utils/auditLog';
+import { isWriteConflict, repository } from './services/dataRepository';
+import { signOutCurrentUser, subscribeAuthState } from './services/authService';
+import { generateInvitationCode, readJoinCodeFromUrl } from './utils/invitations';
+import { EVENT_ROLE_LABELS, getEventPermissions, getEventRole, getManagedEvents } from './services/permissionService';
+
+type View = 'dashboard' | 'event' | 'tournament' | 'playersAdmin' | 'venues' | 'accounts' | 'migrations';
 type EventType = NonNullable<Event['eventType']>;
 
 type TournamentTab =
@@ -51,26 +60,6 @@ const getEventType = (event?: Partial<Event> | null): EventType =>
       ? 'tournament_padel'
       : 'tournament_singolare';
 
-const normalizeRankingData = (data?: SummerRankingData | null): SummerRankingData => ({
-  slots: Array.isArray(data?.slots) ? data.slots : [],
-  matches: Array.isArray(data?.matches) ? data.matches : [],
-  participantIds: Array.isArray(data?.participantIds) ? data.participantIds : [],
-  rules: data?.rules ?? generateRulesText(normalizeRulesConfig(data?.rulesConfig)),
-  rulesConfig: data?.rulesConfig,
-  availabilities: data?.availabilities ?? {},
-  master: data?.master
-    ? {
-      format: data.master.format === 'groups' || (Array.isArray(data.master.groups) && data.master.groups.length > 0) ? 'groups' : 'bracket',
-      manualQualifiedPlayerIds: Array.isArray(data.master.manualQualifiedPlayerIds) ? data.master.manualQualifiedPlayerIds : undefined,
-      generatedQualifiedPlayerIds: Array.isArray(data.master.generatedQualifiedPlayerIds) ? data.master.generatedQualifiedPlayerIds : undefined,
-      bracket: data.master.bracket ?? undefined,
-      groups: Array.isArray(data.master.groups) ? data.master.groups : [],
-      matches: Array.isArray(data.master.matches) ? data.master.matches : [],
-      generatedAt: data.master.generatedAt,
-    }
-    : undefined,
-});
-
 // Strips undefined optional fields from a Match so Firebase SDK v12 does not reject them in updateDoc
 const sanitizeMatch = (match: Match): Match => {
   const result: Match = {
@@ -85,7 +74,15 @@ const sanitizeMatch = (match: Match): Match => {
   if (match.location !== undefined) result.location = match.location;
   if (match.field !== undefined) result.field = match.field;
   if (match.slotId !== undefined) result.slotId = match.slotId;
+  if (match.venueId !== undefined) result.venueId = match.venueId;
+  if (match.courtId !== undefined) result.courtId = match.courtId;
+  if (match.proposal !== undefined) result.proposal = match.proposal;
+  if (match.resultConfirmation !== undefined) result.resultConfirmation = match.resultConfirmation;
   if (match.completedAt !== undefined) result.completedAt = match.completedAt;
+  if (match.score !== undefined) result.score = match.score;
+  if (match.resultType !== undefined) result.resultType = match.resultType;
+  if (match.awardedTo !== undefined) result.awardedTo = match.awardedTo;
+  if (match.round !== undefined) result.round = match.round;
   return result;
 };
 
@@ -107,7 +104,12 @@ const sanitizeMasterMatch = (match: SummerRankingMasterMatch): SummerRankingMast
   if (match.location !== undefined) result.location = match.location;
   if (match.field !== undefined) result.field = match.field;
   if (match.slotId !== undefined) result.slotId = match.slotId;
+  if (match.venueId !== undefined) result.venueId = match.venueId;
+  if (match.courtId !== undefined) result.courtId = match.courtId;
   if (match.completedAt !== undefined) result.completedAt = match.completedAt;
+  if (match.score !== undefined) result.score = match.score;
+  if (match.resultType !== undefined) result.resultType = match.resultType;
+  if (match.awardedTo !== undefined) result.awardedTo = match.awardedTo;
   return result;
 };
 
@@ -138,9 +140,17 @@ const sanitizeRankingDataForFirestore = (data: SummerRankingData): SummerRanking
 const App: React.FC = () => {
   const [events, setEvents] = useState<Event[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
-  const [legacySummerRanking, setLegacySummerRanking] = useState<SummerRankingData | null>(null);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  // la sessione vive in Firebase Auth (sopravvive al ricaricamento); l'utente è il documento users collegato
+  const [authUid, setAuthUid] = useState<string | null>(null);
+  const [isAuthReady, setIsAuthReady] = useState(false);
+  const [loginNotice, setLoginNotice] = useState<string | null>(null);
+  const [joinCode] = useState(readJoinCodeFromUrl);
+  const currentUser = useMemo(
+    () => (authUid ? users?.find(u => u.authUid === authUid) ?? null : null),
+    [users, authUid],
+  );
 
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
@@ -164,57 +174,59 @@ const App: React.FC = () => {
 
   const isOrganizer = currentUser?.role === 'organizer';
   const loggedInPlayerId = currentUser?.playerId;
+  const auditActor = getAuditActor(currentUser);
 
   const getEventRankingData = (event?: Event | null) => {
     const eventType = getEventType(event);
     if (eventType !== 'ranking_singolare') return EMPTY_RANKING_DATA;
-    if (event?.rankingData) return normalizeRankingData(event.rankingData);
-    return normalizeRankingData(legacySummerRanking);
+    return event?.rankingData ?? EMPTY_RANKING_DATA;
   };
 
   useEffect(() => {
-    const unsubEvents = onSnapshot(collection(db, "events"), snapshot => {
-      const nextEvents = snapshot.docs.map(snapshotDoc => {
-        const raw = snapshotDoc.data() as Partial<Event>;
-        const eventType = getEventType(raw);
+    const unsubEvents = repository.events.subscribe(setEvents);
+    const unsubPlayers = repository.players.subscribe(setPlayers);
+    const unsubVenues = repository.venues.subscribe(rawVenues => {
+      setVenues(rawVenues.map(raw => {
         return {
-          id: snapshotDoc.id,
+          ...raw,
+          ownerId: raw.ownerId ?? '',
           name: raw.name ?? '',
-          invitationCode: raw.invitationCode ?? '',
-          players: Array.isArray(raw.players) ? raw.players : [],
-          tournaments: Array.isArray(raw.tournaments) ? raw.tournaments : [],
-          globalTimeSlots: Array.isArray(raw.globalTimeSlots) ? raw.globalTimeSlots : [],
-          rules: raw.rules,
-          eventType,
-          rankingData: eventType === 'ranking_singolare' ? normalizeRankingData(raw.rankingData) : undefined,
-        } as Event;
-      });
-      setEvents(nextEvents);
-    });
-    const unsubPlayers = onSnapshot(collection(db, "players"), snapshot => {
-      setPlayers(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Player)));
-    });
-    const unsubUsers = onSnapshot(collection(db, "users"), snapshot => {
-      setUsers(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as User)));
+          courts: Array.isArray(raw.courts) ? raw.courts : [],
+          openingHours: Array.isArray(raw.openingHours) ? raw.openingHours : [],
+          closures: Array.isArray(raw.closures) ? raw.closures : [],
+        } as Venue;
+      }));
     });
 
-    void getDoc(doc(db, "summerRankingNext", "main"))
-      .then(snapshot => {
-        if (!snapshot.exists()) return;
-        const data = snapshot.data() as SummerRankingData | undefined;
-        setLegacySummerRanking(normalizeRankingData(data));
-      })
-      .catch(error => {
-        console.error('Errore lettura fallback Summer Ranking Next', error);
-      });
+    const unsubAuth = subscribeAuthState(uid => {
+      setAuthUid(uid);
+      setIsAuthReady(true);
+    });
 
     return () => {
       unsubEvents();
       unsubPlayers();
-      unsubUsers();
+      unsubVenues();
+      unsubAuth();
     };
   }, []);
 
+  // gli utenti si leggono solo dopo l'accesso (il login passa da lookupUsername): chi non è connesso non vede gli account
+  useEffect(() => {
+    if (!authUid) {
+      setUsers(null);
+      return;
+    }
+    return repository.users.subscribe(setUsers);
+  }, [authUid]);
+
+  // account Auth senza documento users (es. utente eliminato): si chiude la sessione
+  useEffect(() => {
+    if (!authUid || !users || currentUser) return;
+    setLoginNotice("Questo accesso non è più valido: usa la password ricevuta dall'organizzatore.");
+    void signOutCurrentUser();
+  }, [authUid, users, currentUser]);
+
   const handleSelectEvent = (event: Event) => {
     setTournamentInitialTab(undefined);
     setTournamentInitialGroupId(undefined);
@@ -238,14 +250,25 @@ const App: React.FC = () => {
       setTournamentInitialGroupId(undefined);
     } else if (currentView === 'playersAdmin') {
       setCurrentView(selectedEvent ? 'event' : 'dashboard');
+    } else if (currentView === 'venues' || currentView === 'accounts' || currentView === 'migrations') {
+      setCurrentView('dashboard');
     } else if (currentView === 'event') {
       setCurrentView('dashboard');
       setSelectedEvent(null);
     }
   };
 
+  // scrittura controllata come per i tornei: false se qualcuno ha cambiato gli stessi dati o preso lo stesso slot
   const saveEventRankingData = async (eventId: string, nextData: SummerRankingData) => {
     const normalized = normalizeRankingData(nextData);
+    const base = normalizeRankingData(events.find(event => event.id === eventId)?.rankingData);
+    try {
+      await repository.events.updateRankingChecked(eventId, base, sanitizeRankingDataForFirestore(normalized));
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      window.alert(err.message);
+      return false;
+    }
     setEvents(prevEvents => prevEvents.map(event =>
       event.id === eventId
         ? { ...event, eventType: 'ranking_singolare', rankingData: normalized }
@@ -254,11 +277,7 @@ const App: React.FC = () => {
     if (selectedEvent?.id === eventId) {
       setSelectedEvent(prev => prev ? { ...prev, eventType: 'ranking_singolare', rankingData: normalized } : prev);
     }
-    const sanitized = sanitizeRankingDataForFirestore(normalized);
-    await updateDoc(doc(db, "events", eventId), {
-      eventType: 'ranking_singolare',
-      rankingData: sanitized,
-    });
+    return true;
   };
 
   const updatePlayerSummerRankingStartPoints = async (playerId: string, points: number) => {
@@ -291,10 +310,10 @@ const App: React.FC = () => {
           return update ? { ...event, players: update.players } : event;
         }),
       );
-      await Promise.all(eventsToPersist.map(event => updateDoc(doc(db, 'events', event.id), { players: event.players })));
+      await Promise.all(eventsToPersist.map(event => repository.events.update(event.id, { players: event.players })));
     }
 
-    await updateDoc(doc(db, "players", playerId), payload);
+    await repository.players.update(playerId, payload);
   };
 
   const resetCreateEventForm = () => {
@@ -332,14 +351,17 @@ const App: React.FC = () => {
 
     const baseEvent: Omit<Event, 'id'> = {
       name: trimmedEventName,
-      invitationCode: Math.random().toString(36).substring(2, 8).toUpperCase(),
+      invitationCode: generateInvitationCode(),
+      invitation: { uses: 0 },
+      ...(currentUser ? { ownerId: currentUser.id } : {}),
       players: [],
       tournaments: [],
       eventType: newEventType,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
     };
 
     try {
-      await addDoc(collection(db, "events"), newEventType === 'ranking_singolare'
+      await repository.events.create(newEventType === 'ranking_singolare'
         ? {
           ...baseEvent,
           rankingData: { ...EMPTY_RANKING_DATA },
@@ -356,7 +378,7 @@ const App: React.FC = () => {
 
   const handleDeleteEvent = async () => {
     if (!eventToDelete) return;
-    await deleteDoc(doc(db, "events", eventToDelete.id));
+    await repository.events.remove(eventToDelete.id);
     if (selectedEvent?.id === eventToDelete.id) {
       setSelectedEvent(null);
       setCurrentView('dashboard');
@@ -388,7 +410,7 @@ const App: React.FC = () => {
     setRenameEventError(null);
     setIsRenamingEvent(true);
     try {
-      await updateDoc(doc(db, "events", eventToRename.id), { name: trimmedName });
+      await repository.events.update(eventToRename.id, { name: trimmedName });
       if (selectedEvent?.id === eventToRename.id) {
         setSelectedEvent(prev => prev ? { ...prev, name: trimmedName } : prev);
       }
@@ -402,7 +424,8 @@ const App: React.FC = () => {
   };
 
   const handleLogout = () => {
-    setCurrentUser(null);
+    void signOutCurrentUser();
+    setLoginNotice(null);
     setCurrentView('dashboard');
     setSelectedEvent(null);
     setSelectedTournament(null);
@@ -413,16 +436,22 @@ const App: React.FC = () => {
   const currentEventState = useMemo(() => events.find(e => e.id === selectedEvent?.id), [events, selectedEvent]);
   const currentTournamentState = useMemo(() => currentEventState?.tournaments.find(t => t.id === selectedTournament?.id), [currentEventState, selectedTournament]);
 
-  const filteredEventsForOrganizer = useMemo(() => {
-    if (isOrganizer) return events;
-    return [];
-  }, [events, isOrganizer]);
+  const filteredEventsForOrganizer = useMemo(() => getManagedEvents(currentUser, events), [events, currentUser]);
+  const eventPermissions = useMemo(() => getEventPermissions(currentUser, currentEventState), [currentUser, currentEventState]);
 
   const ongoingEvents = useMemo(() => filteredEventsForOrganizer.filter(e => !isEventConcluded(e)), [filteredEventsForOrganizer]);
   const concludedEvents = useMemo(() => filteredEventsForOrganizer.filter(e => isEventConcluded(e)), [filteredEventsForOrganizer]);
 
+  if (!isAuthReady || (authUid && !users)) {
+    return <div className="min-h-screen bg-primary text-text-secondary flex items-center justify-center">Caricamento...</div>;
+  }
+
   if (!currentUser) {
-    return <Login users={users} onLoginSuccess={setCurrentUser} />;
+    return <Login events={events} joinCode={joinCode} notice={loginNotice} />;
+  }
+
+  if (currentUser.mustChangePassword) {
+    return <FirstLoginPasswordChange user={currentUser} onLogout={handleLogout} />;
   }
 
   const renderContent = () => {
@@ -433,6 +462,38 @@ const App: React.FC = () => {
             events={events}
             playerId={loggedInPlayerId}
             onSelectEvent={handleSelectEvent}
+            headerContent={(
+              <>
+                {filteredEventsForOrganizer.length > 0 && (
+                  <div className="bg-secondary rounded-xl shadow-lg p-6">
+                    <h3 className="text-xl font-semibold mb-4">Eventi che gestisci</h3>
+                    <div className="flex flex-wrap gap-3">
+                      {filteredEventsForOrganizer.map(event => {
+                        const role = getEventRole(currentUser, event);
+                        return (
+                          <button
+                            key={event.id}
+                            onClick={() => handleSelectEvent(event)}
+                            className="bg-tertiary/60 hover:bg-tertiary text-left px-4 py-2 rounded-lg transition-colors"
+                          >
+                            <div className="font-semibold text-accent">{event.name}</div>
+                            <div className="text-xs text-text-secondary">{role ? EVENT_ROLE_LABELS[role] : 'Proprietario'}</div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                <div className="bg-secondary rounded-xl shadow-lg p-6">
+                  <h3 className="text-xl font-semibold mb-4">Iscriviti a un evento</h3>
+                  <JoinEventForm
+                    events={events}
+                    player={players.find(p => p.id === loggedInPlayerId) ?? null}
+                    initialCode={joinCode}
+                  />
+                </div>
+              </>
+            )}
           />
         );
       }
@@ -442,6 +503,24 @@ const App: React.FC = () => {
             <h2 className="text-3xl font-bold">I Miei Eventi</h2>
             {isOrganizer && (
               <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setCurrentView('accounts')}
+                  className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-all shadow-lg"
+                >
+                  Account utenti
+                </button>
+                <button
+                  onClick={() => setCurrentView('venues')}
+                  className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-all shadow-lg"
+                >
+                  Impianti e campi
+                </button>
+                <button
+                  onClick={() => setCurrentView('migrations')}
+                  className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-all shadow-lg"
+                >
+                  Migrazioni dati
+                </button>
                 <button
                   onClick={() => {
                     resetCreateEventForm();
@@ -705,8 +784,12 @@ const App: React.FC = () => {
             <SummerRankingView
               players={currentEventState.players ?? []}
               rankingData={rankingData}
-              isOrganizer={isOrganizer}
+              permissions={eventPermissions}
               loggedInPlayerId={loggedInPlayerId}
+              eventId={currentEventState.id}
+              allEvents={events}
+              venues={venues}
+              auditActor={auditActor}
               onPlayerContact={setContactPlayer}
               onSaveRankingData={(nextData) => saveEventRankingData(currentEventState.id, nextData)}
               onUpdatePlayerStartPoints={updatePlayerSummerRankingStartPoints}
@@ -725,8 +808,12 @@ const App: React.FC = () => {
             event={currentEventState}
             onSelectTournament={handleSelectTournament}
             setEvents={setEvents}
-            isOrganizer={isOrganizer}
+            permissions={eventPermissions}
             loggedInPlayerId={loggedInPlayerId}
+            allEvents={events}
+            venues={venues}
+            auditActor={auditActor}
+            users={users ?? []}
           />
         </div>
       );
@@ -739,8 +826,11 @@ const App: React.FC = () => {
             event={currentEventState}
             tournament={currentTournamentState}
             setEvents={setEvents}
-            isOrganizer={isOrganizer}
+            permissions={eventPermissions}
             loggedInPlayerId={loggedInPlayerId}
+            allEvents={events}
+            venues={venues}
+            auditActor={auditActor}
             initialActiveTab={tournamentInitialTab}
             initialSelectedGroupId={tournamentInitialGroupId}
             onPlayerContact={setContactPlayer}
@@ -749,6 +839,18 @@ const App: React.FC = () => {
       );
     }
 
+    if (currentView === 'venues' && isOrganizer) {
+      return <VenueRegistry venues={venues} ownerId={currentUser.id} />;
+    }
+
+    if (currentView === 'accounts' && isOrganizer) {
+      return <AccountsAdmin users={users ?? []} currentUserId={currentUser.id} />;
+    }
+
+    if (currentView === 'migrations' && isOrganizer) {
+      return <DataMigrationsPanel />;
+    }
+
     if (
       currentView === 'playersAdmin'
       && isOrganizer
@@ -813,8 +915,6 @@ const App: React.FC = () => {
       {isProfileModalOpen && (
         <EditProfileModal
           user={currentUser}
-          users={users}
-          setUsers={setUsers}
           events={events}
           setEvents={setEvents}
           onClose={() => setIsProfileModalOpen(false)}
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { type User } from '../types';
+import { migrateLegacyUsers, resetUserPassword, type MigrationResult } from '../services/authService';
+
+interface AccountsAdminProps {
+  users: User[];
+  currentUserId: string;
+}
+
+// password temporanee mostrate una sola volta: non vengono salvate da nessuna parte
+type IssuedPassword = { username: string; temporaryPassword: string };
+
+const AccountsAdmin: React.FC<AccountsAdminProps> = ({ users, currentUserId }) => {
+  const [search, setSearch] = useState('');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [issuedPasswords, setIssuedPasswords] = useState<IssuedPassword[]>([]);
+  const [migrationErrors, setMigrationErrors] = useState<MigrationResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const legacyUsers = useMemo(() => users.filter(u => !u.authUid), [users]);
+  const visibleUsers = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return users
+      .filter(u => !q || u.username.toLowerCase().includes(q))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }, [users, search]);
+
+  const handleMigrate = async () => {
+    if (!window.confirm(`Creare gli account di accesso per ${legacyUsers.length} utenti e cancellare le vecchie password da Firestore?`)) return;
+    setIsMigrating(true);
+    setError(null);
+    try {
+      const results = await migrateLegacyUsers(legacyUsers);
+      setIssuedPasswords(prev => [
+        ...results
+          .filter((r): r is MigrationResult & { temporaryPassword: string } => !!r.temporaryPassword)
+          .map(r => ({ username: r.username, temporaryPassword: r.temporaryPassword })),
+        ...prev,
+      ]);
+      setMigrationErrors(results.filter(r => r.error));
+    } catch (err) {
+      console.error('Errore migrazione account', err);
+      setError('Migrazione non riuscita. Riprova.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleReset = async (user: User) => {
+    if (!window.confirm(`Reimpostare la password di ${user.username}? La password attuale smetterà di funzionare.`)) return;
+    setBusyUserId(user.id);
+    setError(null);
+    try {
+      const temporaryPassword = await resetUserPassword(user);
+      setIssuedPasswords(prev => [{ username: user.username, temporaryPassword }, ...prev]);
+    } catch (err) {
+      console.error('Errore reset password', err);
+      setError(`Reset della password di ${user.username} non riuscito.`);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="bg-secondary rounded-xl shadow-lg p-6">
+        <h2 className="text-3xl font-bold text-accent">Account utenti</h2>
+        <p className="text-text-secondary mt-1">
+          Accessi gestiti da Firebase Auth. Le password temporanee vanno comunicate all'utente, che dovrà cambiarle al primo accesso.
+        </p>
+      </div>
+
+      {legacyUsers.length > 0 && (
+        <div className="bg-secondary rounded-xl shadow-lg p-6 border-l-4 border-yellow-500">
+          <h3 className="text-xl font-semibold mb-2">Migrazione account</h3>
+          <p className="text-sm text-text-secondary mb-4">
+            {legacyUsers.length} utenti hanno ancora la password salvata in chiaro. Non possono accedere finché non vengono migrati: la migrazione crea il loro account con una password temporanea e cancella quella vecchia da Firestore.
+          </p>
+          <button
+            type="button"
+            onClick={handleMigrate}
+            disabled={isMigrating}
+            className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-60"
+          >
+            {isMigrating ? 'Migrazione in corso...' : 'Migra account'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {migrationErrors.length > 0 && (
+        <div className="bg-secondary rounded-xl shadow-lg p-6">
+          <h3 className="text-lg font-semibold text-red-400 mb-2">Account non migrati</h3>
+          <ul className="text-sm space-y-1">
+            {migrationErrors.map(r => <li key={r.userId}>{r.username}: {r.error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {issuedPasswords.length > 0 && (
+        <div className="bg-secondary rounded-xl shadow-lg p-6">
+          <h3 className="text-lg font-semibold mb-2">Password temporanee</h3>
+          <p className="text-xs text-text-secondary mb-3">Visibili solo ora: annotale prima di lasciare la pagina.</p>
+          <ul className="text-sm space-y-1">
+            {issuedPasswords.map((p, i) => (
+              <li key={`${p.username}-${i}`} className="flex justify-between gap-4 p-2 rounded bg-primary/50">
+                <span>{p.username}</span>
+                <code className="font-mono text-accent">{p.temporaryPassword}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-secondary rounded-xl shadow-lg p-6">
+        <input
+          type="search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Cerca utente"
+          className="w-full sm:w-72 bg-primary border border-tertiary rounded-lg p-2 mb-4"
+        />
+        <ul className="divide-y divide-tertiary/40">
+          {visibleUsers.map(user => (
+            <li key={user.id} className="py-3 flex flex-wrap items-center justify-between gap-3 text-sm">
+              <div>
+                <div className="font-semibold">{user.username}</div>
+                <div className="text-xs text-text-secondary">
+                  {user.role === 'organizer' ? 'Organizzatore' : 'Partecipante'}
+                  {' • '}
+                  {!user.authUid ? 'da migrare' : user.mustChangePassword ? 'password temporanea' : 'attivo'}
+                </div>
+              </div>
+              {user.authUid && user.id !== currentUserId && (
+                <button
+                  type="button"
+                  onClick={() => handleReset(user)}
+                  disabled={busyUserId !== null}
+                  className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-semibold py-1 px-3 rounded-lg text-xs disabled:opacity-50"
+                >
+                  {busyUserId === user.id ? 'Reset...' : 'Reimposta password'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default AccountsAdmin;
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { collection, addDoc, deleteDoc, doc, getDocs, query, updateDoc, where, writeBatch } from 'firebase/firestore';
-import { db } from '../firebase';
+import { createParticipantUser } from '../services/authService';
+import { repository } from '../services/dataRepository';
 import { type Event, type Player, type SummerRankingData } from '../types';
 import {
   generateRulesText,
@@ -131,13 +131,11 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
       rankingData: sanitizeRankingDataForFirestore(nextRankingData),
     };
 
-    const batch = writeBatch(db);
-    batch.update(doc(db, 'players', player.id), {
+    await repository.players.update(player.id, {
       summerRankingStartPoints: startPoints,
       summerRankingJoinedAt: joinedAt,
     });
-    batch.update(doc(db, 'events', rankingEvent.id), eventPayload);
-    await batch.commit();
+    await repository.events.update(rankingEvent.id, eventPayload);
 
     setEvents(prev =>
       prev.map(item => item.id === rankingEvent.id ? {
@@ -179,7 +177,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
     if (!event || event.players.some(existing => existing.id === player.id)) return;
 
     if ((player.summerRankingStartPoints ?? 0) !== startPoints) {
-      await updateDoc(doc(db, 'players', player.id), {
+      await repository.players.update(player.id, {
         summerRankingStartPoints: startPoints,
         summerRankingJoinedAt: player.summerRankingJoinedAt ?? new Date().toISOString(),
       });
@@ -198,7 +196,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
     setEvents(prev =>
       prev.map(item => item.id === event.id ? { ...item, players: updatedPlayers } : item),
     );
-    await updateDoc(doc(db, 'events', event.id), { players: updatedPlayers });
+    await repository.events.update(event.id, { players: updatedPlayers });
   };
 
   const handleSaveLevelPoints = async (player: Player) => {
@@ -219,7 +217,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
 
     const joinedAt = player.summerRankingJoinedAt ?? new Date().toISOString();
     try {
-      await updateDoc(doc(db, 'players', player.id), {
+      await repository.players.update(player.id, {
         summerRankingStartPoints: startPoints,
         summerRankingJoinedAt: joinedAt,
       });
@@ -246,7 +244,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
             return update ? { ...event, players: update.players } : event;
           }),
         );
-        await Promise.all(eventsToPersist.map(event => updateDoc(doc(db, 'events', event.id), { players: event.players })));
+        await Promise.all(eventsToPersist.map(event => repository.events.update(event.id, { players: event.players })));
       }
     } catch (error) {
       console.error('Errore salvataggio punti livello', error);
@@ -268,17 +266,11 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
     });
   }, [players]);
 
-  const ensureUserForPlayer = async (playerId: string, username: string) => {
-    const usersRef = collection(db, 'users');
-    const userSnap = await getDocs(query(usersRef, where('username', '==', username)));
-    if (!userSnap.empty) return;
-
-    await addDoc(usersRef, {
-      username,
-      password: '1234',
-      role: 'participant',
-      playerId,
-    });
+  // restituisce la password temporanea se l'utente è stato creato ora
+  const ensureUserForPlayer = async (playerId: string, username: string): Promise<string | null> => {
+    const existingUsers = await repository.users.findByUsername(username);
+    if (existingUsers.length > 0) return null;
+    return createParticipantUser(username, playerId);
   };
 
   const handleCreatePlayer = async (event: React.FormEvent) => {
@@ -289,15 +281,13 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
       const trimmedName = newPlayerName.trim();
       const trimmedPhone = newPlayerPhone.trim();
       const startPoints = Number(newPlayerStartPoints || 0);
-      const playersRef = collection(db, 'players');
-      const existingSnap = await getDocs(query(playersRef, where('name', '==', trimmedName), where('phone', '==', trimmedPhone)));
+      const existingPlayer = await repository.players.findByNameAndPhone(trimmedName, trimmedPhone);
 
       let playerId: string;
-      if (!existingSnap.empty) {
-        const existingDoc = existingSnap.docs[0];
-        playerId = existingDoc.id;
+      if (existingPlayer) {
+        playerId = existingPlayer.id;
       } else {
-        const createdRef = await addDoc(playersRef, {
+        playerId = await repository.players.create({
           name: trimmedName,
           phone: trimmedPhone,
           avatar: createInitialsAvatar(trimmedName),
@@ -305,7 +295,6 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
           summerRankingStartPoints: startPoints,
           summerRankingJoinedAt: new Date().toISOString(),
         });
-        playerId = createdRef.id;
       }
 
       const createdPlayer: Player = {
@@ -317,7 +306,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
         summerRankingStartPoints: startPoints,
       };
 
-      await ensureUserForPlayer(playerId, trimmedName);
+      const temporaryPassword = await ensureUserForPlayer(playerId, trimmedName);
       const playerForActions = players.find(player => player.id === playerId) ?? createdPlayer;
       if (addNewPlayerToRanking) {
         await addPlayerToRanking(playerForActions, startPoints);
@@ -329,7 +318,12 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
       setNewPlayerName('');
       setNewPlayerPhone('');
       setNewPlayerStartPoints('0');
-      setFeedback({ type: 'success', message: 'Giocatore creato correttamente.' });
+      setFeedback({
+        type: 'success',
+        message: temporaryPassword
+          ? `Giocatore creato correttamente. Password temporanea di ${trimmedName}: ${temporaryPassword} (da cambiare al primo accesso).`
+          : 'Giocatore creato correttamente.',
+      });
     } catch (error) {
       console.error('Errore creazione giocatore', error);
       setFeedback({ type: 'error', message: 'Impossibile creare il giocatore. Riprova.' });
@@ -370,7 +364,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
     setEditLoading(true);
     try {
       const joinedAt = editingPlayer.summerRankingJoinedAt ?? new Date().toISOString();
-      await updateDoc(doc(db, 'players', editingPlayer.id), {
+      await repository.players.update(editingPlayer.id, {
         name: normalizedName,
         phone: normalizedPhone,
         summerRankingStartPoints: normalizedPoints,
@@ -398,7 +392,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
         await Promise.all(
           updatedEvents
             .filter(event => event.players.some(player => player.id === editingPlayer.id))
-            .map(event => updateDoc(doc(db, 'events', event.id), { players: event.players })),
+            .map(event => repository.events.update(event.id, { players: event.players })),
         );
       }
 
@@ -416,10 +410,9 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
     if (!window.confirm(`Eliminare definitivamente ${player.name}?`)) return;
     setDeletingPlayerId(player.id);
     try {
-      const usersRef = collection(db, 'users');
-      const linkedUsersSnap = await getDocs(query(usersRef, where('playerId', '==', player.id)));
-      await Promise.all(linkedUsersSnap.docs.map(userDoc => deleteDoc(userDoc.ref)));
-      await deleteDoc(doc(db, 'players', player.id));
+      const linkedUsers = await repository.users.findByPlayerId(player.id);
+      await Promise.all(linkedUsers.map(user => repository.users.remove(user.id)));
+      await repository.players.remove(player.id);
 
       const eventsToPersist: Array<{ id: string; players: Player[]; rankingData?: SummerRankingData }> = [];
       const localUpdatesByEventId = new Map<string, { players: Player[]; rankingData?: SummerRankingData }>();
@@ -474,7 +467,7 @@ const AdminPlayersView: React.FC<AdminPlayersViewProps> = ({
 
       await Promise.all(
         eventsToPersist.map(event =>
-          updateDoc(doc(db, 'events', event.id), {
+          repository.events.update(event.id, {
             players: event.players,
             ...(event.rankingData ? { rankingData: event.rankingData } : {}),
           }),
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { type AuditLogEntry } from '../types';
+import { subscribeAuditLog } from '../services/auditLogService';
+import { AUDIT_ACTION_LABELS, AUDIT_SOURCE_LABELS, canRevertAuditEntry, formatAuditResult } from '../utils/auditLog';
+
+interface AuditLogPanelProps {
+  eventId: string;
+  // solo l'organizzatore può annullare una modifica
+  onRevert?: (entry: AuditLogEntry) => Promise<void>;
+}
+
+const formatAuditTime = (iso: string) => {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}, ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ eventId, onRevert }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [userFilter, setUserFilter] = useState('');
+  const [matchFilter, setMatchFilter] = useState('');
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeAuditLog(eventId, setEntries), [eventId]);
+
+  const users = useMemo(
+    () => Array.from(new Map<string, string>(entries.map(e => [e.userId, e.userName])).entries()).sort((a, b) => a[1].localeCompare(b[1])),
+    [entries],
+  );
+  const matches = useMemo(
+    () => Array.from(new Map<string, string>(entries.map(e => [e.matchId, e.matchLabel])).entries()).sort((a, b) => a[1].localeCompare(b[1])),
+    [entries],
+  );
+  const visibleEntries = entries.filter(e =>
+    (!userFilter || e.userId === userFilter) && (!matchFilter || e.matchId === matchFilter));
+  const revertedIds = useMemo(() => new Set(entries.map(e => e.revertOf).filter(Boolean)), [entries]);
+
+  const handleRevert = async (entry: AuditLogEntry) => {
+    if (!onRevert) return;
+    setRevertingId(entry.id);
+    setError(null);
+    try {
+      await onRevert(entry);
+    } catch (err) {
+      console.error('Errore annullamento modifica', err);
+      setError(`Annullamento non riuscito: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-2">Storico modifiche</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Ogni salvataggio o cancellazione di un risultato, con autore, orario, punteggio precedente e nuovo.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-text-secondary">Utente</span>
+          <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary">
+            <option value="">Tutti</option>
+            {users.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-text-secondary">Partita</span>
+          <select value={matchFilter} onChange={e => setMatchFilter(e.target.value)} className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary">
+            <option value="">Tutte</option>
+            {matches.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-text-secondary italic text-sm">Nessuna modifica registrata.</p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="p-3 rounded-lg bg-primary/50 text-sm flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <div className="font-semibold">
+                  {entry.matchLabel}: {formatAuditResult(entry.before)} → {formatAuditResult(entry.after)}
+                </div>
+                <div className="text-xs text-text-secondary">
+                  {formatAuditTime(entry.createdAt)} • {entry.userName} • {AUDIT_ACTION_LABELS[entry.action]} • {AUDIT_SOURCE_LABELS[entry.source]}
+                </div>
+              </div>
+              {onRevert && canRevertAuditEntry(entry) && (
+                revertedIds.has(entry.id) ? (
+                  <span className="text-xs italic text-text-secondary">Annullata</span>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={revertingId !== null}
+                    onClick={() => handleRevert(entry)}
+                    className="bg-tertiary hover:bg-tertiary/90 text-text-primary font-bold py-1 px-3 rounded-lg text-xs disabled:opacity-50"
+                  >
+                    Annulla modifica
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
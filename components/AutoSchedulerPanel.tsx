@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { repository } from "../services/dataRepository";
+import { type Event, type Venue } from '../types';
+import { getDateUnavailabilitiesForPlayers, getSlotPreferencesForPlayers } from '../services/availabilityService';
+import { getCompetitorName } from '../utils/padel';
+import { getPlayerBookings, getProposalBookings } from '../utils/playerConflicts';
+import {
+  getBookedSlotIds,
+  getBusyTimesByPlayer,
+  getSchedulableMatches,
+  proposeSchedule,
+  type ScheduleAssignment,
+  type ScheduleProposal,
+} from '../utils/scheduler';
+import { assignSlotCourt, getCourtBookings, getCourtIssue } from '../utils/venues';
+
+interface AutoSchedulerPanelProps {
+  event: Event;
+  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
+  allEvents: Event[];
+  venues: Venue[];
+}
+
+const formatSlotTime = (iso: string) => {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}, ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const AutoSchedulerPanel: React.FC<AutoSchedulerPanelProps> = ({ event, setEvents, allEvents, venues }) => {
+  const [tournamentId, setTournamentId] = useState('');
+  const [matchDuration, setMatchDuration] = useState(90);
+  const [minRest, setMinRest] = useState(60);
+  const [proposal, setProposal] = useState<ScheduleProposal | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getTournament = (id: string) => event.tournaments.find(t => t.id === id);
+  const describeMatch = (tId: string, groupId: string, player1Id: string, player2Id: string) => {
+    const tournament = getTournament(tId);
+    const group = tournament?.groups.find(g => g.id === groupId);
+    const names = tournament
+      ? `${getCompetitorName(event, tournament, player1Id)} vs ${getCompetitorName(event, tournament, player2Id)}`
+      : `${player1Id} vs ${player2Id}`;
+    return { names, context: `${tournament?.name ?? ''} • ${group?.name ?? ''}` };
+  };
+
+  const handlePropose = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const matches = getSchedulableMatches(event, tournamentId || undefined);
+      const bookedSlotIds = getBookedSlotIds(event);
+      const now = Date.now();
+      // esclude anche i campi già occupati in altri eventi o con l'impianto chiuso
+      const courtBookings = getCourtBookings(allEvents);
+      const slots = (event.globalTimeSlots ?? []).filter(slot => {
+        const time = new Date(slot.start).getTime();
+        if (isNaN(time) || time <= now || bookedSlotIds.has(slot.id)) return false;
+        return !slot.courtId || !getCourtIssue(courtBookings, venues, slot.courtId, slot.start, matchDuration);
+      });
+      const playerIds = Array.from(new Set(matches.flatMap(m => m.playerIds)));
+      const [preferences, unavailabilities] = await Promise.all([
+        getSlotPreferencesForPlayers(playerIds),
+        getDateUnavailabilitiesForPlayers(playerIds),
+      ]);
+
+      const preferredSlots: Record<string, Set<string>> = {};
+      preferences.filter(p => p.isPreferred).forEach(p => { (preferredSlots[p.playerId] ??= new Set()).add(p.slotId); });
+      const unavailableDates: Record<string, Set<string>> = {};
+      unavailabilities.filter(u => u.unavailable).forEach(u => { (unavailableDates[u.playerId] ??= new Set()).add(u.date); });
+
+      setProposal(proposeSchedule({
+        matches,
+        slots,
+        // partite e proposte attive dei giocatori in tutti gli eventi, non solo in questo
+        busyTimes: getBusyTimesByPlayer([...getPlayerBookings(allEvents), ...getProposalBookings(allEvents)]),
+        preferredSlots,
+        unavailableDates,
+        matchDurationMinutes: matchDuration,
+        minRestMinutes: minRest,
+      }));
+      setExcluded(new Set());
+    } catch (err: any) {
+      console.error('Errore calcolo calendario automatico', err);
+      setError(err?.message || 'Errore durante il calcolo della proposta');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleExcluded = (matchId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(matchId)) next.delete(matchId);
+      else next.add(matchId);
+      return next;
+    });
+  };
+
+  // Applica tutta la proposta con un'unica scrittura sul documento evento
+  const handleApply = async () => {
+    if (!proposal) return;
+    const accepted = proposal.assignments.filter(a => !excluded.has(a.match.id));
+    if (accepted.length === 0) return;
+    const byMatchId = new Map<string, ScheduleAssignment>(accepted.map(a => [a.match.id, a]));
+
+    const updatedTournaments = event.tournaments.map(t => ({
+      ...t,
+      groups: t.groups.map(g => ({
+        ...g,
+        matches: (g.matches ?? []).map(m => {
+          const assignment = byMatchId.get(m.id);
+          if (!assignment || assignment.tournamentId !== t.id || assignment.groupId !== g.id || m.status !== 'pending') return m;
+          return {
+            ...assignSlotCourt(m, assignment.slot),
+            status: 'scheduled' as const,
+            scheduledTime: new Date(assignment.slot.start).toISOString(),
+            location: assignment.slot.location ?? '',
+            field: assignment.slot.field ?? (assignment.slot.location ?? ''),
+            slotId: assignment.slot.id,
+          };
+        }),
+      })),
+    }));
+
+    setLoading(true);
+    setError(null);
+    try {
+      // se intanto uno slot è stato preso o una partita cambiata non si salva nulla: il messaggio lo spiega
+      await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+      setProposal(null);
+    } catch (err: any) {
+      console.error('Errore applicazione calendario automatico', err);
+      setError(err?.message || 'Errore durante il salvataggio del calendario');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acceptedCount = proposal ? proposal.assignments.filter(a => !excluded.has(a.match.id)).length : 0;
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-2">Calendario automatico</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Assegna le partite dei gironi da giocare agli slot globali liberi, privilegiando gli slot preferiti dai giocatori ed evitando le date in cui non sono disponibili.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-text-secondary">Torneo</span>
+          <select
+            value={tournamentId}
+            onChange={e => { setTournamentId(e.target.value); setProposal(null); }}
+            className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+          >
+            <option value="">Tutti i tornei</option>
+            {event.tournaments.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-text-secondary">Durata partita (minuti)</span>
+          <input
+            type="number"
+            min={0}
+            value={matchDuration}
+            onChange={e => { setMatchDuration(Math.max(0, parseInt(e.target.value, 10) || 0)); setProposal(null); }}
+            className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-text-secondary">Riposo minimo tra due partite (minuti)</span>
+          <input
+            type="number"
+            min={0}
+            value={minRest}
+            onChange={e => { setMinRest(Math.max(0, parseInt(e.target.value, 10) || 0)); setProposal(null); }}
+            className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+          />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        onClick={handlePropose}
+        disabled={loading}
+        className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-tertiary"
+      >
+        {loading && !proposal ? 'Calcolo...' : 'Calcola proposta'}
+      </button>
+      {error && <div className="text-red-400 mt-2">{error}</div>}
+
+      {proposal && (
+        <div className="mt-6 space-y-4">
+          <div>
+            <h4 className="font-semibold mb-2">Modifiche proposte ({proposal.assignments.length})</h4>
+            {proposal.assignments.length === 0 ? (
+              <p className="text-text-secondary italic text-sm">Nessuna partita può essere programmata.</p>
+            ) : (
+              <ul className="space-y-2">
+                {proposal.assignments.map(assignment => {
+                  const { names, context } = describeMatch(assignment.tournamentId, assignment.groupId, assignment.match.player1Id, assignment.match.player2Id);
+                  const isExcluded = excluded.has(assignment.match.id);
+                  return (
+                    <li key={assignment.match.id} className={`flex items-start gap-3 p-2 rounded-lg border-l-4 ${isExcluded ? 'border-tertiary bg-tertiary/20 opacity-60' : 'border-green-500 bg-green-500/10'}`}>
+                      <input type="checkbox" checked={!isExcluded} onChange={() => toggleExcluded(assignment.match.id)} className="mt-1" />
+                      <div className="text-sm">
+                        <div className="font-semibold">{names}</div>
+                        <div className="text-xs text-text-secondary">{context}</div>
+                        <div>
+                          <span className="text-text-secondary">da giocare</span>
+                          {' → '}
+                          <span className="font-semibold">{formatSlotTime(assignment.slot.start)}</span>
+                          {' • '}{assignment.slot.location}{assignment.slot.field ? ` • ${assignment.slot.field}` : ''}
+                        </div>
+                        {assignment.preferredBy > 0 && (
+                          <div className="text-xs text-green-400">Slot preferito da {assignment.preferredBy} su {assignment.playerIds.length}</div>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {proposal.unscheduled.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2">Non programmabili ({proposal.unscheduled.length})</h4>
+              <ul className="space-y-1 text-sm">
+                {proposal.unscheduled.map(item => {
+                  const { names, context } = describeMatch(item.tournamentId, item.groupId, item.match.player1Id, item.match.player2Id);
+                  return (
+                    <li key={item.match.id} className="text-text-secondary">
+                      <span className="text-text-primary">{names}</span> ({context}): {item.reason}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setProposal(null)} className="bg-tertiary px-4 py-2 rounded">Scarta</button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={loading || acceptedCount === 0}
+              className="bg-green-600 hover:bg-green-700 text-white font-bold px-4 py-2 rounded disabled:bg-tertiary"
+            >
+              {loading ? 'Salvando...' : `Applica ${acceptedCount} prenotazioni`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoSchedulerPanel;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { type Group, type Player, type TournamentSettings } from '../types';
+import { buildSeededSlots, getTotalRounds, rankQualifiersForSeeding, type BracketQualifier } from '../utils/seeding';
+
+interface AutoSeedingPanelProps {
+  qualifiers: BracketQualifier[];
+  bracketSize: number;
+  groups: Group[];
+  players: Player[];
+  settings: TournamentSettings;
+  onApply: (slots: string[]) => void;
+}
+
+const getProtectedRoundLabel = (protectedRounds: number) => {
+  if (protectedRounds === 1) return 'Finale';
+  if (protectedRounds === 2) return 'Semifinali';
+  if (protectedRounds === 3) return 'Quarti di Finale';
+  return `${protectedRounds}° turno dalla fine`;
+};
+
+const AutoSeedingPanel: React.FC<AutoSeedingPanelProps> = ({ qualifiers, bracketSize, groups, players, settings, onApply }) => {
+  const totalRounds = getTotalRounds(bracketSize);
+  const [protectedRounds, setProtectedRounds] = useState(2);
+  const [message, setMessage] = useState('');
+
+  if (bracketSize < 2) return null;
+
+  const handleSeed = () => {
+    const seeds = rankQualifiersForSeeding(qualifiers, groups, players, settings);
+    const result = buildSeededSlots(seeds, bracketSize, Math.min(protectedRounds, totalRounds));
+    onApply(result.slots);
+    setMessage(result.relaxed
+      ? `Separazione non possibile: giocatori dello stesso girone possono incontrarsi dal turno ${result.earliestSameGroupRound}.`
+      : 'Teste di serie assegnate. Puoi ancora modificare gli slot a mano.');
+  };
+
+  return (
+    <div className="bg-primary/40 border border-tertiary/60 rounded-lg p-4 mb-6">
+      <h4 className="text-lg font-bold text-accent mb-2">Teste di serie automatiche</h4>
+      <p className="text-xs text-text-secondary mb-3">
+        I primi classificati sono ordinati per media punti tra i gironi, i bye vanno alle teste di serie più alte.
+      </p>
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm flex-1">
+          <span className="text-text-secondary">Stesso girone non prima di</span>
+          <select
+            value={protectedRounds}
+            onChange={e => setProtectedRounds(parseInt(e.target.value, 10) || 0)}
+            className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+          >
+            <option value={0}>Nessun vincolo</option>
+            {[...Array(totalRounds).keys()].map(i => (
+              <option key={i + 1} value={i + 1}>{getProtectedRoundLabel(i + 1)}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleSeed}
+          className="bg-accent hover:bg-accent/80 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          Assegna automaticamente
+        </button>
+      </div>
+      {message && <p className="text-xs text-text-secondary mt-3">{message}</p>}
+    </div>
+  );
+};
+
+export default AutoSeedingPanel;
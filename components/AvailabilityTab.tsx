@@ -7,8 +7,7 @@ import {
   setDateUnavailability,
   removeDateUnavailability,
 } from "../services/availabilityService";
-import { db } from "../firebase";
-import { collection, query, where, onSnapshot } from "firebase/firestore";
+import { repository } from "../services/dataRepository";
 
 /**
  * AvailabilityTab (persistent + realtime)
@@ -21,6 +20,7 @@ import { collection, query, where, onSnapshot } from "firebase/firestore";
  *
  * - Robust slot discovery: unisce tournament.timeSlots + event.globalTimeSlots,
  *   normalizza id e start date, deduplica e filtra solo quelli futuri non prenotati.
+ *   Gli slot arrivano già migrati (schema v2): il vecchio campo "time" è diventato "start".
  *
  * Questo assicura che dopo che una scrittura è stata effettuata essa sia vista immediatamente dalla UI e sopravviva al reload.
  */
@@ -69,7 +69,7 @@ function normalizeSlotIdRaw(s: any) {
   if (s.slotId) return String(s.slotId);
   if (s.timeSlotId) return String(s.timeSlotId);
   // fallback composite key (start|location|field)
-  const start = s.start ?? s.time ?? s.datetime ?? s.date ?? "";
+  const start = s.start ?? s.datetime ?? s.date ?? "";
   const loc = s.location ?? "";
   const field = s.field ?? "";
   return `${String(start)}|${loc}|${field}`;
@@ -77,7 +77,7 @@ function normalizeSlotIdRaw(s: any) {
 
 function parseStartToMsRaw(s: any) {
   if (!s) return NaN;
-  const raw = s.start ?? s.time ?? s.datetime ?? s.date ?? s;
+  const raw = s.start ?? s.datetime ?? s.date ?? s;
   // number?
   if (typeof raw === "number") {
     return raw < 1e12 ? raw * 1000 : raw;
@@ -180,7 +180,7 @@ export default function AvailabilityTab({ event, tournament, selectedGroup, logg
   const dateKeys = useMemo(() => {
     const set = new Set<string>();
     futureSlots.forEach(s => {
-      const startIso = (s as any).start ?? (s as any).time ?? (s as any)._startMs ?? null;
+      const startIso = s.start ?? s._startMs ?? null;
       const key = formatDateKeyFromIso(startIso ?? undefined);
       if (key) set.add(key);
     });
@@ -191,7 +191,7 @@ export default function AvailabilityTab({ event, tournament, selectedGroup, logg
   const dateSlotsMap = useMemo(() => {
     const m: Record<string, TimeSlot[]> = {};
     futureSlots.forEach(s => {
-      const startIso = (s as any).start ?? (s as any).time ?? (s as any)._startMs ?? null;
+      const startIso = s.start ?? s._startMs ?? null;
       const key = formatDateKeyFromIso(startIso ?? undefined);
       if (!key) return;
       if (!m[key]) m[key] = [];
@@ -224,55 +224,26 @@ export default function AvailabilityTab({ event, tournament, selectedGroup, logg
     setLoading(true);
     const unsubscribes: (() => void)[] = [];
 
-    // Firestore 'in' supports up to 10 values — chunk participantIds
-    const CHUNK = 10;
-    for (let i = 0; i < participantIds.length; i += CHUNK) {
-      const chunk = participantIds.slice(i, i + CHUNK);
-
-      // slot preferences listener
-      const prefCol = collection(db, "slot_preferences");
-      const prefQ = query(prefCol, where("playerId", "in", chunk));
-      const unsubPref = onSnapshot(prefQ, snap => {
-        setSlotPrefMap(prevMap => {
-          const copy = { ...(prevMap || {}) };
-          // reset entries for players present in this chunk
-          chunk.forEach(pid => { copy[pid] = new Set<string>(); });
-          snap.docs.forEach(d => {
-            const data = d.data() as any;
-            const pid = data.playerId as string;
-            const slotId = data.slotId as string;
-            const isPreferred = data.isPreferred === true;
-            if (!copy[pid]) copy[pid] = new Set<string>();
-            if (isPreferred) copy[pid].add(slotId);
-            else copy[pid].delete(slotId);
-          });
-          return copy;
-        });
+    // le liste arrivano complete: le mappe si ricostruiscono a ogni notifica
+    unsubscribes.push(repository.availability.subscribeSlotPreferences(participantIds, prefs => {
+      const map: Record<string, Set<string>> = {};
+      participantIds.forEach(pid => { map[pid] = new Set<string>(); });
+      prefs.forEach(p => {
+        if (!map[p.playerId]) map[p.playerId] = new Set<string>();
+        if (p.isPreferred === true) map[p.playerId].add(p.slotId);
       });
-      unsubscribes.push(unsubPref);
-
-      // date unavailability listener
-      const dateCol = collection(db, "date_unavailabilities");
-      const dateQ = query(dateCol, where("playerId", "in", chunk));
-      const unsubDate = onSnapshot(dateQ, snap => {
-        setDateUnavailMap(prevMap => {
-          const copy = { ...(prevMap || {}) };
-          // reset chunk players
-          chunk.forEach(pid => { copy[pid] = new Set<string>(); });
-          snap.docs.forEach(d => {
-            const data = d.data() as any;
-            const pid = data.playerId as string;
-            const date = data.date as string;
-            const unavailable = data.unavailable === true;
-            if (!copy[pid]) copy[pid] = new Set<string>();
-            if (unavailable) copy[pid].add(date);
-            else copy[pid].delete(date);
-          });
-          return copy;
-        });
+      setSlotPrefMap(map);
+    }));
+
+    unsubscribes.push(repository.availability.subscribeDateUnavailabilities(participantIds, entries => {
+      const map: Record<string, Set<string>> = {};
+      participantIds.forEach(pid => { map[pid] = new Set<string>(); });
+      entries.forEach(d => {
+        if (!map[d.playerId]) map[d.playerId] = new Set<string>();
+        if (d.unavailable === true) map[d.playerId].add(d.date);
       });
-      unsubscribes.push(unsubDate);
-    }
+      setDateUnavailMap(map);
+    }));
 
     // when at least one listener attached mark loading false after a tick
     const id = setTimeout(() => setLoading(false), 200);
@@ -397,12 +368,12 @@ export default function AvailabilityTab({ event, tournament, selectedGroup, logg
                         const slotsForDate = dateSlotsMap[dk] ?? [];
                         const selectedSlotIds = Array.from(slotPrefMap[p.id] ?? new Set<string>());
                         const selectedSlotsOnDate = slotsForDate.filter(s => {
-                          const sid = (s as any).id ?? (s as any).time ?? JSON.stringify(s);
+                          const sid = s.id;
                           return selectedSlotIds.includes(sid);
                         });
 
                         // Create unique hh:mm list so same start times across fields are shown only once
-                        const uniqueTimes = Array.from(new Set(selectedSlotsOnDate.map(s => formatHHMMFromIso((s as any).start ?? (s as any).time ?? ""))));
+                        const uniqueTimes = Array.from(new Set(selectedSlotsOnDate.map(s => formatHHMMFromIso(s.start))));
                         const sortedTimes = sortHHMMArray(uniqueTimes.filter(Boolean));
 
                         return (
@@ -442,15 +413,15 @@ export default function AvailabilityTab({ event, tournament, selectedGroup, logg
             ) : (
               <div className="space-y-4">
                 {futureSlots.map(slot => {
-                  const slotId = (slot as any).id ?? (slot as any).time ?? JSON.stringify(slot);
-                  const slotDateKey = formatDateKeyFromIso((slot as any).start ?? (slot as any).time ?? "");
+                  const slotId = slot.id;
+                  const slotDateKey = formatDateKeyFromIso(slot.start);
                   const myDateUnavail = loggedInPlayerId ? isParticipantUnavailableOn(loggedInPlayerId, slotDateKey) : false;
                   const interested = participants.filter(p => slotPrefMap[p.id]?.has(slotId)).map(p => p.name);
                   const myPref = loggedInPlayerId ? (slotPrefMap[loggedInPlayerId]?.has(slotId) ?? false) : false;
-                  const startIso = (slot as any).start ?? (slot as any).time ?? "";
+                  const startIso = slot.start;
                   const hhmm = formatHHMMFromIso(startIso); // e.g. "08:00"
-                  const location = (slot as any).location ?? "";
-                  const field = (slot as any).field ?? "";
+                  const location = slot.location ?? "";
+                  const field = slot.field ?? "";
                   return (
                     <div key={slotId} className="bg-primary p-3 rounded-lg border border-tertiary flex flex-col md:flex-row md:items-center md:justify-between gap-3">
                       <div>
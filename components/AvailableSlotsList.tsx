@@ -54,7 +54,7 @@ const AvailableSlotsList: React.FC<Props> = ({
   const availableSlots = (event.globalTimeSlots || []).filter(slot => {
     if (bookedIds.includes(slot.id)) return false;
 
-    const start = (slot as any).start ?? (slot as any).time ?? null;
+    const start = slot.start || null;
     if (!start) return false;
 
     const d = new Date(start);
@@ -1,16 +1,25 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { type Event, type Tournament, type Player, type PlayoffBracket, type PlayoffMatch, type Match } from '../types';
 import { calculateStandings } from '../utils/standings';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
-import { getTournamentCompetitors } from '../utils/padel';
+import { isWriteConflict, repository } from "../services/dataRepository";
+import { getCompetitorName, getTournamentCompetitors } from '../utils/padel';
+import { buildMatchResultFromDraft, createEmptyScoreDraft, createScoreDraft, EMPTY_MATCH_RESULT, formatSideScore, getWinnerSide, hasMatchResult, KNOCKOUT_RESULT_TYPES, type ScoreDraft } from '../utils/score';
+import { correctBracketMatch, dropInvalidatedLeagueMatches, syncLeagueMatchesWithBracket } from '../utils/bracket';
+import ScoreEditor from './ScoreEditor';
+import CrossGroupComparisonTable from './CrossGroupComparisonTable';
+import AutoSeedingPanel from './AutoSeedingPanel';
+import { rankCrossGroupCandidates, type GroupStandings } from '../utils/qualification';
+import { buildResultAuditEntry, type AuditActor } from '../utils/auditLog';
+import { appendAuditEntry } from '../services/auditLogService';
+import { type EventPermissions } from '../services/permissionService';
 
 interface ConsolationBracketProps {
     event: Event;
     tournament: Tournament;
     setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-    isOrganizer: boolean;
+    permissions: EventPermissions;
     loggedInPlayerId?: string;
+    auditActor: AuditActor;
 }
 
 function consolationMatchToLeagueMatchId(conMatchId: string) {
@@ -25,20 +34,29 @@ function buildLeagueMatchFromConsolationPlayoffMatch(pm: PlayoffMatch): Match |
     player2Id: pm.player2Id,
     score1: pm.score1,
     score2: pm.score2,
-    status: pm.score1 != null && pm.score2 != null ? 'completed' : 'pending',
+    score: pm.score ?? null,
+    resultType: pm.resultType ?? null,
+    awardedTo: pm.awardedTo ?? null,
+    status: hasMatchResult(pm) ? 'completed' : 'pending',
   };
 }
 
-const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tournament, setEvents, isOrganizer, loggedInPlayerId }) => {
+const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tournament, setEvents, permissions, loggedInPlayerId, auditActor }) => {
     const [view, setView] = useState<'setup' | 'bracket'>(tournament.consolationBracket?.isGenerated ? 'bracket' : 'setup');
     const competitors = getTournamentCompetitors(event, tournament);
     
-    const qualifiers = useMemo(() => {
+    const { qualifiers, crossGroupCandidates } = useMemo(() => {
         const allQualifiers: { playerId: string, rank: number, fromGroup: string, groupName: string }[] = [];
+        const crossGroupRule = tournament.settings.consolationCrossGroup;
+        const crossGroupPool: GroupStandings[] = [];
         tournament.groups.forEach(group => {
             const setting = tournament.settings.consolationSettings.find(s => s.groupId === group.id);
-            if (setting && setting.startRank > 0 && setting.endRank >= setting.startRank) {
-                const standings = calculateStandings(group, competitors, tournament.settings);
+            const hasRange = !!setting && setting.startRank > 0 && setting.endRank >= setting.startRank;
+            const standings = calculateStandings(group, competitors, tournament.settings);
+            if (crossGroupRule && !(hasRange && crossGroupRule.rank >= setting.startRank && crossGroupRule.rank <= setting.endRank)) {
+                crossGroupPool.push({ group, standings });
+            }
+            if (hasRange) {
                 const groupQualifiers = standings.slice(setting.startRank - 1, setting.endRank).map((entry, index) => ({
                     playerId: entry.playerId,
                     rank: setting.startRank + index,
@@ -48,7 +66,11 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
                 allQualifiers.push(...groupQualifiers);
             }
         });
-        return allQualifiers;
+        const candidates = crossGroupRule ? rankCrossGroupCandidates(crossGroupPool, crossGroupRule, tournament.settings) : [];
+        candidates.filter(c => c.qualified).forEach(c => {
+            allQualifiers.push({ playerId: c.playerId, rank: c.rank, fromGroup: c.groupId, groupName: c.groupName });
+        });
+        return { qualifiers: allQualifiers, crossGroupCandidates: candidates };
     }, [tournament, competitors]);
 
     const bracketSize = useMemo(() => {
@@ -59,8 +81,10 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
     
     const [firstRoundAssignments, setFirstRoundAssignments] = useState<(string | null)[]>([]);
     const [editingMatch, setEditingMatch] = useState<PlayoffMatch | null>(null);
-    const [score1, setScore1] = useState('');
-    const [score2, setScore2] = useState('');
+    const [scoreDraft, setScoreDraft] = useState<ScoreDraft>(createEmptyScoreDraft);
+    const [scoreError, setScoreError] = useState('');
+    // correzione di un risultato già giocato: le partite successive vanno annullate solo dopo conferma esplicita
+    const [correctionConfirmed, setCorrectionConfirmed] = useState(false);
     const [isResetModalOpen, setIsResetModalOpen] = useState(false);
 
     useEffect(() => {
@@ -83,6 +107,19 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
         });
     };
 
+    // scrittura controllata: se intanto qualcuno ha cambiato le stesse partite non si salva nulla
+    const saveTournamentsChecked = async (updatedTournaments: Tournament[], onConflict: (message: string) => void) => {
+        try {
+            await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+        } catch (err) {
+            if (!isWriteConflict(err)) throw err;
+            onConflict(err.message);
+            return false;
+        }
+        setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+        return true;
+    };
+
     const handleGenerateBracket = async () => {
         if (firstRoundAssignments.some(a => a === null)) {
             alert("Per favore, riempi tutti gli slot del primo turno.");
@@ -158,8 +195,7 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
             : t
         );
 
-        setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-        await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
         setView('bracket');
     };
@@ -179,8 +215,7 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
             : t
         );
 
-        setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-        await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
         setView('setup');
         setIsResetModalOpen(false);
@@ -189,70 +224,55 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
     const handleSaveResult = async () => {
         if (!editingMatch) return;
 
-        const s1 = parseInt(score1, 10);
-        const s2 = parseInt(score2, 10);
-        if (isNaN(s1) || isNaN(s2)) return;
+        const { result, error } = buildMatchResultFromDraft(scoreDraft);
+        if (!result) {
+          setScoreError(error ?? 'Risultato non valido.');
+          return;
+        }
+        const winnerSide = getWinnerSide(result);
 
         const currentBracket = tournament.consolationBracket;
         if (!currentBracket) return;
 
-        const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(currentBracket));
-        const match = bracketCopy.matches.find((m: PlayoffMatch) => m.id === editingMatch.id);
-        if (!match) return;
-
-        match.score1 = s1;
-        match.score2 = s2;
-
-        if (s1 === s2) {
-          alert("Pareggio non valido. Inserisci un vincitore.");
+        if (!winnerSide) {
+          setScoreError("Pareggio non valido. Inserisci un vincitore.");
           return;
         }
 
-        const winnerId = s1 > s2 ? match.player1Id : match.player2Id;
-        if (!winnerId) return;
-        match.winnerId = winnerId;
-
-        if (match.nextMatchId) {
-            const nextMatch = bracketCopy.matches.find((m: PlayoffMatch) => m.id === match.nextMatchId);
-            if (nextMatch) {
-                const allMatchesInRound = bracketCopy.matches
-                  .filter((m: PlayoffMatch) => m.round === match.round)
-                  .sort((a: PlayoffMatch, b: PlayoffMatch) => a.matchIndex - b.matchIndex);
-
-                const matchIndexInRound = allMatchesInRound.findIndex((m: PlayoffMatch) => m.id === match.id);
-                if (matchIndexInRound % 2 === 0) nextMatch.player1Id = winnerId;
-                else nextMatch.player2Id = winnerId;
-            }
+        const { bracketCopy, updatedMatch: match, affectedMatchIds } = correctBracketMatch({
+          bracket: currentBracket,
+          matchId: editingMatch.id,
+          result,
+          hasBronzeFinal: false,
+        });
+        if (!match) return;
+        if (affectedMatchIds.length > 0 && !correctionConfirmed) {
+          setScoreError("Conferma l'annullamento delle partite successive per salvare la correzione.");
+          return;
         }
 
-        const consolationMatches = Array.isArray(tournament.consolationMatches)
+        const storedConsolationMatches = Array.isArray(tournament.consolationMatches)
           ? JSON.parse(JSON.stringify(tournament.consolationMatches)) as Match[]
           : [];
+        const invalidatedMatches = storedConsolationMatches.filter(m => affectedMatchIds.some(id => consolationMatchToLeagueMatchId(id) === m.id));
+        let consolationMatches = dropInvalidatedLeagueMatches(storedConsolationMatches, affectedMatchIds, consolationMatchToLeagueMatchId);
 
         const leagueMatchId = consolationMatchToLeagueMatchId(match.id);
         const idx = consolationMatches.findIndex(m => m.id === leagueMatchId);
+        const previousMatch = idx !== -1 ? consolationMatches[idx] : buildLeagueMatchFromConsolationPlayoffMatch(editingMatch);
         if (idx !== -1) {
           consolationMatches[idx] = {
             ...consolationMatches[idx],
-            score1: s1,
-            score2: s2,
+            ...result,
             status: 'completed',
           };
         } else {
           const built = buildLeagueMatchFromConsolationPlayoffMatch(match);
-          if (built) consolationMatches.push({ ...built, score1: s1, score2: s2, status: 'completed' });
+          if (built) consolationMatches.push({ ...built, ...result, status: 'completed' });
         }
 
         // crea/aggiorna match del turno successivo se pronto
-        if (match.nextMatchId) {
-          const nextMatch = bracketCopy.matches.find(m => m.id === match.nextMatchId);
-          const builtNext = nextMatch ? buildLeagueMatchFromConsolationPlayoffMatch(nextMatch) : null;
-          if (builtNext) {
-            const nidx = consolationMatches.findIndex(m => m.id === builtNext.id);
-            if (nidx === -1) consolationMatches.push(builtNext);
-            else consolationMatches[nidx] = { ...consolationMatches[nidx], ...builtNext, score1: consolationMatches[nidx].score1 ?? null, score2: consolationMatches[nidx].score2 ?? null };
-          }
-        }
+        consolationMatches = syncLeagueMatchesWithBracket(bracketCopy, consolationMatches, consolationMatchToLeagueMatchId);
 
         const updatedTournaments = event.tournaments.map(t =>
           t.id === tournament.id
@@ -260,16 +280,39 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
             : t
         );
 
-        setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-        await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+        if (!(await saveTournamentsChecked(updatedTournaments, setScoreError))) return;
+        if (previousMatch) {
+          await appendAuditEntry(buildResultAuditEntry({
+            eventId: event.id,
+            tournamentId: tournament.id,
+            matchId: leagueMatchId,
+            matchLabel: `${getCompetitorName(event, tournament, previousMatch.player1Id)} vs ${getCompetitorName(event, tournament, previousMatch.player2Id)}`,
+            source: 'consolation',
+            actor: auditActor,
+            before: previousMatch,
+            after: { ...previousMatch, ...result, status: 'completed' },
+          }));
+        }
+        for (const invalidated of invalidatedMatches) {
+          await appendAuditEntry(buildResultAuditEntry({
+            eventId: event.id,
+            tournamentId: tournament.id,
+            matchId: invalidated.id,
+            matchLabel: `${getCompetitorName(event, tournament, invalidated.player1Id)} vs ${getCompetitorName(event, tournament, invalidated.player2Id)}`,
+            source: 'consolation',
+            actor: auditActor,
+            before: invalidated,
+            after: { ...invalidated, ...EMPTY_MATCH_RESULT, status: 'pending' },
+          }));
+        }
 
         setEditingMatch(null);
-        setScore1('');
-        setScore2('');
+        setScoreDraft(createEmptyScoreDraft());
+        setCorrectionConfirmed(false);
     };
 
     if (view === 'setup') {
-        if (!isOrganizer) return <p className="text-text-secondary text-center">Il tabellone di consolazione non è stato ancora generato.</p>;
+        if (!permissions.canManageStructure) return <p className="text-text-secondary text-center">Il tabellone di consolazione non è stato ancora generato.</p>;
         
         const unassignedPlayers = qualifiers.filter(q => !firstRoundAssignments.includes(q.playerId));
         const numByesAvailable = bracketSize - qualifiers.length;
@@ -307,6 +350,14 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
                     <h3 className="text-xl font-bold mb-2 text-accent">Costruttore Tabellone Consolazione</h3>
                     <p className="text-text-secondary mb-6">Assegna manualmente i giocatori qualificati agli slot del primo turno.</p>
                     
+                    <AutoSeedingPanel
+                        qualifiers={qualifiers}
+                        bracketSize={bracketSize}
+                        groups={tournament.groups}
+                        players={competitors}
+                        settings={tournament.settings}
+                        onApply={setFirstRoundAssignments}
+                    />
                     <div className="space-y-4">
                         {bracketSize > 0 ? Array.from({ length: bracketSize / 2 }).map((_, index) => (
                              <div key={index} className="bg-primary/50 p-4 rounded-lg flex items-center gap-4">
@@ -333,6 +384,9 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
                             <div><div className="text-2xl font-bold">{numByesAvailable}</div><div className="text-sm text-text-secondary">Bye</div></div>
                         </div>
                     </div>
+                    {tournament.settings.consolationCrossGroup && (
+                        <CrossGroupComparisonTable rule={tournament.settings.consolationCrossGroup} candidates={crossGroupCandidates} getPlayer={getPlayer} />
+                    )}
                     <h4 className="font-semibold text-lg mb-3">Giocatori da Assegnare</h4>
                      <div className="space-y-2">
                         {unassignedPlayers.length > 0 ? unassignedPlayers
@@ -371,6 +425,28 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
         return `Turno ${round}`;
     };
 
+    // anteprima della correzione: quali partite successive perdono giocatori, risultato e prenotazione
+    const correctionPreview = (() => {
+        if (!editingMatch?.winnerId || !tournament.consolationBracket) return [];
+        const { result } = buildMatchResultFromDraft(scoreDraft);
+        if (!result || !getWinnerSide(result)) return [];
+        return correctBracketMatch({
+            bracket: tournament.consolationBracket,
+            matchId: editingMatch.id,
+            result,
+            hasBronzeFinal: false,
+        }).affectedMatchIds
+            .map(id => matches.find(m => m.id === id))
+            .filter((m): m is PlayoffMatch => !!m);
+    })();
+
+    const openResultEditor = (match: PlayoffMatch) => {
+        setEditingMatch(match);
+        setScoreDraft(createScoreDraft(match));
+        setScoreError('');
+        setCorrectionConfirmed(false);
+    };
+
     const PlayerInMatch = ({ player, winnerId }: { player: Player | null; winnerId: string | null }) => {
         if (!player) return <span className="text-text-secondary">TBD</span>;
         const isWinner = winnerId === player.id;
@@ -387,22 +463,24 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
     const MatchCard = ({ match }: { match: PlayoffMatch; }) => {
         const p1 = getPlayer(match.player1Id);
         const p2 = getPlayer(match.player2Id);
-        const canEdit = isOrganizer && match.player1Id && match.player2Id && match.winnerId === null;
+        const canEdit = permissions.canManageResults && match.player1Id && match.player2Id;
+        const side1Score = formatSideScore(match, 1);
+        const side2Score = formatSideScore(match, 2);
         
         return (
             <div className={`bg-secondary p-2 rounded-lg w-full`}>
                 <div className="flex justify-between items-center text-sm">
                     <PlayerInMatch player={p1} winnerId={match.winnerId} />
-                    {match.score1 !== null && <span className={`font-bold ${match.winnerId === p1?.id ? 'text-accent' : 'text-text-primary'}`}>{match.score1}</span>}
+                    {side1Score !== null && <span className={`font-bold whitespace-nowrap ${match.winnerId === p1?.id ? 'text-accent' : 'text-text-primary'}`}>{side1Score}</span>}
                 </div>
                  <div className="border-t border-tertiary/50 my-1"></div>
                  <div className="flex justify-between items-center text-sm">
                     <PlayerInMatch player={p2} winnerId={match.winnerId} />
-                    {match.score2 !== null && <span className={`font-bold ${match.winnerId === p2?.id ? 'text-accent' : 'text-text-primary'}`}>{match.score2}</span>}
+                    {side2Score !== null && <span className={`font-bold whitespace-nowrap ${match.winnerId === p2?.id ? 'text-accent' : 'text-text-primary'}`}>{side2Score}</span>}
                 </div>
                 {canEdit && (
                     <div className="text-center mt-2">
-                        <button onClick={() => { setEditingMatch(match); setScore1(match.score1?.toString() ?? ''); setScore2(match.score2?.toString() ?? ''); }} className="text-xs bg-highlight/80 hover:bg-highlight text-white px-3 py-1 rounded-lg font-bold">Inserisci Risultato</button>
+                        <button onClick={() => openResultEditor(match)} className={`text-xs text-white px-3 py-1 rounded-lg font-bold ${match.winnerId ? 'bg-tertiary hover:bg-tertiary/80' : 'bg-highlight/80 hover:bg-highlight'}`}>{match.winnerId ? 'Correggi Risultato' : 'Inserisci Risultato'}</button>
                     </div>
                 )}
             </div>
@@ -417,7 +495,7 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
              <div className="text-center mb-6">
                  <h3 className="text-2xl font-bold text-accent">Tabellone di Consolazione</h3>
                  {winner && <div className="mt-2 text-lg text-yellow-400 font-bold animate-subtlePulse">🏆 Vincitore: {winner.name} 🏆</div>}
-                 {isOrganizer && <button onClick={() => setIsResetModalOpen(true)} className="mt-2 text-sm text-yellow-500 hover:text-yellow-400 underline">Modifica Tabellone</button>}
+                 {permissions.canManageStructure && <button onClick={() => setIsResetModalOpen(true)} className="mt-2 text-sm text-yellow-500 hover:text-yellow-400 underline">Modifica Tabellone</button>}
              </div>
              <div className="flex justify-start items-stretch gap-4 md:gap-10 overflow-x-auto pb-4 px-2">
                 {Array.from({ length: maxRound }).map((_, i) => {
@@ -447,27 +525,43 @@ const ConsolationBracket: React.FC<ConsolationBracketProps> = ({ event, tourname
                  </div>
              </div>
 
-             {isOrganizer && editingMatch && (
+             {permissions.canManageResults && editingMatch && (
                 <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fadeIn">
                     <div className="bg-secondary rounded-xl shadow-2xl p-6 w-full max-w-sm border border-tertiary">
-                        <h4 className="text-lg font-bold mb-4">Risultato Consolazione</h4>
-                        <div className="flex items-center justify-between gap-4">
-                        <span className="font-semibold">{getPlayer(editingMatch.player1Id)?.name}</span>
-                        <div className="flex gap-2">
-                            <input type="number" value={score1} onChange={e => setScore1(e.target.value)} className="w-16 text-center bg-primary p-2 rounded-lg" />
-                            <span>-</span>
-                            <input type="number" value={score2} onChange={e => setScore2(e.target.value)} className="w-16 text-center bg-primary p-2 rounded-lg" />
-                        </div>
-                        <span className="font-semibold">{getPlayer(editingMatch.player2Id)?.name}</span>
-                        </div>
+                        <h4 className="text-lg font-bold mb-4">{editingMatch.winnerId ? 'Correggi Risultato' : 'Risultato Consolazione'}</h4>
+                        <ScoreEditor
+                            draft={scoreDraft}
+                            onChange={draft => { setScoreDraft(draft); setScoreError(''); }}
+                            player1Label={getPlayer(editingMatch.player1Id)?.name ?? ''}
+                            player2Label={getPlayer(editingMatch.player2Id)?.name ?? ''}
+                            allowedResultTypes={KNOCKOUT_RESULT_TYPES}
+                        />
+                        {correctionPreview.length > 0 && (
+                            <div className="mt-4 p-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-sm">
+                                <p className="font-semibold text-yellow-400 mb-2">Cambia il vincitore: queste partite verranno annullate</p>
+                                <ul className="space-y-1 text-text-secondary">
+                                    {correctionPreview.map(m => (
+                                        <li key={m.id}>
+                                            {getRoundName(m.round)}: {getPlayer(m.player1Id)?.name ?? 'TBD'} vs {getPlayer(m.player2Id)?.name ?? 'TBD'}
+                                            {m.winnerId && m.player1Id && m.player2Id ? ' (risultato cancellato)' : ''}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <label className="flex items-start gap-2 mt-3 text-text-primary">
+                                    <input type="checkbox" checked={correctionConfirmed} onChange={e => { setCorrectionConfirmed(e.target.checked); setScoreError(''); }} className="mt-1" />
+                                    <span>Confermo: risultati e prenotazioni di queste partite verranno cancellati.</span>
+                                </label>
+                            </div>
+                        )}
+                        {scoreError && <p className="text-red-400 text-sm mt-3">{scoreError}</p>}
                         <div className="flex justify-end gap-4 mt-6">
                             <button onClick={() => setEditingMatch(null)} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-colors">Annulla</button>
-                            <button onClick={handleSaveResult} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Salva</button>
+                            <button onClick={handleSaveResult} disabled={correctionPreview.length > 0 && !correctionConfirmed} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">Salva</button>
                         </div>
                     </div>
                 </div>
             )}
-            {isOrganizer && isResetModalOpen && (
+            {permissions.canManageStructure && isResetModalOpen && (
                  <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fadeIn">
                     <div className="bg-secondary rounded-xl shadow-2xl p-6 w-full max-w-md border border-tertiary">
                         <h4 className="text-lg font-bold mb-4">Conferma Reset</h4>
@@ -0,0 +1,60 @@
+import React from 'react';
+import { type CrossGroupQualification, type Player } from '../types';
+import { CROSS_GROUP_NORMALIZATION_LABELS, type CrossGroupCandidate } from '../utils/qualification';
+
+interface CrossGroupComparisonTableProps {
+  rule: CrossGroupQualification;
+  candidates: CrossGroupCandidate[];
+  getPlayer: (id: string | null) => Player | null;
+}
+
+const CrossGroupComparisonTable: React.FC<CrossGroupComparisonTableProps> = ({ rule, candidates, getPlayer }) => {
+  const usesAverage = rule.normalization === 'pointsPerMatch';
+
+  return (
+    <div className="mb-6">
+      <h4 className="font-semibold text-lg mb-1">Migliori {rule.rank}° classificati</h4>
+      <p className="text-xs text-text-secondary mb-3">
+        Si qualificano le migliori {rule.count} • {CROSS_GROUP_NORMALIZATION_LABELS[rule.normalization]}
+      </p>
+      {candidates.length > 0 ? (
+        <div className="overflow-x-auto bg-primary/50 rounded-lg">
+          <table className="min-w-full text-sm text-left">
+            <thead className="text-xs uppercase text-text-secondary">
+              <tr>
+                <th className="px-3 py-2">#</th>
+                <th className="px-3 py-2">Giocatore</th>
+                <th className="px-2 py-2 text-center" title="Giocate">G</th>
+                <th className="px-2 py-2 text-center" title={usesAverage ? 'Media punti per partita' : 'Punti'}>{usesAverage ? 'PT/G' : 'PT'}</th>
+                <th className="px-2 py-2 text-center" title="Differenza Game">DG</th>
+                <th className="px-2 py-2 text-center" title="Game Fatti">GF</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((candidate, index) => (
+                <tr key={candidate.playerId} className={`border-t border-tertiary/50 ${candidate.qualified ? 'text-green-400' : 'text-text-secondary'}`}>
+                  <td className="px-3 py-2">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <div className="font-semibold">{getPlayer(candidate.playerId)?.name ?? candidate.playerId}</div>
+                    <div className="text-xs">
+                      {candidate.groupName}
+                      {candidate.excludedOpponents > 0 && ` • esclusi ${candidate.excludedOpponents} avversari`}
+                    </div>
+                  </td>
+                  <td className="px-2 py-2 text-center">{candidate.played}</td>
+                  <td className="px-2 py-2 text-center font-bold">{candidate.rating}</td>
+                  <td className="px-2 py-2 text-center">{candidate.goalDifference > 0 ? `+${candidate.goalDifference}` : candidate.goalDifference}</td>
+                  <td className="px-2 py-2 text-center">{candidate.goalsFor}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-text-secondary text-sm italic">Nessun girone ha un {rule.rank}° classificato da confrontare.</p>
+      )}
+    </div>
+  );
+};
+
+export default CrossGroupComparisonTable;
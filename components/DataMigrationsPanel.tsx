@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { runEventMigrations, type EventMigrationResult } from '../services/migrationService';
+import { CURRENT_SCHEMA_VERSION, EVENT_MIGRATIONS } from '../utils/schemaMigrations';
+
+const DataMigrationsPanel: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<EventMigrationResult[] | null>(null);
+  const [wasDryRun, setWasDryRun] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`Aggiornare su database tutti gli eventi alla versione ${CURRENT_SCHEMA_VERSION} dello schema?`)) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResults(await runEventMigrations({ dryRun }));
+      setWasDryRun(dryRun);
+    } catch (err) {
+      console.error('Errore migrazioni dati', err);
+      setError(dryRun ? 'Anteprima non riuscita. Riprova.' : 'Migrazione non riuscita. Riprova.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="bg-secondary rounded-xl shadow-lg p-6">
+        <h2 className="text-3xl font-bold text-accent">Migrazioni dati</h2>
+        <p className="text-text-secondary mt-1">
+          Gli eventi salvati con una versione precedente dello schema vengono aggiornati alla lettura; da qui si salvano su database. Versione corrente: {CURRENT_SCHEMA_VERSION}.
+        </p>
+        <ol className="text-sm text-text-secondary mt-3 space-y-1 list-decimal list-inside">
+          {EVENT_MIGRATIONS.map(m => <li key={m.version}>{m.description}</li>)}
+        </ol>
+        <div className="flex flex-wrap gap-3 mt-4">
+          <button
+            type="button"
+            onClick={() => run(true)}
+            disabled={isRunning}
+            className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg disabled:opacity-60"
+          >
+            Anteprima
+          </button>
+          <button
+            type="button"
+            onClick={() => run(false)}
+            disabled={isRunning}
+            className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-60"
+          >
+            {isRunning ? 'In corso...' : 'Applica'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {results && (
+        <div className="bg-secondary rounded-xl shadow-lg p-6">
+          <h3 className="text-lg font-semibold mb-2">{wasDryRun ? 'Anteprima' : 'Risultato'}</h3>
+          {results.length === 0 ? (
+            <p className="text-sm text-text-secondary">Tutti gli eventi sono già aggiornati.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {results.map(r => (
+                <li key={r.eventId} className="p-3 rounded bg-primary/50">
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <span className="font-semibold">{r.eventName || r.eventId}</span>
+                    <span className="text-xs text-text-secondary">
+                      v{r.fromVersion} → v{r.toVersion}
+                      {!wasDryRun && (r.error ? <span className="text-red-400"> • {r.error}</span> : r.applied && ' • salvato')}
+                    </span>
+                  </div>
+                  <ul className="mt-1 text-xs text-text-secondary space-y-0.5">
+                    {r.steps.flatMap(step => step.changes.map((change, i) => (
+                      <li key={`${step.version}-${i}`}>v{step.version}: {change}</li>
+                    )))}
+                    {r.steps.every(step => step.changes.length === 0) && <li>Solo aggiornamento della versione</li>}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataMigrationsPanel;
@@ -1,13 +1,11 @@
 import React, { useState } from 'react';
 import { type User, type Event } from '../types';
 import { FaceSmileIcon, LinkIcon, PhotoIcon } from './Icons';
-import { collection, query, where, getDocs, updateDoc, doc } from "firebase/firestore";
-import { db } from "../firebase";
+import { changeCurrentUserPassword } from '../utils/auth';
+import { describeAuthError, MIN_PASSWORD_LENGTH } from '../services/authService';
 
 interface EditProfileModalProps {
   user: User;
-  users: User[];
-  setUsers: React.Dispatch<React.SetStateAction<User[]>>;
   events: Event[];
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
   onClose: () => void;
@@ -15,7 +13,7 @@ interface EditProfileModalProps {
 
 const EMOJIS = ['🏓', '🎾', '⚽', '🏆', '🥇', '😎', '💪', '🔥', '🚀', '🎯', '👑', '🤖'];
 
-const EditProfileModal: React.FC<EditProfileModalProps> = ({ user, users, setUsers, events, setEvents, onClose }) => {
+const EditProfileModal: React.FC<EditProfileModalProps> = ({ user, events, setEvents, onClose }) => {
   const [activeTab, setActiveTab] = useState<'password' | 'avatar'>('password');
   
   // Password state
@@ -28,19 +26,14 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ user, users, setUse
   // Avatar state
   const [imageUrl, setImageUrl] = useState('');
 
-  // Persist password change to Firestore users collection (keeps existing local setUsers)
+  // la password vive solo in Firebase Auth: serve quella attuale per la ri-autenticazione
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setPasswordError('');
     setPasswordSuccess('');
 
-    const currentUserState = users.find(u => u.id === user.id);
-    if (!currentUserState || currentUserState.password !== oldPassword) {
-      setPasswordError('La vecchia password non è corretta.');
-      return;
-    }
-    if (newPassword.length < 4) {
-      setPasswordError('La nuova password deve essere di almeno 4 caratteri.');
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`La nuova password deve essere di almeno ${MIN_PASSWORD_LENGTH} caratteri.`);
       return;
     }
     if (newPassword !== confirmPassword) {
@@ -49,35 +42,7 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ user, users, setUse
     }
 
     try {
-      // 1) Aggiorna stato locale
-      setUsers(prevUsers =>
-        prevUsers.map(u => (u.id === user.id ? { ...u, password: newPassword } : u))
-      );
-
-      // 2) Rimuovi eventuali memorizzazioni locali (se presenti)
-      try {
-        localStorage.removeItem("password");
-        localStorage.removeItem("app_password");
-        sessionStorage.removeItem("password");
-      } catch (err) {
-        // ignore
-      }
-
-      // 3) Aggiorna Firestore (collection "users")
-      // Preferiamo cercare per playerId se presente, altrimenti per username
-      const usersRef = collection(db, "users");
-      const q = user.playerId ? query(usersRef, where("playerId", "==", user.playerId)) : query(usersRef, where("username", "==", user.username));
-      const snap = await getDocs(q);
-      if (!snap.empty) {
-        // aggiorna tutti i documenti trovati (di solito uno)
-        const updates = snap.docs.map(async d => {
-          await updateDoc(doc(db, "users", d.id), { password: newPassword });
-        });
-        await Promise.all(updates);
-      } else {
-        console.warn("[EditProfileModal] Nessun documento utente trovato in Firestore per aggiornare la password.");
-      }
-
+      await changeCurrentUserPassword(oldPassword, newPassword);
       setPasswordSuccess('Password modificata con successo!');
       setOldPassword('');
       setNewPassword('');
@@ -87,7 +52,7 @@ const EditProfileModal: React.FC<EditProfileModalProps> = ({ user, users, setUse
       }, 2000);
     } catch (err: any) {
       console.error("Errore aggiornamento password:", err);
-      setPasswordError('Errore durante il salvataggio della nuova password.');
+      setPasswordError(/wrong-password|invalid-credential/.test(err?.message ?? '') ? 'La vecchia password non è corretta.' : describeAuthError(err));
     }
   };
 
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { type Event, type EventRole, type User } from '../types';
+import { EVENT_ROLE_LABELS, setEventRole } from '../services/permissionService';
+
+interface EventRolesPanelProps {
+  event: Event;
+  users: User[];
+  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
+}
+
+const ROLE_OPTIONS = Object.keys(EVENT_ROLE_LABELS) as EventRole[];
+
+const EventRolesPanel: React.FC<EventRolesPanelProps> = ({ event, users, setEvents }) => {
+  const [newUserId, setNewUserId] = useState('');
+  const [newRole, setNewRole] = useState<EventRole>('coOrganizer');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const roles = event.roles ?? {};
+  const owner = users.find(u => u.id === event.ownerId);
+  const assignedUsers = users
+    .filter(u => roles[u.id])
+    .sort((a, b) => a.username.localeCompare(b.username));
+  // proprietario e organizzatori globali hanno già tutti i permessi
+  const assignableUsers = users
+    .filter(u => u.id !== event.ownerId && u.role !== 'organizer' && !roles[u.id])
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+  const saveRole = async (userId: string, role: EventRole | null) => {
+    setBusyUserId(userId);
+    setError(null);
+    try {
+      setEvents(prev => prev.map(ev => {
+        if (ev.id !== event.id) return ev;
+        const nextRoles = { ...(ev.roles ?? {}) };
+        if (role) nextRoles[userId] = role;
+        else delete nextRoles[userId];
+        return { ...ev, roles: nextRoles };
+      }));
+      await setEventRole(event.id, userId, role);
+    } catch (err) {
+      console.error('Errore salvataggio ruolo', err);
+      setError('Salvataggio del ruolo non riuscito. Riprova.');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUserId) return;
+    await saveRole(newUserId, newRole);
+    setNewUserId('');
+  };
+
+  const handleRemove = async (user: User) => {
+    if (!window.confirm(`Rimuovere ${user.username} dallo staff di ${event.name}?`)) return;
+    await saveRole(user.id, null);
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-1">Staff e ruoli</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Proprietario: <span className="font-semibold text-text-primary">{owner?.username ?? 'non assegnato'}</span>.
+        {' '}I co-organizzatori gestiscono tutto l'evento, gli arbitri inseriscono e confermano i risultati, lo staff vede i pannelli in sola lettura.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <select value={newUserId} onChange={e => setNewUserId(e.target.value)} className="flex-grow bg-primary border border-tertiary rounded-lg p-2">
+          <option value="">Seleziona utente</option>
+          {assignableUsers.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+        </select>
+        <select value={newRole} onChange={e => setNewRole(e.target.value as EventRole)} className="bg-primary border border-tertiary rounded-lg p-2">
+          {ROLE_OPTIONS.map(role => <option key={role} value={role}>{EVENT_ROLE_LABELS[role]}</option>)}
+        </select>
+        <button type="submit" disabled={!newUserId || busyUserId !== null} className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-60">
+          Aggiungi
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {assignedUsers.length > 0 ? (
+        <ul className="space-y-2">
+          {assignedUsers.map(user => (
+            <li key={user.id} className="flex flex-wrap items-center justify-between gap-3 bg-tertiary/50 p-3 rounded-lg">
+              <span className="font-semibold">{user.username}</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={roles[user.id]}
+                  onChange={e => saveRole(user.id, e.target.value as EventRole)}
+                  disabled={busyUserId !== null}
+                  className="bg-primary border border-tertiary rounded-lg p-1 text-sm"
+                >
+                  {ROLE_OPTIONS.map(role => <option key={role} value={role}>{EVENT_ROLE_LABELS[role]}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(user)}
+                  disabled={busyUserId !== null}
+                  className="bg-red-600 hover:bg-red-700 text-white font-semibold py-1 px-3 rounded-lg text-sm disabled:opacity-50"
+                >
+                  Rimuovi
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : <p className="text-text-secondary italic">Nessun ruolo assegnato per questo evento.</p>}
+    </div>
+  );
+};
+
+export default EventRolesPanel;
@@ -1,10 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { type Event, type Tournament, type Match } from '../types';
+import { type AuditLogEntry, type Event, type Tournament, type Match, type User, type Venue } from '../types';
 import RegolamentoGironiPanel from './RegolamentoGironiPanel';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import { repository } from "../services/dataRepository";
 import { TrashIcon, PlusIcon } from './Icons';
 import AdminMatchCounts from "./AdminMatchCounts";
+import AutoSchedulerPanel from "./AutoSchedulerPanel";
+import ScheduleConflictsReport from "./ScheduleConflictsReport";
+import OpenProposalsPanel from "./OpenProposalsPanel";
+import ResultDisputesPanel from "./ResultDisputesPanel";
+import AuditLogPanel from "./AuditLogPanel";
+import EventRolesPanel from "./EventRolesPanel";
+import { appendAuditEntry } from "../services/auditLogService";
+import { type EventPermissions } from "../services/permissionService";
+import { applyResultSnapshot, buildResultAuditEntry, isSameResult, snapshotResult, type AuditActor } from "../utils/auditLog";
+import { replaceTournamentMatch } from "../utils/proposals";
+import { clearResultConfirmation } from "../utils/resultConfirmation";
 
 interface EventViewProps {
   event: Event;
@@ -15,20 +25,30 @@ interface EventViewProps {
     initialGroupId?: string
   ) => void;
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
+  // tutti gli eventi e gli impianti, per controllare l'occupazione dei campi
+  allEvents: Event[];
+  venues: Venue[];
+  auditActor: AuditActor;
+  // utenti a cui assegnare i ruoli dell'evento
+  users: User[];
 }
 
 const makeId = () => `${Date.now()}${Math.floor(Math.random() * 10000)}`;
 
-type AdminEventSection = 'tournaments' | 'rules' | 'groupRules' | 'matchControl';
+type AdminEventSection = 'tournaments' | 'rules' | 'groupRules' | 'matchControl' | 'scheduler' | 'conflicts' | 'proposals' | 'disputes' | 'audit' | 'roles';
 
 const EventView: React.FC<EventViewProps> = ({
   event,
   onSelectTournament,
   setEvents,
-  isOrganizer,
+  permissions,
   loggedInPlayerId,
+  allEvents,
+  venues,
+  auditActor,
+  users,
 }) => {
   const [rulesDraft, setRulesDraft] = useState(event.rules ?? "");
   const [rulesEdit, setRulesEdit] = useState(false);
@@ -52,9 +72,36 @@ const EventView: React.FC<EventViewProps> = ({
   }, [event]);
 
   useEffect(() => {
-    if (!isOrganizer) return;
+    if (!permissions.canViewAdmin) return;
     setActiveAdminSection('tournaments');
-  }, [event.id, isOrganizer]);
+  }, [event.id, permissions.canViewAdmin]);
+
+  // riporta la partita al risultato precedente alla modifica e lo registra nello storico
+  const handleRevertAuditEntry = async (entry: AuditLogEntry) => {
+    const tournament = event.tournaments.find(t => t.id === entry.tournamentId);
+    const match = tournament?.groups.flatMap(g => g.matches).find(m => m.id === entry.matchId);
+    if (!tournament || !match) throw new Error("Partita non trovata nell'evento.");
+    const changedSince = !isSameResult(snapshotResult(match), entry.after);
+    if (!window.confirm(`Ripristinare il risultato precedente di ${entry.matchLabel}?${changedSince ? "\n\nAttenzione: la partita è stata modificata di nuovo dopo questa voce." : ""}`)) return;
+
+    const revertedMatch = clearResultConfirmation(applyResultSnapshot(match, entry.before));
+    const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? replaceTournamentMatch(t, revertedMatch) : t);
+    // scrittura controllata: se intanto qualcuno ha cambiato la partita il conflitto arriva al pannello e non si ripristina nulla
+    await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+    await appendAuditEntry(buildResultAuditEntry({
+      eventId: event.id,
+      tournamentId: tournament.id,
+      matchId: match.id,
+      matchLabel: entry.matchLabel,
+      source: entry.source,
+      actor: auditActor,
+      before: match,
+      after: revertedMatch,
+      action: 'resultReverted',
+      revertOf: entry.id,
+    }));
+  };
 
   const handleSaveRules = async () => {
     setLoading(true);
@@ -64,7 +111,7 @@ const EventView: React.FC<EventViewProps> = ({
           ev.id === event.id ? { ...ev, rules: rulesDraft } : ev
         )
       );
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         rules: rulesDraft
       });
       setSuccessMsg("Regolamento salvato!");
@@ -133,7 +180,7 @@ const EventView: React.FC<EventViewProps> = ({
       );
 
       // save to Firestore
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         tournaments: (event.tournaments ?? []).concat(newTournament)
       });
 
@@ -156,7 +203,7 @@ const EventView: React.FC<EventViewProps> = ({
           ev.id === event.id ? { ...ev, tournaments: updatedTournaments } : ev
         )
       );
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         tournaments: updatedTournaments
       });
     } catch (err) {
@@ -190,7 +237,7 @@ const EventView: React.FC<EventViewProps> = ({
       );
 
       // persist on Firestore
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         tournaments: updatedTournaments
       });
 
@@ -235,7 +282,7 @@ const EventView: React.FC<EventViewProps> = ({
             </div>
           </div>
 
-          {isOrganizer && (
+          {permissions.canManageStructure && (
             <div className="flex items-center gap-3">
               <button
                 type="button"
@@ -249,8 +296,8 @@ const EventView: React.FC<EventViewProps> = ({
           )}
         </div>
 
-        {/* ===== Top admin menu (only organizers) ===== */}
-        {isOrganizer && (
+        {/* ===== Top admin menu (organizzatori e staff dell'evento) ===== */}
+        {permissions.canViewAdmin && (
           <nav className="mt-6 bg-secondary/20 rounded p-3 flex flex-wrap gap-2" aria-label="Menu amministratore evento">
             <button
               className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'tournaments' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
@@ -266,12 +313,14 @@ const EventView: React.FC<EventViewProps> = ({
               Regolamento torneo
             </button>
 
-            <button
-              className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'groupRules' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
-              onClick={() => setActiveAdminSection('groupRules')}
-            >
-              Regolamento gironi
-            </button>
+            {permissions.canManageStructure && (
+              <button
+                className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'groupRules' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+                onClick={() => setActiveAdminSection('groupRules')}
+              >
+                Regolamento gironi
+              </button>
+            )}
 
             <button
               className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'matchControl' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
@@ -279,12 +328,62 @@ const EventView: React.FC<EventViewProps> = ({
             >
               Controllo partite
             </button>
+
+            {permissions.canManageStructure && (
+              <button
+                className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'scheduler' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+                onClick={() => setActiveAdminSection('scheduler')}
+              >
+                Calendario automatico
+              </button>
+            )}
+
+            <button
+              className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'conflicts' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+              onClick={() => setActiveAdminSection('conflicts')}
+            >
+              Conflitti giocatori
+            </button>
+
+            {permissions.canManageStructure && (
+              <button
+                className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'proposals' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+                onClick={() => setActiveAdminSection('proposals')}
+              >
+                Proposte aperte
+              </button>
+            )}
+
+            {permissions.canManageResults && (
+              <button
+                className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'disputes' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+                onClick={() => setActiveAdminSection('disputes')}
+              >
+                Risultati contestati
+              </button>
+            )}
+
+            <button
+              className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'audit' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+              onClick={() => setActiveAdminSection('audit')}
+            >
+              Storico modifiche
+            </button>
+
+            {permissions.canManageRoles && (
+              <button
+                className={`px-3 py-1 rounded text-text-primary text-sm transition-colors ${activeAdminSection === 'roles' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90'}`}
+                onClick={() => setActiveAdminSection('roles')}
+              >
+                Staff e ruoli
+              </button>
+            )}
           </nav>
         )}
       </div>
 
       {/* CARD TORNEI */}
-      {(!isOrganizer || activeAdminSection === 'tournaments') && (
+      {(!permissions.canViewAdmin || activeAdminSection === 'tournaments') && (
       <div>
         <h2 className="text-2xl font-bold text-white mb-4">Tornei</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -309,7 +408,7 @@ const EventView: React.FC<EventViewProps> = ({
                 <div>
                   <div className="flex justify-between items-start">
                     <h3 className={titleClass}>{tournament.name}</h3>
-                    {isOrganizer && (
+                    {permissions.canManageStructure && (
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => openEditTournament(tournament)}
@@ -411,11 +510,11 @@ const EventView: React.FC<EventViewProps> = ({
       )}
 
       {/* REGOLAMENTO (solo organizzatore) */}
-      {(!isOrganizer || activeAdminSection === 'rules') && (
+      {(!permissions.canViewAdmin || activeAdminSection === 'rules') && (
       <div className="bg-tertiary p-6 rounded-xl shadow-lg mb-6" id="regolamento">
         <div className="flex justify-between items-center mb-2">
           <h3 className="text-xl font-bold text-accent">Regolamento Torneo</h3>
-          {!rulesEdit && isOrganizer && (
+          {!rulesEdit && permissions.canManageStructure && (
             <button
               onClick={() => setRulesEdit(true)}
               className="py-1 px-4 bg-highlight text-white rounded-lg font-semibold"
@@ -452,7 +551,7 @@ const EventView: React.FC<EventViewProps> = ({
       )}
 
       {/* REGOLAMENTO PER OGNI GIRONE - SOLO ORGANIZZATORE */}
-      {isOrganizer && activeAdminSection === 'groupRules' && (event.tournaments ?? []).length > 0 &&
+      {permissions.canManageStructure && activeAdminSection === 'groupRules' && (event.tournaments ?? []).length > 0 &&
         (event.tournaments ?? []).map(tournament => (
           <RegolamentoGironiPanel
             key={tournament.id}
@@ -494,9 +593,16 @@ const EventView: React.FC<EventViewProps> = ({
       )}
       {/* ----------------- /MODAL: AGGIUNGI TORNEO ----------------- */}
 
+      {permissions.canManageStructure && activeAdminSection === 'scheduler' && <AutoSchedulerPanel event={event} setEvents={setEvents} allEvents={allEvents} venues={venues} />}
+      {permissions.canViewAdmin && activeAdminSection === 'conflicts' && <ScheduleConflictsReport events={allEvents} currentEventId={event.id} />}
+      {permissions.canManageStructure && activeAdminSection === 'proposals' && <OpenProposalsPanel event={event} setEvents={setEvents} allEvents={allEvents} venues={venues} />}
+      {permissions.canManageResults && activeAdminSection === 'disputes' && <ResultDisputesPanel event={event} setEvents={setEvents} onOpenTournament={tournament => onSelectTournament(tournament, 'matches')} />}
+      {permissions.canViewAdmin && activeAdminSection === 'audit' && <AuditLogPanel eventId={event.id} onRevert={permissions.canManageResults ? handleRevertAuditEntry : undefined} />}
+      {permissions.canManageRoles && activeAdminSection === 'roles' && <EventRolesPanel event={event} users={users} setEvents={setEvents} />}
+
       {/* == AdminMatchCounts inserito in fondo alla pagina (solo organizer) == */}
       <div id="match-control">
-        {isOrganizer && activeAdminSection === 'matchControl' && <AdminMatchCounts event={event} onSelectTournament={onSelectTournament} />}
+        {permissions.canViewAdmin && activeAdminSection === 'matchControl' && <AdminMatchCounts event={event} onSelectTournament={onSelectTournament} />}
       </div>
     </div>
   );
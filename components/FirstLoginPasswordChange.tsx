@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { type User } from '../types';
+import { completePasswordChange, MIN_PASSWORD_LENGTH } from '../services/authService';
+
+interface FirstLoginPasswordChangeProps {
+  user: User;
+  onLogout: () => void;
+}
+
+const FirstLoginPasswordChange: React.FC<FirstLoginPasswordChangeProps> = ({ user, onLogout }) => {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`La password deve essere di almeno ${MIN_PASSWORD_LENGTH} caratteri.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Le nuove password non coincidono.');
+      return;
+    }
+    setLoading(true);
+    try {
+      // App passa alla schermata normale appena il documento utente perde mustChangePassword
+      await completePasswordChange(user.id, newPassword);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore durante il cambio password.');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-primary text-text-primary flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-md bg-secondary p-8 rounded-xl shadow-2xl border border-tertiary/50">
+        <h2 className="text-2xl font-bold text-accent mb-2">Imposta la tua password</h2>
+        <p className="text-sm text-text-secondary mb-6">
+          Ciao <strong className="text-text-primary">{user.username}</strong>, hai effettuato l'accesso con una password temporanea. Scegli una nuova password per continuare.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">Nuova Password</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={newPassword}
+              onChange={e => setNewPassword(e.target.value)}
+              className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">Conferma Nuova Password</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+              className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex justify-between gap-4 pt-2">
+            <button type="button" onClick={onLogout} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-colors">Esci</button>
+            <button type="submit" disabled={loading} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-60">
+              {loading ? 'Salvataggio...' : 'Salva password'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default FirstLoginPasswordChange;
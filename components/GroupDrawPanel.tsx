@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import {
+  type Event,
+  type GroupDrawConstraint,
+  type GroupDrawMethod,
+  type GroupDrawRecord,
+  type GroupDrawSeedingSource,
+  type Tournament,
+} from '../types';
+import {
+  buildDrawConflictChecker,
+  drawGroups,
+  getBalancedGroupSizes,
+  getDrawCompetitors,
+  GROUP_DRAW_CONSTRAINT_LABELS,
+  GROUP_DRAW_METHOD_LABELS,
+  GROUP_DRAW_SOURCE_LABELS,
+  rankCompetitorsForDraw,
+  type GroupDrawResult,
+} from '../utils/groupDraw';
+import { createDrawOfLotsSeed } from '../utils/standings';
+
+interface GroupDrawPanelProps {
+  event: Event;
+  tournament: Tournament;
+  getCompetitorName: (id: string) => string;
+  onConfirm: (assignments: string[][], record: GroupDrawRecord) => void;
+}
+
+const GroupDrawPanel: React.FC<GroupDrawPanelProps> = ({ event, tournament, getCompetitorName, onConfirm }) => {
+  const isPadel = event.eventType === 'tournament_padel';
+  const teams = Array.isArray(tournament.padelTeams) ? tournament.padelTeams : [];
+  const competitors = useMemo(() => getDrawCompetitors(event.players, teams, isPadel), [event.players, teams, isPadel]);
+  const pastTournaments = event.tournaments.filter(t => t.id !== tournament.id && t.groups.length > 0);
+  const groupCount = tournament.groups.length;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<GroupDrawSeedingSource>('rankingPoints');
+  const [sourceTournamentId, setSourceTournamentId] = useState(pastTournaments[0]?.id ?? '');
+  const [method, setMethod] = useState<GroupDrawMethod>('serpentine');
+  const [constraints, setConstraints] = useState<GroupDrawConstraint[]>(['samePartner']);
+  const [groupSizes, setGroupSizes] = useState<number[]>(() => getBalancedGroupSizes(competitors.length, groupCount));
+  const [seed, setSeed] = useState(() => createDrawOfLotsSeed());
+  const [manualOrder, setManualOrder] = useState<string[]>([]);
+  const [preview, setPreview] = useState<{ seedOrder: string[]; result: GroupDrawResult } | null>(null);
+
+  if (groupCount === 0) return null;
+
+  const sizesTotal = groupSizes.reduce((sum, size) => sum + size, 0);
+  const sizesError = groupSizes.length !== groupCount || sizesTotal !== competitors.length
+    ? `La somma delle dimensioni (${sizesTotal}) deve essere uguale al numero di ${isPadel ? 'squadre' : 'giocatori'} confermati (${competitors.length}).`
+    : null;
+
+  const getSeedOrder = () => rankCompetitorsForDraw({
+    competitors,
+    source,
+    players: event.players,
+    seed,
+    pastTournament: pastTournaments.find(t => t.id === sourceTournamentId) ?? null,
+    manualOrder,
+  });
+
+  const openManualOrder = () => {
+    setSource('manual');
+    // si parte dall'ordine per punti ranking, poi l'organizzatore lo ritocca
+    setManualOrder(rankCompetitorsForDraw({ competitors, source: 'rankingPoints', players: event.players, seed }));
+    setPreview(null);
+  };
+
+  const moveManual = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= manualOrder.length) return;
+    const next = [...manualOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setManualOrder(next);
+    setPreview(null);
+  };
+
+  const toggleConstraint = (constraint: GroupDrawConstraint) => {
+    setConstraints(prev => prev.includes(constraint) ? prev.filter(c => c !== constraint) : [...prev, constraint]);
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    if (sizesError) return;
+    const seedOrder = getSeedOrder();
+    // per i singolari contano anche le coppie già formate negli altri tornei padel dell'evento
+    const partnerTeams = event.tournaments.flatMap(t => (Array.isArray(t.padelTeams) ? t.padelTeams : []));
+    const conflicts = buildDrawConflictChecker(competitors, constraints, event.players, partnerTeams);
+    setPreview({ seedOrder, result: drawGroups({ seedOrder, groupSizes, method, seed, conflicts }) });
+  };
+
+  const handleConfirm = () => {
+    if (!preview) return;
+    const record: GroupDrawRecord = {
+      seed,
+      method,
+      seedingSource: source,
+      constraints,
+      seedOrder: preview.seedOrder,
+      groupSizes,
+      violations: preview.result.violations.length,
+      drawnAt: new Date().toISOString(),
+    };
+    if (source === 'pastTournament' && sourceTournamentId) record.sourceTournamentId = sourceTournamentId;
+    onConfirm(preview.result.assignments, record);
+    setPreview(null);
+    setIsOpen(false);
+  };
+
+  const lastDraw = tournament.groupDraw;
+
+  return (
+    <div className="bg-secondary p-4 rounded-xl shadow-md">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div>
+          <h4 className="text-lg font-bold text-accent">Sorteggio Automatico Gironi</h4>
+          {lastDraw && (
+            <p className="text-xs text-text-secondary">
+              Ultimo sorteggio: {new Date(lastDraw.drawnAt).toLocaleString('it-IT')} • seme <span className="font-mono">{lastDraw.seed}</span> • {GROUP_DRAW_METHOD_LABELS[lastDraw.method]}
+              {lastDraw.violations > 0 && ` • ${lastDraw.violations} vincoli non rispettati`}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsOpen(open => !open)}
+          className="bg-tertiary hover:bg-tertiary/90 text-text-primary py-2 px-3 rounded-lg text-sm transition-colors"
+        >
+          {isOpen ? 'Chiudi' : 'Prepara sorteggio'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-text-secondary">Teste di serie in base a</span>
+              <select
+                value={source}
+                onChange={e => {
+                  const next = e.target.value as GroupDrawSeedingSource;
+                  if (next === 'manual') openManualOrder();
+                  else { setSource(next); setPreview(null); }
+                }}
+                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+              >
+                {(Object.keys(GROUP_DRAW_SOURCE_LABELS) as GroupDrawSeedingSource[]).map(key => (
+                  <option key={key} value={key} disabled={key === 'pastTournament' && pastTournaments.length === 0}>
+                    {GROUP_DRAW_SOURCE_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {source === 'pastTournament' && (
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="text-text-secondary">Torneo di riferimento</span>
+                <select
+                  value={sourceTournamentId}
+                  onChange={e => { setSourceTournamentId(e.target.value); setPreview(null); }}
+                  className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                >
+                  {pastTournaments.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-text-secondary">Distribuzione</span>
+              <select
+                value={method}
+                onChange={e => { setMethod(e.target.value as GroupDrawMethod); setPreview(null); }}
+                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+              >
+                {(Object.keys(GROUP_DRAW_METHOD_LABELS) as GroupDrawMethod[]).map(key => (
+                  <option key={key} value={key}>{GROUP_DRAW_METHOD_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {source === 'manual' && (
+            <div>
+              <h5 className="text-sm font-semibold mb-2 text-text-secondary">Ordine teste di serie</h5>
+              <ol className="space-y-1 max-h-64 overflow-y-auto">
+                {manualOrder.map((id, index) => (
+                  <li key={id} className="flex items-center justify-between bg-tertiary/50 px-2 py-1 rounded text-sm">
+                    <span>{index + 1}. {getCompetitorName(id)}</span>
+                    <span className="flex gap-1">
+                      <button type="button" onClick={() => moveManual(index, -1)} disabled={index === 0} className="px-2 rounded bg-primary disabled:opacity-40">↑</button>
+                      <button type="button" onClick={() => moveManual(index, 1)} disabled={index === manualOrder.length - 1} className="px-2 rounded bg-primary disabled:opacity-40">↓</button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div>
+            <h5 className="text-sm font-semibold mb-2 text-text-secondary">Vincoli</h5>
+            <div className="flex flex-col gap-1">
+              {(Object.keys(GROUP_DRAW_CONSTRAINT_LABELS) as GroupDrawConstraint[]).map(key => (
+                <label key={key} className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={constraints.includes(key)} onChange={() => toggleConstraint(key)} />
+                  {GROUP_DRAW_CONSTRAINT_LABELS[key]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h5 className="text-sm font-semibold text-text-secondary">Dimensione gironi</h5>
+              <button
+                type="button"
+                onClick={() => { setGroupSizes(getBalancedGroupSizes(competitors.length, groupCount)); setPreview(null); }}
+                className="text-xs text-accent hover:underline"
+              >
+                Bilancia
+              </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {tournament.groups.map((group, index) => (
+                <label key={group.id} className="flex items-center gap-2 text-sm bg-tertiary/50 p-2 rounded">
+                  <span className="truncate flex-1">{group.name}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={groupSizes[index] ?? 0}
+                    onChange={e => {
+                      const next = tournament.groups.map((_, i) => groupSizes[i] ?? 0);
+                      next[index] = Math.max(0, parseInt(e.target.value, 10) || 0);
+                      setGroupSizes(next);
+                      setPreview(null);
+                    }}
+                    className="w-16 bg-primary border border-tertiary rounded p-1"
+                  />
+                </label>
+              ))}
+            </div>
+            {sizesError && <p className="text-xs text-red-400 mt-2">{sizesError}</p>}
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="text-text-secondary">Seme:</span>
+            <span className="font-mono bg-primary px-2 py-1 rounded">{seed}</span>
+            <button
+              type="button"
+              onClick={() => { setSeed(createDrawOfLotsSeed()); setPreview(null); }}
+              className="text-xs text-accent hover:underline"
+            >
+              Nuovo seme
+            </button>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={!!sizesError || competitors.length === 0}
+              className="ml-auto bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors disabled:bg-tertiary disabled:cursor-not-allowed"
+            >
+              Anteprima
+            </button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {tournament.groups.map((group, index) => (
+                  <div key={group.id} className="bg-primary/50 rounded-lg p-3">
+                    <h5 className="font-semibold mb-2">{group.name}</h5>
+                    <ol className="text-sm space-y-1">
+                      {(preview.result.assignments[index] ?? []).map(id => (
+                        <li key={id}>
+                          <span className="text-text-secondary mr-2">#{preview.seedOrder.indexOf(id) + 1}</span>
+                          {getCompetitorName(id)}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+              {preview.result.violations.length > 0 && (
+                <div className="text-xs text-red-400">
+                  Vincoli non rispettabili con queste dimensioni:{' '}
+                  {preview.result.violations.map(([a, b]) => `${getCompetitorName(a)} / ${getCompetitorName(b)}`).join(', ')}
+                </div>
+              )}
+              {method === 'pots' && preview.result.potsRelaxed && (
+                <p className="text-xs text-text-secondary">Alcuni gironi hanno ricevuto più componenti della stessa fascia per rispettare vincoli e dimensioni.</p>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleConfirm}
+                  className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors"
+                >
+                  Conferma sorteggio
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupDrawPanel;
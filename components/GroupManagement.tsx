@@ -1,20 +1,25 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { type Event, type Tournament, type Group, type Player, type Match, type PadelTeam } from '../types';
+import { type Event, type Tournament, type Group, type GroupDrawRecord, type GroupFormat, type Player, type Match, type PadelTeam } from '../types';
 import { TrashIcon } from './Icons';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import GroupDrawPanel from './GroupDrawPanel';
+import { isWriteConflict, repository } from "../services/dataRepository";
+import { buildRoundRobinSchedule, getMatchdayWindow, getMatchRounds } from '../utils/roundRobin';
+import { generateSwissRound, getSwissCurrentRound, getSwissRoundBlocker, getSwissTotalRounds } from '../utils/swiss';
+import { type EventPermissions } from '../services/permissionService';
 
 interface GroupManagementProps {
     event: Event;
     tournament: Tournament;
     setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-    isOrganizer: boolean;
+    permissions: EventPermissions;
 }
 
 const makeId = () => `${Date.now()}${Math.floor(Math.random() * 10000)}`;
 
-const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, setEvents, isOrganizer }) => {
+const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, setEvents, permissions }) => {
     const isPadel = event.eventType === 'tournament_padel';
+    // creare, assegnare e generare è riservato a chi gestisce la struttura dell'evento
+    const canEdit = permissions.canManageStructure;
     const teams = Array.isArray(tournament.padelTeams) ? tournament.padelTeams : [];
     const getTeamById = (teamId: string) => teams.find(team => team.id === teamId);
     const getPlayer = (id: string) => event.players.find(p => p.id === id);
@@ -44,6 +49,8 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
     const [editGroupName, setEditGroupName] = useState('');
     const [editGroupSize, setEditGroupSize] = useState<number>(0);
     const [editGroupRules, setEditGroupRules] = useState(''); // <-- NEW STATE
+    const [editGroupFormat, setEditGroupFormat] = useState<GroupFormat>('roundRobin');
+    const [editGroupSwissRounds, setEditGroupSwissRounds] = useState<number>(3);
     const [isDeleteOpen, setIsDeleteOpen] = useState(false);
     const [groupToDelete, setGroupToDelete] = useState<Group | null>(null);
     const [loading, setLoading] = useState(false);
@@ -52,6 +59,19 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
     // SEARCH for assign modal (ADDED)
     const [assignSearchQuery, setAssignSearchQuery] = useState('');
 
+    // scrittura controllata: se intanto qualcuno ha cambiato le stesse partite non si salva nulla
+    const saveTournamentsChecked = async (updatedTournaments: Tournament[], onConflict: (message: string) => void) => {
+        try {
+            await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+        } catch (err) {
+            if (!isWriteConflict(err)) throw err;
+            onConflict(err.message);
+            return false;
+        }
+        setEvents(prevEvents => prevEvents.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+        return true;
+    };
+
     const openAssignModal = (group: Group) => {
         setAssigningGroup(group);
         setSelectedPlayers(new Set(group.playerIds));
@@ -72,37 +92,22 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
 
     // ASSEGNA GIOCATORI E AGGIORNA FIRESTORE
     const handleSaveAssignments = async () => {
+        if (!canEdit) return;
         if (!assigningGroup) return;
 
         const updatedGroups = tournament.groups.map(g =>
             g.id === assigningGroup.id ? { ...g, playerIds: Array.from(selectedPlayers) } : g
         );
 
-        setEvents(prevEvents => prevEvents.map(e => {
-            if (e.id !== event.id) return e;
-            return {
-                ...e,
-                tournaments: e.tournaments.map(t => {
-                    if (t.id !== tournament.id) return t;
-                    return {
-                        ...t,
-                        groups: updatedGroups
-                    };
-                })
-            };
-        }));
-
-        await updateDoc(doc(db, "events", event.id), {
-            tournaments: event.tournaments.map(t =>
-                t.id === tournament.id ? { ...t, groups: updatedGroups } : t
-            )
-        });
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
         setAssigningGroup(null);
     };
 
     // RIMUOVI GIOCATORE E AGGIORNA FIRESTORE
     const handleRemovePlayer = async () => {
+        if (!canEdit) return;
         if(!playerToRemove) return;
         const { competitorId, group } = playerToRemove;
 
@@ -115,31 +120,15 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
             }
         });
 
-        setEvents(prevEvents => prevEvents.map(e => {
-            if (e.id !== event.id) return e;
-            return {
-                ...e,
-                tournaments: e.tournaments.map(t => {
-                    if (t.id !== tournament.id) return t;
-                    return {
-                        ...t,
-                        groups: updatedGroups
-                    };
-                })
-            };
-        }));
-
-        await updateDoc(doc(db, "events", event.id), {
-            tournaments: event.tournaments.map(t =>
-                t.id === tournament.id ? { ...t, groups: updatedGroups } : t
-            )
-        });
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
         setPlayerToRemove(null);
     }
 
     // GENERA PARTITE E AGGIORNA FIRESTORE
     const handleGenerateMatches = async (group: Group) => {
+        if (!canEdit) return;
         if (group.playerIds.length < 2) {
             alert(isPadel ? "Sono necessarie almeno 2 squadre per generare le partite." : "Sono necessari almeno 2 giocatori per generare le partite.");
             return;
@@ -148,50 +137,82 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
         // Determine if this group must be double round-robin (andata e ritorno)
         const isDouble = !!(tournament.settings?.groupRoundRobin && tournament.settings.groupRoundRobin[group.id]);
 
-        const newMatches: Match[] = [];
-        for (let i = 0; i < group.playerIds.length; i++) {
-            for (let j = i + 1; j < group.playerIds.length; j++) {
-                // match A vs B
-                newMatches.push({
-                    id: `m${Date.now()}${i}${j}`,
-                    player1Id: group.playerIds[i],
-                    player2Id: group.playerIds[j],
-                    score1: null,
-                    score2: null,
-                    status: 'pending',
-                });
-                // if double round-robin, add reverse fixture
-                if (isDouble) {
-                  newMatches.push({
-                      id: `m${Date.now()}${j}${i}_r`,
-                      player1Id: group.playerIds[j],
-                      player2Id: group.playerIds[i],
-                      score1: null,
-                      score2: null,
-                      status: 'pending',
-                  });
-                }
-            }
-        }
+        // calendario a giornate (metodo circolare); il ritorno rispecchia l'andata
+        const stamp = Date.now();
+        const newMatches: Match[] = buildRoundRobinSchedule(group.playerIds, isDouble).map((pairing, i) => ({
+            id: `m${stamp}g${pairing.round}-${i}`,
+            player1Id: pairing.player1Id,
+            player2Id: pairing.player2Id,
+            score1: null,
+            score2: null,
+            status: 'pending',
+            round: pairing.round,
+        }));
 
         const updatedGroups = tournament.groups.map(g =>
             g.id === group.id ? { ...g, matches: newMatches } : g
         );
 
-        setEvents(prevEvents => prevEvents.map(e => {
-            if (e.id !== event.id) return e;
-            return {
-                ...e,
-                tournaments: e.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-                };
-            }));
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+    };
+
+    // SISTEMA SVIZZERO: genera un turno alla volta dai risultati completati
+    const handleGenerateSwissRound = async (group: Group) => {
+        if (!canEdit) return;
+        const blocker = getSwissRoundBlocker(group);
+        if (blocker) {
+            alert(blocker);
+            return;
+        }
+
+        const { matches: roundMatches, bye } = generateSwissRound(group, event.players, tournament.settings);
+        const existingByes = Array.isArray(group.swissByes) ? group.swissByes : [];
+        const updatedGroups = tournament.groups.map(g =>
+            g.id === group.id
+                ? { ...g, matches: [...(g.matches ?? []), ...roundMatches], swissByes: bye ? [...existingByes, bye] : existingByes }
+                : g
+        );
+
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+    };
+
+    // Finestra di date di una giornata: una data vuota rimuove il campo (Firestore non accetta undefined)
+    const handleMatchdayWindowChange = async (group: Group, round: number, field: 'startDate' | 'endDate', value: string) => {
+        if (!canEdit) return;
+        const existing = Array.isArray(group.matchdays) ? group.matchdays : [];
+        const current = existing.find(md => md.round === round) ?? { round };
+        const nextWindow = { ...current };
+        if (value) nextWindow[field] = value;
+        else delete nextWindow[field];
+        const matchdays = [...existing.filter(md => md.round !== round), nextWindow]
+            .filter(md => md.startDate || md.endDate)
+            .sort((a, b) => a.round - b.round);
+
+        const updatedGroups = tournament.groups.map(g => g.id === group.id ? { ...g, matchdays } : g);
+
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+    };
+
+    // SORTEGGIO AUTOMATICO: sostituisce i componenti dei gironi e azzera le partite
+    const handleConfirmGroupDraw = async (assignments: string[][], record: GroupDrawRecord) => {
+        if (!canEdit) return;
+        const hasMatches = tournament.groups.some(g => (g.matches ?? []).length > 0);
+        if (hasMatches && !window.confirm('I gironi hanno già delle partite: il sorteggio le eliminerà. Continuare?')) return;
 
-        await updateDoc(doc(db, "events", event.id), {
-            tournaments: event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
+        const updatedGroups = tournament.groups.map((g, index) => {
+            const { swissByes, matchdays, ...rest } = g;
+            return { ...rest, playerIds: assignments[index] ?? [], matches: [] };
         });
+
+        const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups, groupDraw: record } : t);
+        if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
     };
 
     const handleCreatePadelTeam = async () => {
+        if (!canEdit) return;
         if (!isPadel) return;
         const trimmedTeamName = newTeamName.trim();
         setTeamError(null);
@@ -221,8 +242,7 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
             t.id === tournament.id ? { ...t, padelTeams: updatedTeams } : t
         );
 
-        setEvents(prevEvents => prevEvents.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-        await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+        if (!(await saveTournamentsChecked(updatedTournaments, setTeamError))) return;
 
         setNewTeamName('');
         setNewTeamPlayer1Id('');
@@ -238,6 +258,7 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
     };
 
     const handleAddGroup = async () => {
+        if (!canEdit) return;
         setLoading(true);
         setError(null);
         try {
@@ -251,17 +272,8 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
 
             const updatedGroups = [...tournament.groups, newGroup];
 
-            setEvents(prevEvents => prevEvents.map(e => {
-                if (e.id !== event.id) return e;
-                return {
-                    ...e,
-                    tournaments: e.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-                };
-            }));
-
-            await updateDoc(doc(db, "events", event.id), {
-                tournaments: event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-            });
+            const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+            if (!(await saveTournamentsChecked(updatedTournaments, setError))) return;
 
             setIsAddOpen(false);
             setNewGroupName('');
@@ -279,11 +291,14 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
         setEditGroupName(g.name);
         setEditGroupSize(g.playerIds?.length ?? 0);
         setEditGroupRules(g.rules ?? "");
+        setEditGroupFormat(g.format ?? 'roundRobin');
+        setEditGroupSwissRounds(getSwissTotalRounds(g));
         setError(null);
         setIsEditOpen(true);
     };
 
     const handleSaveEditGroup = async () => {
+        if (!canEdit) return;
         if (!editingGroup) return;
         setLoading(true);
         setError(null);
@@ -306,22 +321,19 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
                 name: editGroupName,
                 playerIds: newPlayerIds,
                 matches: newMatches,
-                rules: editGroupRules // <-- salva il regolamento qui!
+                rules: editGroupRules, // <-- salva il regolamento qui!
+                format: editGroupFormat,
             };
+            if (editGroupFormat === 'swiss') {
+                updatedGroup.swissRounds = Math.max(1, Math.floor(editGroupSwissRounds) || 1);
+            } else {
+                delete updatedGroup.swissRounds;
+            }
 
             const updatedGroups = tournament.groups.map(g => g.id === updatedGroup.id ? updatedGroup : g);
 
-            setEvents(prevEvents => prevEvents.map(e => {
-                if (e.id !== event.id) return e;
-                return {
-                    ...e,
-                    tournaments: e.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-                };
-            }));
-
-            await updateDoc(doc(db, "events", event.id), {
-                tournaments: event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-            });
+            const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+            if (!(await saveTournamentsChecked(updatedTournaments, setError))) return;
 
             setIsEditOpen(false);
             setEditingGroup(null);
@@ -340,23 +352,15 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
     };
 
     const handleDeleteGroup = async () => {
+        if (!canEdit) return;
         if (!groupToDelete) return;
         setLoading(true);
         setError(null);
         try {
             const updatedGroups = tournament.groups.filter(g => g.id !== groupToDelete.id);
 
-            setEvents(prevEvents => prevEvents.map(e => {
-                if (e.id !== event.id) return e;
-                return {
-                    ...e,
-                    tournaments: e.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-                };
-            }));
-
-            await updateDoc(doc(db, "events", event.id), {
-                tournaments: event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t)
-            });
+            const updatedTournaments = event.tournaments.map(t => t.id === tournament.id ? { ...t, groups: updatedGroups } : t);
+            if (!(await saveTournamentsChecked(updatedTournaments, setError))) return;
 
             setGroupToDelete(null);
             setIsDeleteOpen(false);
@@ -397,7 +401,8 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
         <div className="space-y-6">
             {isPadel && (
                 <div className="bg-secondary p-4 rounded-xl shadow-md">
-                    <h4 className="text-lg font-bold text-accent mb-3">Crea squadra</h4>
+                    <h4 className="text-lg font-bold text-accent mb-3">{canEdit ? 'Crea squadra' : 'Squadre'}</h4>
+                    {canEdit && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                         <input
                             value={newTeamName}
@@ -432,6 +437,7 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
                             Crea squadra
                         </button>
                     </div>
+                    )}
                     {teamError && <p className="text-red-400 text-sm mt-2">{teamError}</p>}
                     <div className="mt-4">
                         <h5 className="text-sm font-semibold mb-2 text-text-secondary">Squadre create ({teams.length})</h5>
@@ -456,31 +462,57 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
             {/* Header amministrazione gironi */}
             <div className="flex items-center justify-between">
                 <h3 className="text-xl font-bold text-accent">Gestione Gironi</h3>
+                {canEdit && (
                 <div className="flex gap-2">
                     <button onClick={openAddGroup} className="bg-accent hover:bg-accent/90 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors">
                         + Aggiungi Girone
                     </button>
                 </div>
+                )}
             </div>
 
+            {canEdit && (
+                <GroupDrawPanel
+                    event={event}
+                    tournament={tournament}
+                    getCompetitorName={getCompetitorNameById}
+                    onConfirm={handleConfirmGroupDraw}
+                />
+            )}
+
             {tournament.groups.map(group => (
                 <div key={group.id} className="bg-secondary p-4 rounded-xl shadow-md mb-8">
                     <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
                         <div className="flex items-center gap-3">
                             <h4 className="text-lg font-bold text-accent">{group.name}</h4>
                             <span className="text-sm text-text-secondary">{group.playerIds.length} {isPadel ? 'squadre' : 'giocatori'}</span>
+                            {group.format === 'swiss' && (
+                                <span className="text-xs bg-tertiary px-2 py-1 rounded-full text-text-secondary">Svizzero • Turno {getSwissCurrentRound(group)}/{getSwissTotalRounds(group)}</span>
+                            )}
                         </div>
+                        {canEdit && (
                         <div className="flex gap-2">
                              <button onClick={() => openAssignModal(group)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors">
                                {isPadel ? 'Assegna Squadre' : 'Assegna Giocatori'}
                             </button>
-                            <button 
-                                onClick={() => handleGenerateMatches(group)} 
-                                disabled={group.playerIds.length < 2}
-                                className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors disabled:bg-tertiary disabled:cursor-not-allowed"
-                            >
-                                Genera Partite
-                            </button>
+                            {group.format === 'swiss' ? (
+                                <button
+                                    onClick={() => handleGenerateSwissRound(group)}
+                                    disabled={getSwissRoundBlocker(group) !== null}
+                                    title={getSwissRoundBlocker(group) ?? undefined}
+                                    className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors disabled:bg-tertiary disabled:cursor-not-allowed"
+                                >
+                                    Genera Turno {Math.min(getSwissCurrentRound(group) + 1, getSwissTotalRounds(group))}/{getSwissTotalRounds(group)}
+                                </button>
+                            ) : (
+                                <button 
+                                    onClick={() => handleGenerateMatches(group)} 
+                                    disabled={group.playerIds.length < 2}
+                                    className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors disabled:bg-tertiary disabled:cursor-not-allowed"
+                                >
+                                    Genera Partite
+                                </button>
+                            )}
                             <button
                                 onClick={() => openEditGroup(group)}
                                 className="bg-tertiary hover:bg-tertiary/90 text-text-primary py-2 px-3 rounded-lg text-sm transition-colors"
@@ -495,6 +527,7 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
                                 Elimina
                             </button>
                         </div>
+                        )}
                     </div>
                     <div>
                         <h5 className="text-sm font-semibold mb-2 text-text-secondary">{isPadel ? 'Squadre Assegnate' : 'Giocatori Assegnati'} ({group.playerIds.length})</h5>
@@ -503,14 +536,47 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
                                 {group.playerIds.map(competitorId => (
                                     <li key={competitorId} className="bg-tertiary/50 p-2 rounded-lg flex items-center justify-between gap-2 group/player">
                                         <div className="text-sm font-medium truncate">{getCompetitorNameById(competitorId)}</div>
-                                        <button onClick={() => setPlayerToRemove({competitorId, group})} className="opacity-0 group-hover/player:opacity-100 text-text-secondary/50 hover:text-red-500 transition-colors p-1">
-                                            <TrashIcon className="w-4 h-4" />
-                                        </button>
+                                        {canEdit && (
+                                            <button onClick={() => setPlayerToRemove({competitorId, group})} className="opacity-0 group-hover/player:opacity-100 text-text-secondary/50 hover:text-red-500 transition-colors p-1">
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
                                     </li>
                                 ))}
                             </ul>
                         ) : <p className="text-text-secondary/80 italic text-sm">Nessun{isPadel ? 'a squadra' : ' giocatore'} assegnat{isPadel ? 'a' : 'o'} a questo girone.</p>}
                     </div>
+                    {getMatchRounds(group.matches ?? []).length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-tertiary/40">
+                            <h5 className="text-sm font-semibold mb-2 text-text-secondary">Calendario {group.format === 'swiss' ? 'Turni' : 'Giornate'} (date facoltative)</h5>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                {getMatchRounds(group.matches ?? []).map(round => {
+                                    const matchdayWindow = getMatchdayWindow(group, round);
+                                    return (
+                                        <div key={round} className="flex items-center gap-2 bg-tertiary/50 p-2 rounded-lg text-sm">
+                                            <span className="font-semibold w-24 shrink-0">{group.format === 'swiss' ? 'Turno' : 'Giornata'} {round}</span>
+                                            <input
+                                                type="date"
+                                                value={matchdayWindow?.startDate ?? ''}
+                                                onChange={e => handleMatchdayWindowChange(group, round, 'startDate', e.target.value)}
+                                                disabled={!canEdit}
+                                                className="bg-primary border border-tertiary rounded p-1 flex-1 min-w-0"
+                                            />
+                                            <span className="text-text-secondary">→</span>
+                                            <input
+                                                type="date"
+                                                value={matchdayWindow?.endDate ?? ''}
+                                                min={matchdayWindow?.startDate}
+                                                onChange={e => handleMatchdayWindowChange(group, round, 'endDate', e.target.value)}
+                                                disabled={!canEdit}
+                                                className="bg-primary border border-tertiary rounded p-1 flex-1 min-w-0"
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
                     {/* Mostra regolamento del gruppo (SOLO ADMIN può modificare) */}
                     <div className="mt-4 pt-3 border-t border-tertiary/40">
                         <h5 className="text-sm font-semibold mb-2 text-text-secondary">Regolamento del Girone</h5>
@@ -613,6 +679,30 @@ const GroupManagement: React.FC<GroupManagementProps> = ({ event, tournament, se
                         />
                         <label className="text-sm text-text-secondary">Numero attuale di giocatori: {editingGroup.playerIds.length}</label>
                         <p className="text-sm text-text-secondary mb-2">Per modificare i giocatori usa "Assegna Giocatori". Ridurre il numero rimuoverà i giocatori oltre la dimensione scelta e le loro partite verranno eliminate.</p>
+                        <div className="mb-2">
+                            <label className="text-sm text-text-secondary">Formato</label>
+                            <select
+                                value={editGroupFormat}
+                                onChange={e => setEditGroupFormat(e.target.value as GroupFormat)}
+                                className="w-full p-2 rounded bg-primary border"
+                            >
+                                <option value="roundRobin">Girone all'italiana</option>
+                                <option value="swiss">Sistema svizzero</option>
+                            </select>
+                        </div>
+                        {editGroupFormat === 'swiss' && (
+                            <div className="mb-2">
+                                <label className="text-sm text-text-secondary">Numero di turni</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={editGroupSwissRounds}
+                                    onChange={e => setEditGroupSwissRounds(parseInt(e.target.value, 10) || 1)}
+                                    className="w-full p-2 rounded bg-primary border"
+                                />
+                                <p className="text-xs text-text-secondary mt-1">I turni si generano uno alla volta quando quello precedente è completo.</p>
+                            </div>
+                        )}
                         <div className="mb-2">
                             <label className="text-sm text-text-secondary">Regolamento del girone</label>
                             <textarea
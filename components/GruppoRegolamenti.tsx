@@ -1,7 +1,6 @@
 import React, { useState } from 'react';
 import { type Event, type Tournament, type Group } from '../types';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import { repository } from "../services/dataRepository";
 
 interface GruppoRegolamentiProps {
   event: Event;
@@ -37,7 +36,7 @@ const GruppoRegolamenti: React.FC<GruppoRegolamentiProps> = ({ event, tournament
       };
     }));
 
-    await updateDoc(doc(db, "events", event.id), {
+    await repository.events.update(event.id, {
       tournaments: event.tournaments.map(t =>
         t.id === tournament.id ? { ...t, groups: updatedGroups } : t
       )
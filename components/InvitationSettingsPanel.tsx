@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { type Event, type InvitationSettings } from '../types';
+import { buildJoinLink, getInvitationError, getInvitationSettings, rotateInvitation } from '../utils/invitations';
+import { removeUndefined } from '../utils/removeUndefined';
+import { repository } from '../services/dataRepository';
+
+interface InvitationSettingsPanelProps {
+  event: Event;
+  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
+}
+
+// datetime-local lavora in ora locale senza fuso: convertiamo da/verso ISO
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const inputClass = 'bg-secondary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent';
+
+const InvitationSettingsPanel: React.FC<InvitationSettingsPanelProps> = ({ event, setEvents }) => {
+  const settings = getInvitationSettings(event);
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(settings.expiresAt));
+  const [maxUses, setMaxUses] = useState(settings.maxUses !== undefined ? String(settings.maxUses) : '');
+  const [deadline, setDeadline] = useState(toLocalInput(event.registrationDeadline));
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const joinLink = event.invitationCode ? buildJoinLink(event.invitationCode) : '';
+  const invitationError = getInvitationError(event);
+
+  const persist = async (changes: { invitationCode?: string; invitation: InvitationSettings; registrationDeadline?: string }) => {
+    const invitation = removeUndefined(changes.invitation) as InvitationSettings;
+    setEvents(prevEvents => prevEvents.map(ev => {
+      if (ev.id !== event.id) return ev;
+      const updated = { ...ev, ...changes, invitation };
+      if (!changes.registrationDeadline) delete updated.registrationDeadline;
+      return updated;
+    }));
+    await repository.events.update(event.id, {
+      ...(changes.invitationCode ? { invitationCode: changes.invitationCode } : {}),
+      invitation,
+      registrationDeadline: changes.registrationDeadline || undefined,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedMaxUses = maxUses.trim() ? Number(maxUses) : undefined;
+    if (parsedMaxUses !== undefined && (!Number.isInteger(parsedMaxUses) || parsedMaxUses < 1)) {
+      alert('Il numero massimo di iscrizioni deve essere un intero positivo.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await persist({
+        invitation: { ...settings, expiresAt: fromLocalInput(expiresAt), maxUses: parsedMaxUses },
+        registrationDeadline: fromLocalInput(deadline),
+      });
+    } catch (err) {
+      alert("Errore durante il salvataggio: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!window.confirm('Generare un nuovo codice? Quello attuale e il relativo link smetteranno di funzionare.')) return;
+    setSaving(true);
+    try {
+      await persist({ ...rotateInvitation(event), registrationDeadline: event.registrationDeadline });
+    } catch (err) {
+      alert("Errore durante la rigenerazione: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(joinLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt('Copia il link di iscrizione:', joinLink);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-primary/50 p-4 rounded-lg">
+      <h4 className="text-lg font-semibold mb-3">Iscrizioni con Codice Invito</h4>
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <span className="text-text-secondary">Codice:</span>
+        <span className="font-mono font-bold text-accent tracking-widest">{event.invitationCode || '—'}</span>
+        <button type="button" onClick={handleCopyLink} disabled={!joinLink} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-semibold py-1 px-3 rounded-lg text-sm disabled:opacity-50">
+          {copied ? 'Link copiato!' : 'Copia link'}
+        </button>
+        <button type="button" onClick={handleRotate} disabled={saving} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-semibold py-1 px-3 rounded-lg text-sm disabled:opacity-50">
+          Rigenera codice
+        </button>
+      </div>
+      <p className="text-sm text-text-secondary mb-4">
+        Utilizzi: {settings.uses}{settings.maxUses !== undefined ? ` / ${settings.maxUses}` : ''}
+        {invitationError && <span className="ml-2 text-red-400">— {invitationError}</span>}
+      </p>
+      <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <label className="flex flex-col text-sm text-text-secondary gap-1">
+          Scadenza codice
+          <input type="datetime-local" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col text-sm text-text-secondary gap-1">
+          Iscrizioni massime
+          <input type="number" min="1" value={maxUses} onChange={e => setMaxUses(e.target.value)} placeholder="Illimitate" className={inputClass} />
+        </label>
+        <label className="flex flex-col text-sm text-text-secondary gap-1">
+          Chiusura iscrizioni
+          <input type="datetime-local" value={deadline} onChange={e => setDeadline(e.target.value)} className={inputClass} />
+        </label>
+        <div className="sm:col-span-3 flex justify-end">
+          <button type="submit" disabled={saving} className="bg-highlight hover:bg-highlight/90 text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-60">
+            {saving ? 'Salvataggio...' : 'Salva impostazioni'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default InvitationSettingsPanel;
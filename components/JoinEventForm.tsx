@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { type Event, type Player, type PlayerLevel } from '../types';
+import { findEventByInvitationCode, getInvitationError, PLAYER_LEVEL_LABELS } from '../utils/invitations';
+import { registerAndRequestToJoin, requestToJoinEvent } from '../services/registrationService';
+
+interface JoinEventFormProps {
+  events: Event[];
+  // profilo del partecipante connesso; assente per chi si registra ora
+  player?: Player | null;
+  initialCode?: string;
+  onCancel?: () => void;
+}
+
+const inputClass = 'mt-1 block w-full bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent';
+
+const JoinEventForm: React.FC<JoinEventFormProps> = ({ events, player, initialCode = '', onCancel }) => {
+  const [code, setCode] = useState(initialCode);
+  const [name, setName] = useState(player?.name ?? '');
+  const [phone, setPhone] = useState(player?.phone ?? '');
+  const [level, setLevel] = useState<PlayerLevel>('intermediate');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const event = useMemo(() => findEventByInvitationCode(events, code), [events, code]);
+  const invitationError = event ? getInvitationError(event) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    if (!event) {
+      setError('Codice invito non valido.');
+      return;
+    }
+    if (!player && password !== confirmPassword) {
+      setError('Le password non coincidono.');
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = { name, phone, level };
+      if (player) await requestToJoinEvent(event, player, data);
+      else await registerAndRequestToJoin(event, { ...data, password });
+      setSuccess(`Richiesta inviata per ${event.name}: riceverai l'accesso quando l'organizzatore l'avrà approvata.`);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Iscrizione non riuscita.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-text-secondary">Codice invito</label>
+        <input
+          value={code}
+          onChange={e => { setCode(e.target.value); setError(''); setSuccess(''); }}
+          required
+          className={`${inputClass} uppercase tracking-widest`}
+        />
+        {code.trim() && (
+          <p className={`text-xs mt-1 ${!event || invitationError ? 'text-red-400' : 'text-green-400'}`}>
+            {!event ? 'Nessun evento con questo codice.' : invitationError ?? `Evento: ${event.name}`}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary">Nome e cognome</label>
+          <input value={name} onChange={e => setName(e.target.value)} required disabled={!!player} className={`${inputClass} disabled:opacity-70`} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary">Telefono</label>
+          <input type="tel" value={phone} onChange={e => setPhone(e.target.value)} required className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-secondary">Livello</label>
+        <select value={level} onChange={e => setLevel(e.target.value as PlayerLevel)} className={inputClass}>
+          {(Object.keys(PLAYER_LEVEL_LABELS) as PlayerLevel[]).map(l => (
+            <option key={l} value={l}>{PLAYER_LEVEL_LABELS[l]}</option>
+          ))}
+        </select>
+      </div>
+
+      {!player && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">Password</label>
+            <input type="password" autoComplete="new-password" value={password} onChange={e => setPassword(e.target.value)} required className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">Conferma password</label>
+            <input type="password" autoComplete="new-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {success && <p className="text-sm text-green-400">{success}</p>}
+
+      <div className="flex justify-end gap-3">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-colors">
+            Annulla
+          </button>
+        )}
+        <button type="submit" disabled={loading || !event || !!invitationError} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-60">
+          {loading ? 'Invio...' : 'Invia richiesta'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default JoinEventForm;
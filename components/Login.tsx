@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
-import { type User } from '../types';
+import { type Event } from '../types';
+import { signInWithUsername } from '../services/authService';
+import JoinEventForm from './JoinEventForm';
 
 interface LoginProps {
-  users: User[];
-  onLoginSuccess: (user: User) => void;
+  events: Event[];
+  // codice arrivato da un link di iscrizione (?join=CODICE)
+  joinCode?: string;
+  // es. account non più collegato a un utente
+  notice?: string | null;
 }
 
 const NextTsLogo: React.FC<{ className?: string }> = ({ className = '' }) => (
@@ -19,20 +24,24 @@ const NextTsLogo: React.FC<{ className?: string }> = ({ className = '' }) => (
   </svg>
 );
 
-const Login: React.FC<LoginProps> = ({ users, onLoginSuccess }) => {
+const Login: React.FC<LoginProps> = ({ events, joinCode, notice }) => {
+  const [isJoining, setIsJoining] = useState(!!joinCode);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // la sessione la apre Firebase Auth: App riceve l'utente da onAuthStateChanged
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const user = users.find(
-      u => u.username.trim().toLowerCase() === username.trim().toLowerCase() && u.password === password
-    );
-    if (user) {
-      onLoginSuccess(user);
-    } else {
-      setError('Username o password non validi.');
+    setError('');
+    setLoading(true);
+    try {
+      await signInWithUsername(username, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Username o password non validi.');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -45,55 +54,69 @@ const Login: React.FC<LoginProps> = ({ users, onLoginSuccess }) => {
         </div>
 
         <div className="w-full max-w-sm sm:max-w-md md:max-w-lg bg-secondary p-8 rounded-xl shadow-2xl border border-tertiary/50">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-text-secondary">
-                Username
-              </label>
-              <input
-                id="username"
-                name="username"
-                type="text"
-                autoComplete="username"
-                required
-                value={username}
-                onChange={e => setUsername(e.target.value)}
-                className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
-              />
-            </div>
+          {isJoining ? (
+            <>
+              <h2 className="text-xl font-bold text-accent mb-4">Iscriviti a un evento</h2>
+              <JoinEventForm events={events} initialCode={joinCode} onCancel={() => setIsJoining(false)} />
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-text-secondary">
+                  Username
+                </label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  autoComplete="username"
+                  required
+                  value={username}
+                  onChange={e => setUsername(e.target.value)}
+                  className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
+                />
+              </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-text-secondary">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                value={password}
-                onChange={e => setPassword(e.target.value)}
-                className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
-              />
-            </div>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-text-secondary">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  className="mt-1 block w-full bg-primary border border-tertiary rounded-lg p-3 text-text-primary focus:ring-2 focus:ring-accent focus:border-accent"
+                />
+              </div>
 
-            {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+              {notice && !error && <p className="text-sm text-yellow-400 text-center">{notice}</p>}
+              {error && <p className="text-sm text-red-400 text-center">{error}</p>}
 
-            <div>
-              <button
-                type="submit"
-                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-lg shadow-highlight/20 text-sm font-medium text-white bg-highlight hover:bg-highlight/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition-all"
-              >
-                Accedi
-              </button>
-            </div>
-          </form>
+              <div>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-lg shadow-highlight/20 text-sm font-medium text-white bg-highlight hover:bg-highlight/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-secondary focus:ring-highlight transition-all disabled:opacity-60"
+                >
+                  {loading ? 'Accesso...' : 'Accedi'}
+                </button>
+              </div>
+            </form>
+          )}
+          {!isJoining && (
+            <button type="button" onClick={() => setIsJoining(true)} className="w-full mt-4 text-sm text-accent hover:text-accent-hover underline">
+              Hai un codice invito? Iscriviti a un evento
+            </button>
+          )}
         </div>
 
         <div className="text-center mt-4 text-xs text-text-secondary/50">
           <p>
-            Partecipante: <strong>Nome Cognome</strong> / <strong>1234</strong>
+            Username: <strong>Nome Cognome</strong>. Al primo accesso usa la password temporanea ricevuta dall'organizzatore.
           </p>
         </div>
       </div>
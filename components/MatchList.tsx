@@ -1,5 +1,13 @@
 import React, { useState } from 'react';
 import { type Group, type Match, type Player } from '../types';
+import { formatMatchScore, hasMatchResult } from '../utils/score';
+import { formatMatchdayWindow, getMatchdayWindow, getMatchRounds, getRestingPlayerIds } from '../utils/roundRobin';
+import { BOOKING_PROPOSAL_KIND_LABELS, formatProposalExpiry, getActiveProposal, getProposalRecipient } from '../utils/proposals';
+import { formatAutoConfirm, getResultConfirmationStatus, getResultConfirmer, RESULT_CONFIRMATION_LABELS } from '../utils/resultConfirmation';
+import { type EventPermissions } from '../services/permissionService';
+
+export type ProposalResponse = 'accept' | 'decline' | 'counter';
+export type ResultResponse = 'confirm' | 'dispute';
 
 // AGGIUNTA: funzione ICS per calendario
 function downloadIcsForMatch({eventName, opponentName, date, startTime}: {eventName: string, opponentName: string, date: string, startTime: string}) {
@@ -84,12 +92,15 @@ interface MatchListProps {
   players?: Player[];
   onEditResult: (match: Match, triggerRect?: DOMRect | null) => void;
   onBookMatch: (match: Match, triggerRect?: DOMRect | null) => void;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
   onPlayerContact: (player: Player) => void;
   onRescheduleMatch?: (match: Match, triggerRect?: DOMRect | null) => void;
   onCancelBooking?: (match: Match) => void;
   onDeleteResult?: (match: Match, triggerRect?: DOMRect | null) => void;
+  onRespondProposal?: (match: Match, action: ProposalResponse, triggerRect?: DOMRect | null) => void;
+  onRespondResult?: (match: Match, action: ResultResponse) => void;
+  resultAutoConfirmHours?: number;
   viewingOwnGroup?: boolean;
 }
 
@@ -99,26 +110,34 @@ const MatchCard: React.FC<{
   player2?: Player | null;
   onEditResult: (match: Match, triggerRect?: DOMRect | null) => void;
   onBookMatch: (match: Match, triggerRect?: DOMRect | null) => void;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
   onPlayerContact: (player: Player) => void;
   onRescheduleMatch?: (match: Match, triggerRect?: DOMRect | null) => void;
   onCancelBooking?: (match: Match) => void;
   onDeleteResult?: (match: Match, triggerRect?: DOMRect | null) => void;
+  onRespondProposal?: (match: Match, action: ProposalResponse, triggerRect?: DOMRect | null) => void;
+  onRespondResult?: (match: Match, action: ResultResponse) => void;
+  resultAutoConfirmHours?: number;
   viewingOwnGroup?: boolean;
+  roundLabel?: string | null; // null nasconde l'intestazione del turno
 }> = ({
   match,
   player1,
   player2,
   onEditResult,
   onBookMatch,
-  isOrganizer,
+  permissions,
   loggedInPlayerId,
   onPlayerContact,
   onRescheduleMatch,
   onCancelBooking,
   onDeleteResult,
-  viewingOwnGroup = false
+  onRespondProposal,
+  onRespondResult,
+  resultAutoConfirmHours,
+  viewingOwnGroup = false,
+  roundLabel = 'Turno'
 }) => {
   if (!player1 || !player2) {
     return (
@@ -129,10 +148,28 @@ const MatchCard: React.FC<{
   }
 
   const isParticipant = !!(loggedInPlayerId && (loggedInPlayerId === player1.id || loggedInPlayerId === player2.id));
-  const canManageBooking = isOrganizer || (isParticipant && viewingOwnGroup);
-  const canEnterResult = isOrganizer || (isParticipant && viewingOwnGroup);
-  const canBook = isOrganizer || (isParticipant && viewingOwnGroup);
-  const canDeleteResult = isOrganizer || (isParticipant && viewingOwnGroup);
+  const canManageBooking = permissions.canManageStructure || (isParticipant && viewingOwnGroup);
+  const canBook = permissions.canManageStructure || (isParticipant && viewingOwnGroup);
+
+  // un giocatore modifica solo il proprio risultato non ancora confermato; poi decide l'organizzatore
+  const resultStatus = hasMatchResult(match) ? getResultConfirmationStatus(match, resultAutoConfirmHours) : null;
+  const isOwnSubmittedResult = resultStatus === 'submitted' && match.resultConfirmation?.submittedBy === loggedInPlayerId;
+  const canEnterResult = permissions.canManageResults || (isParticipant && viewingOwnGroup && (!resultStatus || isOwnSubmittedResult));
+  const canDeleteResult = canEnterResult;
+  const canAnswerResult = !!onRespondResult && (permissions.canManageResults
+    ? resultStatus === 'submitted' || resultStatus === 'disputed'
+    : resultStatus === 'submitted' && viewingOwnGroup && loggedInPlayerId === getResultConfirmer(match));
+
+  // finché una proposta è aperta la partita non si prenota né si sposta
+  const proposal = getActiveProposal(match);
+  const isProposer = !!(proposal && loggedInPlayerId === proposal.proposedBy);
+  const canAnswerProposal = !!(proposal && (permissions.canManageStructure || (viewingOwnGroup && loggedInPlayerId === getProposalRecipient(match, proposal))));
+  const proposalDate = proposal ? new Date(proposal.scheduledTime) : null;
+  const respondProposal = (e: React.MouseEvent<HTMLButtonElement>, action: ProposalResponse) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    e.stopPropagation();
+    onRespondProposal?.(match, action, rect);
+  };
 
   const scheduledInfo = match.status === 'scheduled' && match.scheduledTime
     ? {
@@ -162,6 +199,9 @@ const MatchCard: React.FC<{
 
   return (
     <div className="bg-secondary p-4 rounded-lg shadow">
+      {match.round !== undefined && roundLabel && (
+        <div className="text-xs uppercase text-text-secondary text-center mb-2">{roundLabel} {match.round}</div>
+      )}
       <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
         <div className="flex items-center gap-3 justify-start">
           <img src={player1.avatar} alt={player1.name} className="w-10 h-10 rounded-full object-cover" />
@@ -175,9 +215,9 @@ const MatchCard: React.FC<{
         </div>
 
         <div className="flex flex-col items-center">
-          {match.score1 != null && match.score2 != null ? (
+          {hasMatchResult(match) ? (
             <div className="text-2xl font-bold text-center">
-              {match.score1} — {match.score2}
+              {formatMatchScore(match)}
             </div>
           ) : (
             <div className="text-lg font-medium text-center text-text-secondary">vs</div>
@@ -208,8 +248,68 @@ const MatchCard: React.FC<{
         </div>
       </div>
 
+      {proposal && proposalDate && (
+        <div className="mt-4 p-3 rounded-lg border-l-4 border-yellow-500 bg-yellow-500/10 text-sm">
+          <div className="font-semibold">
+            {BOOKING_PROPOSAL_KIND_LABELS[proposal.kind]}: {proposalDate.toLocaleDateString('it-IT', { day: '2-digit', month: '2-digit' })} — {proposalDate.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+            {(proposal.field || proposal.location) && <> • {proposal.field || proposal.location}</>}
+          </div>
+          <div className="text-xs text-text-secondary">
+            Proposta da {proposal.proposedBy === player1.id ? player1.name : player2.name} • {formatProposalExpiry(proposal)}
+          </div>
+          {onRespondProposal && (canAnswerProposal || isProposer) && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {canAnswerProposal && !isProposer && (
+                <>
+                  <button type="button" onClick={e => respondProposal(e, 'accept')} className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                    Accetta
+                  </button>
+                  <button type="button" onClick={e => respondProposal(e, 'decline')} className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                    Rifiuta
+                  </button>
+                  <button type="button" onClick={e => respondProposal(e, 'counter')} className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                    Controproposta
+                  </button>
+                </>
+              )}
+              {isProposer && (
+                <>
+                  <span className="text-xs italic text-text-secondary self-center">In attesa di conferma</span>
+                  <button type="button" onClick={e => respondProposal(e, 'decline')} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                    Ritira
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {resultStatus && resultStatus !== 'confirmed' && (
+        <div className={`mt-4 p-3 rounded-lg border-l-4 text-sm ${resultStatus === 'disputed' ? 'border-red-500 bg-red-500/10' : 'border-blue-400 bg-blue-400/10'}`}>
+          <div className="font-semibold">{RESULT_CONFIRMATION_LABELS[resultStatus]}</div>
+          <div className="text-xs text-text-secondary">
+            {resultStatus === 'disputed'
+              ? `In attesa della decisione dell'organizzatore${match.resultConfirmation?.disputeReason ? `: ${match.resultConfirmation.disputeReason}` : ''}`
+              : `Inserito da ${match.resultConfirmation?.submittedBy === player1.id ? player1.name : player2.name} • ${formatAutoConfirm(match, resultAutoConfirmHours)}`}
+          </div>
+          {canAnswerResult && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              <button type="button" onClick={e => { e.stopPropagation(); onRespondResult?.(match, 'confirm'); }} className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                Conferma
+              </button>
+              {!permissions.canManageResults && (
+                <button type="button" onClick={e => { e.stopPropagation(); onRespondResult?.(match, 'dispute'); }} className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-lg text-xs">
+                  Contesta
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-center gap-4 pt-4 mt-4 border-t border-tertiary/50">
-        {match.status === 'pending' && canBook && (
+        {match.status === 'pending' && canBook && !proposal && (
           <button
             onClick={(e) => {
               const el = e.currentTarget as HTMLElement;
@@ -239,7 +339,7 @@ const MatchCard: React.FC<{
             Risultato
           </button>
         )}
-        {match.status === 'scheduled' && canManageBooking && onRescheduleMatch && (
+        {match.status === 'scheduled' && canManageBooking && onRescheduleMatch && !proposal && (
           <button
             type="button"
             onClick={(e) => {
@@ -263,7 +363,7 @@ const MatchCard: React.FC<{
             Annulla pren.
           </button>
         )}
-        {match.score1 != null && match.score2 != null && canDeleteResult && onDeleteResult && (
+        {hasMatchResult(match) && canDeleteResult && onDeleteResult && (
           <button
             type="button"
             onClick={(e) => {
@@ -333,15 +433,19 @@ const MatchList: React.FC<MatchListProps> = ({
   players = [],
   onEditResult,
   onBookMatch,
-  isOrganizer,
+  permissions,
   loggedInPlayerId,
   onPlayerContact,
   onRescheduleMatch,
   onCancelBooking,
   onDeleteResult,
+  onRespondProposal,
+  onRespondResult,
+  resultAutoConfirmHours,
   viewingOwnGroup = false
 }) => {
-  const [filter, setFilter] = useState<'all' | 'my'>(isOrganizer ? 'all' : 'my');
+  const [filter, setFilter] = useState<'all' | 'my'>(permissions.canViewAdmin ? 'all' : 'my');
+  const [view, setView] = useState<'status' | 'matchday'>('status');
 
   if (!group) {
     return <p className="text-center text-text-secondary py-6">Seleziona un girone per vedere le partite.</p>;
@@ -366,7 +470,12 @@ const MatchList: React.FC<MatchListProps> = ({
     (filter === 'all' || (!!loggedInPlayerId && (m.player1Id === loggedInPlayerId || m.player2Id === loggedInPlayerId)))
   );
 
-  const completedMatches = group.matches.filter(m => m.score1 != null && m.score2 != null);
+  const completedMatches = group.matches.filter(m => hasMatchResult(m));
+
+  const rounds = getMatchRounds(group.matches);
+  const roundLabel = group.format === 'swiss' ? 'Turno' : 'Giornata';
+  const isVisible = (m: Match) =>
+    filter === 'all' || (!!loggedInPlayerId && (m.player1Id === loggedInPlayerId || m.player2Id === loggedInPlayerId));
 
   const sortByTime = (arr: Match[]) =>
     arr.slice().sort((a, b) => {
@@ -377,7 +486,28 @@ const MatchList: React.FC<MatchListProps> = ({
 
   return (
     <div className="space-y-6">
-      {!isOrganizer && (
+      {rounds.length > 0 && (
+        <div className="flex justify-center mb-4">
+          <div className="bg-tertiary/50 rounded-lg p-1 flex">
+            <button
+              onClick={() => setView('status')}
+              className={`px-4 py-1 text-sm font-semibold rounded-md transition-colors ${view === 'status' ? 'bg-highlight text-white' : 'text-text-secondary'}`}
+              type="button"
+            >
+              Per stato
+            </button>
+            <button
+              onClick={() => setView('matchday')}
+              className={`px-4 py-1 text-sm font-semibold rounded-md transition-colors ${view === 'matchday' ? 'bg-highlight text-white' : 'text-text-secondary'}`}
+              type="button"
+            >
+              Per {roundLabel.toLowerCase()}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!permissions.canViewAdmin && (
         <div className="flex justify-center mb-4">
           <div className="bg-tertiary/50 rounded-lg p-1 flex">
             <button
@@ -398,74 +528,132 @@ const MatchList: React.FC<MatchListProps> = ({
         </div>
       )}
 
-      <div>
-        <h4 className="text-lg font-semibold mb-3 text-accent">Partite Programmate</h4>
-        <div className="space-y-3">
-          {scheduledMatches.length > 0 ? sortByTime(scheduledMatches).map(match => (
-            <MatchCard
-              key={match.id}
-              match={match}
-              player1={getPlayer(match.player1Id)}
-              player2={getPlayer(match.player2Id)}
-              onEditResult={onEditResult}
-              onBookMatch={onBookMatch}
-              isOrganizer={isOrganizer}
-              loggedInPlayerId={loggedInPlayerId}
-              onPlayerContact={onPlayerContact}
-              onRescheduleMatch={onRescheduleMatch}
-              onCancelBooking={onCancelBooking}
-              onDeleteResult={onDeleteResult}
-              viewingOwnGroup={viewingOwnGroup}
-            />
-          )) : <p className="text-text-secondary text-center py-4">Nessuna partita programmata.</p>}
-        </div>
-      </div>
+      {view === 'matchday' && rounds.length > 0 ? (
+        rounds.map(round => {
+          const roundMatches = group.matches.filter(m => m.round === round && isVisible(m));
+          const resting = getRestingPlayerIds(group, round);
+          const matchdayWindow = formatMatchdayWindow(getMatchdayWindow(group, round));
+          return (
+            <div key={round}>
+              <div className="flex items-baseline justify-between gap-2 mb-3 flex-wrap">
+                <h4 className="text-lg font-semibold text-accent">{roundLabel} {round}</h4>
+                {matchdayWindow && <span className="text-sm text-text-secondary">{matchdayWindow}</span>}
+              </div>
+              <div className="space-y-3">
+                {roundMatches.length > 0 ? roundMatches.map(match => (
+                  <MatchCard
+                    key={match.id}
+                    match={match}
+                    player1={getPlayer(match.player1Id)}
+                    player2={getPlayer(match.player2Id)}
+                    onEditResult={onEditResult}
+                    onBookMatch={onBookMatch}
+                    permissions={permissions}
+                    loggedInPlayerId={loggedInPlayerId}
+                    onPlayerContact={onPlayerContact}
+                    onRescheduleMatch={onRescheduleMatch}
+                    onCancelBooking={onCancelBooking}
+                    onDeleteResult={onDeleteResult}
+                    onRespondProposal={onRespondProposal}
+                    onRespondResult={onRespondResult}
+                    resultAutoConfirmHours={resultAutoConfirmHours}
+                    viewingOwnGroup={viewingOwnGroup}
+                    roundLabel={null}
+                  />
+                )) : <p className="text-text-secondary text-center py-4">Nessuna partita in questa {roundLabel.toLowerCase()}.</p>}
+              </div>
+              {resting.length > 0 && (
+                <p className="text-sm text-text-secondary mt-2">
+                  Riposa: {resting.map(id => getPlayer(id)?.name ?? id).join(', ')}
+                </p>
+              )}
+            </div>
+          );
+        })
+      ) : (
+        <>
+          <div>
+            <h4 className="text-lg font-semibold mb-3 text-accent">Partite Programmate</h4>
+            <div className="space-y-3">
+              {scheduledMatches.length > 0 ? sortByTime(scheduledMatches).map(match => (
+                <MatchCard
+                  key={match.id}
+                  match={match}
+                  player1={getPlayer(match.player1Id)}
+                  player2={getPlayer(match.player2Id)}
+                  onEditResult={onEditResult}
+                  onBookMatch={onBookMatch}
+                  permissions={permissions}
+                  loggedInPlayerId={loggedInPlayerId}
+                  onPlayerContact={onPlayerContact}
+                  onRescheduleMatch={onRescheduleMatch}
+                  onCancelBooking={onCancelBooking}
+                  onDeleteResult={onDeleteResult}
+                  onRespondProposal={onRespondProposal}
+                  onRespondResult={onRespondResult}
+                  resultAutoConfirmHours={resultAutoConfirmHours}
+                  viewingOwnGroup={viewingOwnGroup}
+                  roundLabel={roundLabel}
+                />
+              )) : <p className="text-text-secondary text-center py-4">Nessuna partita programmata.</p>}
+            </div>
+          </div>
 
-      <div>
-        <h4 className="text-lg font-semibold mb-3 text-accent">Partite da Fare</h4>
-        <div className="space-y-3">
-          {pendingMatches.length > 0 ? pendingMatches.map(match => (
-            <MatchCard
-              key={match.id}
-              match={match}
-              player1={getPlayer(match.player1Id)}
-              player2={getPlayer(match.player2Id)}
-              onEditResult={onEditResult}
-              onBookMatch={onBookMatch}
-              isOrganizer={isOrganizer}
-              loggedInPlayerId={loggedInPlayerId}
-              onPlayerContact={onPlayerContact}
-              onRescheduleMatch={onRescheduleMatch}
-              onCancelBooking={onCancelBooking}
-              onDeleteResult={onDeleteResult}
-              viewingOwnGroup={viewingOwnGroup}
-            />
-          )) : <p className="text-text-secondary text-center py-4">Nessuna partita da disputare.</p>}
-        </div>
-      </div>
+          <div>
+            <h4 className="text-lg font-semibold mb-3 text-accent">Partite da Fare</h4>
+            <div className="space-y-3">
+              {pendingMatches.length > 0 ? pendingMatches.map(match => (
+                <MatchCard
+                  key={match.id}
+                  match={match}
+                  player1={getPlayer(match.player1Id)}
+                  player2={getPlayer(match.player2Id)}
+                  onEditResult={onEditResult}
+                  onBookMatch={onBookMatch}
+                  permissions={permissions}
+                  loggedInPlayerId={loggedInPlayerId}
+                  onPlayerContact={onPlayerContact}
+                  onRescheduleMatch={onRescheduleMatch}
+                  onCancelBooking={onCancelBooking}
+                  onDeleteResult={onDeleteResult}
+                  onRespondProposal={onRespondProposal}
+                  onRespondResult={onRespondResult}
+                  resultAutoConfirmHours={resultAutoConfirmHours}
+                  viewingOwnGroup={viewingOwnGroup}
+                  roundLabel={roundLabel}
+                />
+              )) : <p className="text-text-secondary text-center py-4">Nessuna partita da disputare.</p>}
+            </div>
+          </div>
 
-      <div>
-        <h4 className="text-lg font-semibold mb-3 text-accent">Partite Completate</h4>
-        <div className="space-y-3">
-          {completedMatches.length > 0 ? completedMatches.map(match => (
-            <MatchCard
-              key={match.id}
-              match={match}
-              player1={getPlayer(match.player1Id)}
-              player2={getPlayer(match.player2Id)}
-              onEditResult={onEditResult}
-              onBookMatch={onBookMatch}
-              isOrganizer={isOrganizer}
-              loggedInPlayerId={loggedInPlayerId}
-              onPlayerContact={onPlayerContact}
-              onRescheduleMatch={onRescheduleMatch}
-              onCancelBooking={onCancelBooking}
-              onDeleteResult={onDeleteResult}
-              viewingOwnGroup={viewingOwnGroup}
-            />
-          )) : <p className="text-text-secondary text-center py-4">Nessuna partita completata.</p>}
-        </div>
-      </div>
+          <div>
+            <h4 className="text-lg font-semibold mb-3 text-accent">Partite Completate</h4>
+            <div className="space-y-3">
+              {completedMatches.length > 0 ? completedMatches.map(match => (
+                <MatchCard
+                  key={match.id}
+                  match={match}
+                  player1={getPlayer(match.player1Id)}
+                  player2={getPlayer(match.player2Id)}
+                  onEditResult={onEditResult}
+                  onBookMatch={onBookMatch}
+                  permissions={permissions}
+                  loggedInPlayerId={loggedInPlayerId}
+                  onPlayerContact={onPlayerContact}
+                  onRescheduleMatch={onRescheduleMatch}
+                  onCancelBooking={onCancelBooking}
+                  onDeleteResult={onDeleteResult}
+                  onRespondProposal={onRespondProposal}
+                  onRespondResult={onRespondResult}
+                  resultAutoConfirmHours={resultAutoConfirmHours}
+                  viewingOwnGroup={viewingOwnGroup}
+                  roundLabel={roundLabel}
+                />
+              )) : <p className="text-text-secondary text-center py-4">Nessuna partita completata.</p>}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { isWriteConflict, repository } from "../services/dataRepository";
+import { type Event, type Match, type Tournament, type Venue } from '../types';
+import { getCompetitorName } from '../utils/padel';
+import {
+  acceptProposal,
+  BOOKING_PROPOSAL_KIND_LABELS,
+  clearProposal,
+  formatProposalExpiry,
+  getActiveProposal,
+  replaceTournamentMatch,
+} from '../utils/proposals';
+import { getCourtBookings, getCourtIssue } from '../utils/venues';
+
+interface OpenProposalsPanelProps {
+  event: Event;
+  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
+  allEvents: Event[];
+  venues: Venue[];
+}
+
+const formatProposalTime = (iso: string) => {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}, ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const getTournamentMatches = (tournament: Tournament): Match[] => [
+  ...(tournament.groups ?? []).flatMap(g => g.matches ?? []),
+  ...(tournament.playoffMatches ?? []),
+  ...(tournament.consolationMatches ?? []),
+];
+
+const OpenProposalsPanel: React.FC<OpenProposalsPanelProps> = ({ event, setEvents, allEvents, venues }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const openProposals = useMemo(() => {
+    const now = Date.now();
+    return (event.tournaments ?? [])
+      .flatMap(tournament => getTournamentMatches(tournament)
+        .filter(match => getActiveProposal(match, now))
+        .map(match => ({ tournament, match })))
+      .sort((a, b) => (a.match.proposal?.expiresAt ?? '').localeCompare(b.match.proposal?.expiresAt ?? ''));
+  }, [event.tournaments]);
+
+  const saveMatch = async (tournamentId: string, updatedMatch: Match) => {
+    try {
+      await repository.matches.save(event, tournamentId, updatedMatch);
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      setError(err.message);
+      return;
+    }
+    const updatedTournaments = event.tournaments.map(t =>
+      t.id === tournamentId ? replaceTournamentMatch(t, updatedMatch) : t
+    );
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+  };
+
+  const handleConfirm = async (tournamentId: string, match: Match) => {
+    const proposal = getActiveProposal(match);
+    if (!proposal) return;
+    const courtIssue = proposal.courtId
+      ? getCourtIssue(getCourtBookings(allEvents), venues, proposal.courtId, proposal.scheduledTime, undefined, match.id)
+      : null;
+    if (courtIssue) {
+      setError(courtIssue);
+      return;
+    }
+    setError(null);
+    await saveMatch(tournamentId, acceptProposal(match));
+  };
+
+  const handleDiscard = async (tournamentId: string, match: Match) => {
+    setError(null);
+    await saveMatch(tournamentId, clearProposal(match));
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-2">Proposte aperte</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Prenotazioni e spostamenti proposti dai giocatori che attendono la conferma dell'avversario. Lo slot resta bloccato fino alla risposta o alla scadenza.
+      </p>
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {openProposals.length === 0 ? (
+        <p className="text-text-secondary italic text-sm">Nessuna proposta in attesa.</p>
+      ) : (
+        <ul className="space-y-2">
+          {openProposals.map(({ tournament, match }) => {
+            const proposal = match.proposal!;
+            return (
+              <li key={match.id} className="p-3 rounded-lg border-l-4 border-yellow-500 bg-yellow-500/10 text-sm flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="font-semibold">
+                    {getCompetitorName(event, tournament, match.player1Id)} vs {getCompetitorName(event, tournament, match.player2Id)}
+                  </div>
+                  <div className="text-text-secondary">
+                    {tournament.name} • {BOOKING_PROPOSAL_KIND_LABELS[proposal.kind]} • {formatProposalTime(proposal.scheduledTime)}
+                    {(proposal.field || proposal.location) && ` • ${proposal.field || proposal.location}`}
+                  </div>
+                  <div className="text-xs text-text-secondary">
+                    Proposta da {getCompetitorName(event, tournament, proposal.proposedBy)} • {formatProposalExpiry(proposal)}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleConfirm(tournament.id, match)}
+                    className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-xs"
+                  >
+                    Conferma
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDiscard(tournament.id, match)}
+                    className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-lg text-xs"
+                  >
+                    Annulla
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OpenProposalsPanel;
@@ -16,6 +16,9 @@ const ParticipantDashboard: React.FC<ParticipantDashboardProps> = ({ events, hea
   const myEvents = events.filter(event => 
     Array.isArray(event.players) && event.players.some(p => p.id === playerId && p.status === 'confirmed')
   );
+  const pendingEvents = events.filter(event =>
+    Array.isArray(event.players) && event.players.some(p => p.id === playerId && p.status === 'pending')
+  );
 
   const getPlayerStats = (event: Event) => {
     let position = 'N/A';
@@ -86,6 +89,16 @@ const ParticipantDashboard: React.FC<ParticipantDashboardProps> = ({ events, hea
   return (
     <div className="space-y-6 animate-fadeIn">
         {headerContent}
+        {pendingEvents.length > 0 && (
+            <div className="bg-secondary rounded-xl shadow-lg p-4">
+                <h3 className="text-sm font-semibold text-text-secondary mb-2">Iscrizioni in attesa di approvazione</h3>
+                <ul className="flex flex-wrap gap-2">
+                    {pendingEvents.map(event => (
+                        <li key={event.id} className="px-3 py-1 rounded-full bg-yellow-500/20 text-yellow-300 text-sm">{event.name}</li>
+                    ))}
+                </ul>
+            </div>
+        )}
         <h2 className="text-3xl font-bold">I Miei Eventi</h2>
         {myEvents.length === 0 && (
             <p className="text-text-secondary text-center py-8">Nessun evento trovato.</p>
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { type Event, type Player } from '../types';
-import { db } from "../firebase";
-import { collection, query, where, getDocs, addDoc, updateDoc, doc, deleteDoc } from "firebase/firestore";
+import { createParticipantUser } from '../services/authService';
+import { repository } from '../services/dataRepository';
+import { PLAYER_LEVEL_LABELS } from '../utils/invitations';
+import InvitationSettingsPanel from './InvitationSettingsPanel';
+import { type EventPermissions } from '../services/permissionService';
 
 const createInitialsAvatar = (name: string): string => {
   const initials = name.split(' ').map(n => n[0]).slice(0, 2).join('').toUpperCase();
@@ -14,25 +17,22 @@ const createInitialsAvatar = (name: string): string => {
 interface PlayerManagementProps {
   event: Event;
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   onPlayerContact: (player: Player) => void;
 }
 
-// Funzione anti-doppioni per aggiungere giocatore e utente
-async function addPlayerAndUserNoDuplicates(event: Event, playerData: { name: string; phone: string; avatar: string; summerRankingStartPoints: number; }) {
-  const playersRef = collection(db, "players");
-  const q = query(playersRef, where("name", "==", playerData.name), where("phone", "==", playerData.phone));
-  const existingPlayersSnap = await getDocs(q);
+// Funzione anti-doppioni per aggiungere giocatore e utente; restituisce la password temporanea del nuovo utente
+async function addPlayerAndUserNoDuplicates(event: Event, playerData: { name: string; phone: string; avatar: string; summerRankingStartPoints: number; }): Promise<string | null> {
+  const existingPlayer = await repository.players.findByNameAndPhone(playerData.name, playerData.phone);
   let playerId;
-  if (!existingPlayersSnap.empty) {
-    const playerDoc = existingPlayersSnap.docs[0];
-    playerId = playerDoc.id;
-    await updateDoc(playerDoc.ref, {
-      summerRankingStartPoints: playerDoc.data().summerRankingStartPoints ?? playerData.summerRankingStartPoints,
-      summerRankingJoinedAt: playerDoc.data().summerRankingJoinedAt ?? new Date().toISOString(),
+  if (existingPlayer) {
+    playerId = existingPlayer.id;
+    await repository.players.update(playerId, {
+      summerRankingStartPoints: existingPlayer.summerRankingStartPoints ?? playerData.summerRankingStartPoints,
+      summerRankingJoinedAt: existingPlayer.summerRankingJoinedAt ?? new Date().toISOString(),
     });
   } else {
-    const playerDocRef = await addDoc(playersRef, {
+    playerId = await repository.players.create({
       name: playerData.name,
       phone: playerData.phone,
       avatar: playerData.avatar,
@@ -40,22 +40,12 @@ async function addPlayerAndUserNoDuplicates(event: Event, playerData: { name: st
       summerRankingStartPoints: playerData.summerRankingStartPoints,
       summerRankingJoinedAt: new Date().toISOString(),
     });
-    playerId = playerDocRef.id;
-  }
-  const usersRef = collection(db, "users");
-  const userQ = query(usersRef, where("username", "==", playerData.name));
-  const userSnap = await getDocs(userQ);
-  if (userSnap.empty) {
-    await addDoc(usersRef, {
-      username: playerData.name,
-      password: "1234",
-      role: "participant",
-      playerId
-    });
   }
+  const existingUsers = await repository.users.findByUsername(playerData.name);
+  const temporaryPassword = existingUsers.length === 0 ? await createParticipantUser(playerData.name, playerId) : null;
   const alreadyInEvent = event.players.some(p => p.id === playerId);
   if (!alreadyInEvent) {
-    const newPlayer = {
+    const newPlayer: Player = {
       id: playerId,
       name: playerData.name,
       phone: playerData.phone,
@@ -63,19 +53,18 @@ async function addPlayerAndUserNoDuplicates(event: Event, playerData: { name: st
       status: "confirmed"
     };
     const updatedPlayers = [...event.players, newPlayer];
-    await updateDoc(doc(db, "events", event.id), { players: updatedPlayers });
+    await repository.events.update(event.id, { players: updatedPlayers });
   }
+  return temporaryPassword;
 }
 
-// Funzione per cancellare giocatore da evento e da Firestore
+// Funzione per cancellare giocatore da evento e dall'anagrafica
 async function removePlayerCompletely(event: Event, playerId: string) {
   const updatedPlayers = event.players.filter(p => p.id !== playerId);
-  await updateDoc(doc(db, "events", event.id), { players: updatedPlayers });
-  await deleteDoc(doc(db, "players", playerId));
-  const usersRef = collection(db, "users");
-  const userQ = query(usersRef, where("playerId", "==", playerId));
-  const userSnap = await getDocs(userQ);
-  userSnap.forEach(u => deleteDoc(u.ref));
+  await repository.events.update(event.id, { players: updatedPlayers });
+  await repository.players.remove(playerId);
+  const linkedUsers = await repository.users.findByPlayerId(playerId);
+  linkedUsers.forEach(u => repository.users.remove(u.id));
 }
 
 // Funzione che determina se il giocatore è assegnato ad almeno un girone
@@ -85,7 +74,7 @@ const isPlayerAssignedToGroup = (event: Event, playerId: string): boolean => {
   );
 };
 
-const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, isOrganizer, onPlayerContact }) => {
+const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, permissions, onPlayerContact }) => {
     const [replacingPlayer, setReplacingPlayer] = useState<Player | null>(null);
     const [replacementTarget, setReplacementTarget] = useState<string>('');
     const [newPlayerName, setNewPlayerName] = useState('');
@@ -97,6 +86,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
     const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
     const [editName, setEditName] = useState('');
     const [editPhone, setEditPhone] = useState('');
+    const [editClub, setEditClub] = useState('');
     const [editLoading, setEditLoading] = useState(false);
 
     // DEDUPLICA giocatori per id nella lista visualizzata
@@ -112,7 +102,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
         if(!newPlayerName.trim() || !newPlayerPhone.trim()) return;
         setLoading(true);
         try {
-          await addPlayerAndUserNoDuplicates(event, {
+          const temporaryPassword = await addPlayerAndUserNoDuplicates(event, {
             name: newPlayerName.trim(),
             phone: newPlayerPhone.trim(),
             avatar: createInitialsAvatar(newPlayerName.trim()),
@@ -133,6 +123,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
           setNewPlayerName('');
           setNewPlayerPhone('');
           setNewPlayerSummerRankingPoints('0');
+          if (temporaryPassword) alert(`Account creato per ${newPlayerName.trim()}.\nPassword temporanea: ${temporaryPassword}\n(da cambiare al primo accesso)`);
         } catch (err) {
           alert("Errore durante la creazione: " + (err as Error).message);
         }
@@ -149,12 +140,24 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                 players: updatedPlayers
             }
         }));
-        await updateDoc(doc(db, "events", event.id), {
+        await repository.events.update(event.id, {
+            players: updatedPlayers
+        });
+    };
+
+    // RIFIUTA RICHIESTA: toglie solo la richiesta dall'evento, giocatore e account restano
+    const handleRejectPlayer = async (player: Player) => {
+        if (!window.confirm(`Rifiutare la richiesta di iscrizione di ${player.name}?`)) return;
+        const updatedPlayers = event.players.filter(p => p.id !== player.id);
+        setEvents(prevEvents => prevEvents.map(e =>
+            e.id === event.id ? { ...e, players: updatedPlayers } : e
+        ));
+        await repository.events.update(event.id, {
             players: updatedPlayers
         });
     };
 
-    // ELIMINA GIOCATORE DA SISTEMA (evento + firebase)
+    // ELIMINA GIOCATORE DA SISTEMA (evento + anagrafica)
     const handleDeletePlayer = async (playerId: string) => {
       setLoading(true);
       try {
@@ -194,7 +197,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
         setEvents(prevEvents => prevEvents.map(e =>
             e.id === event.id ? {...e, tournaments: newTournaments} : e
         ));
-        await updateDoc(doc(db, "events", event.id), {
+        await repository.events.update(event.id, {
             tournaments: newTournaments
         });
         setReplacingPlayer(null);
@@ -207,21 +210,30 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
       setEditingPlayer(player);
       setEditName(player.name ?? '');
       setEditPhone(player.phone ?? '');
+      setEditClub(player.club ?? '');
     };
 
     const closeEditModal = () => {
       setEditingPlayer(null);
       setEditName('');
       setEditPhone('');
+      setEditClub('');
     };
 
     const handleSaveEditPlayer = async () => {
       if (!editingPlayer) return;
       setEditLoading(true);
       try {
-        const updatedPlayers = event.players.map(p => p.id === editingPlayer.id ? { ...p, name: editName.trim(), phone: editPhone.trim() || undefined } : p);
+        const updatedPlayers = event.players.map(p => {
+          if (p.id !== editingPlayer.id) return p;
+          const updated = { ...p, name: editName.trim(), phone: editPhone.trim() || undefined };
+          // il circolo serve al sorteggio dei gironi; vuoto = campo rimosso
+          if (editClub.trim()) updated.club = editClub.trim();
+          else delete updated.club;
+          return updated;
+        });
         setEvents(prevEvents => prevEvents.map(ev => ev.id === event.id ? { ...ev, players: updatedPlayers } : ev));
-        await updateDoc(doc(db, "events", event.id), { players: updatedPlayers });
+        await repository.events.update(event.id, { players: updatedPlayers });
         closeEditModal();
       } catch (err) {
         alert("Errore durante il salvataggio: " + (err as Error).message);
@@ -245,7 +257,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
         <div className="bg-secondary p-6 rounded-xl shadow-lg">
             <h3 className="text-xl font-bold mb-6 text-accent">Partecipanti ({confirmedPlayers.length})</h3>
             
-             {isOrganizer && (
+             {permissions.canManageStructure && (
                 <>
                 <div className="mb-8 bg-primary/50 p-4 rounded-lg">
                     <h4 className="text-lg font-semibold mb-3">Aggiungi Nuovo Giocatore</h4>
@@ -280,6 +292,8 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                     </form>
                 </div>
 
+                <InvitationSettingsPanel key={event.id} event={event} setEvents={setEvents} />
+
                 <div className="mb-8">
                     <h4 className="text-lg font-semibold mb-3">Richieste di Iscrizione ({pendingPlayers.length})</h4>
                     {pendingPlayers.length > 0 ? (
@@ -294,14 +308,21 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                                         <div>
                                             <div className="font-semibold">{idx + 1}. {player.name}</div>
                                             <div className="text-sm text-text-secondary">{player.phone}</div>
+                                            {(player.level || player.joinRequestedAt) && (
+                                              <div className="text-xs text-text-secondary">
+                                                {player.level && <>Livello: {PLAYER_LEVEL_LABELS[player.level]}</>}
+                                                {player.level && player.joinRequestedAt && ' • '}
+                                                {player.joinRequestedAt && <>Richiesta del {new Date(player.joinRequestedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}</>}
+                                              </div>
+                                            )}
                                         </div>
                                     </div>
                                     <div className="flex gap-2">
                                       <button onClick={() => handleConfirmPlayer(player.id)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
                                         Conferma
                                       </button>
-                                      <button onClick={() => handleDeletePlayer(player.id)} disabled={loading} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                                        Elimina
+                                      <button onClick={() => handleRejectPlayer(player)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                                        Rifiuta
                                       </button>
                                     </div>
                                 </li>
@@ -333,7 +354,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                                     <div className="text-sm text-text-secondary">{player.phone}</div>
                                 </div>
                             </button>
-                            {isOrganizer && (
+                            {permissions.canManageStructure && (
                                 <div className="flex gap-2">
                                     <button onClick={() => setReplacingPlayer(player)} className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded-lg transition-colors text-sm">
                                         Sostituisci
@@ -351,7 +372,7 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                 </ul>
             </div>
 
-            {isOrganizer && replacingPlayer && (
+            {permissions.canManageStructure && replacingPlayer && (
                  <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fadeIn">
                     <div className="bg-secondary rounded-xl shadow-2xl p-6 w-full max-w-md border border-tertiary">
                         <h4 className="text-lg font-bold mb-4">Sostituisci {replacingPlayer.name}</h4>
@@ -404,6 +425,15 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ event, setEvents, i
                       placeholder="Es. +391234567890"
                     />
                   </div>
+                  <div className="mb-4">
+                    <label className="text-sm text-text-secondary block mb-1">Circolo</label>
+                    <input
+                      value={editClub}
+                      onChange={e => setEditClub(e.target.value)}
+                      className="w-full p-2 rounded bg-primary border"
+                      placeholder="Es. TC Roma"
+                    />
+                  </div>
 
                   <div className="flex justify-end gap-3">
                     <button onClick={closeEditModal} className="bg-tertiary px-4 py-2 rounded">Annulla</button>
@@ -1,16 +1,18 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { type Event, type Tournament, type Player } from '../types';
 import { calculateStandings } from '../utils/standings';
+import AutoSeedingPanel from './AutoSeedingPanel';
+import { type EventPermissions } from '../services/permissionService';
 
 interface PlayoffBracketBuilderProps {
     event: Event;
     tournament: Tournament;
     setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-    isOrganizer: boolean;
+    permissions: EventPermissions;
 }
 
 const PlayoffBracketBuilder: React.FC<PlayoffBracketBuilderProps> = ({
-    event, tournament, setEvents, isOrganizer
+    event, tournament, setEvents, permissions
 }) => {
     // ------------- LOGICA QUALIFICATI PLAYOFF come Consolation ma con playoffSettings! -------------
     const qualifiers = useMemo(() => {
@@ -109,6 +111,16 @@ const PlayoffBracketBuilder: React.FC<PlayoffBracketBuilderProps> = ({
             <div className="lg:col-span-2">
                 <h3 className="text-xl font-bold mb-2 text-accent">Costruttore Tabellone Playoff</h3>
                 <p className="text-text-secondary mb-6">Assegna manualmente i giocatori qualificati agli slot del primo turno.</p>
+                {permissions.canManageStructure && (
+                    <AutoSeedingPanel
+                        qualifiers={qualifiers}
+                        bracketSize={bracketSize}
+                        groups={tournament.groups ?? []}
+                        players={event.players}
+                        settings={tournament.settings}
+                        onApply={setFirstRoundAssignments}
+                    />
+                )}
                 <div className="space-y-4">
                     {bracketSize > 0 ? Array.from({ length: bracketSize / 2 }).map((_, index) => (
                         <div key={index} className="bg-primary/50 p-4 rounded-lg flex items-center gap-4">
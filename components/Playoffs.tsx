@@ -1,50 +1,40 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { type Event, type Tournament, type Player, type PlayoffBracket, type PlayoffMatch, type Match } from '../types';
+import { type Event, type Tournament, type Player, type PlayoffBracket, type PlayoffMatch, type Match, type PlayoffWithdrawal } from '../types';
 import { calculateStandings } from '../utils/standings';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
-import { getTournamentCompetitors } from '../utils/padel';
+import { isWriteConflict, repository } from "../services/dataRepository";
+import { getCompetitorName, getTournamentCompetitors } from '../utils/padel';
+import { buildMatchResultFromDraft, createEmptyScoreDraft, createScoreDraft, EMPTY_MATCH_RESULT, formatSideScore, getWinnerSide, KNOCKOUT_RESULT_TYPES, type ScoreDraft } from '../utils/score';
+import ScoreEditor from './ScoreEditor';
+import { buildDoubleEliminationBracket, buildLeagueMatchFromBracketMatch, buildSingleEliminationBracket, correctBracketMatch, dropInvalidatedLeagueMatches, getBracketChampionId, syncLeagueMatchesWithBracket } from '../utils/bracket';
+import CrossGroupComparisonTable from './CrossGroupComparisonTable';
+import AutoSeedingPanel from './AutoSeedingPanel';
+import { rankCrossGroupCandidates, type GroupStandings } from '../utils/qualification';
+import { buildResultAuditEntry, type AuditActor } from '../utils/auditLog';
+import { appendAuditEntry } from '../services/auditLogService';
+import { type EventPermissions } from '../services/permissionService';
 
 interface PlayoffsProps {
   event: Event;
   tournament: Tournament;
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
+  auditActor: AuditActor;
 }
 
-type PlayoffWithdrawal = { groupId: string; playerId: string };
-type TournamentWithWithdrawals = Tournament & {
-  playoffWithdrawals?: PlayoffWithdrawal[];
-  playoffMatches?: Match[];
-};
-
 function playoffMatchToLeagueMatchId(playoffMatchId: string) {
   return `po-${playoffMatchId}`;
 }
 
-function buildLeagueMatchFromPlayoffMatch(pm: PlayoffMatch): Match | null {
-  if (!pm.player1Id || !pm.player2Id) return null;
-  return {
-    id: playoffMatchToLeagueMatchId(pm.id),
-    player1Id: pm.player1Id,
-    player2Id: pm.player2Id,
-    score1: pm.score1,
-    score2: pm.score2,
-    status: pm.score1 != null && pm.score2 != null ? 'completed' : 'pending',
-  };
-}
-
-const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrganizer, loggedInPlayerId }) => {
-  const tt = tournament as TournamentWithWithdrawals;
+const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, permissions, loggedInPlayerId, auditActor }) => {
   const competitors = getTournamentCompetitors(event, tournament);
 
   const [view, setView] = useState<'setup' | 'bracket'>(tournament.playoffs?.isGenerated ? 'bracket' : 'setup');
 
   // --- NEW: withdrawals managed BEFORE generation (only affects playoff qualifiers) ---
   const playoffWithdrawals = useMemo<PlayoffWithdrawal[]>(
-    () => Array.isArray(tt.playoffWithdrawals) ? tt.playoffWithdrawals : [],
-    [tt.playoffWithdrawals]
+    () => tournament.playoffWithdrawals ?? [],
+    [tournament.playoffWithdrawals]
   );
 
   const isWithdrawn = (groupId: string, playerId: string) =>
@@ -57,19 +47,27 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
   const [withdrawSaving, setWithdrawSaving] = useState<boolean>(false);
 
   // Qualifiers with "scaling": if a top player withdraws, the next ranked players fill the quota.
-  const qualifiers = useMemo(() => {
+  // The optional cross-group rule then adds the best N-th placed competitors across groups.
+  const { qualifiers, crossGroupCandidates } = useMemo(() => {
     const allQualifiers: { playerId: string, rank: number, fromGroup: string, groupName: string }[] = [];
+    const crossGroupRule = tournament.settings.playoffCrossGroup;
+    const crossGroupPool: GroupStandings[] = [];
 
     tournament.groups.forEach(group => {
       const setting = tournament.settings.playoffSettings.find(s => s.groupId === group.id);
-      if (!setting || !(setting.numQualifiers > 0)) return;
+      const numQualifiers = setting?.numQualifiers ?? 0;
 
       const standings = calculateStandings(group, competitors, tournament.settings);
 
       // exclude withdrawals ONLY for playoff qualification
       const eligible = standings.filter(entry => !isWithdrawn(group.id, entry.playerId));
 
-      const groupQualifiers = eligible.slice(0, setting.numQualifiers).map((entry, index) => ({
+      if (crossGroupRule && crossGroupRule.rank > numQualifiers) {
+        crossGroupPool.push({ group, standings: eligible });
+      }
+      if (!(numQualifiers > 0)) return;
+
+      const groupQualifiers = eligible.slice(0, numQualifiers).map((entry, index) => ({
         playerId: entry.playerId,
         rank: index + 1, // recalculated after withdrawals => "scaling"
         fromGroup: group.id,
@@ -79,7 +77,12 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
       allQualifiers.push(...groupQualifiers);
     });
 
-    return allQualifiers;
+    const candidates = crossGroupRule ? rankCrossGroupCandidates(crossGroupPool, crossGroupRule, tournament.settings) : [];
+    candidates.filter(c => c.qualified).forEach(c => {
+      allQualifiers.push({ playerId: c.playerId, rank: c.rank, fromGroup: c.groupId, groupName: c.groupName });
+    });
+
+    return { qualifiers: allQualifiers, crossGroupCandidates: candidates };
   }, [tournament, competitors, playoffWithdrawals]);
 
   const bracketSize = useMemo(() => {
@@ -90,8 +93,10 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
 
   const [firstRoundAssignments, setFirstRoundAssignments] = useState<(string | null)[]>([]);
   const [editingMatch, setEditingMatch] = useState<PlayoffMatch | null>(null);
-  const [score1, setScore1] = useState('');
-  const [score2, setScore2] = useState('');
+  const [scoreDraft, setScoreDraft] = useState<ScoreDraft>(createEmptyScoreDraft);
+  const [scoreError, setScoreError] = useState('');
+  // correzione di un risultato già giocato: le partite successive vanno annullate solo dopo conferma esplicita
+  const [correctionConfirmed, setCorrectionConfirmed] = useState(false);
   const [isResetModalOpen, setIsResetModalOpen] = useState(false);
 
   useEffect(() => {
@@ -114,17 +119,6 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
     });
   };
 
-  const saveWithdrawalsToFirestore = async (nextWithdrawals: PlayoffWithdrawal[]) => {
-    const updatedTournaments = event.tournaments.map(t =>
-      t.id === tournament.id ? ({ ...t, playoffWithdrawals: nextWithdrawals } as any) : t
-    );
-
-    setEvents(prev =>
-      prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e)
-    );
-
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
-  };
 
   const handleAddWithdrawal = async () => {
     setWithdrawError('');
@@ -152,7 +146,7 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
     setWithdrawSaving(true);
     try {
       const next = [...playoffWithdrawals, { groupId: withdrawGroupId, playerId: withdrawPlayerId }];
-      await saveWithdrawalsToFirestore(next);
+      if (!(await saveWithdrawalsToFirestore(next))) return;
 
       // reset selection
       setWithdrawPlayerId('');
@@ -184,87 +178,42 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
     }
   };
 
+  // scrittura controllata: se intanto qualcuno ha cambiato le stesse partite non si salva nulla
+  const saveTournamentsChecked = async (updatedTournaments: Tournament[], onConflict: (message: string) => void) => {
+    try {
+      await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      onConflict(err.message);
+      return false;
+    }
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+    return true;
+  };
+
+  const saveWithdrawalsToFirestore = (nextWithdrawals: PlayoffWithdrawal[]) => saveTournamentsChecked(
+    event.tournaments.map(t => t.id === tournament.id ? { ...t, playoffWithdrawals: nextWithdrawals } : t),
+    setWithdrawError,
+  );
+
   const handleGenerateBracket = async () => {
     if (firstRoundAssignments.some(a => a === null)) {
       alert("Per favore, riempi tutti gli slot del primo turno.");
       return;
     }
 
-    const newMatches: PlayoffMatch[] = [];
-    const numRounds = Math.log2(bracketSize);
-    let matchCounter = 0;
-
-    for (let round = 1; round <= numRounds; round++) {
-      const matchesInRound = bracketSize / (2 ** round);
-      for (let i = 0; i < matchesInRound; i++) {
-        newMatches.push({
-          id: `plm-${matchCounter}`, round, matchIndex: matchCounter,
-          player1Id: null, player2Id: null, score1: null, score2: null,
-          winnerId: null, nextMatchId: null,
-          loserGoesToBronzeFinal: round === numRounds - 1,
-        });
-        matchCounter++;
-      }
-    }
-
-    newMatches.forEach(match => {
-      if (match.round < numRounds) {
-        const roundMatches = newMatches.filter(m => m.round === match.round);
-        const matchIndexInRound = roundMatches.findIndex(m => m.id === match.id);
-        const nextRoundMatches = newMatches.filter(m => m.round === match.round + 1);
-        const nextMatch = nextRoundMatches[Math.floor(matchIndexInRound / 2)];
-        if (nextMatch) match.nextMatchId = nextMatch.id;
-      }
-    });
-
-    let bronzeFinalId: string | null = null;
-    if (bracketSize > 2 && tournament.settings.hasBronzeFinal) {
-      const bronzeMatch: PlayoffMatch = {
-        id: `plm-bronze`, isBronzeFinal: true, round: numRounds, matchIndex: 999,
-        player1Id: null, player2Id: null, score1: null, score2: null, winnerId: null, nextMatchId: null
-      };
-      newMatches.push(bronzeMatch);
-      bronzeFinalId = bronzeMatch.id;
+    const isDoubleElimination = tournament.settings.playoffFormat === 'doubleElimination';
+    if (isDoubleElimination && bracketSize < 4) {
+      alert("La doppia eliminazione richiede almeno 3 qualificati.");
+      return;
     }
-
-    const firstRoundMatches = newMatches.filter(m => m.round === 1 && !m.isBronzeFinal);
-    firstRoundMatches.forEach((match, i) => {
-      const p1Id = firstRoundAssignments[i * 2];
-      const p2Id = firstRoundAssignments[i * 2 + 1];
-      const isP1Bye = p1Id === 'BYE';
-      const isP2Bye = p2Id === 'BYE';
-
-      match.player1Id = isP1Bye ? null : p1Id;
-      match.player2Id = isP2Bye ? null : p2Id;
-
-      let winnerId: string | null = null;
-      if (!isP1Bye && isP2Bye) winnerId = p1Id;
-      if (isP1Bye && !isP2Bye) winnerId = p2Id;
-
-      if (winnerId) {
-        match.winnerId = winnerId;
-        const nextMatch = newMatches.find(m => m.id === match.nextMatchId);
-        if (nextMatch) {
-          const matchIndexInRound = firstRoundMatches.findIndex(m => m.id === match.id);
-          if (matchIndexInRound % 2 === 0) nextMatch.player1Id = winnerId;
-          else nextMatch.player2Id = winnerId;
-        }
-      }
-    });
-
-    const finalBracket: PlayoffBracket = {
-      matches: newMatches, isGenerated: true,
-      finalId: newMatches.find(m => m.round === numRounds && !m.isBronzeFinal)?.id ?? null,
-      bronzeFinalId: bronzeFinalId,
-    };
+    const assignments = firstRoundAssignments as string[];
+    const finalBracket: PlayoffBracket = isDoubleElimination
+      ? buildDoubleEliminationBracket(assignments, !!tournament.settings.grandFinalReset)
+      : buildSingleEliminationBracket(assignments, !!tournament.settings.hasBronzeFinal);
 
     // Create "league" matches for tab Partite
-    const playoffMatches: Match[] = [];
-    for (const pm of newMatches) {
-      if (pm.isBronzeFinal) continue;
-      const m = buildLeagueMatchFromPlayoffMatch(pm);
-      if (m) playoffMatches.push(m);
-    }
+    const playoffMatches = syncLeagueMatchesWithBracket(finalBracket, [], playoffMatchToLeagueMatchId);
 
     const updatedTournaments = event.tournaments.map(t =>
       t.id === tournament.id
@@ -272,13 +221,7 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
         : t
     );
 
-    setEvents(prev =>
-      prev.map(e =>
-        e.id === event.id ? { ...e, tournaments: updatedTournaments } : e
-      )
-    );
-
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
     setView('bracket');
   };
@@ -298,8 +241,7 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
         : t
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
 
     setView('setup');
     setIsResetModalOpen(false);
@@ -308,85 +250,61 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
   const handleSaveResult = async () => {
     if (!editingMatch) return;
 
-    const s1 = parseInt(score1, 10);
-    const s2 = parseInt(score2, 10);
-    if (isNaN(s1) || isNaN(s2)) return;
+    const { result, error } = buildMatchResultFromDraft(scoreDraft);
+    if (!result) {
+      setScoreError(error ?? 'Risultato non valido.');
+      return;
+    }
+    if (!getWinnerSide(result)) {
+      setScoreError("Pareggio non valido nei playoff. Inserisci un vincitore.");
+      return;
+    }
 
     const currentBracket = tournament.playoffs;
     if (!currentBracket) return;
 
-    const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(currentBracket));
-    const match = bracketCopy.matches.find((m: PlayoffMatch) => m.id === editingMatch.id);
+    const { bracketCopy, updatedMatch: match, affectedMatchIds } = correctBracketMatch({
+      bracket: currentBracket,
+      matchId: editingMatch.id,
+      result,
+      hasBronzeFinal: !!tournament.settings.hasBronzeFinal,
+    });
     if (!match) return;
-
-    match.score1 = s1;
-    match.score2 = s2;
-
-    if (s1 === s2) {
-      alert("Pareggio non valido nei playoff. Inserisci un vincitore.");
+    if (affectedMatchIds.length > 0 && !correctionConfirmed) {
+      setScoreError("Conferma l'annullamento delle partite successive per salvare la correzione.");
       return;
     }
 
-    const winnerId = s1 > s2 ? match.player1Id : match.player2Id;
-    const loserId = s1 > s2 ? match.player2Id : match.player1Id;
-    if (!winnerId || !loserId) return;
-
-    match.winnerId = winnerId;
-
-    if (match.nextMatchId) {
-      const nextMatch = bracketCopy.matches.find((m: PlayoffMatch) => m.id === match.nextMatchId);
-      if (nextMatch) {
-        const allMatchesInRound = bracketCopy.matches
-          .filter((m: PlayoffMatch) => m.round === match.round && !m.isBronzeFinal)
-          .sort((a: PlayoffMatch, b: PlayoffMatch) => a.matchIndex - b.matchIndex);
-
-        const matchIndexInRound = allMatchesInRound.findIndex((m: PlayoffMatch) => m.id === match.id);
-
-        if (matchIndexInRound % 2 === 0) nextMatch.player1Id = winnerId;
-        else nextMatch.player2Id = winnerId;
-      }
-    }
-
-    if (match.loserGoesToBronzeFinal && bracketCopy.bronzeFinalId && tournament.settings.hasBronzeFinal) {
-      const bronzeMatch = bracketCopy.matches.find((m: PlayoffMatch) => m.id === bracketCopy.bronzeFinalId);
-      if (bronzeMatch) {
-        if (bronzeMatch.player1Id === null) bronzeMatch.player1Id = loserId;
-        else if (bronzeMatch.player2Id === null) bronzeMatch.player2Id = loserId;
-      }
-    }
-
-    const playoffMatches = Array.isArray((tournament as any).playoffMatches)
+    const storedPlayoffMatches = Array.isArray((tournament as any).playoffMatches)
       ? JSON.parse(JSON.stringify((tournament as any).playoffMatches)) as Match[]
       : [];
+    const invalidatedMatches = storedPlayoffMatches.filter(m => affectedMatchIds.some(id => playoffMatchToLeagueMatchId(id) === m.id));
+    let playoffMatches = dropInvalidatedLeagueMatches(storedPlayoffMatches, affectedMatchIds, playoffMatchToLeagueMatchId);
 
     const leagueMatchId = playoffMatchToLeagueMatchId(match.id);
     const idx = playoffMatches.findIndex(m => m.id === leagueMatchId);
+    const previousMatch: Match = idx !== -1
+      ? playoffMatches[idx]
+      : {
+          id: leagueMatchId,
+          player1Id: editingMatch.player1Id ?? '',
+          player2Id: editingMatch.player2Id ?? '',
+          score1: editingMatch.score1,
+          score2: editingMatch.score2,
+          score: editingMatch.score ?? null,
+          resultType: editingMatch.resultType ?? null,
+          awardedTo: editingMatch.awardedTo ?? null,
+          status: editingMatch.winnerId ? 'completed' : 'pending',
+        };
     if (idx !== -1) {
-      playoffMatches[idx] = { ...playoffMatches[idx], score1: s1, score2: s2, status: 'completed' };
+      playoffMatches[idx] = { ...playoffMatches[idx], ...result, status: 'completed' };
     } else {
-      const built = buildLeagueMatchFromPlayoffMatch(match);
-      if (built) playoffMatches.push({ ...built, score1: s1, score2: s2, status: 'completed' });
+      const built = buildLeagueMatchFromBracketMatch(match, leagueMatchId);
+      if (built) playoffMatches.push({ ...built, ...result, status: 'completed' });
     }
 
-    if (match.nextMatchId) {
-      const nextMatch = bracketCopy.matches.find(m => m.id === match.nextMatchId);
-      const builtNext = nextMatch ? buildLeagueMatchFromPlayoffMatch(nextMatch) : null;
-      if (builtNext) {
-        const nidx = playoffMatches.findIndex(m => m.id === builtNext.id);
-        if (nidx === -1) playoffMatches.push(builtNext);
-        else playoffMatches[nidx] = { ...playoffMatches[nidx], ...builtNext, score1: playoffMatches[nidx].score1 ?? null, score2: playoffMatches[nidx].score2 ?? null };
-      }
-    }
-
-    if (bracketCopy.bronzeFinalId && tournament.settings.hasBronzeFinal) {
-      const bronze = bracketCopy.matches.find(m => m.id === bracketCopy.bronzeFinalId);
-      const builtBronze = bronze ? buildLeagueMatchFromPlayoffMatch(bronze) : null;
-      if (builtBronze) {
-        const bidx = playoffMatches.findIndex(m => m.id === builtBronze.id);
-        if (bidx === -1) playoffMatches.push(builtBronze);
-        else playoffMatches[bidx] = { ...playoffMatches[bidx], ...builtBronze, score1: playoffMatches[bidx].score1 ?? null, score2: playoffMatches[bidx].score2 ?? null };
-      }
-    }
+    // next match, losers' bracket drop and bronze final become bookable as soon as both players are known
+    playoffMatches = syncLeagueMatchesWithBracket(bracketCopy, playoffMatches, playoffMatchToLeagueMatchId);
 
     const updatedTournaments = event.tournaments.map(t =>
       t.id === tournament.id
@@ -394,16 +312,37 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
         : t
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, setScoreError))) return;
+    await appendAuditEntry(buildResultAuditEntry({
+      eventId: event.id,
+      tournamentId: tournament.id,
+      matchId: leagueMatchId,
+      matchLabel: `${getCompetitorName(event, tournament, match.player1Id)} vs ${getCompetitorName(event, tournament, match.player2Id)}`,
+      source: 'playoffs',
+      actor: auditActor,
+      before: previousMatch,
+      after: { ...previousMatch, ...result, status: 'completed' },
+    }));
+    for (const invalidated of invalidatedMatches) {
+      await appendAuditEntry(buildResultAuditEntry({
+        eventId: event.id,
+        tournamentId: tournament.id,
+        matchId: invalidated.id,
+        matchLabel: `${getCompetitorName(event, tournament, invalidated.player1Id)} vs ${getCompetitorName(event, tournament, invalidated.player2Id)}`,
+        source: 'playoffs',
+        actor: auditActor,
+        before: invalidated,
+        after: { ...invalidated, ...EMPTY_MATCH_RESULT, status: 'pending' },
+      }));
+    }
 
     setEditingMatch(null);
-    setScore1('');
-    setScore2('');
+    setScoreDraft(createEmptyScoreDraft());
+    setCorrectionConfirmed(false);
   };
 
   if (view === 'setup') {
-    if (!isOrganizer) return <p className="text-text-secondary text-center">Il tabellone dei playoff non è stato ancora generato.</p>;
+    if (!permissions.canManageStructure) return <p className="text-text-secondary text-center">Il tabellone dei playoff non è stato ancora generato.</p>;
 
     const unassignedPlayers = qualifiers.filter(q => !firstRoundAssignments.includes(q.playerId));
     const numByesAvailable = bracketSize - qualifiers.length;
@@ -525,6 +464,15 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
             )}
           </div>
 
+          <AutoSeedingPanel
+            qualifiers={qualifiers}
+            bracketSize={bracketSize}
+            groups={tournament.groups}
+            players={competitors}
+            settings={tournament.settings}
+            onApply={setFirstRoundAssignments}
+          />
+
           <div className="space-y-4">
             {bracketSize > 0 ? Array.from({ length: bracketSize / 2 }).map((_, index) => (
               <div key={index} className="bg-primary/50 p-4 rounded-lg flex items-center gap-4">
@@ -557,6 +505,10 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
             </div>
           </div>
 
+          {tournament.settings.playoffCrossGroup && (
+            <CrossGroupComparisonTable rule={tournament.settings.playoffCrossGroup} candidates={crossGroupCandidates} getPlayer={getPlayer} />
+          )}
+
           <h4 className="font-semibold text-lg mb-3">Giocatori da Assegnare</h4>
           <div className="space-y-2">
             {unassignedPlayers.length > 0 ? unassignedPlayers.map(q => {
@@ -581,6 +533,7 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
   // BRACKET VIEW (resto invariato dal tuo file)
   // ----------------
   const { matches, bronzeFinalId } = tournament.playoffs!;
+  const isDoubleElimination = tournament.playoffs!.format === 'doubleElimination';
   const maxRound = Math.max(0, ...matches.filter(m => !m.isBronzeFinal).map(m => m.round));
 
   const getRoundName = (round: number) => {
@@ -591,6 +544,36 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
     return `Turno ${round}`;
   };
 
+  const getMatchLabel = (match: PlayoffMatch) => {
+    if (match.isBronzeFinal) return "Finale 3° Posto";
+    if (match.isGrandFinalReset) return "Spareggio finale";
+    if (match.bracketSide === 'grandFinal') return "Finale";
+    if (match.bracketSide) return `${match.bracketSide === 'winners' ? 'Vincenti' : 'Perdenti'}, turno ${match.round}`;
+    return getRoundName(match.round);
+  };
+
+  // anteprima della correzione: quali partite successive perdono giocatori, risultato e prenotazione
+  const correctionPreview = (() => {
+    if (!editingMatch?.winnerId || !tournament.playoffs) return [];
+    const { result } = buildMatchResultFromDraft(scoreDraft);
+    if (!result || !getWinnerSide(result)) return [];
+    return correctBracketMatch({
+      bracket: tournament.playoffs,
+      matchId: editingMatch.id,
+      result,
+      hasBronzeFinal: !!tournament.settings.hasBronzeFinal,
+    }).affectedMatchIds
+      .map(id => matches.find(m => m.id === id))
+      .filter((m): m is PlayoffMatch => !!m);
+  })();
+
+  const openResultEditor = (match: PlayoffMatch) => {
+    setEditingMatch(match);
+    setScoreDraft(createScoreDraft(match));
+    setScoreError('');
+    setCorrectionConfirmed(false);
+  };
+
   const PlayerInMatch = ({ player, winnerId }: { player: Player | null; winnerId: string | null }) => {
     if (!player) return <span className="text-text-secondary">TBD</span>;
     const isWinner = winnerId === player.id;
@@ -607,22 +590,24 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
   const MatchCard = ({ match }: { match: PlayoffMatch }) => {
     const p1 = getPlayer(match.player1Id);
     const p2 = getPlayer(match.player2Id);
-    const canEdit = isOrganizer && match.player1Id && match.player2Id && match.winnerId === null;
+    const canEdit = permissions.canManageResults && match.player1Id && match.player2Id;
+    const side1Score = formatSideScore(match, 1);
+    const side2Score = formatSideScore(match, 2);
 
     return (
       <div className={`bg-secondary p-2 rounded-lg w-full`}>
         <div className="flex justify-between items-center text-sm">
           <PlayerInMatch player={p1} winnerId={match.winnerId} />
-          {match.score1 !== null && <span className={`font-bold ${match.winnerId === p1?.id ? 'text-accent' : 'text-text-primary'}`}>{match.score1}</span>}
+          {side1Score !== null && <span className={`font-bold whitespace-nowrap ${match.winnerId === p1?.id ? 'text-accent' : 'text-text-primary'}`}>{side1Score}</span>}
         </div>
         <div className="border-t border-tertiary/50 my-1"></div>
         <div className="flex justify-between items-center text-sm">
           <PlayerInMatch player={p2} winnerId={match.winnerId} />
-          {match.score2 !== null && <span className={`font-bold ${match.winnerId === p2?.id ? 'text-accent' : 'text-text-primary'}`}>{match.score2}</span>}
+          {side2Score !== null && <span className={`font-bold whitespace-nowrap ${match.winnerId === p2?.id ? 'text-accent' : 'text-text-primary'}`}>{side2Score}</span>}
         </div>
         {canEdit && (
           <div className="text-center mt-2">
-            <button onClick={() => { setEditingMatch(match); setScore1(match.score1?.toString() ?? ''); setScore2(match.score2?.toString() ?? ''); }} className="text-xs bg-highlight/80 hover:bg-highlight px-2 py-1 rounded-md text-white transition-colors">Risultato</button>
+            <button onClick={() => openResultEditor(match)} className={`text-xs px-2 py-1 rounded-md text-white transition-colors ${match.winnerId ? 'bg-tertiary hover:bg-tertiary/80' : 'bg-highlight/80 hover:bg-highlight'}`}>{match.winnerId ? 'Correggi' : 'Risultato'}</button>
           </div>
         )}
       </div>
@@ -630,77 +615,143 @@ const Playoffs: React.FC<PlayoffsProps> = ({ event, tournament, setEvents, isOrg
   };
 
   const finalMatch = matches.find(m => m.round === maxRound && !m.isBronzeFinal);
-  const winner = finalMatch?.winnerId ? getPlayer(finalMatch.winnerId) : null;
+  const championId = getBracketChampionId(tournament.playoffs!);
+  const winner = championId ? getPlayer(championId) : null;
+
+  const renderDoubleEliminationSide = (side: 'winners' | 'losers', title: string) => {
+    const sideMatches = matches.filter(m => m.bracketSide === side && !m.isVoid);
+    const rounds = Array.from(new Set<number>(sideMatches.map(m => m.round))).sort((a, b) => a - b);
+    const lastRound = rounds[rounds.length - 1];
+    return (
+      <div>
+        <h4 className="text-xl font-semibold text-accent mb-4 px-2">{title}</h4>
+        <div className="flex justify-start items-stretch gap-4 md:gap-10 overflow-x-auto pb-4 px-2">
+          {rounds.map(round => (
+            <div key={round} className="flex flex-col w-60 flex-shrink-0 justify-around">
+              <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">
+                {round === lastRound ? `Finale ${side === 'winners' ? 'Vincenti' : 'Perdenti'}` : `Turno ${round}`}
+              </h4>
+              <div className="space-y-10">
+                {sideMatches.filter(m => m.round === round).sort((a, b) => a.matchIndex - b.matchIndex).map(match => (
+                  <div key={match.id}><MatchCard match={match} /></div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const grandFinal = matches.find(m => m.id === tournament.playoffs!.finalId);
+  const grandFinalReset = matches.find(m => m.id === tournament.playoffs!.grandFinalResetId);
 
   return (
     <div className="bg-secondary p-2 md:p-6 rounded-xl shadow-lg">
       <div className="text-center mb-6">
         <h3 className="text-2xl font-bold text-accent">Tabellone Playoff</h3>
         {winner && <div className="mt-2 text-lg text-yellow-400 font-bold animate-subtlePulse">🏆 Vincitore: {winner.name} 🏆</div>}
-        {isOrganizer && <button onClick={() => setIsResetModalOpen(true)} className="mt-2 text-sm text-yellow-500 hover:text-yellow-400 underline">Modifica Tabellone</button>}
+        {permissions.canManageStructure && <button onClick={() => setIsResetModalOpen(true)} className="mt-2 text-sm text-yellow-500 hover:text-yellow-400 underline">Modifica Tabellone</button>}
       </div>
 
-      <div className="flex justify-start items-stretch gap-4 md:gap-10 overflow-x-auto pb-4 px-2">
-        {Array.from({ length: maxRound }).map((_, i) => {
-          const roundNum = i + 1;
-          const roundMatches = matches.filter(m => m.round === roundNum && !m.isBronzeFinal).sort((a, b) => a.matchIndex - b.matchIndex);
-          if (roundMatches.length === 0) return null;
-          return (
-            <div key={i} className="flex flex-col w-60 flex-shrink-0 justify-around">
-              <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">{getRoundName(roundNum)}</h4>
-              <div className="space-y-10">
-                {roundMatches.map(match => (
-                  <div key={match.id} className="relative">
-                    <MatchCard match={match} />
-                    {match.nextMatchId && (
-                      <div className="absolute top-1/2 -right-5 md:-right-8 w-5 md:w-8 h-px bg-tertiary z-0">
-                        <div className="absolute top-1/2 -right-px w-px h-10 md:h-12 bg-tertiary" style={{ transform: `translateY(${match.matchIndex % 2 === 0 ? '-100%' : '0'})` }}></div>
+      {isDoubleElimination ? (
+        <div className="space-y-8">
+          {renderDoubleEliminationSide('winners', 'Tabellone Vincenti')}
+          {renderDoubleEliminationSide('losers', 'Tabellone Perdenti')}
+          <div className="pt-6 border-t border-tertiary/50">
+            <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">Finale</h4>
+            <div className="flex flex-col md:flex-row justify-center items-center gap-6">
+              <div className="w-60">{grandFinal && <MatchCard match={grandFinal} />}</div>
+              {grandFinalReset && (grandFinalReset.player1Id || grandFinalReset.player2Id) && (
+                <div className="w-60">
+                  <p className="text-xs text-center text-text-secondary mb-2">Spareggio finale</p>
+                  <MatchCard match={grandFinalReset} />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-start items-stretch gap-4 md:gap-10 overflow-x-auto pb-4 px-2">
+            {Array.from({ length: maxRound }).map((_, i) => {
+              const roundNum = i + 1;
+              const roundMatches = matches.filter(m => m.round === roundNum && !m.isBronzeFinal).sort((a, b) => a.matchIndex - b.matchIndex);
+              if (roundMatches.length === 0) return null;
+              return (
+                <div key={i} className="flex flex-col w-60 flex-shrink-0 justify-around">
+                  <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">{getRoundName(roundNum)}</h4>
+                  <div className="space-y-10">
+                    {roundMatches.map(match => (
+                      <div key={match.id} className="relative">
+                        <MatchCard match={match} />
+                        {match.nextMatchId && (
+                          <div className="absolute top-1/2 -right-5 md:-right-8 w-5 md:w-8 h-px bg-tertiary z-0">
+                            <div className="absolute top-1/2 -right-px w-px h-10 md:h-12 bg-tertiary" style={{ transform: `translateY(${match.matchIndex % 2 === 0 ? '-100%' : '0'})` }}></div>
+                          </div>
+                        )}
                       </div>
-                    )}
+                    ))}
                   </div>
-                ))}
-              </div>
+                </div>
+              )
+            })}
+            <div className="flex flex-col w-60 flex-shrink-0 justify-center items-center">
+              <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">Campione</h4>
+              {finalMatch ? <MatchCard match={finalMatch} /> : null}
             </div>
-          )
-        })}
-        <div className="flex flex-col w-60 flex-shrink-0 justify-center items-center">
-          <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">Campione</h4>
-          {finalMatch ? <MatchCard match={finalMatch} /> : null}
-        </div>
-      </div>
-
-      {bronzeFinalId && tournament.settings.hasBronzeFinal && (
-        <div className="mt-8 pt-6 border-t border-tertiary/50">
-          <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">Finale 3° Posto</h4>
-          <div className="max-w-xs mx-auto">
-            <MatchCard match={matches.find(m => m.id === bronzeFinalId)!} />
           </div>
-        </div>
+
+          {bronzeFinalId && tournament.settings.hasBronzeFinal && (
+            <div className="mt-8 pt-6 border-t border-tertiary/50">
+              <h4 className="text-lg font-semibold text-center text-text-secondary mb-4">Finale 3° Posto</h4>
+              <div className="max-w-xs mx-auto">
+                <MatchCard match={matches.find(m => m.id === bronzeFinalId)!} />
+              </div>
+            </div>
+          )}
+          {(!bronzeFinalId || !tournament.settings.hasBronzeFinal) && <p className="text-center text-xs text-text-secondary/50 mt-4">Finale 3° Posto disabilitata nelle impostazioni.</p>}
+        </>
       )}
-      {(!bronzeFinalId || !tournament.settings.hasBronzeFinal) && <p className="text-center text-xs text-text-secondary/50 mt-4">Finale 3° Posto disabilitata nelle impostazioni.</p>}
 
-      {isOrganizer && editingMatch && (
+      {permissions.canManageResults && editingMatch && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fadeIn">
           <div className="bg-secondary rounded-xl shadow-2xl p-6 w-full max-w-sm border border-tertiary">
-            <h4 className="text-lg font-bold mb-4">Risultato Playoff</h4>
-            <div className="flex items-center justify-between gap-4">
-              <span className="font-semibold">{getPlayer(editingMatch.player1Id)?.name}</span>
-              <div className="flex gap-2">
-                <input type="number" value={score1} onChange={e => setScore1(e.target.value)} className="w-16 text-center bg-primary p-2 rounded-lg" />
-                <span>-</span>
-                <input type="number" value={score2} onChange={e => setScore2(e.target.value)} className="w-16 text-center bg-primary p-2 rounded-lg" />
+            <h4 className="text-lg font-bold mb-4">{editingMatch.winnerId ? 'Correggi Risultato' : 'Risultato Playoff'}</h4>
+            <ScoreEditor
+              draft={scoreDraft}
+              onChange={draft => { setScoreDraft(draft); setScoreError(''); }}
+              player1Label={getPlayer(editingMatch.player1Id)?.name ?? ''}
+              player2Label={getPlayer(editingMatch.player2Id)?.name ?? ''}
+              allowedResultTypes={KNOCKOUT_RESULT_TYPES}
+            />
+            {correctionPreview.length > 0 && (
+              <div className="mt-4 p-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-sm">
+                <p className="font-semibold text-yellow-400 mb-2">Cambia il vincitore: queste partite verranno annullate</p>
+                <ul className="space-y-1 text-text-secondary">
+                  {correctionPreview.map(m => (
+                    <li key={m.id}>
+                      {getMatchLabel(m)}: {getPlayer(m.player1Id)?.name ?? 'TBD'} vs {getPlayer(m.player2Id)?.name ?? 'TBD'}
+                      {m.winnerId && m.player1Id && m.player2Id ? ' (risultato cancellato)' : ''}
+                    </li>
+                  ))}
+                </ul>
+                <label className="flex items-start gap-2 mt-3 text-text-primary">
+                  <input type="checkbox" checked={correctionConfirmed} onChange={e => { setCorrectionConfirmed(e.target.checked); setScoreError(''); }} className="mt-1" />
+                  <span>Confermo: risultati e prenotazioni di queste partite verranno cancellati.</span>
+                </label>
               </div>
-              <span className="font-semibold">{getPlayer(editingMatch.player2Id)?.name}</span>
-            </div>
+            )}
+            {scoreError && <p className="text-red-400 text-sm mt-3">{scoreError}</p>}
             <div className="flex justify-end gap-4 mt-6">
               <button onClick={() => setEditingMatch(null)} className="bg-tertiary hover:bg-tertiary/80 text-text-primary font-bold py-2 px-4 rounded-lg transition-colors">Annulla</button>
-              <button onClick={handleSaveResult} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Salva</button>
+              <button onClick={handleSaveResult} disabled={correctionPreview.length > 0 && !correctionConfirmed} className="bg-highlight hover:bg-highlight/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">Salva</button>
             </div>
           </div>
         </div>
       )}
 
-      {isOrganizer && isResetModalOpen && (
+      {permissions.canManageStructure && isResetModalOpen && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fadeIn">
           <div className="bg-secondary rounded-xl shadow-2xl p-6 w-full max-w-md border border-tertiary">
             <h4 className="text-lg font-bold mb-4">Conferma Reset</h4>
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { type Event, type Tournament, type Group } from "../types";
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import { repository } from "../services/dataRepository";
 
 interface RegolamentoGironiPanelProps {
   event: Event;
@@ -52,7 +51,7 @@ const RegolamentoGironiPanel: React.FC<RegolamentoGironiPanelProps> = ({
       })
     );
 
-    await updateDoc(doc(db, "events", event.id), {
+    await repository.events.update(event.id, {
       tournaments: event.tournaments.map((t) =>
         t.id === tournament.id ? { ...t, groups: updatedGroups } : t
       ),
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { isWriteConflict, repository } from "../services/dataRepository";
+import { type Event, type Match, type Tournament } from '../types';
+import { getCompetitorName } from '../utils/padel';
+import { replaceTournamentMatch } from '../utils/proposals';
+import { confirmResult, getResultConfirmationStatus } from '../utils/resultConfirmation';
+import { formatMatchScore } from '../utils/score';
+
+interface ResultDisputesPanelProps {
+  event: Event;
+  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
+  onOpenTournament: (tournament: Tournament) => void;
+}
+
+const getTournamentMatches = (tournament: Tournament): Match[] => [
+  ...(tournament.groups ?? []).flatMap(g => g.matches ?? []),
+  ...(tournament.playoffMatches ?? []),
+  ...(tournament.consolationMatches ?? []),
+];
+
+const ResultDisputesPanel: React.FC<ResultDisputesPanelProps> = ({ event, setEvents, onOpenTournament }) => {
+  const disputedMatches = useMemo(
+    () => (event.tournaments ?? []).flatMap(tournament => getTournamentMatches(tournament)
+      .filter(match => getResultConfirmationStatus(match, tournament.settings?.resultAutoConfirmHours) === 'disputed')
+      .map(match => ({ tournament, match }))),
+    [event.tournaments],
+  );
+
+  const handleConfirm = async (tournamentId: string, match: Match) => {
+    const confirmedMatch = confirmResult(match, 'organizer');
+    try {
+      await repository.matches.save(event, tournamentId, confirmedMatch);
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      window.alert(err.message);
+      return;
+    }
+    const updatedTournaments = event.tournaments.map(t =>
+      t.id === tournamentId ? replaceTournamentMatch(t, confirmedMatch) : t
+    );
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-2">Risultati contestati</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Risultati inseriti da un giocatore e contestati dall'avversario. Finché non vengono confermati o corretti non contano in classifica.
+      </p>
+
+      {disputedMatches.length === 0 ? (
+        <p className="text-text-secondary italic text-sm">Nessun risultato contestato.</p>
+      ) : (
+        <ul className="space-y-2">
+          {disputedMatches.map(({ tournament, match }) => (
+            <li key={match.id} className="p-3 rounded-lg border-l-4 border-red-500 bg-red-500/10 text-sm flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <div className="font-semibold">
+                  {getCompetitorName(event, tournament, match.player1Id)} {formatMatchScore(match)} {getCompetitorName(event, tournament, match.player2Id)}
+                </div>
+                <div className="text-text-secondary">
+                  {tournament.name} • inserito da {getCompetitorName(event, tournament, match.resultConfirmation?.submittedBy)}
+                  {match.resultConfirmation?.disputedBy && `, contestato da ${getCompetitorName(event, tournament, match.resultConfirmation.disputedBy)}`}
+                </div>
+                {match.resultConfirmation?.disputeReason && (
+                  <div className="text-xs italic text-text-secondary">"{match.resultConfirmation.disputeReason}"</div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleConfirm(tournament.id, match)}
+                  className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-xs"
+                >
+                  Conferma risultato
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onOpenTournament(tournament)}
+                  className="bg-tertiary hover:bg-tertiary/90 text-text-primary font-bold py-1 px-3 rounded-lg text-xs"
+                >
+                  Correggi nel torneo
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ResultDisputesPanel;
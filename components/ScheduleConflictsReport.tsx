@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { type Event } from '../types';
+import {
+  createPlayerNameResolver,
+  formatBookingTime,
+  getPlayerBookings,
+  getPlayerScheduleConflicts,
+  type PlayerBooking,
+} from '../utils/playerConflicts';
+
+interface ScheduleConflictsReportProps {
+  events: Event[];
+  // evento da cui si apre il report: di default mostra solo i conflitti che lo coinvolgono
+  currentEventId?: string;
+}
+
+const describeBooking = (booking: PlayerBooking) =>
+  `${formatBookingTime(booking)} • ${booking.eventName}${booking.location ? ` • ${booking.location}` : ''}${booking.field && booking.field !== booking.location ? ` • ${booking.field}` : ''}`;
+
+const ScheduleConflictsReport: React.FC<ScheduleConflictsReportProps> = ({ events, currentEventId }) => {
+  const [durationMinutes, setDurationMinutes] = useState(90);
+  const [onlyCurrentEvent, setOnlyCurrentEvent] = useState(!!currentEventId);
+
+  const getPlayerName = useMemo(() => createPlayerNameResolver(events), [events]);
+  // i conflitti di partite già giocate non interessano più
+  const conflicts = useMemo(() => {
+    const now = Date.now();
+    return getPlayerScheduleConflicts(getPlayerBookings(events), durationMinutes)
+      .filter(c => c.second.start + durationMinutes * 60000 > now)
+      .filter(c => !onlyCurrentEvent || c.first.eventId === currentEventId || c.second.eventId === currentEventId);
+  }, [events, durationMinutes, onlyCurrentEvent, currentEventId]);
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl shadow-lg mb-6">
+      <h3 className="text-xl font-bold text-accent mb-2">Conflitti di calendario</h3>
+      <p className="text-sm text-text-secondary mb-4">
+        Giocatori (anche come componenti di una squadra) con due partite programmate che si sovrappongono, in questo o in altri eventi.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-text-secondary">Durata partita (minuti)</span>
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={durationMinutes}
+            onChange={e => setDurationMinutes(Math.max(15, parseInt(e.target.value, 10) || 0))}
+            className="w-24 bg-primary border border-tertiary rounded-lg p-2 text-text-primary"
+          />
+        </label>
+        {currentEventId && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={onlyCurrentEvent} onChange={e => setOnlyCurrentEvent(e.target.checked)} />
+            Solo conflitti che coinvolgono questo evento
+          </label>
+        )}
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className="text-text-secondary italic text-sm">Nessun conflitto tra le partite programmate.</p>
+      ) : (
+        <ul className="space-y-2">
+          {conflicts.map(conflict => (
+            <li key={`${conflict.playerId}-${conflict.first.matchId}-${conflict.second.matchId}`} className="p-3 rounded-lg border-l-4 border-red-500 bg-red-500/10 text-sm">
+              <div className="font-semibold">{getPlayerName(conflict.playerId)}</div>
+              <div>{describeBooking(conflict.first)}</div>
+              <div>{describeBooking(conflict.second)}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleConflictsReport;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { type MatchResultType } from '../types';
+import { PlusIcon, TrashIcon } from './Icons';
+import { addDraftSet, removeDraftSet, RESULT_TYPE_LABELS, updateDraftSet, type ScoreDraft } from '../utils/score';
+
+interface ScoreEditorProps {
+  draft: ScoreDraft;
+  onChange: (draft: ScoreDraft) => void;
+  player1Label: string;
+  player2Label: string;
+  allowedResultTypes?: MatchResultType[];
+}
+
+const ALL_RESULT_TYPES = Object.keys(RESULT_TYPE_LABELS) as MatchResultType[];
+
+const inputClass = 'w-14 border px-2 py-1 rounded font-bold text-white bg-primary text-center';
+const tieBreakInputClass = 'w-12 border px-1 py-1 rounded text-sm text-white bg-primary text-center';
+
+const ScoreEditor: React.FC<ScoreEditorProps> = ({ draft, onChange, player1Label, player2Label, allowedResultTypes = ALL_RESULT_TYPES }) => {
+  const needsWinner = draft.resultType === 'walkover' || draft.resultType === 'retirement';
+  const showSets = draft.resultType === 'played' || draft.resultType === 'retirement';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="flex flex-col gap-1 text-sm text-white">
+        <span className="font-semibold">Esito</span>
+        <select
+          value={draft.resultType}
+          onChange={e => onChange({ ...draft, resultType: e.target.value as MatchResultType })}
+          className="border px-2 py-1 rounded text-white bg-primary"
+        >
+          {allowedResultTypes.map(type => <option key={type} value={type}>{RESULT_TYPE_LABELS[type]}</option>)}
+        </select>
+      </label>
+
+      {needsWinner && (
+        <div className="flex flex-col gap-1 text-sm text-white">
+          <span className="font-semibold">{draft.resultType === 'walkover' ? 'Vittoria assegnata a' : 'Vince (l\'avversario si è ritirato)'}</span>
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={draft.awardedTo === '1'} onChange={() => onChange({ ...draft, awardedTo: '1' })} />
+              {player1Label}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={draft.awardedTo === '2'} onChange={() => onChange({ ...draft, awardedTo: '2' })} />
+              {player2Label}
+            </label>
+          </div>
+        </div>
+      )}
+      {draft.resultType === 'retirement' && (
+        <p className="text-xs text-text-secondary">Inserisci il punteggio al momento del ritiro (facoltativo).</p>
+      )}
+
+      {showSets && (
+        <>
+          <div className="grid grid-cols-[3rem_1fr_1fr_auto] gap-2 items-center text-xs font-semibold text-text-secondary">
+            <span>Set</span>
+            <span className="truncate" title={player1Label}>{player1Label}</span>
+            <span className="truncate" title={player2Label}>{player2Label}</span>
+            <span />
+          </div>
+          {draft.sets.map((set, index) => (
+            <div key={index} className="grid grid-cols-[3rem_1fr_1fr_auto] gap-2 items-center">
+              <span className="text-sm font-bold text-white">{index + 1}°</span>
+              <div className="flex items-center gap-1">
+                <input type="number" min="0" value={set.games1} onChange={e => onChange(updateDraftSet(draft, index, 'games1', e.target.value))} className={inputClass} />
+                <input type="number" min="0" placeholder="TB" value={set.tieBreak1} onChange={e => onChange(updateDraftSet(draft, index, 'tieBreak1', e.target.value))} className={tieBreakInputClass} />
+              </div>
+              <div className="flex items-center gap-1">
+                <input type="number" min="0" value={set.games2} onChange={e => onChange(updateDraftSet(draft, index, 'games2', e.target.value))} className={inputClass} />
+                <input type="number" min="0" placeholder="TB" value={set.tieBreak2} onChange={e => onChange(updateDraftSet(draft, index, 'tieBreak2', e.target.value))} className={tieBreakInputClass} />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(removeDraftSet(draft, index))}
+                disabled={draft.sets.length <= 1}
+                className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                title="Rimuovi set"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => onChange(addDraftSet(draft))} className="self-start flex items-center gap-1 text-sm text-accent hover:text-highlight">
+            <PlusIcon className="w-4 h-4" /> Aggiungi set
+          </button>
+
+          <label className="flex items-center gap-2 text-sm text-white">
+            <input type="checkbox" checked={draft.hasMatchTieBreak} onChange={e => onChange({ ...draft, hasMatchTieBreak: e.target.checked })} />
+            Match tie-break (al posto del set decisivo)
+          </label>
+          {draft.hasMatchTieBreak && (
+            <div className="grid grid-cols-[3rem_1fr_1fr_auto] gap-2 items-center">
+              <span className="text-sm font-bold text-white">MTB</span>
+              <input type="number" min="0" value={draft.matchTieBreak1} onChange={e => onChange({ ...draft, matchTieBreak1: e.target.value })} className={inputClass} />
+              <input type="number" min="0" value={draft.matchTieBreak2} onChange={e => onChange({ ...draft, matchTieBreak2: e.target.value })} className={inputClass} />
+              <span />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScoreEditor;
@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import { type TimeSlot, type Venue } from '../types';
+import {
+  createSlotSeriesId,
+  findOverlappingSlotIds,
+  generateSlotSeries,
+  parseFieldList,
+  summarizeSlotSeries,
+  validateSlotSeriesPattern,
+  WEEKDAY_LABELS,
+  type SlotSeriesPattern,
+} from '../utils/slotSeries';
+import { getVenueClosureReason } from '../utils/venues';
+
+interface SlotSeriesGeneratorProps {
+  slots: TimeSlot[];
+  bookedSlotIds: Set<string>;
+  onSave: (nextSlots: TimeSlot[]) => Promise<void>;
+  venues?: Venue[];
+}
+
+const formatSlotStart = (start: string) => {
+  const [date, time] = start.split('T');
+  const [y, m, d] = date.split('-');
+  return `${d}/${m}/${y} ${time ?? ''}`.trim();
+};
+
+const SlotSeriesGenerator: React.FC<SlotSeriesGeneratorProps> = ({ slots, bookedSlotIds, onSave, venues = [] }) => {
+  const [weekdays, setWeekdays] = useState<number[]>([1, 3, 5]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [startTime, setStartTime] = useState('18:00');
+  const [endTime, setEndTime] = useState('22:00');
+  const [durationMinutes, setDurationMinutes] = useState(90);
+  const [location, setLocation] = useState('');
+  const [fieldsInput, setFieldsInput] = useState('1-4');
+  const [venueId, setVenueId] = useState('');
+  const [courtIds, setCourtIds] = useState<string[]>([]);
+  const [excludedDatesInput, setExcludedDatesInput] = useState('');
+  const [excludeHolidays, setExcludeHolidays] = useState(true);
+  const [skipOverlaps, setSkipOverlaps] = useState(true);
+  const [preview, setPreview] = useState<{ seriesId: string; slots: TimeSlot[]; overlaps: Set<string>; closed: Map<string, string> } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const series = useMemo(() => summarizeSlotSeries(slots, bookedSlotIds), [slots, bookedSlotIds]);
+  const venue = venues.find(item => item.id === venueId);
+
+  const buildPattern = (): SlotSeriesPattern => {
+    const base = {
+      weekdays,
+      fromDate,
+      toDate,
+      startTime,
+      endTime,
+      durationMinutes,
+      excludedDates: excludedDatesInput.split(/[\s,]+/).map(d => d.trim()).filter(Boolean),
+      excludeHolidays,
+    };
+    if (!venue) return { ...base, location, fields: parseFieldList(fieldsInput) };
+    const courts = venue.courts.filter(court => courtIds.includes(court.id));
+    return { ...base, location: venue.name, fields: courts.map(c => c.name), venueId: venue.id, courtIds: courts.map(c => c.id) };
+  };
+
+  const handleVenueChange = (nextVenueId: string) => {
+    setVenueId(nextVenueId);
+    setCourtIds(venues.find(item => item.id === nextVenueId)?.courts.map(court => court.id) ?? []);
+    setPreview(null);
+  };
+
+  const toggleCourt = (courtId: string) => {
+    setCourtIds(prev => prev.includes(courtId) ? prev.filter(id => id !== courtId) : [...prev, courtId]);
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    const pattern = buildPattern();
+    const validation = validateSlotSeriesPattern(pattern);
+    setError(validation);
+    if (validation) {
+      setPreview(null);
+      return;
+    }
+    const seriesId = createSlotSeriesId();
+    const generated = generateSlotSeries(pattern, seriesId);
+    // con un impianto registrato si scartano gli slot fuori orario o nei giorni di chiusura
+    const closed = new Map<string, string>();
+    if (venue) {
+      generated.forEach(slot => {
+        const reason = getVenueClosureReason(venue, slot.start, durationMinutes);
+        if (reason) closed.set(slot.id, reason);
+      });
+    }
+    setPreview({ seriesId, slots: generated, overlaps: findOverlappingSlotIds(generated, slots, durationMinutes), closed });
+  };
+
+  const slotsToAdd = preview
+    ? preview.slots.filter(slot => !preview.closed.has(slot.id) && (!skipOverlaps || !preview.overlaps.has(slot.id)))
+    : [];
+
+  const handleConfirm = async () => {
+    if (slotsToAdd.length === 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave([...slots, ...slotsToAdd]);
+      setPreview(null);
+    } catch (err: any) {
+      console.error('Errore generazione slot', err);
+      setError(err?.message || 'Errore durante il salvataggio degli slot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Gli slot già prenotati restano: si eliminano solo quelli liberi della serie
+  const handleDeleteSeries = async (seriesId: string, bookedCount: number) => {
+    const message = bookedCount > 0
+      ? `Eliminare gli slot liberi della serie? ${bookedCount} slot già prenotati verranno mantenuti.`
+      : 'Eliminare tutti gli slot della serie?';
+    if (!window.confirm(message)) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(slots.filter(slot => slot.seriesId !== seriesId || bookedSlotIds.has(slot.id)));
+    } catch (err: any) {
+      console.error('Errore eliminazione serie', err);
+      setError(err?.message || "Errore durante l'eliminazione della serie");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+    setPreview(null);
+  };
+
+  const inputClass = 'bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary';
+
+  return (
+    <div className="bg-secondary rounded-xl shadow-lg p-6 space-y-4">
+      <div>
+        <h3 className="text-xl font-bold text-accent">Generatore slot ricorrenti</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Crea in un colpo gli slot di più settimane e più campi, ad esempio lun/mer/ven 18:00–22:00, slot da 90 minuti, campi 1–4.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[1, 2, 3, 4, 5, 6, 0].map(day => (
+          <button
+            key={day}
+            type="button"
+            onClick={() => toggleWeekday(day)}
+            className={`px-3 py-1 rounded-full text-sm font-semibold ${weekdays.includes(day) ? 'bg-accent text-white' : 'bg-tertiary text-text-primary'}`}
+          >
+            {WEEKDAY_LABELS[day]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-text-secondary">Dal</span>
+          <input type="date" value={fromDate} onChange={e => { setFromDate(e.target.value); setPreview(null); }} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-text-secondary">Al</span>
+          <input type="date" value={toDate} min={fromDate} onChange={e => { setToDate(e.target.value); setPreview(null); }} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-text-secondary">Durata slot (minuti)</span>
+          <input type="number" min={15} step={15} value={durationMinutes} onChange={e => { setDurationMinutes(parseInt(e.target.value, 10) || 0); setPreview(null); }} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-text-secondary">Dalle</span>
+          <input type="time" value={startTime} onChange={e => { setStartTime(e.target.value); setPreview(null); }} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-text-secondary">Alle</span>
+          <input type="time" value={endTime} onChange={e => { setEndTime(e.target.value); setPreview(null); }} className={inputClass} />
+        </label>
+        {venues.length > 0 && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-text-secondary">Impianto</span>
+            <select value={venueId} onChange={e => handleVenueChange(e.target.value)} className={inputClass}>
+              <option value="">Altro luogo (testo libero)</option>
+              {venues.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+            </select>
+          </label>
+        )}
+        {venue ? (
+          <div className="flex flex-col gap-1 md:col-span-2">
+            <span className="text-xs font-semibold text-text-secondary">Campi</span>
+            <div className="flex flex-wrap gap-3 text-sm py-2">
+              {venue.courts.map(court => (
+                <label key={court.id} className="flex items-center gap-2">
+                  <input type="checkbox" checked={courtIds.includes(court.id)} onChange={() => toggleCourt(court.id)} />
+                  {court.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-text-secondary">Luogo</span>
+              <input type="text" value={location} onChange={e => { setLocation(e.target.value); setPreview(null); }} placeholder="Es. Circolo Tennis" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-text-secondary">Campi (es. 1-4 oppure Centrale, Campo 2)</span>
+              <input type="text" value={fieldsInput} onChange={e => { setFieldsInput(e.target.value); setPreview(null); }} className={inputClass} />
+            </label>
+          </>
+        )}
+        <label className="flex flex-col gap-1 md:col-span-2">
+          <span className="text-xs font-semibold text-text-secondary">Date escluse (YYYY-MM-DD, separate da virgola)</span>
+          <input type="text" value={excludedDatesInput} onChange={e => { setExcludedDatesInput(e.target.value); setPreview(null); }} placeholder="2025-07-14, 2025-07-15" className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={excludeHolidays} onChange={e => { setExcludeHolidays(e.target.checked); setPreview(null); }} />
+          Escludi festività nazionali
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={skipOverlaps} onChange={e => setSkipOverlaps(e.target.checked)} />
+          Salta gli slot sovrapposti a quelli esistenti
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>
+      )}
+
+      <button type="button" onClick={handlePreview} className="px-4 py-2 rounded bg-highlight text-white font-semibold">
+        Anteprima
+      </button>
+
+      {preview && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            {preview.slots.length} slot generati
+            {preview.overlaps.size > 0 && <span className="text-yellow-400"> • {preview.overlaps.size} sovrapposti a slot esistenti</span>}
+            {preview.closed.size > 0 && <span className="text-text-secondary"> • {preview.closed.size} con impianto chiuso</span>}
+            {' • '}{slotsToAdd.length} da aggiungere
+          </p>
+          <ul className="max-h-64 overflow-y-auto text-sm space-y-1 bg-primary/50 rounded-lg p-3">
+            {preview.slots.map(slot => {
+              const overlapping = preview.overlaps.has(slot.id);
+              const closedReason = preview.closed.get(slot.id);
+              return (
+                <li key={slot.id} className={closedReason ? 'text-text-secondary line-through' : overlapping ? (skipOverlaps ? 'text-text-secondary line-through' : 'text-yellow-400') : ''}>
+                  {formatSlotStart(slot.start)} • {slot.location} • {slot.field}
+                  {closedReason ? ` (${closedReason})` : overlapping && ' (sovrapposto)'}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={saving || slotsToAdd.length === 0}
+              className="px-4 py-2 rounded bg-green-600 text-white font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Salvataggio...' : `Aggiungi ${slotsToAdd.length} slot`}
+            </button>
+            <button type="button" onClick={() => setPreview(null)} className="px-4 py-2 rounded bg-tertiary text-text-primary font-semibold">
+              Annulla
+            </button>
+          </div>
+        </div>
+      )}
+
+      {series.length > 0 && (
+        <div>
+          <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-2">Serie generate</h4>
+          <ul className="space-y-2">
+            {series.map(item => (
+              <li key={item.seriesId} className="flex items-center justify-between gap-3 bg-tertiary/50 p-3 rounded-lg text-sm">
+                <div>
+                  <div className="font-semibold">{item.location} • {item.fields.join(', ')}</div>
+                  <div className="text-text-secondary">
+                    {formatSlotStart(item.firstStart)} → {formatSlotStart(item.lastStart)} • {item.count} slot
+                    {item.bookedCount > 0 && ` • ${item.bookedCount} prenotati`}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteSeries(item.seriesId, item.bookedCount)}
+                  disabled={saving || item.bookedCount === item.count}
+                  className="px-3 py-1 rounded bg-red-600 hover:bg-red-700 text-white font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Elimina serie
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlotSeriesGenerator;
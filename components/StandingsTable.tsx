@@ -1,6 +1,6 @@
 import React, { useMemo } from 'react';
-import { type Group, type Player, type TournamentSettings } from '../types';
-import { calculateStandings } from '../utils/standings';
+import { type Group, type Player, type StandingsTieBreak, type TournamentSettings } from '../types';
+import { calculateStandings, TIE_BREAKER_LABELS } from '../utils/standings';
 
 interface StandingsTableProps {
   group: Group;
@@ -14,8 +14,26 @@ interface StandingsTableProps {
 const StandingsTable: React.FC<StandingsTableProps> = ({ group, players, settings, loggedInPlayerId, onPlayerContact, entryLabel = 'Giocatore' }) => {
   const standings = useMemo(() => calculateStandings(group, players, settings), [group, players, settings]);
 
+  const isSwiss = group.format === 'swiss';
+
   const getPlayer = (playerId: string) => players.find(p => p.id === playerId);
 
+  const describeTieBreak = (tieBreak: StandingsTieBreak) => {
+    if (!tieBreak.criterion) return 'Parità non risolta dai criteri configurati';
+    if (tieBreak.criterion === 'headToHead' && tieBreak.tiedPlayers > 2) {
+      return `Classifica avulsa (scontri diretti tra ${tieBreak.tiedPlayers} giocatori)`;
+    }
+    return TIE_BREAKER_LABELS[tieBreak.criterion];
+  };
+
+  const tieBreakNotes = standings.flatMap((entry, index) => {
+    if (!entry.tieBreak || index === 0) return [];
+    const above = getPlayer(standings[index - 1].playerId);
+    const below = getPlayer(entry.playerId);
+    if (!above || !below) return [];
+    return [{ playerId: entry.playerId, text: `${above.name} precede ${below.name}: ${describeTieBreak(entry.tieBreak)}` }];
+  });
+
   return (
     <div className="overflow-x-auto bg-secondary rounded-xl shadow-lg">
       <table className="min-w-full text-sm text-left text-text-primary">
@@ -28,8 +46,11 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ group, players, setting
             <th scope="col" className="px-2 py-3 text-center" title="Vinte">V</th>
             <th scope="col" className="px-2 py-3 text-center" title="Nulle">N</th>
             <th scope="col" className="px-2 py-3 text-center" title="Perse">P</th>
+            <th scope="col" className="px-2 py-3 text-center" title="Set vinti - Set persi">S</th>
             <th scope="col" className="px-2 py-3 text-center" title="Differenza Game">DG</th>
             <th scope="col" className="px-2 py-3 text-center" title="Game Fatti">GF</th>
+            {isSwiss && <th scope="col" className="px-2 py-3 text-center" title="Buchholz">Bu</th>}
+            {isSwiss && <th scope="col" className="px-2 py-3 text-center" title="Sonneborn-Berger">SB</th>}
           </tr>
         </thead>
         <tbody>
@@ -39,7 +60,12 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ group, players, setting
             const isLoggedUser = entry.playerId === loggedInPlayerId;
             return (
               <tr key={entry.playerId} className={`border-b border-tertiary/50 transition-colors ${isLoggedUser ? 'bg-highlight/10' : 'hover:bg-tertiary/20'}`}>
-                <td className={`px-4 py-3 font-medium ${isLoggedUser ? 'text-accent' : ''} ${isLoggedUser ? 'border-l-4 border-accent' : ''}`}>{index + 1}</td>
+                <td
+                  className={`px-4 py-3 font-medium ${isLoggedUser ? 'text-accent' : ''} ${isLoggedUser ? 'border-l-4 border-accent' : ''}`}
+                  title={entry.tieBreak ? describeTieBreak(entry.tieBreak) : undefined}
+                >
+                  {index + 1}{entry.tieBreak && <span className="text-text-secondary">*</span>}
+                </td>
                 <th scope="row" className="px-4 py-3 font-medium whitespace-nowrap">
                   <button onClick={() => onPlayerContact(player)} className="flex items-center gap-3 text-left hover:text-accent transition-colors">
                     <img src={player.avatar} alt={player.name} className="w-8 h-8 rounded-full object-cover"/>
@@ -51,13 +77,22 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ group, players, setting
                 <td className="px-2 py-3 text-center text-green-400">{entry.wins}</td>
                 <td className="px-2 py-3 text-center text-yellow-400">{entry.draws}</td>
                 <td className="px-2 py-3 text-center text-red-400">{entry.losses}</td>
+                <td className="px-2 py-3 text-center whitespace-nowrap">{entry.setsFor}-{entry.setsAgainst}</td>
                 <td className="px-2 py-3 text-center">{entry.goalDifference > 0 ? `+${entry.goalDifference}` : entry.goalDifference}</td>
                 <td className="px-2 py-3 text-center">{entry.goalsFor}</td>
+                {isSwiss && <td className="px-2 py-3 text-center">{entry.buchholz}</td>}
+                {isSwiss && <td className="px-2 py-3 text-center">{entry.sonnebornBerger}</td>}
               </tr>
             );
           })}
         </tbody>
       </table>
+      {tieBreakNotes.length > 0 && (
+        <div className="px-4 py-3 border-t border-tertiary/50 text-xs text-text-secondary space-y-1">
+          <p className="font-semibold uppercase">* Parità a punti</p>
+          {tieBreakNotes.map(note => <p key={note.playerId}>{note.text}</p>)}
+        </div>
+      )}
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import {
   type SummerAvailabilityByDay,
   type SummerAvailabilityStatus,
+  type AuditLogEntry,
   type DrawMode,
   type Match,
   type Player,
@@ -17,6 +18,8 @@ import {
   type SummerRankingMasterMatch,
   type SummerRankingRulesConfig,
   type TimeSlot,
+  type Event,
+  type Venue,
 } from '../types';
 import { ArrowDownIcon, ArrowUpIcon, PhoneIcon, PlusIcon, TrashIcon, WhatsAppIcon } from './Icons';
 import {
@@ -39,6 +42,18 @@ import {
   removePlayerFromSummerRankingMaster,
   syncSummerRankingMasterMatches,
 } from '../utils/summerRanking';
+import { buildMatchResultFromDraft, createEmptyScoreDraft, createScoreDraft, EMPTY_MATCH_RESULT, formatMatchScore, formatSideScore, getScoreSummary, getWinnerSide, hasMatchResult, KNOCKOUT_RESULT_TYPES, RESULT_TYPE_LABELS, type ScoreDraft } from '../utils/score';
+import ScoreEditor from './ScoreEditor';
+import SlotSeriesGenerator from './SlotSeriesGenerator';
+import ScheduleConflictsReport from './ScheduleConflictsReport';
+import { assignSlotCourt, getCourtBookings, getCourtIssue } from '../utils/venues';
+import { createPlayerNameResolver, findPlayerConflicts, formatPlayerConflictWarning, getPlayerBookings } from '../utils/playerConflicts';
+import { applyResultSnapshot, buildResultAuditEntry, isSameResult, snapshotResult, type AuditActor } from '../utils/auditLog';
+import { appendAuditEntry } from '../services/auditLogService';
+import AuditLogPanel from './AuditLogPanel';
+import { type EventPermissions } from '../services/permissionService';
+import { clearResultConfirmation, confirmResult, disputeResult, formatAutoConfirm, getResultConfirmationStatus, getResultConfirmer, RESULT_CONFIRMATION_LABELS, withSubmittedResult } from '../utils/resultConfirmation';
+import { acceptProposal, createBookingProposal, formatProposalExpiry, getActiveProposal, getHeldSlotIds, getProposalRecipient } from '../utils/proposals';
 
 // Portal renders children directly in document.body, bypassing any ancestor CSS transforms
 // (such as animate-fadeIn) that would otherwise break position:fixed modal centering.
@@ -69,15 +84,16 @@ type ChallengeModalState = {
   scheduledDate: string;
   scheduledHour: string;
   location: string;
+  /** Court picked from the venue registry; empty when no venue is registered. */
+  venueId: string;
+  courtId: string;
   /** Only populated when an organiser creates the match (no currentPlayer). */
   player1Id?: string;
 };
 
 type MatchResultModalState = {
   matchId: string;
-  score1: string;
-  score2: string;
-  outcome: 'player1' | 'player2' | 'draw' | '';
+  draft: ScoreDraft;
   error: string | null;
 };
 
@@ -93,7 +109,7 @@ type AvailabilityFormState = {
   editingEntryId: string | null;
   draft: AvailabilityDraftState;
 };
-type MasterScoreFormState = { matchId: string | null; score1: string; score2: string };
+type MasterScoreFormState = { matchId: string | null; draft: ScoreDraft; error?: string | null };
 
 const AVAILABILITY_DAYS: Array<{ value: SummerAvailabilityDay; label: string; shortLabel: string }> = [
   { value: 'monday', label: 'Lunedì', shortLabel: 'Lun' },
@@ -344,10 +360,16 @@ const getAvailabilitySummary = (availability?: SummerPlayerAvailability) => {
 interface SummerRankingViewProps {
   players: Player[];
   rankingData: SummerRankingData;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
+  eventId?: string;
+  // tutti gli eventi e gli impianti, per non prenotare campi già occupati altrove
+  allEvents: Event[];
+  venues: Venue[];
+  auditActor: AuditActor;
   onPlayerContact: (player: Player) => void;
-  onSaveRankingData: (nextData: SummerRankingData) => Promise<void>;
+  // false se non è stato salvato nulla per un conflitto (già segnalato)
+  onSaveRankingData: (nextData: SummerRankingData) => Promise<boolean>;
   onUpdatePlayerStartPoints: (playerId: string, points: number) => Promise<void>;
   onOpenPlayersAdmin?: () => void;
   title?: string;
@@ -460,7 +482,7 @@ const getMasterMatchStatusTone = (match: SummerRankingMasterMatch) => {
 };
 
 const getOperationalMatchStatus = (match: SummerRankingMasterMatch, slot: TimeSlot) => ({
-  ...match,
+  ...assignSlotCourt(match, slot),
   status: 'scheduled' as const,
   scheduledTime: slot.start,
   location: slot.location,
@@ -489,8 +511,12 @@ const rebuildMasterState = (
 const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   players,
   rankingData,
-  isOrganizer,
+  permissions,
   loggedInPlayerId,
+  eventId,
+  allEvents,
+  venues,
+  auditActor,
   onPlayerContact,
   onSaveRankingData,
   onUpdatePlayerStartPoints,
@@ -499,6 +525,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   description,
   playersAdminLabel,
 }) => {
+  const { canManageStructure, canManageResults, canViewAdmin } = permissions;
   const [activeTab, setActiveTab] = useState<RankingTab>('ranking');
   const [slotForm, setSlotForm] = useState({ start: '', location: '', field: '' });
   const [bookingForm, setBookingForm] = useState({ slotId: '', opponentId: '', player1Id: '', player2Id: '' });
@@ -534,10 +561,12 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   const [masterFormatDraft, setMasterFormatDraft] = useState<SummerRankingMasterFormat>('bracket');
   const [masterBookingSlotIdByMatch, setMasterBookingSlotIdByMatch] = useState<Record<string, string>>({});
   const [editingMasterMatchId, setEditingMasterMatchId] = useState<string | null>(null);
-  const [masterScoreForm, setMasterScoreForm] = useState<MasterScoreFormState>({ matchId: null, score1: '', score2: '' });
+  const [masterScoreForm, setMasterScoreForm] = useState<MasterScoreFormState>({ matchId: null, draft: createEmptyScoreDraft() });
   const [challengeModal, setChallengeModal] = useState<ChallengeModalState | null>(null);
   const [challengeError, setChallengeError] = useState<string | null>(null);
   const [challengeSuccess, setChallengeSuccess] = useState<string | null>(null);
+  const [counterProposal, setCounterProposal] = useState<{ matchId: string; scheduledDate: string; scheduledHour: string } | null>(null);
+  const [proposalError, setProposalError] = useState<string | null>(null);
   const [isSavingChallenge, setIsSavingChallenge] = useState(false);
   const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
   const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
@@ -625,15 +654,18 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       [...rankingData.matches, ...masterMatches]
         .filter(match => match.slotId && match.status !== 'pending')
         .map(match => String(match.slotId))
+        .concat(getHeldSlotIds(rankingData.matches))
     ),
     [rankingData.matches, masterMatches],
   );
+  const courtBookings = useMemo(() => getCourtBookings(allEvents), [allEvents]);
   const availableSlots = useMemo(
     () => rankingData.slots
       .filter(slot => !bookedSlotIds.has(slot.id))
+      .filter(slot => !slot.courtId || !getCourtIssue(courtBookings, venues, slot.courtId, slot.start))
       .slice()
       .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()),
-    [rankingData.slots, bookedSlotIds],
+    [rankingData.slots, bookedSlotIds, courtBookings, venues],
   );
   const currentPlayer = confirmedPlayers.find(player => player.id === loggedInPlayerId);
   const currentPlayerAvailability = loggedInPlayerId ? rankingData.availabilities?.[loggedInPlayerId] : undefined;
@@ -664,8 +696,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     const history = rankingData.matches
       .filter(match =>
         match.status === 'completed' &&
-        match.score1 !== null &&
-        match.score2 !== null &&
+        hasMatchResult(match) &&
         (match.player1Id === selectedPlayerId || match.player2Id === selectedPlayerId)
       )
       .slice()
@@ -696,9 +727,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           pointsBefore,
           pointsAfter,
           pointsDelta,
-          scoreLabel: match.score1 !== null && match.score2 !== null
-            ? `${isPlayer1 ? match.score1 : match.score2} - ${isPlayer1 ? match.score2 : match.score1}`
-            : '—',
+          scoreLabel: formatMatchScore(match, !isPlayer1),
         };
       });
 
@@ -768,16 +797,24 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     });
   };
 
+  // Avvisa se un giocatore ha già una partita alla stessa ora, anche in altri eventi
+  const confirmPlayerConflicts = (playerIds: string[], start: string, ignoreMatchId?: string) => {
+    const conflicts = findPlayerConflicts(getPlayerBookings(allEvents), playerIds, start, undefined, ignoreMatchId);
+    if (conflicts.length === 0) return true;
+    return window.confirm(`${formatPlayerConflictWarning(conflicts, createPlayerNameResolver(allEvents))}\n\nPrenotare comunque?`);
+  };
+
   const handleCreateBookedMatch = async () => {
     const slot = availableSlots.find(item => item.id === bookingForm.slotId);
     if (!slot) return;
 
-    const participantIds = isOrganizer && !loggedInPlayerId
+    const participantIds = canManageStructure && !loggedInPlayerId
       ? [bookingForm.player1Id, bookingForm.player2Id]
       : [loggedInPlayerId ?? '', bookingForm.opponentId];
 
     if (!participantIds[0] || !participantIds[1] || participantIds[0] === participantIds[1]) return;
     if (getHeadToHeadCount(rankingData.matches, participantIds[0], participantIds[1]) >= effectiveConfig.headToHeadLimit) return;
+    if (!confirmPlayerConflicts(participantIds, slot.start)) return;
 
     const nextMatch: Match = {
       id: generateId('srn-match'),
@@ -790,28 +827,41 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       location: slot.location,
       field: slot.field,
       slotId: slot.id,
+      ...(slot.venueId ? { venueId: slot.venueId } : {}),
+      ...(slot.courtId ? { courtId: slot.courtId } : {}),
     };
 
-    await onSaveRankingData({
+    if (!(await onSaveRankingData({
       ...rankingData,
       matches: [...rankingData.matches, nextMatch],
-    });
+    }))) return;
     setBookingForm({ slotId: '', opponentId: '', player1Id: '', player2Id: '' });
   };
 
+  const recordResultChange = (
+    before: Match | SummerRankingMasterMatch,
+    after: Match | SummerRankingMasterMatch,
+    source: 'rankingMatches' | 'rankingMaster',
+    revertOf?: string,
+  ) => {
+    if (!eventId) return Promise.resolve();
+    return appendAuditEntry(buildResultAuditEntry({
+      eventId,
+      matchId: before.id,
+      matchLabel: `${playerMap.get(before.player1Id ?? '')?.name ?? 'N/A'} vs ${playerMap.get(before.player2Id ?? '')?.name ?? 'N/A'}`,
+      source,
+      actor: auditActor,
+      before,
+      after,
+      ...(revertOf ? { action: 'resultReverted' as const, revertOf } : {}),
+    }));
+  };
+
   const openEditResult = (match: Match) => {
     setMatchActionError(null);
     setResultModal({
       matchId: match.id,
-      score1: match.score1 !== null ? String(match.score1) : '',
-      score2: match.score2 !== null ? String(match.score2) : '',
-      outcome: match.score1 === null || match.score2 === null
-        ? ''
-        : match.score1 === match.score2
-          ? 'draw'
-          : match.score1 > match.score2
-            ? 'player1'
-            : 'player2',
+      draft: createScoreDraft(match),
       error: null,
     });
   };
@@ -824,32 +874,9 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   const handleSaveResult = async () => {
     if (!resultModal) return;
 
-    if (!resultModal.score1.trim() || !resultModal.score2.trim()) {
-      setResultModal(previous => previous ? { ...previous, error: 'Il risultato è obbligatorio.' } : previous);
-      return;
-    }
-    if (!resultModal.outcome) {
-      setResultModal(previous => previous ? { ...previous, error: 'Seleziona vincitore o pareggio.' } : previous);
-      return;
-    }
-
-    const score1 = Number(resultModal.score1);
-    const score2 = Number(resultModal.score2);
-    if (!Number.isFinite(score1) || !Number.isFinite(score2) || score1 < 0 || score2 < 0) {
-      setResultModal(previous => previous ? { ...previous, error: 'Inserisci un punteggio valido (solo numeri >= 0).' } : previous);
-      return;
-    }
-
-    if (resultModal.outcome === 'draw' && score1 !== score2) {
-      setResultModal(previous => previous ? { ...previous, error: 'Con pareggio selezionato, i due punteggi devono essere uguali.' } : previous);
-      return;
-    }
-    if (resultModal.outcome === 'player1' && score1 <= score2) {
-      setResultModal(previous => previous ? { ...previous, error: 'Il vincitore selezionato è il Giocatore 1: il suo punteggio deve essere maggiore.' } : previous);
-      return;
-    }
-    if (resultModal.outcome === 'player2' && score2 <= score1) {
-      setResultModal(previous => previous ? { ...previous, error: 'Il vincitore selezionato è il Giocatore 2: il suo punteggio deve essere maggiore.' } : previous);
+    const { result, error } = buildMatchResultFromDraft(resultModal.draft);
+    if (!result) {
+      setResultModal(previous => previous ? { ...previous, error: error ?? 'Il risultato è obbligatorio.' } : previous);
       return;
     }
 
@@ -859,24 +886,23 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       return;
     }
 
+    // il risultato di un giocatore resta provvisorio finché l'avversario non lo conferma
+    const updatedMatch = withSubmittedResult<Match>({
+      ...match,
+      ...result,
+      status: 'completed',
+      completedAt: match.completedAt ?? new Date().toISOString(),
+    }, canManageResults ? null : loggedInPlayerId);
+
     setIsSavingMatchResult(true);
     setMatchActionError(null);
     setResultModal(previous => previous ? { ...previous, error: null } : previous);
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
-        matches: rankingData.matches.map(item =>
-          item.id === match.id
-            ? {
-                ...item,
-                score1,
-                score2,
-                status: 'completed',
-                completedAt: item.completedAt ?? new Date().toISOString(),
-              }
-            : item
-        ),
-      });
+        matches: rankingData.matches.map(item => item.id === match.id ? updatedMatch : item),
+      }))) return;
+      await recordResultChange(match, updatedMatch, 'rankingMatches');
       setResultModal(null);
     } catch (error) {
       console.error('Errore salvataggio risultato partita', error);
@@ -888,27 +914,59 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
 
   const handleResetResult = async (match: Match) => {
     setMatchActionError(null);
+    const resetMatch = clearResultConfirmation<Match>({
+      ...match,
+      ...EMPTY_MATCH_RESULT,
+      status: match.slotId ? 'scheduled' : 'pending',
+      completedAt: undefined,
+    });
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
-        matches: rankingData.matches.map(item =>
-          item.id === match.id
-            ? {
-                ...item,
-                score1: null,
-                score2: null,
-                status: item.slotId ? 'scheduled' : 'pending',
-                completedAt: undefined,
-              }
-            : item
-        ),
-      });
+        matches: rankingData.matches.map(item => item.id === match.id ? resetMatch : item),
+      }))) return;
+      await recordResultChange(match, resetMatch, 'rankingMatches');
     } catch (error) {
       console.error('Errore ripristino risultato partita', error);
       setMatchActionError('Ripristino non riuscito. Riprova.');
     }
   };
 
+  const handleRespondResult = async (match: Match, action: 'confirm' | 'dispute') => {
+    const responderId = canManageResults ? 'organizer' : loggedInPlayerId;
+    if (!responderId) return;
+    let nextMatch = confirmResult(match, responderId);
+    if (action === 'dispute') {
+      const reason = window.prompt("Motivo della contestazione (verrà segnalato all'organizzatore):");
+      if (reason === null) return;
+      nextMatch = disputeResult(match, responderId, reason);
+    }
+    setMatchActionError(null);
+    try {
+      await onSaveRankingData({
+        ...rankingData,
+        matches: rankingData.matches.map(item => item.id === match.id ? nextMatch : item),
+      });
+    } catch (error) {
+      console.error('Errore conferma risultato partita', error);
+      setMatchActionError('Salvataggio non riuscito. Riprova.');
+    }
+  };
+
+  const handleRevertAuditEntry = async (entry: AuditLogEntry) => {
+    const match = rankingData.matches.find(item => item.id === entry.matchId);
+    if (!match) throw new Error('Partita non trovata nel ranking.');
+    const changedSince = !isSameResult(snapshotResult(match), entry.after);
+    if (!window.confirm(`Ripristinare il risultato precedente di ${entry.matchLabel}?${changedSince ? '\n\nAttenzione: la partita è stata modificata di nuovo dopo questa voce.' : ''}`)) return;
+    const revertedMatch = clearResultConfirmation(applyResultSnapshot(match, entry.before));
+    if (!hasMatchResult(revertedMatch)) delete revertedMatch.completedAt;
+    if (!(await onSaveRankingData({
+      ...rankingData,
+      matches: rankingData.matches.map(item => item.id === match.id ? revertedMatch : item),
+    }))) return;
+    await recordResultChange(match, revertedMatch, 'rankingMatches', entry.id);
+  };
+
   const openDeleteMatchModal = (match: Match) => {
     setDeleteMatchError(null);
     setMatchActionError(null);
@@ -927,10 +985,10 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     setDeleteMatchError(null);
     setMatchActionError(null);
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
         matches: rankingData.matches.filter(match => match.id !== matchToDelete.id),
-      });
+      }))) return;
       setMatchToDelete(null);
     } catch (error) {
       console.error('Errore eliminazione partita', error);
@@ -946,8 +1004,18 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       ?? eligibleOpponents.find(player => player.id === initialOpponentId)?.name
       ?? '';
     // Admin without their own player account needs to pick both participants.
-    const player1Id = (isOrganizer && !currentPlayer) ? '' : undefined;
-    setChallengeModal({ opponentId: initialOpponentId, opponentName: initialOpponentName, scheduledDate: '', scheduledHour: '', location: 'Tennis Salò Canottieri', player1Id });
+    const player1Id = (canManageStructure && !currentPlayer) ? '' : undefined;
+    const initialVenue = venues[0];
+    setChallengeModal({
+      opponentId: initialOpponentId,
+      opponentName: initialOpponentName,
+      scheduledDate: '',
+      scheduledHour: '',
+      location: initialVenue?.name ?? 'Tennis Salò Canottieri',
+      venueId: initialVenue?.id ?? '',
+      courtId: initialVenue?.courts[0]?.id ?? '',
+      player1Id,
+    });
     setChallengeError(null);
     setChallengeSuccess(null);
   };
@@ -962,11 +1030,11 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     if (!challengeModal) return;
     // For organisers without a player account the modal carries player1Id; for
     // regular players we fall back to loggedInPlayerId.
-    const isAdminMode = isOrganizer && !currentPlayer;
+    const isAdminMode = canManageStructure && !currentPlayer;
     const effectivePlayer1Id = isAdminMode ? (challengeModal.player1Id ?? '') : (loggedInPlayerId ?? '');
     if (!isAdminMode && (!loggedInPlayerId || !currentPlayer)) return;
     if (isAdminMode && !effectivePlayer1Id) return;
-    const { opponentId, scheduledDate, scheduledHour, location } = challengeModal;
+    const { opponentId, scheduledDate, scheduledHour, location, venueId, courtId } = challengeModal;
 
     if (!opponentId) {
       setChallengeError('Seleziona un avversario per prenotare la partita.');
@@ -984,6 +1052,12 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       setChallengeError('Seleziona un luogo per la partita.');
       return;
     }
+    const venue = venues.find(item => item.id === venueId);
+    const court = venue?.courts.find(item => item.id === courtId);
+    if (venues.length > 0 && !court) {
+      setChallengeError('Seleziona un campo per la partita.');
+      return;
+    }
 
     const scheduledTime = `${scheduledDate}T${scheduledHour}`;
     const chosenDate = new Date(scheduledTime);
@@ -997,12 +1071,20 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       return;
     }
 
+    const courtIssue = court ? getCourtIssue(courtBookings, venues, court.id, scheduledTime) : null;
+    if (courtIssue) {
+      setChallengeError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts([effectivePlayer1Id, opponentId], scheduledTime)) return;
+
     if (getHeadToHeadCount(rankingData.matches, effectivePlayer1Id, opponentId) >= effectiveConfig.headToHeadLimit) {
       setChallengeError(`Il limite massimo di ${effectiveConfig.headToHeadLimit} scontri tra questi giocatori è già stato raggiunto.`);
       return;
     }
 
-    const nextMatch: Match = {
+    // la sfida di un giocatore resta in attesa finché l'avversario non la conferma
+    const nextMatch: Match = isAdminMode ? {
       id: generateId('srn-booking'),
       player1Id: effectivePlayer1Id,
       player2Id: opponentId,
@@ -1010,17 +1092,37 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       score2: null,
       status: 'scheduled',
       scheduledTime: chosenDate.toISOString(),
-      location: location,
+      location: venue?.name ?? location,
+      ...(venue && court ? { field: court.name, venueId: venue.id, courtId: court.id } : {}),
+    } : {
+      id: generateId('srn-booking'),
+      player1Id: effectivePlayer1Id,
+      player2Id: opponentId,
+      score1: null,
+      score2: null,
+      status: 'pending',
+      proposal: createBookingProposal({
+        kind: 'booking',
+        proposedBy: effectivePlayer1Id,
+        scheduledTime,
+        location: venue?.name ?? location,
+        field: court?.name,
+        venueId: venue && court ? venue.id : undefined,
+        courtId: court?.id,
+        expiryHours: effectiveConfig.proposalExpiryHours,
+      }),
     };
 
     setIsSavingChallenge(true);
     setChallengeError(null);
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
         matches: [...rankingData.matches, nextMatch],
-      });
-      setChallengeSuccess('Partita prenotata con successo! La partita è ora visibile nel tab Partite.');
+      }))) return;
+      setChallengeSuccess(isAdminMode
+        ? 'Partita prenotata con successo! La partita è ora visibile nel tab Partite.'
+        : "Proposta inviata! La partita sarà prenotata quando l'avversario la conferma nel tab Partite.");
       setTimeout(() => {
         closeChallengeModal();
       }, 1500);
@@ -1033,6 +1135,78 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     }
   };
 
+  const pendingProposalMatches = rankingData.matches.filter(match =>
+    match.status === 'pending' && match.proposal &&
+    (canManageStructure || match.player1Id === loggedInPlayerId || match.player2Id === loggedInPlayerId));
+
+  const saveChallengeMatches = async (matches: Match[]) => {
+    setProposalError(null);
+    try {
+      await onSaveRankingData({ ...rankingData, matches });
+    } catch (err) {
+      console.error('Errore aggiornamento proposta', err);
+      setProposalError(`Salvataggio non riuscito: ${err instanceof Error ? err.message : String(err)}. Riprova.`);
+    }
+  };
+
+  const handleAcceptChallenge = async (match: Match) => {
+    const proposal = getActiveProposal(match);
+    if (!proposal) return;
+    const courtIssue = proposal.courtId
+      ? getCourtIssue(courtBookings, venues, proposal.courtId, proposal.scheduledTime, undefined, match.id)
+      : null;
+    if (courtIssue) {
+      setProposalError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts([match.player1Id, match.player2Id], proposal.scheduledTime, match.id)) return;
+    if (getHeadToHeadCount(rankingData.matches.filter(m => m.id !== match.id), match.player1Id, match.player2Id) >= effectiveConfig.headToHeadLimit) {
+      setProposalError(`Il limite massimo di ${effectiveConfig.headToHeadLimit} scontri tra questi giocatori è già stato raggiunto.`);
+      return;
+    }
+    await saveChallengeMatches(rankingData.matches.map(m => m.id === match.id ? acceptProposal(m) : m));
+  };
+
+  // rifiuto, ritiro o proposta scaduta: la sfida non confermata viene eliminata
+  const handleDropChallenge = async (match: Match) => {
+    setCounterProposal(null);
+    await saveChallengeMatches(rankingData.matches.filter(m => m.id !== match.id));
+  };
+
+  const handleCounterChallenge = async (match: Match) => {
+    const proposal = getActiveProposal(match);
+    if (!proposal || !counterProposal || counterProposal.matchId !== match.id) return;
+    const scheduledTime = `${counterProposal.scheduledDate}T${counterProposal.scheduledHour}`;
+    if (!counterProposal.scheduledDate || !counterProposal.scheduledHour || Number.isNaN(new Date(scheduledTime).getTime())) {
+      setProposalError('Data o orario non validi.');
+      return;
+    }
+    const courtIssue = proposal.courtId
+      ? getCourtIssue(courtBookings, venues, proposal.courtId, scheduledTime, undefined, match.id)
+      : null;
+    if (courtIssue) {
+      setProposalError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts([match.player1Id, match.player2Id], scheduledTime, match.id)) return;
+    // l'organizzatore senza profilo giocatore propone a nome del destinatario
+    const proposedBy = loggedInPlayerId && (loggedInPlayerId === match.player1Id || loggedInPlayerId === match.player2Id)
+      ? loggedInPlayerId
+      : getProposalRecipient(match, proposal);
+    const counter = createBookingProposal({
+      kind: proposal.kind,
+      proposedBy,
+      scheduledTime,
+      location: proposal.location,
+      field: proposal.field,
+      venueId: proposal.venueId,
+      courtId: proposal.courtId,
+      expiryHours: effectiveConfig.proposalExpiryHours,
+    });
+    setCounterProposal(null);
+    await saveChallengeMatches(rankingData.matches.map(m => m.id === match.id ? { ...m, proposal: counter } : m));
+  };
+
   const persistMasterQualifiedPlayers = async (qualifiedPlayerIds: string[]) => {
     const normalizedQualifiedPlayerIds = qualifiedPlayerIds.filter(Boolean);
     if (normalizedQualifiedPlayerIds.length !== effectiveConfig.masterSize) return;
@@ -1051,7 +1225,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   };
 
   const handleGenerateMaster = async () => {
-    if (!isOrganizer || masterQualifiedDraft.length !== effectiveConfig.masterSize) return;
+    if (!canManageStructure || masterQualifiedDraft.length !== effectiveConfig.masterSize) return;
 
     const manualQualifiedPlayerIds = arraysEqual(masterQualifiedDraft, autoQualifiedPlayerIds)
       ? undefined
@@ -1070,26 +1244,28 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   };
 
   const handleResetMaster = async () => {
-    if (!isOrganizer || !isMasterGenerated) return;
+    if (!canManageStructure || !isMasterGenerated) return;
 
-    await onSaveRankingData({
+    if (!(await onSaveRankingData({
       ...rankingData,
       master: resetSummerRankingMasterData(rankingData.master, masterFormat),
-    });
+    }))) return;
 
     setEditingMasterMatchId(null);
-    setMasterScoreForm({ matchId: null, score1: '', score2: '' });
+    setMasterScoreForm({ matchId: null, draft: createEmptyScoreDraft() });
   };
 
   const canManageMasterMatch = (match: SummerRankingMasterMatch) =>
-    isOrganizer || loggedInPlayerId === match.player1Id || loggedInPlayerId === match.player2Id;
+    canManageStructure || loggedInPlayerId === match.player1Id || loggedInPlayerId === match.player2Id;
 
   const handleScheduleMasterMatch = async (match: SummerRankingMasterMatch) => {
     const slotId = masterBookingSlotIdByMatch[match.id];
     const slot = availableSlots.find(item => item.id === slotId);
     if (!slot || !canManageMasterMatch(match) || !rankingData.master?.matches) return;
+    const masterPlayerIds = [match.player1Id, match.player2Id].filter((id): id is string => !!id);
+    if (!confirmPlayerConflicts(masterPlayerIds, slot.start, match.id)) return;
 
-    await onSaveRankingData({
+    if (!(await onSaveRankingData({
       ...rankingData,
       master: {
         ...rankingData.master,
@@ -1097,7 +1273,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           item.id === match.id ? getOperationalMatchStatus(item, slot) : item
         ),
       },
-    });
+    }))) return;
 
     setMasterBookingSlotIdByMatch(previous => ({ ...previous, [match.id]: '' }));
   };
@@ -1106,23 +1282,20 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     setEditingMasterMatchId(match.id);
     setMasterScoreForm({
       matchId: match.id,
-      score1: match.score1 !== null ? String(match.score1) : '',
-      score2: match.score2 !== null ? String(match.score2) : '',
+      draft: createScoreDraft(match),
     });
   };
 
   const handleSaveMasterResult = async (match: SummerRankingMasterMatch) => {
     if (!rankingData.master?.matches || !canManageMasterMatch(match)) return;
 
-    const score1 = Number(masterScoreForm.score1);
-    const score2 = Number(masterScoreForm.score2);
-    if (
-      Number.isNaN(score1) ||
-      Number.isNaN(score2) ||
-      score1 < 0 ||
-      score2 < 0 ||
-      score1 === score2
-    ) {
+    const { result, error } = buildMatchResultFromDraft(masterScoreForm.draft);
+    if (!result) {
+      setMasterScoreForm(previous => ({ ...previous, error }));
+      return;
+    }
+    if (!getWinnerSide(result)) {
+      setMasterScoreForm(previous => ({ ...previous, error: 'Nel Master serve un vincitore: controlla i set.' }));
       return;
     }
 
@@ -1130,8 +1303,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       item.id === match.id
         ? {
             ...item,
-            score1,
-            score2,
+            ...result,
             status: 'completed',
             completedAt: item.completedAt ?? new Date().toISOString(),
           }
@@ -1143,8 +1315,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           const nextBracket: PlayoffBracket = JSON.parse(JSON.stringify(rankingData.master!.bracket));
           const bracketMatch = nextBracket.matches.find(item => item.id === match.id);
           if (!bracketMatch) return rankingData.master;
-          bracketMatch.score1 = score1;
-          bracketMatch.score2 = score2;
+          Object.assign(bracketMatch, result);
           return rebuildMasterState(
             nextBracket,
             nextMatches,
@@ -1158,13 +1329,14 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           matches: nextMatches,
         };
 
-    await onSaveRankingData({
+    if (!(await onSaveRankingData({
       ...rankingData,
       master: nextMaster,
-    });
+    }))) return;
+    await recordResultChange(match, { ...match, ...result, status: 'completed' }, 'rankingMaster');
 
     setEditingMasterMatchId(null);
-    setMasterScoreForm({ matchId: null, score1: '', score2: '' });
+    setMasterScoreForm({ matchId: null, draft: createEmptyScoreDraft() });
   };
 
   const handleResetMasterResult = async (match: SummerRankingMasterMatch) => {
@@ -1174,8 +1346,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
       item.id === match.id
         ? {
             ...item,
-            score1: null,
-            score2: null,
+            ...EMPTY_MATCH_RESULT,
             status: item.slotId ? 'scheduled' : 'pending',
             completedAt: undefined,
           }
@@ -1187,8 +1358,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           const nextBracket: PlayoffBracket = JSON.parse(JSON.stringify(rankingData.master!.bracket));
           const bracketMatch = nextBracket.matches.find(item => item.id === match.id);
           if (!bracketMatch) return rankingData.master;
-          bracketMatch.score1 = null;
-          bracketMatch.score2 = null;
+          Object.assign(bracketMatch, EMPTY_MATCH_RESULT);
           bracketMatch.winnerId = null;
           return rebuildMasterState(
             nextBracket,
@@ -1203,14 +1373,15 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           matches: nextMatches,
         };
 
-    await onSaveRankingData({
+    if (!(await onSaveRankingData({
       ...rankingData,
       master: nextMaster,
-    });
+    }))) return;
+    await recordResultChange(match, { ...match, ...EMPTY_MATCH_RESULT, status: match.slotId ? 'scheduled' : 'pending' }, 'rankingMaster');
 
     if (editingMasterMatchId === match.id) {
       setEditingMasterMatchId(null);
-      setMasterScoreForm({ matchId: null, score1: '', score2: '' });
+      setMasterScoreForm({ matchId: null, draft: createEmptyScoreDraft() });
     }
   };
 
@@ -1266,10 +1437,10 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     setRulesSettingsError(null);
     setRulesSettingsSuccess(null);
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
         rulesConfig: rulesConfigForm,
-      });
+      }))) return;
       setRulesSettingsSuccess('Impostazioni salvate con successo. La classifica è stata aggiornata.');
     } catch (error) {
       console.error('Errore salvataggio impostazioni', error);
@@ -1280,15 +1451,15 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   };
 
   const handleSaveRules = async () => {
-    if (!isOrganizer) return;
+    if (!canManageStructure) return;
     setIsSavingRules(true);
     setRulesError(null);
     setRulesSuccess(null);
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
         rules: rulesForm,
-      });
+      }))) return;
       setRulesSuccess('Regolamento salvato con successo.');
     } catch (error) {
       console.error('Errore salvataggio regolamento', error);
@@ -1317,8 +1488,18 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     }
   };
 
-  const canEditMatchResult = (match: Match) =>
-    isOrganizer || loggedInPlayerId === match.player1Id || loggedInPlayerId === match.player2Id;
+  // un giocatore modifica solo il proprio risultato non ancora confermato; poi decide l'organizzatore
+  const canEditMatchResult = (match: Match) => {
+    if (canManageResults) return true;
+    if (loggedInPlayerId !== match.player1Id && loggedInPlayerId !== match.player2Id) return false;
+    if (!hasMatchResult(match)) return true;
+    return getResultConfirmationStatus(match, effectiveConfig.resultAutoConfirmHours) === 'submitted' &&
+      match.resultConfirmation?.submittedBy === loggedInPlayerId;
+  };
+
+  const disputedMatches = canManageResults
+    ? rankingData.matches.filter(match => getResultConfirmationStatus(match, effectiveConfig.resultAutoConfirmHours) === 'disputed')
+    : [];
 
   const persistAvailabilityEntries = async (entries: SummerPlayerAvailabilityEntry[]) => {
     if (!currentPlayer) return;
@@ -1335,10 +1516,10 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
     setAvailabilityError(null);
 
     try {
-      await onSaveRankingData({
+      if (!(await onSaveRankingData({
         ...rankingData,
         availabilities: nextAvailabilities,
-      });
+      }))) return;
       setAvailabilityForm({
         entries: nextAvailability?.entries ?? [],
         isEditorOpen: false,
@@ -1390,7 +1571,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   };
 
   const handleAddParticipant = async (playerId: string) => {
-    if (!isOrganizer || rankingParticipantIdSet.has(playerId)) return;
+    if (!canManageStructure || rankingParticipantIdSet.has(playerId)) return;
     await onSaveRankingData({
       ...rankingData,
       participantIds: [...rankingParticipantIds, playerId],
@@ -1398,7 +1579,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
   };
 
   const handleRemoveParticipant = async (playerId: string) => {
-    if (!isOrganizer || !rankingParticipantIdSet.has(playerId)) return;
+    if (!canManageStructure || !rankingParticipantIdSet.has(playerId)) return;
     const nextAvailabilities = { ...(rankingData.availabilities ?? {}) };
     delete nextAvailabilities[playerId];
     await onSaveRankingData({
@@ -1538,7 +1719,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
             ['master', 'Master finale'],
             ['availability', 'Disponibilità'],
             ['rules', 'Regolamento'],
-            ...(isOrganizer ? [['settings', 'Impostazioni'] as [RankingTab, string]] : []),
+            ...(canManageStructure ? [['settings', 'Impostazioni'] as [RankingTab, string]] : []),
             ['players', 'Giocatori'],
           ] as Array<[RankingTab, string]>).map(([tab, label]) => (
             <button
@@ -1808,7 +1989,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                           <span className="text-sm text-text-secondary">pt</span>
                           <span className="text-xs text-text-secondary">· base: {entry.startingPoints}</span>
                         </div>
-                        {isOrganizer && (
+                        {canManageStructure && (
                           <div className="mt-2 flex items-center gap-2">
                             <input
                               type="number"
@@ -1857,14 +2038,14 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                       >
                         Contatta
                       </button>
-                      {!isCurrentPlayerRow && (isOrganizer || (currentPlayer && loggedInPlayerId)) && (
+                      {!isCurrentPlayerRow && (canManageStructure || (currentPlayer && loggedInPlayerId)) && (
                         <>
-                          {!isOrganizer && (
+                          {!canManageStructure && (
                             <span className="text-xs text-text-secondary self-center">
                               {headToHeadCount}/{effectiveConfig.headToHeadLimit} scontri
                             </span>
                           )}
-                          {(isOrganizer || remainingHeadToHead > 0) ? (
+                          {(canManageStructure || remainingHeadToHead > 0) ? (
                             <button
                               onClick={() => openChallengeModal(entry.player.id, entry.player.name)}
                               className="px-3 py-1.5 rounded bg-accent hover:bg-accent/80 text-white text-xs font-semibold"
@@ -1921,8 +2102,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                     const playerLastMatch = rankingData.matches
                       .filter(m =>
                         m.status === 'completed' &&
-                        m.score1 !== null &&
-                        m.score2 !== null &&
+                        hasMatchResult(m) &&
                         (m.player1Id === entry.player.id || m.player2Id === entry.player.id),
                       )
                       .reduce<Match | null>((latest, m) => {
@@ -1972,7 +2152,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                         </div>
                         <div className="text-xs text-text-secondary mt-1">
                           Base {entry.startingPoints} pt
-                          {isOrganizer && (
+                          {canManageStructure && (
                             <span className="ml-2 inline-flex items-center gap-2">
                               <input
                                 type="number"
@@ -2075,15 +2255,15 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                           >
                             Contatta
                           </button>
-                          {!isCurrentPlayerRow && (isOrganizer || (currentPlayer && loggedInPlayerId)) && (
+                          {!isCurrentPlayerRow && (canManageStructure || (currentPlayer && loggedInPlayerId)) && (
                             <div className="flex flex-col gap-1">
-                              {!isOrganizer && (
+                              {!canManageStructure && (
                                 <span className="text-xs text-text-secondary">
                                   Scontri: {headToHeadCount}/{effectiveConfig.headToHeadLimit}
                                   {remainingHeadToHead > 0 ? ` · Restano: ${remainingHeadToHead}` : ''}
                                 </span>
                               )}
-                              {(isOrganizer || remainingHeadToHead > 0) ? (
+                              {(canManageStructure || remainingHeadToHead > 0) ? (
                                 <button
                                   onClick={() => openChallengeModal(entry.player.id, entry.player.name)}
                                   className="px-3 py-1 rounded bg-accent hover:bg-accent/80 text-white text-xs font-semibold"
@@ -2123,7 +2303,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
         <div className="bg-secondary rounded-xl shadow-lg p-4 sm:p-6">
           <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
             <h3 className="text-xl font-bold text-accent">Partecipanti ranking ({confirmedPlayers.length})</h3>
-            {isOrganizer && onOpenPlayersAdmin && (
+            {canManageStructure && onOpenPlayersAdmin && (
               <button
                 onClick={onOpenPlayersAdmin}
                 className="px-3 py-2 rounded bg-tertiary text-text-primary text-xs font-semibold"
@@ -2151,7 +2331,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                       {player.name}
                     </button>
                     <div className="text-xs text-text-secondary mt-1">
-                      {isOrganizer ? (
+                      {canViewAdmin ? (
                         <>Inizio: {rankingEntry?.startingPoints ?? player.summerRankingStartPoints ?? 0} pt · Tel: {player.phone || '—'}</>
                       ) : (
                         <>Inizio: {rankingEntry?.startingPoints ?? player.summerRankingStartPoints ?? 0} pt · Attuale: {rankingEntry?.points ?? rankingEntry?.startingPoints ?? player.summerRankingStartPoints ?? 0} pt</>
@@ -2159,7 +2339,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                     </div>
                   </div>
                   <div className="shrink-0">
-                    {isOrganizer ? (
+                    {canManageStructure ? (
                       <button
                         onClick={() => handleRemoveParticipant(player.id)}
                         className="px-3 py-1.5 rounded bg-red-600 text-white text-xs font-semibold"
@@ -2189,7 +2369,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 <tr className="text-left border-b border-tertiary text-text-secondary">
                   <th className="py-3 pr-3">Giocatore</th>
                   <th className="py-3 pr-3">Punti iniziali</th>
-                  {isOrganizer ? (
+                  {canManageStructure ? (
                     <>
                       <th className="py-3 pr-3">Telefono</th>
                       <th className="py-3 pr-3">Azioni</th>
@@ -2220,7 +2400,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                         </button>
                       </td>
                       <td className="py-3 pr-3 text-text-secondary">{rankingEntry?.startingPoints ?? player.summerRankingStartPoints ?? 0}</td>
-                      {isOrganizer ? (
+                      {canManageStructure ? (
                         <>
                           <td className="py-3 pr-3 text-text-secondary">{player.phone || '—'}</td>
                           <td className="py-3 pr-3">
@@ -2274,7 +2454,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 >
                   Partite prenotate
                 </button>
-                {!isOrganizer && (
+                {!canViewAdmin && (
                   <button
                     onClick={() => setMatchesSubTab('completed_mine')}
                     className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${matchesSubTab === 'completed_mine' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90 text-text-primary'}`}
@@ -2286,7 +2466,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                   onClick={() => setMatchesSubTab('all_completed')}
                   className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${matchesSubTab === 'all_completed' ? 'bg-accent text-white' : 'bg-tertiary hover:bg-tertiary/90 text-text-primary'}`}
                 >
-                  {isOrganizer ? 'Tutte le partite completate' : 'Tutte le partite'}
+                  {canViewAdmin ? 'Tutte le partite completate' : 'Tutte le partite'}
                 </button>
               </div>
               <div className="flex flex-wrap items-center gap-2">
@@ -2301,8 +2481,8 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 </a>
                 <button
                   onClick={() => openChallengeModal()}
-                  disabled={!isOrganizer && (!canBookAsParticipant || eligibleOpponents.length === 0)}
-                  title={isOrganizer ? 'Crea una nuova partita' : (!canBookAsParticipant ? 'Accedi come giocatore per creare una partita' : (eligibleOpponents.length === 0 ? 'Nessun avversario disponibile per una nuova prenotazione' : 'Crea una nuova partita'))}
+                  disabled={!canManageStructure && (!canBookAsParticipant || eligibleOpponents.length === 0)}
+                  title={canManageStructure ? 'Crea una nuova partita' : (!canBookAsParticipant ? 'Accedi come giocatore per creare una partita' : (eligibleOpponents.length === 0 ? 'Nessun avversario disponibile per una nuova prenotazione' : 'Crea una nuova partita'))}
                   className="px-4 py-2 rounded bg-accent hover:bg-accent/80 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Crea partita
@@ -2310,6 +2490,116 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
               </div>
             </div>
 
+            {disputedMatches.length > 0 && (
+              <div className="mb-6 rounded-lg border border-red-500/40 bg-red-500/10 p-4">
+                <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-3">Risultati contestati</h4>
+                <div className="space-y-3">
+                  {disputedMatches.map(match => (
+                    <div key={match.id} className="rounded-lg bg-primary/60 p-3 text-sm flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <div className="font-semibold text-text-primary">
+                          {playerMap.get(match.player1Id)?.name ?? 'N/A'} {formatMatchScore(match)} {playerMap.get(match.player2Id)?.name ?? 'N/A'}
+                        </div>
+                        <div className="text-xs text-text-secondary">
+                          Inserito da {playerMap.get(match.resultConfirmation?.submittedBy ?? '')?.name ?? 'N/A'}
+                          {match.resultConfirmation?.disputeReason && ` • "${match.resultConfirmation.disputeReason}"`}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <button onClick={() => handleRespondResult(match, 'confirm')} className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white text-xs font-semibold">
+                          Conferma risultato
+                        </button>
+                        <button onClick={() => openEditResult(match)} className="px-3 py-1 rounded bg-tertiary hover:bg-tertiary/90 text-text-primary text-xs font-semibold">
+                          Correggi
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {pendingProposalMatches.length > 0 && (
+              <div className="mb-6 rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-4">
+                <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-3">Proposte in attesa</h4>
+                {proposalError && <p className="text-red-400 text-sm mb-2">{proposalError}</p>}
+                <div className="space-y-3">
+                  {pendingProposalMatches.map(match => {
+                    const proposal = match.proposal!;
+                    const isActive = !!getActiveProposal(match);
+                    const isProposer = loggedInPlayerId === proposal.proposedBy;
+                    const canAnswer = isActive && !isProposer && (canManageStructure || loggedInPlayerId === getProposalRecipient(match, proposal));
+                    const isCountering = counterProposal?.matchId === match.id;
+                    return (
+                      <div key={match.id} className="rounded-lg bg-primary/60 p-3 text-sm">
+                        <div className="font-semibold text-text-primary">
+                          {playerMap.get(match.player1Id)?.name ?? 'N/A'} vs {playerMap.get(match.player2Id)?.name ?? 'N/A'}
+                        </div>
+                        <div className="text-text-secondary">
+                          {formatDateTime(proposal.scheduledTime)}
+                          {proposal.location && ` • ${proposal.location}`}
+                          {proposal.field && proposal.field !== proposal.location && ` • ${proposal.field}`}
+                        </div>
+                        <div className="text-xs text-text-secondary">
+                          Proposta da {playerMap.get(proposal.proposedBy)?.name ?? 'N/A'} • {isActive ? formatProposalExpiry(proposal) : 'scaduta'}
+                        </div>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {canAnswer && (
+                            <>
+                              <button onClick={() => handleAcceptChallenge(match)} className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white text-xs font-semibold">
+                                Accetta
+                              </button>
+                              <button onClick={() => handleDropChallenge(match)} className="px-3 py-1 rounded bg-red-600 text-white text-xs font-semibold">
+                                Rifiuta
+                              </button>
+                              <button
+                                onClick={() => setCounterProposal(isCountering ? null : { matchId: match.id, scheduledDate: '', scheduledHour: '' })}
+                                className="px-3 py-1 rounded bg-yellow-500 hover:bg-yellow-600 text-white text-xs font-semibold"
+                              >
+                                Controproposta
+                              </button>
+                            </>
+                          )}
+                          {isActive && isProposer && (
+                            <>
+                              <span className="text-xs italic text-text-secondary self-center">In attesa di conferma</span>
+                              <button onClick={() => handleDropChallenge(match)} className="px-3 py-1 rounded bg-primary border border-tertiary text-xs font-semibold">
+                                Ritira
+                              </button>
+                            </>
+                          )}
+                          {!isActive && (
+                            <button onClick={() => handleDropChallenge(match)} className="px-3 py-1 rounded bg-primary border border-tertiary text-xs font-semibold">
+                              Rimuovi
+                            </button>
+                          )}
+                        </div>
+                        {isCountering && counterProposal && (
+                          <div className="flex flex-wrap items-end gap-2 mt-3">
+                            <input
+                              type="date"
+                              value={counterProposal.scheduledDate}
+                              onChange={e => setCounterProposal(prev => prev ? { ...prev, scheduledDate: e.target.value } : prev)}
+                              className="bg-primary border border-tertiary rounded-lg px-3 py-1 text-text-primary"
+                            />
+                            <input
+                              type="time"
+                              value={counterProposal.scheduledHour}
+                              onChange={e => setCounterProposal(prev => prev ? { ...prev, scheduledHour: e.target.value } : prev)}
+                              className="bg-primary border border-tertiary rounded-lg px-3 py-1 text-text-primary"
+                            />
+                            <button onClick={() => handleCounterChallenge(match)} className="px-3 py-1 rounded bg-accent hover:bg-accent/80 text-white text-xs font-semibold">
+                              Invia controproposta
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* ── Shared match data computation ── */}
             {(() => {
               const isMyMatch = (match: Match) =>
@@ -2319,7 +2609,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 .slice()
                 .filter(match => {
                   if (matchesSubTab === 'booked') {
-                    return match.status === 'scheduled' && (isOrganizer || isMyMatch(match));
+                    return match.status === 'scheduled' && (canViewAdmin || isMyMatch(match));
                   }
                   if (matchesSubTab === 'completed_mine') {
                     return match.status === 'completed' && isMyMatch(match);
@@ -2349,8 +2639,36 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
               const renderMatchActions = (match: Match) => {
                 const matchBreakdown = matchBreakdowns.get(match.id);
                 const player2 = playerMap.get(match.player2Id);
+                const resultStatus = hasMatchResult(match) ? getResultConfirmationStatus(match, effectiveConfig.resultAutoConfirmHours) : null;
+                const canAnswerResult = canManageResults
+                  ? resultStatus === 'submitted' || resultStatus === 'disputed'
+                  : resultStatus === 'submitted' && loggedInPlayerId === getResultConfirmer(match);
                 return (
                   <div className="flex flex-wrap gap-2">
+                    {resultStatus && resultStatus !== 'confirmed' && (
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-semibold ${resultStatus === 'disputed' ? 'bg-red-500/20 text-red-300' : 'bg-blue-400/20 text-blue-200'}`}
+                        title={resultStatus === 'submitted' ? formatAutoConfirm(match, effectiveConfig.resultAutoConfirmHours) : match.resultConfirmation?.disputeReason}
+                      >
+                        {RESULT_CONFIRMATION_LABELS[resultStatus]}
+                      </span>
+                    )}
+                    {canAnswerResult && (
+                      <button
+                        onClick={() => handleRespondResult(match, 'confirm')}
+                        className="px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white text-xs font-semibold"
+                      >
+                        Conferma risultato
+                      </button>
+                    )}
+                    {canAnswerResult && !canManageResults && (
+                      <button
+                        onClick={() => handleRespondResult(match, 'dispute')}
+                        className="px-3 py-1 rounded bg-red-600 text-white text-xs font-semibold"
+                      >
+                        Contesta
+                      </button>
+                    )}
                     {matchBreakdown && (
                       <button
                         onClick={() => setSelectedMatchId(match.id)}
@@ -2454,7 +2772,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                           )}
                           <div className="flex items-center gap-3">
                             <span className="font-semibold">
-                              {match.score1 !== null && match.score2 !== null ? `${match.score1} - ${match.score2}` : '—'}
+                              {formatMatchScore(match)}
                             </span>
                             {matchBreakdown && (
                               <div className="flex flex-wrap gap-2 text-xs">
@@ -2532,7 +2850,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                               </td>
                               <td className="py-4 pr-3">
                                 <span className="font-semibold">
-                                  {match.score1 !== null && match.score2 !== null ? `${match.score1} - ${match.score2}` : '—'}
+                                  {formatMatchScore(match)}
                                 </span>
                                 {matchBreakdown && (
                                   <div className="mt-1 space-y-0.5 text-xs">
@@ -2606,7 +2924,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
             </div>
           </div>
 
-          {isOrganizer && (
+          {canManageStructure && (
             <div className="bg-secondary rounded-xl shadow-lg p-6 space-y-5">
               <div>
                 <h3 className="text-xl font-bold text-accent">Configurazione Master finale</h3>
@@ -2764,11 +3082,11 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                               <div className="mt-2 space-y-2 text-sm">
                                 <div className="flex items-center justify-between gap-3">
                                   <span>{playerMap.get(match.player1Id ?? '')?.name ?? 'Da definire'}</span>
-                                  <span className="font-bold">{match.score1 ?? '—'}</span>
+                                  <span className="font-bold">{formatSideScore(match, 1) ?? '—'}</span>
                                 </div>
                                 <div className="flex items-center justify-between gap-3">
                                   <span>{playerMap.get(match.player2Id ?? '')?.name ?? 'Da definire'}</span>
-                                  <span className="font-bold">{match.score2 ?? '—'}</span>
+                                  <span className="font-bold">{formatSideScore(match, 2) ?? '—'}</span>
                                 </div>
                               </div>
                               <div className="mt-3">
@@ -2813,11 +3131,11 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                             <div className="mt-2 space-y-2 text-sm">
                               <div className="flex items-center justify-between gap-3">
                                 <span>{playerMap.get(match.player1Id ?? '')?.name ?? 'Da definire'}</span>
-                                <span className="font-bold">{match.score1 ?? '—'}</span>
+                                <span className="font-bold">{formatSideScore(match, 1) ?? '—'}</span>
                               </div>
                               <div className="flex items-center justify-between gap-3">
                                 <span>{playerMap.get(match.player2Id ?? '')?.name ?? 'Da definire'}</span>
-                                <span className="font-bold">{match.score2 ?? '—'}</span>
+                                <span className="font-bold">{formatSideScore(match, 2) ?? '—'}</span>
                               </div>
                             </div>
                             <div className="mt-3">
@@ -2907,21 +3225,20 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
 
                         <div>
                           {editingMasterMatchId === match.id ? (
-                            <div className="flex items-center gap-2">
-                              <input type="number" min="0" value={masterScoreForm.score1}
-                                onChange={event => setMasterScoreForm(previous => ({ ...previous, score1: event.target.value }))}
-                                className="w-16 bg-primary border border-tertiary rounded px-2 py-1 text-sm"
-                              />
-                              <span>-</span>
-                              <input type="number" min="0" value={masterScoreForm.score2}
-                                onChange={event => setMasterScoreForm(previous => ({ ...previous, score2: event.target.value }))}
-                                className="w-16 bg-primary border border-tertiary rounded px-2 py-1 text-sm"
+                            <div className="space-y-2">
+                              <ScoreEditor
+                                draft={masterScoreForm.draft}
+                                onChange={draft => setMasterScoreForm(previous => ({ ...previous, draft, error: null }))}
+                                player1Label={playerMap.get(match.player1Id ?? '')?.name ?? 'Giocatore 1'}
+                                player2Label={playerMap.get(match.player2Id ?? '')?.name ?? 'Giocatore 2'}
+                                allowedResultTypes={KNOCKOUT_RESULT_TYPES}
                               />
+                              {masterScoreForm.error && <div className="text-xs text-red-400">{masterScoreForm.error}</div>}
                               <button onClick={() => handleSaveMasterResult(match)} className="px-3 py-1 rounded bg-highlight text-white text-xs font-semibold">Salva</button>
                             </div>
                           ) : (
                             <div className="text-sm font-semibold">
-                              Risultato: {match.score1 !== null && match.score2 !== null ? `${match.score1} - ${match.score2}` : '—'}
+                              Risultato: {formatMatchScore(match)}
                             </div>
                           )}
                         </div>
@@ -3022,22 +3339,15 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                             </td>
                             <td className="py-4 pr-3">
                               {editingMasterMatchId === match.id ? (
-                                <div className="flex items-center gap-2">
-                                  <input
-                                    type="number"
-                                    min="0"
-                                    value={masterScoreForm.score1}
-                                    onChange={event => setMasterScoreForm(previous => ({ ...previous, score1: event.target.value }))}
-                                    className="w-16 bg-primary border border-tertiary rounded px-2 py-1"
-                                  />
-                                  <span>-</span>
-                                  <input
-                                    type="number"
-                                    min="0"
-                                    value={masterScoreForm.score2}
-                                    onChange={event => setMasterScoreForm(previous => ({ ...previous, score2: event.target.value }))}
-                                    className="w-16 bg-primary border border-tertiary rounded px-2 py-1"
+                                <div className="space-y-2 min-w-[16rem]">
+                                  <ScoreEditor
+                                    draft={masterScoreForm.draft}
+                                    onChange={draft => setMasterScoreForm(previous => ({ ...previous, draft, error: null }))}
+                                    player1Label={playerMap.get(match.player1Id ?? '')?.name ?? 'Giocatore 1'}
+                                    player2Label={playerMap.get(match.player2Id ?? '')?.name ?? 'Giocatore 2'}
+                                    allowedResultTypes={KNOCKOUT_RESULT_TYPES}
                                   />
+                                  {masterScoreForm.error && <div className="text-xs text-red-400">{masterScoreForm.error}</div>}
                                   <button
                                     onClick={() => handleSaveMasterResult(match)}
                                     className="px-3 py-1 rounded bg-highlight text-white text-xs font-semibold"
@@ -3047,7 +3357,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                                 </div>
                               ) : (
                                 <span className="font-semibold">
-                                  {match.score1 !== null && match.score2 !== null ? `${match.score1} - ${match.score2}` : '—'}
+                                  {formatMatchScore(match)}
                                 </span>
                               )}
                             </td>
@@ -3394,7 +3704,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
           <div className="flex items-center justify-between gap-4 mb-4">
             <h3 className="text-xl font-bold text-accent">Regolamento ufficiale</h3>
           </div>
-          {isOrganizer ? (
+          {canManageStructure ? (
             <div className="space-y-4">
               <p className="text-sm text-text-secondary">
                 Inserisci o modifica manualmente il regolamento del ranking.
@@ -3444,7 +3754,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
         </div>
       )}
 
-      {activeTab === 'settings' && isOrganizer && (
+      {activeTab === 'settings' && canManageStructure && (
         <div className="bg-secondary rounded-xl shadow-lg p-6 space-y-6">
           <div>
             <h3 className="text-xl font-bold text-accent">Impostazioni ranking</h3>
@@ -3592,6 +3902,29 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
             </div>
           </div>
 
+          {/* Risultati speciali */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-bold text-accent uppercase tracking-wide">Risultati speciali</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Walkover: punti a chi si presenta</span>
+                <input type="number" value={rulesConfigForm.walkoverWinPoints} onChange={e => updateRulesConfig('walkoverWinPoints', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Walkover: punti a chi non si presenta</span>
+                <input type="number" value={rulesConfigForm.walkoverLossPoints} onChange={e => updateRulesConfig('walkoverLossPoints', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Ritiro: % dei punti vittoria al vincitore</span>
+                <input type="number" min="0" max="100" value={rulesConfigForm.retirementWinPercentage} onChange={e => updateRulesConfig('retirementWinPercentage', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Doppia assenza: punti a entrambi</span>
+                <input type="number" value={rulesConfigForm.doubleNoShowPoints} onChange={e => updateRulesConfig('doubleNoShowPoints', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
+            </div>
+          </div>
+
           {/* Bonus partecipazione */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -3734,6 +4067,14 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 <span className="text-xs font-semibold text-text-secondary">Max incontri vs stesso avversario</span>
                 <input type="number" min="1" value={rulesConfigForm.headToHeadLimit} onChange={e => updateRulesConfig('headToHeadLimit', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
               </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Scadenza proposte di sfida (ore)</span>
+                <input type="number" min="1" value={rulesConfigForm.proposalExpiryHours} onChange={e => updateRulesConfig('proposalExpiryHours', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-text-secondary">Conferma automatica risultati (ore)</span>
+                <input type="number" min="1" value={rulesConfigForm.resultAutoConfirmHours} onChange={e => updateRulesConfig('resultAutoConfirmHours', e.target.value)} className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary" />
+              </label>
             </div>
           </div>
 
@@ -3767,6 +4108,25 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
         </div>
       )}
 
+      {activeTab === 'settings' && canManageStructure && (
+        <div className="mt-6">
+          <SlotSeriesGenerator
+            slots={rankingData.slots}
+            bookedSlotIds={bookedSlotIds}
+            venues={venues}
+            onSave={async nextSlots => { await onSaveRankingData({ ...rankingData, slots: nextSlots }); }}
+          />
+          <div className="mt-6">
+            <ScheduleConflictsReport events={allEvents} currentEventId={eventId} />
+          </div>
+          {eventId && (
+            <div className="mt-6">
+              <AuditLogPanel eventId={eventId} onRevert={handleRevertAuditEntry} />
+            </div>
+          )}
+        </div>
+      )}
+
       {resultModal && resultModalMatch && (
         <Portal>
           <div
@@ -3783,59 +4143,29 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 <span className="font-semibold text-text-primary">{playerMap.get(resultModalMatch.player2Id)?.name ?? resultModalMatch.player2Id}</span>
               </p>
 
-              <div className="space-y-3">
-                <div className="text-xs font-semibold text-text-secondary">Esito <span className="text-red-400">*</span></div>
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-                  <button
-                    onClick={() => setResultModal(previous => previous ? { ...previous, outcome: 'player1', error: null } : previous)}
-                    className={`px-3 py-2 rounded border text-xs font-semibold ${resultModal.outcome === 'player1' ? 'bg-highlight text-white border-highlight' : 'bg-primary border-tertiary text-text-primary'}`}
-                  >
-                    Vince {playerMap.get(resultModalMatch.player1Id)?.name ?? 'Giocatore 1'}
-                  </button>
-                  <button
-                    onClick={() => setResultModal(previous => previous ? { ...previous, outcome: 'draw', error: null } : previous)}
-                    className={`px-3 py-2 rounded border text-xs font-semibold ${resultModal.outcome === 'draw' ? 'bg-highlight text-white border-highlight' : 'bg-primary border-tertiary text-text-primary'}`}
-                  >
-                    Pareggio
-                  </button>
-                  <button
-                    onClick={() => setResultModal(previous => previous ? { ...previous, outcome: 'player2', error: null } : previous)}
-                    className={`px-3 py-2 rounded border text-xs font-semibold ${resultModal.outcome === 'player2' ? 'bg-highlight text-white border-highlight' : 'bg-primary border-tertiary text-text-primary'}`}
-                  >
-                    Vince {playerMap.get(resultModalMatch.player2Id)?.name ?? 'Giocatore 2'}
-                  </button>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                <label className="flex flex-col gap-1">
-                  <span className="text-xs font-semibold text-text-secondary">
-                    {playerMap.get(resultModalMatch.player1Id)?.name ?? 'Giocatore 1'} <span className="text-red-400">*</span>
-                  </span>
-                  <input
-                    type="number"
-                    min="0"
-                    value={resultModal.score1}
-                    onChange={event => setResultModal(previous => previous ? { ...previous, score1: event.target.value, error: null } : previous)}
-                    className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
-                  />
-                </label>
-                <label className="flex flex-col gap-1">
-                  <span className="text-xs font-semibold text-text-secondary">
-                    {playerMap.get(resultModalMatch.player2Id)?.name ?? 'Giocatore 2'} <span className="text-red-400">*</span>
-                  </span>
-                  <input
-                    type="number"
-                    min="0"
-                    value={resultModal.score2}
-                    onChange={event => setResultModal(previous => previous ? { ...previous, score2: event.target.value, error: null } : previous)}
-                    className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
-                  />
-                </label>
-              </div>
+              <ScoreEditor
+                draft={resultModal.draft}
+                onChange={draft => setResultModal(previous => previous ? { ...previous, draft, error: null } : previous)}
+                player1Label={playerMap.get(resultModalMatch.player1Id)?.name ?? 'Giocatore 1'}
+                player2Label={playerMap.get(resultModalMatch.player2Id)?.name ?? 'Giocatore 2'}
+              />
 
               <div className="text-xs text-text-secondary">
-                Risultato: {(resultModal.score1 || '0')} - {(resultModal.score2 || '0')}
+                {(() => {
+                  const { result } = buildMatchResultFromDraft(resultModal.draft);
+                  if (!result) return 'Esito: —';
+                  if (result.resultType === 'doubleNoShow' || result.resultType === 'annulled') {
+                    return `Esito: ${RESULT_TYPE_LABELS[result.resultType]}`;
+                  }
+                  const winnerSide = getWinnerSide(result);
+                  const summary = getScoreSummary(result);
+                  const outcomeLabel = winnerSide === null
+                    ? 'Pareggio'
+                    : `Vince ${playerMap.get(winnerSide === 1 ? resultModalMatch.player1Id : resultModalMatch.player2Id)?.name ?? `Giocatore ${winnerSide}`}`;
+                  return summary
+                    ? `Esito: ${outcomeLabel} • Set ${summary.sets1}-${summary.sets2} • Game ${summary.games1}-${summary.games2}`
+                    : `Esito: ${outcomeLabel} (${RESULT_TYPE_LABELS[result.resultType]})`;
+                })()}
               </div>
 
               {resultModal.error && (
@@ -3923,7 +4253,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
 
               <div className="space-y-3">
                 {/* Admin-only: pick Giocatore 1 when the admin has no player account */}
-                {isOrganizer && !currentPlayer && (
+                {canManageStructure && !currentPlayer && (
                   <label className="flex flex-col gap-1">
                     <span className="text-xs font-semibold text-text-secondary">Giocatore 1 <span className="text-red-400">*</span></span>
                     <select
@@ -3943,7 +4273,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                   </label>
                 )}
                 <label className="flex flex-col gap-1">
-                  <span className="text-xs font-semibold text-text-secondary">{(isOrganizer && !currentPlayer) ? 'Giocatore 2' : 'Avversario'} <span className="text-red-400">*</span></span>
+                  <span className="text-xs font-semibold text-text-secondary">{(canManageStructure && !currentPlayer) ? 'Giocatore 2' : 'Avversario'} <span className="text-red-400">*</span></span>
                   <select
                     value={challengeModal.opponentId}
                     onChange={e => setChallengeModal(prev => prev ? {
@@ -3953,8 +4283,8 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                     } : prev)}
                     className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
                   >
-                    <option value="">{(isOrganizer && !currentPlayer) ? 'Seleziona giocatore 2' : 'Seleziona avversario'}</option>
-                    {(isOrganizer && !currentPlayer ? confirmedPlayers.filter(p => p.id !== (challengeModal.player1Id ?? '')) : eligibleOpponents).map(player => (
+                    <option value="">{(canManageStructure && !currentPlayer) ? 'Seleziona giocatore 2' : 'Seleziona avversario'}</option>
+                    {(canManageStructure && !currentPlayer ? confirmedPlayers.filter(p => p.id !== (challengeModal.player1Id ?? '')) : eligibleOpponents).map(player => (
                       <option key={player.id} value={player.id}>
                         {player.name}
                       </option>
@@ -3982,17 +4312,51 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                   />
                 </label>
 
-                <label className="flex flex-col gap-1">
-                  <span className="text-xs font-semibold text-text-secondary">Luogo <span className="text-red-400">*</span></span>
-                  <select
-                    value={challengeModal.location}
-                    onChange={e => setChallengeModal(prev => prev ? { ...prev, location: e.target.value } : prev)}
-                    className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
-                  >
-                    <option value="Tennis Salò Canottieri">Tennis Salò Canottieri</option>
-                    <option value="Paitone Arena">Paitone Arena</option>
-                  </select>
-                </label>
+                {venues.length > 0 ? (
+                  <>
+                    <label className="flex flex-col gap-1">
+                      <span className="text-xs font-semibold text-text-secondary">Impianto <span className="text-red-400">*</span></span>
+                      <select
+                        value={challengeModal.venueId}
+                        onChange={e => {
+                          const venue = venues.find(item => item.id === e.target.value);
+                          setChallengeModal(prev => prev ? { ...prev, venueId: venue?.id ?? '', location: venue?.name ?? '', courtId: venue?.courts[0]?.id ?? '' } : prev);
+                        }}
+                        className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
+                      >
+                        {venues.map(venue => (
+                          <option key={venue.id} value={venue.id}>{venue.name}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                      <span className="text-xs font-semibold text-text-secondary">Campo <span className="text-red-400">*</span></span>
+                      <select
+                        value={challengeModal.courtId}
+                        onChange={e => setChallengeModal(prev => prev ? { ...prev, courtId: e.target.value } : prev)}
+                        className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
+                      >
+                        <option value="">Seleziona campo</option>
+                        {(venues.find(venue => venue.id === challengeModal.venueId)?.courts ?? []).map(court => (
+                          <option key={court.id} value={court.id}>{court.name}{court.indoor ? ' (coperto)' : ''}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                ) : (
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold text-text-secondary">Luogo <span className="text-red-400">*</span></span>
+                    <select
+                      value={challengeModal.location}
+                      onChange={e => setChallengeModal(prev => prev ? { ...prev, location: e.target.value } : prev)}
+                      className="bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary"
+                    >
+                      <option value="Tennis Salò Canottieri">Tennis Salò Canottieri</option>
+                      <option value="Paitone Arena">Paitone Arena</option>
+                    </select>
+                  </label>
+                )}
               </div>
 
               {challengeError && (
@@ -4016,7 +4380,7 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                 </button>
                 <button
                   onClick={handleCreateChallenge}
-                  disabled={isSavingChallenge || !challengeModal.opponentId || !challengeModal.scheduledDate || !challengeModal.scheduledHour || !challengeModal.location || (isOrganizer && !currentPlayer && !challengeModal.player1Id)}
+                  disabled={isSavingChallenge || !challengeModal.opponentId || !challengeModal.scheduledDate || !challengeModal.scheduledHour || !challengeModal.location || (canManageStructure && !currentPlayer && !challengeModal.player1Id)}
                   className="px-4 py-2 rounded bg-accent hover:bg-accent/80 text-white font-semibold text-sm disabled:opacity-60 disabled:cursor-not-allowed"
                 >
                   {isSavingChallenge ? 'Salvataggio...' : 'Conferma prenotazione'}
@@ -4080,8 +4444,8 @@ const SummerRankingView: React.FC<SummerRankingViewProps> = ({
                     <h3 className="text-xl font-bold text-accent">Dettaglio punti partita</h3>
                     <div className="text-sm text-text-secondary mt-1">
                       {p1?.name ?? match.player1Id} vs {p2?.name ?? match.player2Id}
-                      {match.score1 !== null && match.score2 !== null && (
-                        <span className="ml-2 font-semibold text-text-primary">{match.score1} - {match.score2}</span>
+                      {hasMatchResult(match) && (
+                        <span className="ml-2 font-semibold text-text-primary">{formatMatchScore(match)}</span>
                       )}
                       {match.completedAt && (
                         <span className="ml-2 text-xs">• {formatDateTime(match.completedAt)}</span>
@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
-import { updateDoc, doc } from "firebase/firestore";
-import { db } from "../firebase";
+import { isWriteConflict, repository } from "../services/dataRepository";
 import { type Event, type Tournament, type TimeSlot, type Match, type Group } from '../types';
+import SlotSeriesGenerator from './SlotSeriesGenerator';
+import { getBookingConflictWarning } from '../utils/playerConflicts';
+import { type EventPermissions } from '../services/permissionService';
 
 interface TimeSlotsProps {
   event: Event;
   tournament?: Tournament;
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
   selectedGroupId?: string;
   globalTimeSlots: TimeSlot[];
+  // tutti gli eventi, per avvisare dei giocatori già impegnati altrove
+  allEvents?: Event[];
   onSelectTournament?: (
     tournament: Tournament,
     initialTab?: 'standings' | 'matches' | 'participants' | 'playoffs' | 'consolation' | 'groups' | 'settings' | 'rules' | 'players',
@@ -119,10 +123,11 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
   event,
   tournament,
   setEvents,
-  isOrganizer,
+  permissions,
   loggedInPlayerId,
   selectedGroupId,
   globalTimeSlots = [],
+  allEvents = [event],
   onSelectTournament,
 }) => {
   const [slotInput, setSlotInput] = useState<{ start: string; location: string; field: string; }>({ start: "", location: "", field: "" });
@@ -164,12 +169,25 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
             : ev
         )
       );
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         globalTimeSlots: updatedGlobalSlots,
       });
       // NON svuotare gli input dopo aggiunta.
     };
 
+    const handleSaveGeneratedSlots = async (updatedGlobalSlots: TimeSlot[]) => {
+      setEvents(prevEvents =>
+        prevEvents.map(ev =>
+          ev.id === event.id
+            ? { ...ev, globalTimeSlots: updatedGlobalSlots }
+            : ev
+        )
+      );
+      await repository.events.update(event.id, {
+        globalTimeSlots: updatedGlobalSlots,
+      });
+    };
+
     const handleDeleteSlot = async (slotId: string) => {
       const updatedGlobalSlots = (event.globalTimeSlots || []).filter(s => s.id !== slotId);
 
@@ -180,7 +198,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
             : ev
         )
       );
-      await updateDoc(doc(db, "events", event.id), {
+      await repository.events.update(event.id, {
         globalTimeSlots: updatedGlobalSlots,
       });
     };
@@ -227,7 +245,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
       setEvents(prev => prev.map(ev => ev.id === event.id ? { ...ev, tournaments: updatedTournaments } : ev));
 
       try {
-        await updateDoc(doc(db, "events", event.id), {
+        await repository.events.update(event.id, {
           tournaments: updatedTournaments
         });
       } catch (err) {
@@ -247,7 +265,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
         <h3 className="text-xl font-bold mb-6 text-accent">Gestione slot orari globali</h3>
 
         {/* BOX AGGIUNGI NUOVO SLOT */}
-        {isOrganizer && (
+        {permissions.canManageStructure && (
           <div className="bg-[#212737] rounded-xl p-5 mb-6 shadow-lg w-full max-w-md flex flex-col gap-3">
             <h4 className="font-bold text-[#3AF2C5] text-lg mb-1">Aggiungi nuovo slot</h4>
             <input
@@ -281,6 +299,17 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
           </div>
         )}
 
+        {/* GENERATORE SLOT RICORRENTI */}
+        {permissions.canManageStructure && (
+          <div className="mb-6 w-full max-w-3xl">
+            <SlotSeriesGenerator
+              slots={event.globalTimeSlots || []}
+              bookedSlotIds={new Set(Object.keys(bookedSlotsData))}
+              onSave={handleSaveGeneratedSlots}
+            />
+          </div>
+        )}
+
         {/* BOX SLOT DISPONIBILI */}
         <div className="bg-[#212737] rounded-xl shadow-lg p-5 mb-6 w-full max-w-xl">
           <h4 className="font-bold text-[#3AF2C5] text-lg mb-3">Slot disponibili</h4>
@@ -298,7 +327,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
                     <span className="text-red-500 font-bold">{slot.field}</span>
                   </div>
                   <div>
-                    {isOrganizer && (
+                    {permissions.canManageStructure && (
                       <button
                         className="btn-tertiary px-3 py-1 rounded font-semibold"
                         onClick={() => handleDeleteSlot(slot.id)}
@@ -377,7 +406,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
                               Vai al torneo
                             </button>
                           )}
-                          {isOrganizer && (
+                          {permissions.canManageStructure && (
                             <button
                               className="px-3 py-1 rounded bg-red-600 text-white"
                               onClick={() => handleCancelBookedMatch(match.id, tournament.id)}
@@ -441,7 +470,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
           : ev
       )
     );
-    await updateDoc(doc(db, "events", event.id), {
+    await repository.events.update(event.id, {
       globalTimeSlots: updatedGlobalSlots,
     });
     setSlotInput({ start: "", location: "", field: "" });
@@ -457,7 +486,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
           : ev
       )
     );
-    await updateDoc(doc(db, "events", event.id), {
+    await repository.events.update(event.id, {
       globalTimeSlots: updatedGlobalSlots,
     });
   };
@@ -474,6 +503,8 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
       setModalBookError("Questo slot è già prenotato in qualche torneo/girone.");
       return;
     }
+    const conflictWarning = getBookingConflictWarning(allEvents, event, [match.player1Id, match.player2Id], slot.start, match.id);
+    if (conflictWarning && !window.confirm(`${conflictWarning}\n\nPrenotare comunque?`)) return;
     const updatedMatch: Match = {
       ...match,
       status: "scheduled",
@@ -488,26 +519,24 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
         ? { ...g, matches: g.matches.map(m => m.id === match.id ? updatedMatch : m) }
         : g
     );
+    const updatedTournaments = event.tournaments.map(t =>
+      t.id === tournament.id ? { ...t, groups: updatedGroups } : t
+    );
 
+    // scrittura controllata: se un altro giocatore ha appena preso lo slot non si salva nulla
+    try {
+      await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      setModalBookError(err.message);
+      return;
+    }
     setEvents(prevEvents =>
       prevEvents.map(ev =>
-        ev.id === event.id
-          ? {
-            ...ev,
-            tournaments: ev.tournaments.map(t =>
-              t.id === tournament.id ? { ...t, groups: updatedGroups } : t
-            ),
-          }
-          : ev
+        ev.id === event.id ? { ...ev, tournaments: updatedTournaments } : ev
       )
     );
 
-    await updateDoc(doc(db, "events", event.id), {
-      tournaments: event.tournaments.map(t =>
-        t.id === tournament.id ? { ...t, groups: updatedGroups } : t
-      )
-    });
-
     setModalSlotId(null);
     setModalMatchId("");
     setModalBookError("");
@@ -547,7 +576,7 @@ const TimeSlots: React.FC<TimeSlotsProps> = ({
       )
     );
 
-    await updateDoc(doc(db, "events", event.id), {
+    await repository.events.update(event.id, {
       tournaments: event.tournaments.map(t =>
         t.id === tournament.id ? { ...t, groups: updatedGroups } : t
       )
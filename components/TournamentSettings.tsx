@@ -2,10 +2,14 @@
    + aggiunta opzione "Andata e Ritorno" (groupRoundRobin) per ogni girone. Ho mantenuto TUTTO il file originale
    e aggiunto solo le parti necessarie per il nuovo flag. */
 import React, { useState, useEffect } from 'react';
-import { type Event, type Tournament, type TournamentSettings, type PointRule, type TieBreaker, PlayoffSetting, ConsolationSetting } from '../types';
+import { type Event, type Tournament, type TournamentSettings, type PointRule, type TieBreaker, type SpecialResultPoints, type CrossGroupQualification, type CrossGroupNormalization, type BracketFormat, PlayoffSetting, ConsolationSetting } from '../types';
 import { TrashIcon, PlusIcon, ArrowUpIcon, ArrowDownIcon } from './Icons';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import { repository } from "../services/dataRepository";
+import { createDrawOfLotsSeed, DEFAULT_SPECIAL_RESULT_POINTS, getSpecialResultPoints, TIE_BREAKER_LABELS } from '../utils/standings';
+import { CROSS_GROUP_NORMALIZATION_LABELS } from '../utils/qualification';
+import { BRACKET_FORMAT_LABELS } from '../utils/bracket';
+import { DEFAULT_PROPOSAL_EXPIRY_HOURS } from '../utils/proposals';
+import { DEFAULT_RESULT_AUTO_CONFIRM_HOURS } from '../utils/resultConfirmation';
 
 interface TournamentSettingsProps {
     event: Event;
@@ -13,13 +17,6 @@ interface TournamentSettingsProps {
     setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
 }
 
-const tieBreakerLabels: Record<TieBreaker, string> = {
-    goalDifference: 'Differenza Game',
-    goalsFor: 'Game Fatti',
-    wins: 'Numero Vittorie',
-    headToHead: 'Scontro Diretto',
-};
-
 // default settings values (keeps consistent criteria for each new/edited tournament)
 const DEFAULT_SETTINGS: TournamentSettings = {
     pointsPerDraw: 1,
@@ -27,7 +24,8 @@ const DEFAULT_SETTINGS: TournamentSettings = {
     tieBreakers: ['wins', 'goalDifference', 'headToHead', 'goalsFor'],
     playoffSettings: [],
     consolationSettings: [],
-    hasBronzeFinal: false
+    hasBronzeFinal: false,
+    specialResultPoints: DEFAULT_SPECIAL_RESULT_POINTS
 } as any;
 
 const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tournament, setEvents }) => {
@@ -36,18 +34,28 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
         ...DEFAULT_SETTINGS,
         ...(tournament.settings || {}),
         // ensure groupRoundRobin exists (map groupId -> boolean)
-        groupRoundRobin: (tournament.settings && (tournament.settings as any).groupRoundRobin) ? (tournament.settings as any).groupRoundRobin : {}
-    } as any);
+        groupRoundRobin: tournament.settings?.groupRoundRobin ?? {}
+    });
     const [saved, setSaved] = useState(false);
 
     useEffect(() => {
         setSettings({
             ...DEFAULT_SETTINGS,
             ...(tournament.settings || {}),
-            groupRoundRobin: (tournament.settings && (tournament.settings as any).groupRoundRobin) ? (tournament.settings as any).groupRoundRobin : {}
-        } as any);
+            groupRoundRobin: tournament.settings?.groupRoundRobin ?? {}
+        });
     }, [tournament]);
 
+    const specialPoints = getSpecialResultPoints(settings);
+
+    const handleSpecialPointsChange = (field: keyof SpecialResultPoints, value: string) => {
+        const numericValue = parseInt(value, 10) || 0;
+        setSettings(prev => ({
+            ...prev,
+            specialResultPoints: { ...getSpecialResultPoints(prev), [field]: numericValue }
+        }));
+    };
+
     const handleRuleChange = (ruleId: string, field: keyof PointRule, value: string) => {
         const numericValue = parseInt(value, 10) || 0;
         setSettings(prev => ({
@@ -91,6 +99,81 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
         setSettings(prev => ({...prev, tieBreakers: newTieBreakers}));
     };
 
+    const handleAddTieBreaker = (tieBreaker: TieBreaker) => {
+        setSettings(prev => ({
+            ...prev,
+            tieBreakers: [...(prev.tieBreakers || []), tieBreaker],
+            // il seme del sorteggio viene estratto una volta sola e poi salvato con le impostazioni
+            ...(tieBreaker === 'drawOfLots' && !prev.drawOfLotsSeed ? { drawOfLotsSeed: createDrawOfLotsSeed() } : {})
+        }));
+    };
+
+    const handleRemoveTieBreaker = (tieBreaker: TieBreaker) => {
+        setSettings(prev => ({...prev, tieBreakers: (prev.tieBreakers || []).filter(tb => tb !== tieBreaker)}));
+    };
+
+    const handleRedrawLots = () => {
+        if (!window.confirm('Ripetere il sorteggio? L\'ordine dei giocatori ancora in parità potrebbe cambiare.')) return;
+        setSettings(prev => ({...prev, drawOfLotsSeed: createDrawOfLotsSeed()}));
+    };
+
+    const handleCrossGroupChange = (key: 'playoffCrossGroup' | 'consolationCrossGroup', patch: Partial<CrossGroupQualification>) => {
+        setSettings(prev => {
+            const current = prev[key] ?? { rank: 0, count: 1, normalization: 'pointsPerMatch' as const };
+            const next = { ...current, ...patch };
+            // rank 0 = ripescaggio disattivato
+            return { ...prev, [key]: next.rank > 0 ? next : null };
+        });
+    };
+
+    const maxGroupSize = Math.max(0, ...(Array.isArray(tournament.groups) ? tournament.groups : []).map(g => (Array.isArray(g.playerIds) ? g.playerIds.length : 0)));
+
+    const renderCrossGroupEditor = (key: 'playoffCrossGroup' | 'consolationCrossGroup') => {
+        const rule = settings[key];
+        return (
+            <div className="space-y-2 pt-3 border-t border-tertiary/50">
+                <p className="text-sm text-text-secondary">Ripescaggio tra gironi (es. le migliori terze).</p>
+                <div className="flex items-center justify-between">
+                    <label htmlFor={`${key}-rank`} className="font-medium">Posizione</label>
+                    <select
+                        id={`${key}-rank`}
+                        value={rule?.rank ?? 0}
+                        onChange={e => handleCrossGroupChange(key, { rank: parseInt(e.target.value, 10) || 0 })}
+                        className="w-24 bg-tertiary border border-tertiary/50 rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                    >
+                        {[...Array(maxGroupSize + 1).keys()].map(i => <option key={i} value={i}>{i === 0 ? 'Nessuno' : `${i}°`}</option>)}
+                    </select>
+                </div>
+                {rule && (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <label htmlFor={`${key}-count`} className="font-medium">Quanti ripescare</label>
+                            <input
+                                id={`${key}-count`}
+                                type="number"
+                                min="1"
+                                value={rule.count}
+                                onChange={e => handleCrossGroupChange(key, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                className={inputClasses}
+                            />
+                        </div>
+                        <select
+                            value={rule.normalization}
+                            onChange={e => handleCrossGroupChange(key, { normalization: e.target.value as CrossGroupNormalization })}
+                            className="w-full bg-tertiary border border-tertiary/50 rounded-lg p-2 text-sm text-text-primary focus:ring-2 focus:ring-accent"
+                        >
+                            {(Object.keys(CROSS_GROUP_NORMALIZATION_LABELS) as CrossGroupNormalization[]).map(n => (
+                                <option key={n} value={n}>{CROSS_GROUP_NORMALIZATION_LABELS[n]}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    const availableTieBreakers = (Object.keys(TIE_BREAKER_LABELS) as TieBreaker[]).filter(tb => !(settings.tieBreakers || []).includes(tb));
+
     // safe access to groups and playerIds
     const handlePlayoffSettingChange = (groupId: string, value: string) => {
         const num = parseInt(value, 10) || 0;
@@ -150,7 +233,7 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
                 )
             } : ev
         ));
-        await updateDoc(doc(db, "events", event.id), {
+        await repository.events.update(event.id, {
             tournaments: event.tournaments.map(t =>
                 t.id === tournament.id ? { ...t, settings } : t
             )
@@ -209,19 +292,97 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
                     />
                 </div>
 
+                {/* Special Results */}
+                <div>
+                    <h4 className="text-lg font-semibold mb-3 text-text-primary">Risultati Speciali</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 bg-primary/50 p-4 rounded-lg max-w-2xl">
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Walkover: punti al vincitore</span>
+                            <input
+                                type="number"
+                                value={specialPoints.walkoverWinnerPoints}
+                                onChange={e => handleSpecialPointsChange('walkoverWinnerPoints', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Walkover: punti al perdente</span>
+                            <input
+                                type="number"
+                                value={specialPoints.walkoverLoserPoints}
+                                onChange={e => handleSpecialPointsChange('walkoverLoserPoints', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Walkover: game assegnati al vincitore</span>
+                            <input
+                                type="number"
+                                value={specialPoints.walkoverGamesAwarded}
+                                onChange={e => handleSpecialPointsChange('walkoverGamesAwarded', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Ritiro: punti al vincitore</span>
+                            <input
+                                type="number"
+                                value={specialPoints.retirementWinnerPoints}
+                                onChange={e => handleSpecialPointsChange('retirementWinnerPoints', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Ritiro: punti a chi si ritira</span>
+                            <input
+                                type="number"
+                                value={specialPoints.retirementLoserPoints}
+                                onChange={e => handleSpecialPointsChange('retirementLoserPoints', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-sm">
+                            <span className="text-text-secondary">Doppia assenza: punti a entrambi</span>
+                            <input
+                                type="number"
+                                value={specialPoints.doubleNoShowPoints}
+                                onChange={e => handleSpecialPointsChange('doubleNoShowPoints', e.target.value)}
+                                className="bg-primary border border-tertiary rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            />
+                        </label>
+                    </div>
+                </div>
+
                 {/* Tie Breakers */}
                 <div>
                      <h4 className="text-lg font-semibold mb-3 text-text-primary">Criteri Ordine Classifica (in caso di parità)</h4>
                      <div className="space-y-2 bg-primary/50 p-4 rounded-lg max-w-sm">
                         {(settings.tieBreakers || []).map((tb, index) => (
                             <div key={tb} className="flex items-center justify-between bg-tertiary/50 p-2 rounded-lg">
-                                <span className="font-medium">{index+1}. {tieBreakerLabels[tb]}</span>
+                                <span className="font-medium">{index+1}. {TIE_BREAKER_LABELS[tb]}</span>
                                 <div className="flex items-center">
                                     <button type="button" onClick={() => handleMoveTieBreaker(index, 'up')} disabled={index === 0} className="p-1 disabled:opacity-30 text-text-secondary hover:text-text-primary"><ArrowUpIcon className="w-4 h-4" /></button>
                                     <button type="button" onClick={() => handleMoveTieBreaker(index, 'down')} disabled={index === (settings.tieBreakers || []).length - 1} className="p-1 disabled:opacity-30 text-text-secondary hover:text-text-primary"><ArrowDownIcon className="w-4 h-4" /></button>
+                                    <button type="button" onClick={() => handleRemoveTieBreaker(tb)} className="p-1 text-red-400 hover:text-red-300" title="Rimuovi criterio"><TrashIcon className="w-4 h-4" /></button>
                                 </div>
                             </div>
                         ))}
+                        {availableTieBreakers.length > 0 && (
+                            <select
+                                value=""
+                                onChange={e => e.target.value && handleAddTieBreaker(e.target.value as TieBreaker)}
+                                className="w-full bg-primary border border-tertiary rounded-lg p-2 text-sm text-text-primary"
+                            >
+                                <option value="">+ Aggiungi criterio...</option>
+                                {availableTieBreakers.map(tb => <option key={tb} value={tb}>{TIE_BREAKER_LABELS[tb]}</option>)}
+                            </select>
+                        )}
+                        {(settings.tieBreakers || []).includes('drawOfLots') && (
+                            <div className="flex items-center justify-between text-xs text-text-secondary pt-1">
+                                <span>Seme sorteggio: <span className="font-mono">{settings.drawOfLotsSeed ?? '—'}</span></span>
+                                <button type="button" onClick={handleRedrawLots} className="text-accent hover:text-accent-hover font-semibold">Ripeti sorteggio</button>
+                            </div>
+                        )}
                      </div>
                 </div>
 
@@ -248,21 +409,80 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
                     </div>
                 </div>
 
+                {/* Proposte di prenotazione tra giocatori */}
+                <div>
+                    <h4 className="text-lg font-semibold mb-3 text-text-primary">Proposte di Prenotazione</h4>
+                    <div className="bg-primary/50 p-4 rounded-lg max-w-md">
+                        <label className="flex items-center justify-between gap-3">
+                            <span className="text-sm">Validità della proposta prima che lo slot torni libero (ore)</span>
+                            <input
+                                type="number"
+                                min="1"
+                                value={settings.proposalExpiryHours ?? DEFAULT_PROPOSAL_EXPIRY_HOURS}
+                                onChange={e => setSettings({ ...settings, proposalExpiryHours: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                className={inputClasses}
+                            />
+                        </label>
+                    </div>
+                </div>
+
+                {/* Conferma dei risultati inseriti dai giocatori */}
+                <div>
+                    <h4 className="text-lg font-semibold mb-3 text-text-primary">Conferma Risultati</h4>
+                    <div className="bg-primary/50 p-4 rounded-lg max-w-md">
+                        <label className="flex items-center justify-between gap-3">
+                            <span className="text-sm">Conferma automatica se l'avversario non risponde entro (ore)</span>
+                            <input
+                                type="number"
+                                min="1"
+                                value={settings.resultAutoConfirmHours ?? DEFAULT_RESULT_AUTO_CONFIRM_HOURS}
+                                onChange={e => setSettings({ ...settings, resultAutoConfirmHours: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                className={inputClasses}
+                            />
+                        </label>
+                        <p className="text-xs text-text-secondary mt-2">In classifica contano solo i risultati confermati dall'avversario, dall'organizzatore o scaduto questo termine.</p>
+                    </div>
+                </div>
+
                  {/* Playoff Settings */}
                 <div>
                      <h4 className="text-lg font-semibold mb-3 text-text-primary">Impostazioni Playoff</h4>
                      <div className="space-y-3 bg-primary/50 p-4 rounded-lg max-w-sm">
-                        <div className="mb-4">
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="playoffFormat" className="font-medium">Formato</label>
+                            <select
+                                id="playoffFormat"
+                                value={settings.playoffFormat ?? 'singleElimination'}
+                                onChange={e => setSettings({ ...settings, playoffFormat: e.target.value as BracketFormat })}
+                                className="bg-tertiary border border-tertiary/50 rounded-lg p-2 text-text-primary focus:ring-2 focus:ring-accent"
+                            >
+                                {(Object.keys(BRACKET_FORMAT_LABELS) as BracketFormat[]).map(f => <option key={f} value={f}>{BRACKET_FORMAT_LABELS[f]}</option>)}
+                            </select>
+                        </div>
+                        {settings.playoffFormat === 'doubleElimination' && (
                             <label className="flex items-center gap-3 cursor-pointer">
                                 <input
                                     type="checkbox"
-                                    checked={settings.hasBronzeFinal}
-                                    onChange={e => setSettings({ ...settings, hasBronzeFinal: e.target.checked })}
+                                    checked={!!settings.grandFinalReset}
+                                    onChange={e => setSettings({ ...settings, grandFinalReset: e.target.checked })}
                                     className="w-5 h-5 rounded bg-primary border-tertiary text-accent focus:ring-accent ring-offset-secondary"
                                 />
-                                <span>Includi Finale 3°/4° Posto</span>
+                                <span>Spareggio in finale se vince chi arriva dal tabellone perdenti</span>
                             </label>
-                        </div>
+                        )}
+                        {settings.playoffFormat !== 'doubleElimination' && (
+                            <div className="mb-4">
+                                <label className="flex items-center gap-3 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.hasBronzeFinal}
+                                        onChange={e => setSettings({ ...settings, hasBronzeFinal: e.target.checked })}
+                                        className="w-5 h-5 rounded bg-primary border-tertiary text-accent focus:ring-accent ring-offset-secondary"
+                                    />
+                                    <span>Includi Finale 3°/4° Posto</span>
+                                </label>
+                            </div>
+                        )}
                         <p className="text-sm text-text-secondary pt-2 border-t border-tertiary/50">Specifica quanti giocatori si qualificano da ogni girone.</p>
                         {Array.isArray(tournament.groups) && tournament.groups.map(group => (
                             <div key={group.id} className="flex items-center justify-between">
@@ -278,6 +498,7 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
                             </div>
                         ))}
                          {(!Array.isArray(tournament.groups) || tournament.groups.length === 0) && <p className="text-text-secondary">Crea prima i gironi.</p>}
+                         {renderCrossGroupEditor('playoffCrossGroup')}
                      </div>
                 </div>
 
@@ -319,6 +540,7 @@ const TournamentSettings: React.FC<TournamentSettingsProps> = ({ event, tourname
                             )
                         })}
                          {(!Array.isArray(tournament.groups) || tournament.groups.length === 0) && <p className="text-text-secondary">Crea prima i gironi.</p>}
+                         {renderCrossGroupEditor('consolationCrossGroup')}
                      </div>
                 </div>
 
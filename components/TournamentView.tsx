@@ -9,7 +9,8 @@ import {
   type Player,
   type PlayoffBracket,
   type PlayoffMatch,
-  type Group
+  type Group,
+  type Venue
 } from '../types';
 import StandingsTable from './StandingsTable';
 import MatchList from './MatchList';
@@ -20,16 +21,36 @@ import Playoffs from './Playoffs';
 import ConsolationBracket from './ConsolationBracket';
 import PlayerManagement from './PlayerManagement';
 import AvailabilityTab from './AvailabilityTab';
-import { db } from "../firebase";
-import { updateDoc, doc } from "firebase/firestore";
+import ScoreEditor from './ScoreEditor';
+import { isWriteConflict, repository } from "../services/dataRepository";
 import { getCompetitorName, getTeamForPlayer, getTournamentCompetitors, getTournamentPadelTeams, isPadelEvent } from '../utils/padel';
+import { buildMatchResultFromDraft, createEmptyScoreDraft, createScoreDraft, EMPTY_MATCH_RESULT, getWinnerSide, KNOCKOUT_RESULT_TYPES, type ScoreDraft } from '../utils/score';
+import { correctBracketMatch, dropInvalidatedLeagueMatches, syncLeagueMatchesWithBracket } from '../utils/bracket';
+import { assignSlotCourt, getCourtBookings, getCourtIssue, getSlotCourtIssue } from '../utils/venues';
+import {
+  acceptProposal,
+  clearProposal,
+  createBookingProposal,
+  DEFAULT_PROPOSAL_EXPIRY_HOURS,
+  getActiveProposal,
+  getHeldSlotIds,
+  replaceTournamentMatch,
+} from '../utils/proposals';
+import { clearResultConfirmation, confirmResult, disputeResult, withSubmittedResult } from '../utils/resultConfirmation';
+import { getBookingConflictWarning } from '../utils/playerConflicts';
+import { buildResultAuditEntry, type AuditActor } from '../utils/auditLog';
+import { appendAuditEntry } from '../services/auditLogService';
+import { type EventPermissions } from '../services/permissionService';
 
 interface TournamentViewProps {
   event: Event;
   tournament: Tournament;
   setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  isOrganizer: boolean;
+  permissions: EventPermissions;
   loggedInPlayerId?: string;
+  allEvents: Event[];
+  venues: Venue[];
+  auditActor: AuditActor;
   initialActiveTab?: 'standings' | 'matches' | 'participants' | 'playoffs' | 'consolation' | 'groups' | 'settings' | 'rules' | 'players' | 'availability';
   initialSelectedGroupId?: string;
   onPlayerContact?: (player: Player | { phone?: string }) => void;
@@ -59,102 +80,6 @@ function stripPrefix(matchId: string, prefix: string) {
   return matchId.startsWith(prefix) ? matchId.slice(prefix.length) : matchId;
 }
 
-// --- Bracket helpers ---
-function computeWinnerIdFromScores(match: { player1Id: string | null; player2Id: string | null }, s1: number, s2: number) {
-  if (!match.player1Id || !match.player2Id) return null;
-  if (s1 === s2) return null;
-  return s1 > s2 ? match.player1Id : match.player2Id;
-}
-
-function buildBracketCopyWithResultAndAdvance(params: {
-  bracket: PlayoffBracket;
-  playoffMatchId: string;
-  score1: number;
-  score2: number;
-  hasBronzeFinal: boolean;
-}) {
-  const { bracket, playoffMatchId, score1, score2, hasBronzeFinal } = params;
-
-  const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(bracket));
-  const match = bracketCopy.matches.find((m: PlayoffMatch) => m.id === playoffMatchId);
-  if (!match) return { bracketCopy, updatedMatch: null as PlayoffMatch | null };
-
-  match.score1 = score1;
-  match.score2 = score2;
-
-  const winnerId = computeWinnerIdFromScores({ player1Id: match.player1Id, player2Id: match.player2Id }, score1, score2);
-  if (!winnerId) return { bracketCopy, updatedMatch: match };
-
-  const loserId = winnerId === match.player1Id ? match.player2Id : match.player1Id;
-  match.winnerId = winnerId;
-
-  if (match.nextMatchId) {
-    const nextMatch = bracketCopy.matches.find((m: PlayoffMatch) => m.id === match.nextMatchId);
-    if (nextMatch) {
-      const allMatchesInRound = bracketCopy.matches
-        .filter((m: PlayoffMatch) => m.round === match.round && !m.isBronzeFinal)
-        .sort((a: PlayoffMatch, b: PlayoffMatch) => a.matchIndex - b.matchIndex);
-
-      const matchIndexInRound = allMatchesInRound.findIndex((m: PlayoffMatch) => m.id === match.id);
-
-      if (matchIndexInRound % 2 === 0) nextMatch.player1Id = winnerId;
-      else nextMatch.player2Id = winnerId;
-    }
-  }
-
-  if (match.loserGoesToBronzeFinal && bracketCopy.bronzeFinalId && hasBronzeFinal) {
-    const bronzeMatch = bracketCopy.matches.find((m: PlayoffMatch) => m.id === bracketCopy.bronzeFinalId);
-    if (bronzeMatch && loserId) {
-      if (bronzeMatch.player1Id === null) bronzeMatch.player1Id = loserId;
-      else if (bronzeMatch.player2Id === null) bronzeMatch.player2Id = loserId;
-    }
-  }
-
-  return { bracketCopy, updatedMatch: match };
-}
-
-function ensureLeagueMatchExistsAndUpToDate(params: {
-  leagueMatches: Match[];
-  leagueMatchId: string;
-  player1Id: string | null;
-  player2Id: string | null;
-  score1: number | null;
-  score2: number | null;
-}) {
-  const { leagueMatches, leagueMatchId, player1Id, player2Id, score1, score2 } = params;
-
-  if (!player1Id || !player2Id) return leagueMatches;
-
-  const idx = leagueMatches.findIndex(m => m.id === leagueMatchId);
-  const nextStatus: Match['status'] = score1 != null && score2 != null ? 'completed' : 'pending';
-
-  const updated: Match = {
-    id: leagueMatchId,
-    player1Id,
-    player2Id,
-    score1,
-    score2,
-    status: nextStatus,
-  };
-
-  if (idx === -1) return [...leagueMatches, updated];
-
-  const prev = leagueMatches[idx];
-  const merged: Match = {
-    ...prev,
-    ...updated,
-    status: nextStatus,
-    scheduledTime: prev.scheduledTime ?? undefined,
-    slotId: prev.slotId ?? undefined,
-    location: prev.location ?? "",
-    field: prev.field ?? "",
-  };
-
-  const copy = leagueMatches.slice();
-  copy[idx] = merged;
-  return copy;
-}
-
 type MatchContainerKind = 'group' | 'playoff' | 'consolation';
 
 function findMatchContainerInTournament(t: Tournament, matchId: string): { kind: MatchContainerKind; groupId?: string } | null {
@@ -175,7 +100,7 @@ interface TournamentWithExtraMatches extends Tournament {
 }
 
 const TournamentView: React.FC<TournamentViewProps> = ({
-  event, tournament, setEvents, isOrganizer, loggedInPlayerId,
+  event, tournament, setEvents, permissions, loggedInPlayerId, allEvents, venues, auditActor,
   initialActiveTab, initialSelectedGroupId, onPlayerContact
 }) => {
   const t = tournament as TournamentWithExtraMatches;
@@ -207,8 +132,8 @@ const TournamentView: React.FC<TournamentViewProps> = ({
 
   // modali / stati
   const [editingMatch, setEditingMatch] = useState<Match | null>(null);
-  const [score1, setScore1] = useState<string>("");
-  const [score2, setScore2] = useState<string>("");
+  const [scoreDraft, setScoreDraft] = useState<ScoreDraft>(createEmptyScoreDraft);
+  const [scoreError, setScoreError] = useState<string>("");
 
   const [bookingMatch, setBookingMatch] = useState<Match | null>(null);
   const [selectedSlotId, setSelectedSlotId] = useState<string>("");
@@ -240,19 +165,124 @@ const TournamentView: React.FC<TournamentViewProps> = ({
     setSlotToBookTriggerRect(triggerRect ?? null);
   };
 
+  // Avvisa se un giocatore ha già una partita alla stessa ora, anche in altri eventi
+  const confirmPlayerConflicts = (match: Match, start: string) => {
+    const warning = getBookingConflictWarning(allEvents, event, [match.player1Id, match.player2Id], start, match.id);
+    return !warning || window.confirm(`${warning}\n\nPrenotare comunque?`);
+  };
+
+  // L'organizzatore prenota direttamente; un partecipante invia una proposta
+  // e la partita cambia solo quando l'avversario accetta.
+  const buildSlotBooking = (match: Match, slot: TimeSlot): Match => {
+    if (permissions.canManageStructure) {
+      return {
+        ...assignSlotCourt(clearProposal(match), slot),
+        status: "scheduled",
+        scheduledTime: new Date(slot.start).toISOString(),
+        location: slot.location ?? "",
+        field: slot.field ?? (slot.location ?? ""),
+        slotId: slot.id,
+      };
+    }
+    return {
+      ...match,
+      proposal: createBookingProposal({
+        kind: match.status === "scheduled" ? "reschedule" : "booking",
+        proposedBy: loggedInCompetitorId ?? "",
+        scheduledTime: slot.start,
+        slot,
+        expiryHours: tournament.settings?.proposalExpiryHours ?? DEFAULT_PROPOSAL_EXPIRY_HOURS,
+      }),
+    };
+  };
+
+  // Prenotazioni e risultati: si scrive solo se nessuno ha cambiato gli stessi dati nel frattempo,
+  // e lo stato locale si aggiorna dopo, così un conflitto non lascia modifiche fantasma.
+  const saveTournamentsChecked = async (updatedTournaments: Tournament[], onConflict: (message: string) => void) => {
+    try {
+      await repository.tournaments.saveChecked(event.id, event.tournaments, updatedTournaments);
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      onConflict(err.message);
+      return false;
+    }
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
+    return true;
+  };
+
+  const persistMatch = (updatedMatch: Match) => saveTournamentsChecked(
+    event.tournaments.map(t0 => t0.id === tournament.id ? replaceTournamentMatch(t0, updatedMatch) : t0),
+    message => window.alert(message),
+  );
+
+  const recordResultChange = (before: Match, after: Match) => appendAuditEntry(buildResultAuditEntry({
+    eventId: event.id,
+    tournamentId: tournament.id,
+    matchId: before.id,
+    matchLabel: `${getCompetitorName(event, tournament, before.player1Id)} vs ${getCompetitorName(event, tournament, before.player2Id)}`,
+    source: 'tournamentMatches',
+    actor: auditActor,
+    before,
+    after,
+  }));
+
+  // cambiare il vincitore di una partita del tabellone annulla le partite successive: serve una conferma esplicita
+  const confirmBracketCorrection = (bracket: PlayoffBracket, affectedMatchIds: string[]) => {
+    if (affectedMatchIds.length === 0) return true;
+    const labels = affectedMatchIds
+      .map(id => bracket.matches.find(m => m.id === id))
+      .filter((m): m is PlayoffMatch => !!m)
+      .map(m => `• ${m.player1Id ? getCompetitorName(event, tournament, m.player1Id) : 'TBD'} vs ${m.player2Id ? getCompetitorName(event, tournament, m.player2Id) : 'TBD'}`);
+    return window.confirm(`Il vincitore cambia: queste partite successive perderanno giocatori, risultato e prenotazione:\n\n${labels.join('\n')}\n\nProcedere?`);
+  };
+
+  // le partite annullate dalla correzione finiscono nello storico come risultati cancellati
+  const recordInvalidatedMatches = async (leagueMatches: Match[], affectedMatchIds: string[], prefix: 'po-' | 'co-') => {
+    for (const invalidated of leagueMatches.filter(m => affectedMatchIds.some(id => `${prefix}${id}` === m.id))) {
+      await recordResultChange(invalidated, { ...invalidated, ...EMPTY_MATCH_RESULT, status: 'pending' });
+    }
+  };
+
+  const handleRespondProposal = async (match: Match, action: 'accept' | 'decline' | 'counter', triggerRect?: DOMRect | null) => {
+    const proposal = getActiveProposal(match);
+    if (!proposal) {
+      // proposta scaduta: si ripulisce la partita
+      if (match.proposal) await persistMatch(clearProposal(match));
+      return;
+    }
+    if (action === 'decline') {
+      await persistMatch(clearProposal(match));
+      return;
+    }
+    if (action === 'counter') {
+      if (match.status === 'scheduled') handleRescheduleMatch(match, triggerRect);
+      else handleBookMatch(match, triggerRect);
+      return;
+    }
+    const courtIssue = proposal.courtId
+      ? getCourtIssue(getCourtBookings(allEvents), venues, proposal.courtId, proposal.scheduledTime, undefined, match.id)
+      : null;
+    if (courtIssue) {
+      window.alert(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts(match, proposal.scheduledTime)) return;
+    await persistMatch(acceptProposal(match));
+  };
+
   const handleConfirmBookSlot = async (matchId: string) => {
     const match = selectedGroup?.matches.find(m => m.id === matchId);
     if (!match || !slotToBook) return;
 
+    const courtIssue = getSlotCourtIssue(slotToBook, allEvents, venues, match.id);
+    if (courtIssue) {
+      setBookingError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts(match, slotToBook.start)) return;
+
     setBookingError("");
-    const updatedMatch: Match = {
-      ...match,
-      status: "scheduled",
-      scheduledTime: new Date(slotToBook.start).toISOString(),
-      location: slotToBook.location ?? "",
-      field: slotToBook.field ?? (slotToBook.location ?? ""),
-      slotId: slotToBook.id
-    };
+    const updatedMatch = buildSlotBooking(match, slotToBook);
 
     const updatedGroups = tournament.groups.map(g =>
       g.id === selectedGroup?.id
@@ -264,8 +294,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
     setSlotToBook(null);
     setSlotToBookTriggerRect(null);
@@ -292,7 +321,10 @@ const TournamentView: React.FC<TournamentViewProps> = ({
           .map(m => m.slotId!)
         : [];
 
-      return [...fromGroups, ...fromPlayoff, ...fromCons];
+      // anche gli slot bloccati dalle proposte in attesa di risposta
+      const held = getHeldSlotIds([...(t0.groups ?? []).flatMap(g => g.matches ?? []), ...(t0.playoffMatches ?? []), ...(t0.consolationMatches ?? [])]);
+
+      return [...fromGroups, ...fromPlayoff, ...fromCons, ...held];
     });
   }
 
@@ -301,7 +333,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
     const booked = getAllBookedSlotIds();
     const now = new Date();
     return globalSlots.filter(slot => {
-      const startIso = (slot as any).start ?? (slot as any).time ?? null;
+      const startIso = slot.start || null;
       if (!startIso) return false;
       const startDate = new Date(startIso);
       if (isNaN(startDate.getTime())) return false;
@@ -326,80 +358,61 @@ const TournamentView: React.FC<TournamentViewProps> = ({
   const handleEditResult = (match: Match, triggerRect?: DOMRect | null) => {
     setEditingMatch(match);
     setEditingTriggerRect(triggerRect ?? null);
-    setScore1(match.score1 !== null ? String(match.score1) : "");
-    setScore2(match.score2 !== null ? String(match.score2) : "");
+    setScoreDraft(createScoreDraft(match));
+    setScoreError("");
   };
 
   async function saveMatchResult(match: Match) {
-    const s1 = Number(score1);
-    const s2 = Number(score2);
-    if (Number.isNaN(s1) || Number.isNaN(s2)) return;
+    // il risultato inserito da un giocatore resta provvisorio finché l'avversario non lo conferma
+    const submit = (m: Match) => withSubmittedResult(m, permissions.canManageResults ? null : loggedInCompetitorId);
+    const { result, error } = buildMatchResultFromDraft(scoreDraft);
+    if (!result) {
+      setScoreError(error ?? "Risultato non valido.");
+      return;
+    }
+    if ((isPlayoffLeagueMatchId(match.id) || isConsolationLeagueMatchId(match.id)) && !getWinnerSide(result)) {
+      setScoreError("Nelle fasi finali serve un vincitore: controlla i set.");
+      return;
+    }
 
     // PLAYOFF
     if (isPlayoffLeagueMatchId(match.id)) {
       const playoffMatchId = stripPrefix(match.id, 'po-');
       if (!tournament.playoffs) return;
 
-      const { bracketCopy } = buildBracketCopyWithResultAndAdvance({
+      const { bracketCopy, affectedMatchIds } = correctBracketMatch({
         bracket: tournament.playoffs,
-        playoffMatchId,
-        score1: s1,
-        score2: s2,
+        matchId: playoffMatchId,
+        result,
         hasBronzeFinal: !!tournament.settings.hasBronzeFinal,
       });
+      if (!confirmBracketCorrection(tournament.playoffs, affectedMatchIds)) return;
 
-      let playoffMatches: Match[] = Array.isArray(t.playoffMatches) ? JSON.parse(JSON.stringify(t.playoffMatches)) : [];
+      const storedPlayoffMatches: Match[] = Array.isArray(t.playoffMatches) ? JSON.parse(JSON.stringify(t.playoffMatches)) : [];
+      let playoffMatches = dropInvalidatedLeagueMatches(storedPlayoffMatches, affectedMatchIds, id => `po-${id}`);
 
       // keep booking fields, set completed
       const currentIdx = playoffMatches.findIndex(m => m.id === match.id);
       if (currentIdx !== -1) {
-        playoffMatches[currentIdx] = { ...playoffMatches[currentIdx], score1: s1, score2: s2, status: 'completed' };
+        playoffMatches[currentIdx] = submit({ ...playoffMatches[currentIdx], ...result, status: 'completed' });
       } else {
-        playoffMatches.push({ ...match, score1: s1, score2: s2, status: 'completed' });
+        playoffMatches.push(submit({ ...match, ...result, status: 'completed' }));
       }
 
-      // ensure next exists if ready
-      const pm = bracketCopy.matches.find(m => m.id === playoffMatchId);
-      if (pm?.nextMatchId) {
-        const nextPm = bracketCopy.matches.find(m => m.id === pm.nextMatchId);
-        if (nextPm && nextPm.player1Id && nextPm.player2Id) {
-          playoffMatches = ensureLeagueMatchExistsAndUpToDate({
-            leagueMatches: playoffMatches,
-            leagueMatchId: `po-${nextPm.id}`,
-            player1Id: nextPm.player1Id,
-            player2Id: nextPm.player2Id,
-            score1: nextPm.score1,
-            score2: nextPm.score2,
-          });
-        }
-      }
-
-      // ensure bronze exists if ready
-      if (bracketCopy.bronzeFinalId && tournament.settings.hasBronzeFinal) {
-        const bronzePm = bracketCopy.matches.find(m => m.id === bracketCopy.bronzeFinalId);
-        if (bronzePm && bronzePm.player1Id && bronzePm.player2Id) {
-          playoffMatches = ensureLeagueMatchExistsAndUpToDate({
-            leagueMatches: playoffMatches,
-            leagueMatchId: `po-${bronzePm.id}`,
-            player1Id: bronzePm.player1Id,
-            player2Id: bronzePm.player2Id,
-            score1: bronzePm.score1,
-            score2: bronzePm.score2,
-          });
-        }
-      }
+      // next match, losers' bracket drop and bronze final become bookable once both players are known
+      playoffMatches = syncLeagueMatchesWithBracket(bracketCopy, playoffMatches, id => `po-${id}`);
 
       const updatedTournaments = event.tournaments.map(t0 =>
         t0.id === tournament.id ? { ...t0, playoffs: bracketCopy, playoffMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setScoreError))) return;
+      await recordResultChange(match, playoffMatches.find(m => m.id === match.id) ?? match);
+      await recordInvalidatedMatches(storedPlayoffMatches, affectedMatchIds, 'po-');
 
       setEditingMatch(null);
       setEditingTriggerRect(null);
-      setScore1("");
-      setScore2("");
+      setScoreDraft(createEmptyScoreDraft());
       return;
     }
 
@@ -408,49 +421,37 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       const consolationMatchId = stripPrefix(match.id, 'co-');
       if (!tournament.consolationBracket) return;
 
-      const { bracketCopy } = buildBracketCopyWithResultAndAdvance({
+      const { bracketCopy, affectedMatchIds } = correctBracketMatch({
         bracket: tournament.consolationBracket,
-        playoffMatchId: consolationMatchId,
-        score1: s1,
-        score2: s2,
+        matchId: consolationMatchId,
+        result,
         hasBronzeFinal: false,
       });
+      if (!confirmBracketCorrection(tournament.consolationBracket, affectedMatchIds)) return;
 
-      let consolationMatches: Match[] = Array.isArray(t.consolationMatches) ? JSON.parse(JSON.stringify(t.consolationMatches)) : [];
+      const storedConsolationMatches: Match[] = Array.isArray(t.consolationMatches) ? JSON.parse(JSON.stringify(t.consolationMatches)) : [];
+      let consolationMatches = dropInvalidatedLeagueMatches(storedConsolationMatches, affectedMatchIds, id => `co-${id}`);
 
       const currentIdx = consolationMatches.findIndex(m => m.id === match.id);
       if (currentIdx !== -1) {
-        consolationMatches[currentIdx] = { ...consolationMatches[currentIdx], score1: s1, score2: s2, status: 'completed' };
+        consolationMatches[currentIdx] = submit({ ...consolationMatches[currentIdx], ...result, status: 'completed' });
       } else {
-        consolationMatches.push({ ...match, score1: s1, score2: s2, status: 'completed' });
+        consolationMatches.push(submit({ ...match, ...result, status: 'completed' }));
       }
 
-      const cm = bracketCopy.matches.find(m => m.id === consolationMatchId);
-      if (cm?.nextMatchId) {
-        const nextCm = bracketCopy.matches.find(m => m.id === cm.nextMatchId);
-        if (nextCm && nextCm.player1Id && nextCm.player2Id) {
-          consolationMatches = ensureLeagueMatchExistsAndUpToDate({
-            leagueMatches: consolationMatches,
-            leagueMatchId: `co-${nextCm.id}`,
-            player1Id: nextCm.player1Id,
-            player2Id: nextCm.player2Id,
-            score1: nextCm.score1,
-            score2: nextCm.score2,
-          });
-        }
-      }
+      consolationMatches = syncLeagueMatchesWithBracket(bracketCopy, consolationMatches, id => `co-${id}`);
 
       const updatedTournaments = event.tournaments.map(t0 =>
         t0.id === tournament.id ? { ...t0, consolationBracket: bracketCopy, consolationMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setScoreError))) return;
+      await recordResultChange(match, consolationMatches.find(m => m.id === match.id) ?? match);
+      await recordInvalidatedMatches(storedConsolationMatches, affectedMatchIds, 'co-');
 
       setEditingMatch(null);
       setEditingTriggerRect(null);
-      setScore1("");
-      setScore2("");
+      setScoreDraft(createEmptyScoreDraft());
       return;
     }
 
@@ -459,13 +460,14 @@ const TournamentView: React.FC<TournamentViewProps> = ({
     if (!container || container.kind !== 'group' || !container.groupId) return;
 
     const groupId = container.groupId;
+    const updatedMatch = submit({ ...match, ...result, status: 'completed' });
 
     // keep booking fields, set completed
     const updatedGroups = tournament.groups.map(g => {
       if (g.id !== groupId) return g;
       return {
         ...g,
-        matches: g.matches.map(m => m.id === match.id ? { ...m, ...match, score1: s1, score2: s2, status: 'completed' } : m)
+        matches: g.matches.map(m => m.id === match.id ? updatedMatch : m)
       };
     });
 
@@ -473,15 +475,26 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, setScoreError))) return;
+    await recordResultChange(match, updatedMatch);
 
     setEditingMatch(null);
     setEditingTriggerRect(null);
-    setScore1("");
-    setScore2("");
+    setScoreDraft(createEmptyScoreDraft());
   }
 
+  const handleRespondResult = async (match: Match, action: 'confirm' | 'dispute') => {
+    const responderId = permissions.canManageResults ? 'organizer' : loggedInCompetitorId;
+    if (!responderId) return;
+    if (action === 'confirm') {
+      await persistMatch(confirmResult(match, responderId));
+      return;
+    }
+    const reason = window.prompt("Motivo della contestazione (verrà segnalato all'organizzatore):");
+    if (reason === null) return;
+    await persistMatch(disputeResult(match, responderId, reason));
+  };
+
   const handleOpenDeleteResult = (match: Match, triggerRect?: DOMRect | null) => {
     setDeletingMatch(match);
     setDeletingTriggerRect(triggerRect ?? null);
@@ -493,22 +506,25 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       const playoffMatchId = stripPrefix(match.id, 'po-');
       if (!tournament.playoffs) return;
 
-      const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(tournament.playoffs));
-      const m = bracketCopy.matches.find(x => x.id === playoffMatchId);
-      if (!m) return;
-
-      m.score1 = null;
-      m.score2 = null;
-      m.winnerId = null;
+      // il vincitore tolto va ritirato anche dai turni successivi
+      const { bracketCopy, updatedMatch, affectedMatchIds } = correctBracketMatch({
+        bracket: tournament.playoffs,
+        matchId: playoffMatchId,
+        result: EMPTY_MATCH_RESULT,
+        hasBronzeFinal: !!tournament.settings.hasBronzeFinal,
+      });
+      if (!updatedMatch) return;
+      if (!confirmBracketCorrection(tournament.playoffs, affectedMatchIds)) return;
 
-      let playoffMatches: Match[] = Array.isArray(t.playoffMatches) ? JSON.parse(JSON.stringify(t.playoffMatches)) : [];
-      playoffMatches = playoffMatches.map(x => x.id === match.id ? { ...x, score1: null, score2: null, status: 'pending' } : x);
+      const storedPlayoffMatches: Match[] = Array.isArray(t.playoffMatches) ? JSON.parse(JSON.stringify(t.playoffMatches)) : [];
+      const playoffMatches = dropInvalidatedLeagueMatches(storedPlayoffMatches, affectedMatchIds, id => `po-${id}`).map(x => x.id === match.id ? clearResultConfirmation({ ...x, ...EMPTY_MATCH_RESULT, status: 'pending' }) : x);
 
       const updatedTournaments = event.tournaments.map(t0 =>
         t0.id === tournament.id ? { ...t0, playoffs: bracketCopy, playoffMatches } : t0
       );
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+      await recordResultChange(match, playoffMatches.find(x => x.id === match.id) ?? match);
+      await recordInvalidatedMatches(storedPlayoffMatches, affectedMatchIds, 'po-');
 
       setDeletingMatch(null);
       setDeletingTriggerRect(null);
@@ -520,22 +536,24 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       const consolationMatchId = stripPrefix(match.id, 'co-');
       if (!tournament.consolationBracket) return;
 
-      const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(tournament.consolationBracket));
-      const m = bracketCopy.matches.find(x => x.id === consolationMatchId);
-      if (!m) return;
-
-      m.score1 = null;
-      m.score2 = null;
-      m.winnerId = null;
+      const { bracketCopy, updatedMatch, affectedMatchIds } = correctBracketMatch({
+        bracket: tournament.consolationBracket,
+        matchId: consolationMatchId,
+        result: EMPTY_MATCH_RESULT,
+        hasBronzeFinal: false,
+      });
+      if (!updatedMatch) return;
+      if (!confirmBracketCorrection(tournament.consolationBracket, affectedMatchIds)) return;
 
-      let consolationMatches: Match[] = Array.isArray(t.consolationMatches) ? JSON.parse(JSON.stringify(t.consolationMatches)) : [];
-      consolationMatches = consolationMatches.map(x => x.id === match.id ? { ...x, score1: null, score2: null, status: 'pending' } : x);
+      const storedConsolationMatches: Match[] = Array.isArray(t.consolationMatches) ? JSON.parse(JSON.stringify(t.consolationMatches)) : [];
+      const consolationMatches = dropInvalidatedLeagueMatches(storedConsolationMatches, affectedMatchIds, id => `co-${id}`).map(x => x.id === match.id ? clearResultConfirmation({ ...x, ...EMPTY_MATCH_RESULT, status: 'pending' }) : x);
 
       const updatedTournaments = event.tournaments.map(t0 =>
         t0.id === tournament.id ? { ...t0, consolationBracket: bracketCopy, consolationMatches } : t0
       );
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+      await recordResultChange(match, consolationMatches.find(x => x.id === match.id) ?? match);
+      await recordInvalidatedMatches(storedConsolationMatches, affectedMatchIds, 'co-');
 
       setDeletingMatch(null);
       setDeletingTriggerRect(null);
@@ -546,11 +564,12 @@ const TournamentView: React.FC<TournamentViewProps> = ({
     const container = findMatchContainerInTournament(tournament, match.id);
     if (!container || container.kind !== 'group' || !container.groupId) return;
 
+    const clearedMatch = clearResultConfirmation({ ...match, ...EMPTY_MATCH_RESULT, status: 'pending' as const });
     const updatedGroups = tournament.groups.map(g => {
       if (g.id !== container.groupId) return g;
       return {
         ...g,
-        matches: g.matches.map(m => m.id === match.id ? { ...m, score1: null, score2: null, status: 'pending' } : m)
+        matches: g.matches.map(m => m.id === match.id ? clearedMatch : m)
       };
     });
 
@@ -558,8 +577,8 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, message => window.alert(message)))) return;
+    await recordResultChange(match, clearedMatch);
 
     setDeletingMatch(null);
     setDeletingTriggerRect(null);
@@ -596,15 +615,14 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       setBookingError("Invalid data - campo orario non valido.");
       return;
     }
+    const courtIssue = getSlotCourtIssue(timeSlot, allEvents, venues, match.id);
+    if (courtIssue) {
+      setBookingError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts(match, timeSlot.start)) return;
 
-    const updatedMatch: Match = {
-      ...match,
-      status: "scheduled",
-      scheduledTime: dateObj.toISOString(),
-      slotId: timeSlot.id,
-      location: timeSlot.location ?? "",
-      field: timeSlot.field ?? (timeSlot.location ?? ""),
-    };
+    const updatedMatch = buildSlotBooking(match, timeSlot);
 
     // PLAYOFF
     if (isPlayoffLeagueMatchId(match.id)) {
@@ -615,8 +633,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, playoffMatches: updatedPlayoffMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
       setBookingMatch(null);
       setBookingTriggerRect(null);
@@ -634,8 +651,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, consolationMatches: updatedConsolationMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
       setBookingMatch(null);
       setBookingTriggerRect(null);
@@ -656,8 +672,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
     setBookingMatch(null);
     setBookingTriggerRect(null);
@@ -686,16 +701,18 @@ const TournamentView: React.FC<TournamentViewProps> = ({
     }
 
     const timeSlot = globalSlots.find(s => s.id === rescheduleSlotId);
-    const dateObj = timeSlot ? new Date(timeSlot.start) : null;
+    if (!timeSlot) {
+      setBookingError("Slot non trovato tra quelli globali.");
+      return;
+    }
+    const courtIssue = getSlotCourtIssue(timeSlot, allEvents, venues, match.id);
+    if (courtIssue) {
+      setBookingError(courtIssue);
+      return;
+    }
+    if (!confirmPlayerConflicts(match, timeSlot.start)) return;
 
-    const updatedMatch: Match = {
-      ...match,
-      status: "scheduled",
-      scheduledTime: timeSlot?.start ? dateObj?.toISOString() ?? "" : "",
-      slotId: timeSlot?.id ?? "",
-      location: timeSlot?.location ?? "",
-      field: timeSlot?.field ?? (timeSlot?.location ?? ""),
-    };
+    const updatedMatch = buildSlotBooking(match, timeSlot);
 
     // PLAYOFF
     if (isPlayoffLeagueMatchId(match.id)) {
@@ -706,8 +723,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, playoffMatches: updatedPlayoffMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
       setReschedulingMatch(null);
       setRescheduleTriggerRect(null);
@@ -725,8 +741,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, consolationMatches: updatedConsolationMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
       setReschedulingMatch(null);
       setRescheduleTriggerRect(null);
@@ -747,8 +762,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    if (!(await saveTournamentsChecked(updatedTournaments, setBookingError))) return;
 
     setReschedulingMatch(null);
     setRescheduleTriggerRect(null);
@@ -758,7 +772,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
 
   // cancel booking
   async function handleCancelBooking(match: Match) {
-    const updatedMatch: Match = { ...match, status: "pending", scheduledTime: null as any, slotId: null as any, location: "", field: "" };
+    const updatedMatch: Match = { ...clearProposal(assignSlotCourt(match, null)), status: "pending", scheduledTime: null as any, slotId: null as any, location: "", field: "" };
 
     // PLAYOFF
     if (isPlayoffLeagueMatchId(match.id)) {
@@ -769,8 +783,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, playoffMatches: updatedPlayoffMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      await saveTournamentsChecked(updatedTournaments, message => window.alert(message));
       return;
     }
 
@@ -783,8 +796,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         t0.id === tournament.id ? { ...t0, consolationMatches: updatedConsolationMatches } : t0
       );
 
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-      await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+      await saveTournamentsChecked(updatedTournaments, message => window.alert(message));
       return;
     }
 
@@ -800,8 +812,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
       t0.id === tournament.id ? { ...t0, groups: updatedGroups } : t0
     );
 
-    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, tournaments: updatedTournaments } : e));
-    await updateDoc(doc(db, "events", event.id), { tournaments: updatedTournaments });
+    await saveTournamentsChecked(updatedTournaments, message => window.alert(message));
   }
 
   // --- MODAL ANCHORING LOGIC (UNCHANGED FROM YOUR FILE) ---
@@ -1006,7 +1017,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
             Disponibilità di gioco
           </button>
         )}
-        {!isOrganizer && (
+        {!permissions.canViewAdmin && (
           <button onClick={() => setActiveTab('participants')}
             className={`px-4 py-2 rounded-full ${activeTab === 'participants'
               ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white shadow-lg'
@@ -1032,7 +1043,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         >
           Consolazione
         </button>
-        {isOrganizer && (
+        {permissions.canManageStructure && (
           <>
             <button onClick={() => setActiveTab('groups')}
               className={`px-4 py-2 rounded-full ${activeTab === 'groups'
@@ -1060,7 +1071,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
         >
           Regolamento
         </button>
-        {isOrganizer && (
+        {permissions.canManageStructure && (
           <button onClick={() => setActiveTab('settings')}
             className={`px-4 py-2 rounded-full ${activeTab === 'settings'
               ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white shadow-lg'
@@ -1113,12 +1124,15 @@ const TournamentView: React.FC<TournamentViewProps> = ({
                   players={competitorPlayers}
                   onEditResult={handleEditResult}
                   onBookMatch={handleBookMatch}
-                  isOrganizer={isOrganizer}
+                  permissions={permissions}
                   loggedInPlayerId={loggedInCompetitorId}
                   onPlayerContact={handlePlayerContact as any}
                   onRescheduleMatch={handleRescheduleMatch}
                   onCancelBooking={handleCancelBooking}
                   onDeleteResult={handleOpenDeleteResult}
+                  onRespondProposal={handleRespondProposal}
+                  onRespondResult={handleRespondResult}
+                  resultAutoConfirmHours={tournament.settings?.resultAutoConfirmHours}
                   viewingOwnGroup={true}
                 />
               </div>
@@ -1132,12 +1146,15 @@ const TournamentView: React.FC<TournamentViewProps> = ({
                   players={competitorPlayers}
                   onEditResult={handleEditResult}
                   onBookMatch={handleBookMatch}
-                  isOrganizer={isOrganizer}
+                  permissions={permissions}
                   loggedInPlayerId={loggedInCompetitorId}
                   onPlayerContact={handlePlayerContact as any}
                   onRescheduleMatch={handleRescheduleMatch}
                   onCancelBooking={handleCancelBooking}
                   onDeleteResult={handleOpenDeleteResult}
+                  onRespondProposal={handleRespondProposal}
+                  onRespondResult={handleRespondResult}
+                  resultAutoConfirmHours={tournament.settings?.resultAutoConfirmHours}
                   viewingOwnGroup={true}
                 />
               </div>
@@ -1151,12 +1168,15 @@ const TournamentView: React.FC<TournamentViewProps> = ({
                   players={competitorPlayers}
                   onEditResult={handleEditResult}
                   onBookMatch={handleBookMatch}
-                  isOrganizer={isOrganizer}
+                  permissions={permissions}
                   loggedInPlayerId={loggedInCompetitorId}
                   onPlayerContact={handlePlayerContact as any}
                   onRescheduleMatch={handleRescheduleMatch}
                   onCancelBooking={handleCancelBooking}
                   onDeleteResult={handleOpenDeleteResult}
+                  onRespondProposal={handleRespondProposal}
+                  onRespondResult={handleRespondResult}
+                  resultAutoConfirmHours={tournament.settings?.resultAutoConfirmHours}
                   viewingOwnGroup={selectedGroup.playerIds.includes(loggedInCompetitorId ?? "")}
                 />
               </div>
@@ -1169,17 +1189,17 @@ const TournamentView: React.FC<TournamentViewProps> = ({
                   <div ref={editingModalRef} style={editingModalStyle} className={modalBox}>
                     <h4 className="mb-4 font-bold text-lg text-accent">Modifica Risultato</h4>
                     <div className="flex flex-col gap-4">
-                      <div className="flex flex-col">
-                        <label className="font-bold mb-1 text-white">Risultato per {getCompetitorName(event, tournament, editingMatch.player1Id)}</label>
-                        <input type="number" min="0" value={score1} onChange={e => setScore1(e.target.value)} className="border px-3 py-2 rounded font-bold text-white bg-primary"/>
-                      </div>
-                      <div className="flex flex-col">
-                        <label className="font-bold mb-1 text-white">Risultato per {getCompetitorName(event, tournament, editingMatch.player2Id)}</label>
-                        <input type="number" min="0" value={score2} onChange={e => setScore2(e.target.value)} className="border px-3 py-2 rounded font-bold text-white bg-primary"/>
-                      </div>
+                      <ScoreEditor
+                        draft={scoreDraft}
+                        onChange={draft => { setScoreDraft(draft); setScoreError(""); }}
+                        player1Label={getCompetitorName(event, tournament, editingMatch.player1Id)}
+                        player2Label={getCompetitorName(event, tournament, editingMatch.player2Id)}
+                        allowedResultTypes={isPlayoffLeagueMatchId(editingMatch.id) || isConsolationLeagueMatchId(editingMatch.id) ? KNOCKOUT_RESULT_TYPES : undefined}
+                      />
+                      {scoreError && <div className="text-red-500 font-bold">{scoreError}</div>}
                       <div className="flex gap-2 justify-end pt-3">
                         <button onClick={() => { setEditingMatch(null); setEditingTriggerRect(null); }} className="bg-tertiary px-4 py-2 rounded">Annulla</button>
-                        <button disabled={score1 === "" || score2 === ""} onClick={async () => { if (editingMatch) { await saveMatchResult(editingMatch); } }} className="bg-highlight text-white px-4 py-2 rounded">Salva</button>
+                        <button onClick={async () => { if (editingMatch) { await saveMatchResult(editingMatch); } }} className="bg-highlight text-white px-4 py-2 rounded">Salva</button>
                       </div>
                     </div>
                   </div>
@@ -1259,7 +1279,7 @@ const TournamentView: React.FC<TournamentViewProps> = ({
           </div>
         )}
 
-        {activeTab === 'participants' && !isOrganizer && (
+        {activeTab === 'participants' && !permissions.canViewAdmin && (
           <ParticipantsTab event={event} tournament={tournament} loggedInPlayerId={loggedInPlayerId} />
         )}
 
@@ -1269,23 +1289,23 @@ const TournamentView: React.FC<TournamentViewProps> = ({
 
         {activeTab === 'playoffs' && (
           <div className="bg-secondary p-6 rounded-xl shadow-lg max-w-3xl mx-auto">
-            <Playoffs event={event} tournament={tournament} setEvents={setEvents} isOrganizer={isOrganizer} loggedInPlayerId={loggedInCompetitorId} />
+            <Playoffs event={event} tournament={tournament} setEvents={setEvents} permissions={permissions} loggedInPlayerId={loggedInCompetitorId} auditActor={auditActor} />
           </div>
         )}
 
         {activeTab === 'consolation' && (
-          <ConsolationBracket event={event} tournament={tournament} setEvents={setEvents} isOrganizer={isOrganizer} loggedInPlayerId={loggedInCompetitorId} />
+          <ConsolationBracket event={event} tournament={tournament} setEvents={setEvents} permissions={permissions} loggedInPlayerId={loggedInCompetitorId} auditActor={auditActor} />
         )}
 
-        {activeTab === 'groups' && isOrganizer && (
-          <GroupManagement event={event} tournament={tournament} setEvents={setEvents} isOrganizer={isOrganizer} />
+        {activeTab === 'groups' && permissions.canManageStructure && (
+          <GroupManagement event={event} tournament={tournament} setEvents={setEvents} permissions={permissions} />
         )}
 
-        {activeTab === 'players' && isOrganizer && (
-          <PlayerManagement event={event} setEvents={setEvents} isOrganizer={isOrganizer} onPlayerContact={handlePlayerContact} />
+        {activeTab === 'players' && permissions.canManageStructure && (
+          <PlayerManagement event={event} setEvents={setEvents} permissions={permissions} onPlayerContact={handlePlayerContact} />
         )}
 
-        {activeTab === 'settings' && isOrganizer && (
+        {activeTab === 'settings' && permissions.canManageStructure && (
           <TournamentSettings event={event} tournament={tournament} setEvents={setEvents} />
         )}
 
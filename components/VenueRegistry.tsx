@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { type Court, type CourtSurface, type Venue } from '../types';
+import { deleteVenue, saveVenue } from '../services/venueService';
+import { WEEKDAY_LABELS } from '../utils/slotSeries';
+import {
+  COURT_SURFACE_LABELS,
+  createClosureId,
+  createCourtId,
+  createVenueId,
+  describeCourt,
+} from '../utils/venues';
+import { PencilIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface VenueRegistryProps {
+  venues: Venue[];
+  ownerId: string;
+}
+
+const createEmptyVenue = (ownerId: string): Venue => ({
+  id: createVenueId(),
+  ownerId,
+  name: '',
+  courts: [{ id: createCourtId(), name: 'Campo 1', surface: 'clay', indoor: false }],
+  openingHours: [1, 2, 3, 4, 5, 6, 0].map(weekday => ({ weekday, open: '08:00', close: '22:00' })),
+  closures: [],
+});
+
+const validateVenue = (venue: Venue): string | null => {
+  if (!venue.name.trim()) return "Inserisci il nome dell'impianto.";
+  if (venue.courts.length === 0) return 'Aggiungi almeno un campo.';
+  if (venue.courts.some(court => !court.name.trim())) return 'Ogni campo deve avere un nome.';
+  if (new Set(venue.courts.map(court => court.name.trim().toLowerCase())).size !== venue.courts.length) return 'I nomi dei campi devono essere diversi.';
+  if (venue.openingHours.some(h => !h.open || !h.close || h.close <= h.open)) return "L'orario di chiusura deve seguire quello di apertura.";
+  if (venue.closures.some(c => !c.fromDate || !c.toDate || c.toDate < c.fromDate)) return 'Intervallo di chiusura non valido.';
+  return null;
+};
+
+const VenueRegistry: React.FC<VenueRegistryProps> = ({ venues, ownerId }) => {
+  const [draft, setDraft] = useState<Venue | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownVenues = venues
+    .filter(venue => venue.ownerId === ownerId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const updateDraft = (patch: Partial<Venue>) => setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  const updateCourt = (courtId: string, patch: Partial<Court>) =>
+    setDraft(prev => prev ? { ...prev, courts: prev.courts.map(c => c.id === courtId ? { ...c, ...patch } : c) } : prev);
+
+  const toggleWeekday = (weekday: number) => {
+    if (!draft) return;
+    const isOpen = draft.openingHours.some(h => h.weekday === weekday);
+    updateDraft({
+      openingHours: isOpen
+        ? draft.openingHours.filter(h => h.weekday !== weekday)
+        : [...draft.openingHours, { weekday, open: '08:00', close: '22:00' }],
+    });
+  };
+
+  const updateHours = (weekday: number, patch: { open?: string; close?: string }) => {
+    if (!draft) return;
+    updateDraft({ openingHours: draft.openingHours.map(h => h.weekday === weekday ? { ...h, ...patch } : h) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const venue: Venue = {
+      ...draft,
+      name: draft.name.trim(),
+      address: draft.address?.trim() || undefined,
+      courts: draft.courts.map(court => ({ ...court, name: court.name.trim() })),
+      closures: draft.closures.map(c => ({ ...c, reason: c.reason?.trim() || undefined })),
+    };
+    const validation = validateVenue(venue);
+    setError(validation);
+    if (validation) return;
+    setSaving(true);
+    try {
+      await saveVenue(venue);
+      setDraft(null);
+    } catch (err: any) {
+      console.error('Errore salvataggio impianto', err);
+      setError(err?.message || "Errore durante il salvataggio dell'impianto");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Slot e partite già creati mantengono l'etichetta testuale anche se l'impianto viene eliminato
+  const handleDelete = async (venue: Venue) => {
+    if (!window.confirm(`Eliminare l'impianto "${venue.name}"? Gli slot già creati manterranno solo nome e campo.`)) return;
+    try {
+      await deleteVenue(venue.id);
+    } catch (err: any) {
+      console.error('Errore eliminazione impianto', err);
+      setError(err?.message || "Errore durante l'eliminazione dell'impianto");
+    }
+  };
+
+  const inputClass = 'bg-primary border border-tertiary rounded-lg px-3 py-2 text-text-primary';
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold">Impianti e campi</h2>
+        {!draft && (
+          <button
+            onClick={() => { setDraft(createEmptyVenue(ownerId)); setError(null); }}
+            className="flex items-center gap-2 bg-highlight/80 hover:bg-highlight text-white font-bold py-2 px-4 rounded-lg transition-all shadow-lg"
+          >
+            <PlusIcon className="w-5 h-5" />
+            Nuovo impianto
+          </button>
+        )}
+      </div>
+
+      {error && !draft && (
+        <div className="rounded-lg border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>
+      )}
+
+      {draft && (
+        <div className="bg-secondary rounded-xl shadow-lg p-6 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-text-secondary">Nome impianto</span>
+              <input type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} placeholder="Es. Tennis Club Salò" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-text-secondary">Indirizzo</span>
+              <input type="text" value={draft.address ?? ''} onChange={e => updateDraft({ address: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-2">Campi</h4>
+            <div className="space-y-2">
+              {draft.courts.map(court => (
+                <div key={court.id} className="flex flex-wrap items-center gap-3 bg-tertiary/50 p-3 rounded-lg">
+                  <input type="text" value={court.name} onChange={e => updateCourt(court.id, { name: e.target.value })} className={inputClass} />
+                  <select value={court.surface} onChange={e => updateCourt(court.id, { surface: e.target.value as CourtSurface })} className={inputClass}>
+                    {(Object.keys(COURT_SURFACE_LABELS) as CourtSurface[]).map(surface => (
+                      <option key={surface} value={surface}>{COURT_SURFACE_LABELS[surface]}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={court.indoor} onChange={e => updateCourt(court.id, { indoor: e.target.checked })} />
+                    Coperto
+                  </label>
+                  <button type="button" onClick={() => updateDraft({ courts: draft.courts.filter(c => c.id !== court.id) })} className="text-red-400 hover:text-red-300 ml-auto">
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => updateDraft({ courts: [...draft.courts, { id: createCourtId(), name: `Campo ${draft.courts.length + 1}`, surface: 'clay', indoor: false }] })}
+              className="mt-2 px-3 py-1 rounded bg-tertiary text-text-primary text-sm font-semibold"
+            >
+              + Aggiungi campo
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-2">Orari di apertura</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {[1, 2, 3, 4, 5, 6, 0].map(weekday => {
+                const hours = draft.openingHours.find(h => h.weekday === weekday);
+                return (
+                  <div key={weekday} className="flex items-center gap-3 text-sm">
+                    <label className="flex items-center gap-2 w-20">
+                      <input type="checkbox" checked={!!hours} onChange={() => toggleWeekday(weekday)} />
+                      {WEEKDAY_LABELS[weekday]}
+                    </label>
+                    {hours ? (
+                      <>
+                        <input type="time" value={hours.open} onChange={e => updateHours(weekday, { open: e.target.value })} className={inputClass} />
+                        <span>–</span>
+                        <input type="time" value={hours.close} onChange={e => updateHours(weekday, { close: e.target.value })} className={inputClass} />
+                      </>
+                    ) : (
+                      <span className="text-text-secondary italic">Chiuso</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {draft.openingHours.length === 0 && (
+              <p className="text-xs text-text-secondary mt-2">Senza orari l'impianto è considerato sempre aperto.</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-bold text-accent uppercase tracking-wide mb-2">Chiusure straordinarie</h4>
+            <div className="space-y-2">
+              {draft.closures.map(closure => (
+                <div key={closure.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  <input type="date" value={closure.fromDate} onChange={e => updateDraft({ closures: draft.closures.map(c => c.id === closure.id ? { ...c, fromDate: e.target.value } : c) })} className={inputClass} />
+                  <span>→</span>
+                  <input type="date" value={closure.toDate} min={closure.fromDate} onChange={e => updateDraft({ closures: draft.closures.map(c => c.id === closure.id ? { ...c, toDate: e.target.value } : c) })} className={inputClass} />
+                  <input type="text" value={closure.reason ?? ''} placeholder="Motivo (facoltativo)" onChange={e => updateDraft({ closures: draft.closures.map(c => c.id === closure.id ? { ...c, reason: e.target.value } : c) })} className={`${inputClass} flex-1`} />
+                  <button type="button" onClick={() => updateDraft({ closures: draft.closures.filter(c => c.id !== closure.id) })} className="text-red-400 hover:text-red-300">
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => updateDraft({ closures: [...draft.closures, { id: createClosureId(), fromDate: '', toDate: '' }] })}
+              className="mt-2 px-3 py-1 rounded bg-tertiary text-text-primary text-sm font-semibold"
+            >
+              + Aggiungi chiusura
+            </button>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => { setDraft(null); setError(null); }} className="bg-tertiary px-4 py-2 rounded">Annulla</button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-green-600 hover:bg-green-700 text-white font-bold px-4 py-2 rounded disabled:bg-tertiary"
+            >
+              {saving ? 'Salvando...' : 'Salva impianto'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {ownVenues.length === 0 && !draft ? (
+        <p className="text-text-secondary text-center py-8">Nessun impianto registrato.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {ownVenues.map(venue => (
+            <div key={venue.id} className="bg-secondary rounded-xl shadow-lg p-5 space-y-2">
+              <div className="flex justify-between items-start gap-3">
+                <div>
+                  <h3 className="text-lg font-bold text-accent">{venue.name}</h3>
+                  {venue.address && <p className="text-sm text-text-secondary">{venue.address}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => { setDraft(venue); setError(null); }} className="text-text-secondary hover:text-accent">
+                    <PencilIcon className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => handleDelete(venue)} className="text-text-secondary hover:text-red-400">
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+              <ul className="text-sm space-y-1">
+                {venue.courts.map(court => <li key={court.id}>{describeCourt(court)}</li>)}
+              </ul>
+              <p className="text-xs text-text-secondary">
+                {venue.openingHours.length === 0
+                  ? 'Sempre aperto'
+                  : [...venue.openingHours]
+                    .sort((a, b) => ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7))
+                    .map(h => `${WEEKDAY_LABELS[h.weekday]} ${h.open}–${h.close}`)
+                    .join(' • ')}
+              </p>
+              {venue.closures.length > 0 && (
+                <p className="text-xs text-yellow-400">
+                  Chiusure: {venue.closures.map(c => `${c.fromDate}${c.toDate !== c.fromDate ? ` → ${c.toDate}` : ''}${c.reason ? ` (${c.reason})` : ''}`).join(', ')}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VenueRegistry;
@@ -40,9 +40,9 @@ export const MOCK_EVENTS: Event[] = [
             consolationSettings: [],
         },
         timeSlots: [
-            { id: 'ts1', time: new Date('2024-09-10T18:00:00').toISOString(), location: 'Campo 1', matchId: 'm3' },
-            { id: 'ts2', time: new Date('2024-09-10T19:00:00').toISOString(), location: 'Campo 1', matchId: null },
-            { id: 'ts3', time: new Date('2024-09-11T18:00:00').toISOString(), location: 'Campo 2', matchId: null },
+            { id: 'ts1', start: new Date('2024-09-10T18:00:00').toISOString(), location: 'Circolo', field: 'Campo 1' },
+            { id: 'ts2', start: new Date('2024-09-10T19:00:00').toISOString(), location: 'Circolo', field: 'Campo 1' },
+            { id: 'ts3', start: new Date('2024-09-11T18:00:00').toISOString(), location: 'Circolo', field: 'Campo 2' },
         ],
         playoffs: null,
         consolationBracket: null,
@@ -78,18 +78,23 @@ export const MOCK_EVENTS: Event[] = [
 
 const allPlayers = MOCK_EVENTS.flatMap(e => e.players);
 
+// account demo già attivi (services/memoryAuth.ts), tutti con la stessa password
+export const DEMO_PASSWORD = 'password';
+
+const demoAccount = (userId: string) => ({ authUid: `demo-${userId}`, authEmail: `${userId}@demo.local` });
+
 export const MOCK_USERS: User[] = [
     {
         id: 'user-organizer',
         username: 'organizer',
-        password: 'password',
-        role: 'organizer'
+        role: 'organizer',
+        ...demoAccount('user-organizer'),
     },
     ...allPlayers.map((player: Player): User => ({
         id: `user-${player.id}`,
         username: player.name,
-        password: '1234',
         role: 'participant',
         playerId: player.id,
+        ...demoAccount(`user-${player.id}`),
     }))
-];
\ No newline at end of file
+];
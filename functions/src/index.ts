@@ -0,0 +1,65 @@
+// functions/src/index.ts
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+
+/**
+ * Operazioni sugli account che l'SDK client non può fare
+ *
+ * lookupUsername: dallo username all'email interna dell'account, per il login e per
+ * controllare i nomi già presi alla registrazione. Serve a chi non è ancora connesso,
+ * così la collezione users resta leggibile solo dopo l'accesso; non restituisce altro.
+ *
+ * resetAccountPassword: l'organizzatore imposta una password temporanea sull'account
+ * Firebase Auth esistente di un utente (services/authService.ts → resetUserPassword).
+ * Le sessioni aperte con la vecchia password vengono chiuse.
+ *
+ * Gli utenti con la vecchia password in chiaro si migrano con src/migrateLegacyUsers.ts.
+ */
+
+initializeApp();
+
+const MIN_PASSWORD_LENGTH = 6;
+
+interface LookupUsernameRequest {
+  username: string;
+}
+
+export interface UsernameLookup {
+  exists: boolean;
+  // assente per gli utenti non ancora migrati
+  authEmail?: string;
+}
+
+export const lookupUsername = onCall<LookupUsernameRequest, Promise<UsernameLookup>>(async request => {
+  const username = typeof request.data?.username === "string" ? request.data.username.trim() : "";
+  if (!username) throw new HttpsError("invalid-argument", "Username mancante.");
+
+  const users = await getFirestore().collection("users").where("username", "==", username).get();
+  const authEmail = users.docs.map(d => d.get("authEmail")).find((email): email is string => typeof email === "string");
+  return authEmail ? { exists: true, authEmail } : { exists: !users.empty };
+});
+
+interface ResetAccountPasswordRequest {
+  authUid: string;
+  password: string;
+}
+
+export const resetAccountPassword = onCall<ResetAccountPasswordRequest>(async request => {
+  const callerUid = request.auth?.uid;
+  if (!callerUid) throw new HttpsError("unauthenticated", "Accesso richiesto.");
+
+  const callers = await getFirestore().collection("users").where("authUid", "==", callerUid).limit(1).get();
+  if (callers.empty || callers.docs[0].get("role") !== "organizer") {
+    throw new HttpsError("permission-denied", "Solo un organizzatore può reimpostare le password.");
+  }
+
+  const { authUid, password } = request.data ?? {};
+  if (typeof authUid !== "string" || !authUid || typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpsError("invalid-argument", "Account o password non validi.");
+  }
+
+  await getAuth().updateUser(authUid, { password });
+  await getAuth().revokeRefreshTokens(authUid);
+});
@@ -0,0 +1,88 @@
+// functions/src/migrateLegacyUsers.ts
+import { randomInt } from "node:crypto";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+
+/**
+ * Migrazione degli utenti con la vecchia password in chiaro (da lanciare una volta, prima
+ * di pubblicare l'app con il login su Firebase Auth)
+ *
+ * Gira con le credenziali di amministratore, quindi non serve nessuno già connesso:
+ * - ogni utente senza authUid riceve un account Firebase Auth con la sua password attuale
+ *   (o una temporanea, stampata qui, se troppo corta) e dovrà cambiarla al primo accesso
+ * - il campo password viene rimosso da tutti i documenti users
+ *
+ * Uso, dalla cartella functions/:
+ *   GCLOUD_PROJECT=<id progetto> GOOGLE_APPLICATION_CREDENTIALS=<chiave service account> npm run migrate-users
+ * Con `-- --dry-run` stampa solo cosa farebbe. Rilanciarlo è innocuo.
+ */
+
+const MIN_PASSWORD_LENGTH = 6;
+const TEMP_PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+
+const projectId = process.env.GCLOUD_PROJECT;
+if (!projectId) throw new Error("Imposta GCLOUD_PROJECT con l'id del progetto Firebase.");
+// stesso dominio delle email interne create dall'app (services/authService.ts)
+const authEmailDomain = `users.${process.env.AUTH_DOMAIN ?? `${projectId}.firebaseapp.com`}`;
+const dryRun = process.argv.includes("--dry-run");
+
+initializeApp({ projectId });
+
+const slugifyUsername = (username: string) =>
+  username
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ".")
+    .replace(/^\.+|\.+$/g, "") || "utente";
+
+const generateTemporaryPassword = (length = 10) =>
+  Array.from({ length }, () => TEMP_PASSWORD_ALPHABET[randomInt(TEMP_PASSWORD_ALPHABET.length)]).join("");
+
+const getErrorCode = (err: unknown) => (err as { code?: string } | null)?.code ?? "";
+
+// omonimi: email numerate, come nell'app
+const createAccount = async (username: string, password: string) => {
+  const slug = slugifyUsername(username);
+  for (let attempt = 1; attempt <= 50; attempt++) {
+    const email = `${attempt === 1 ? slug : `${slug}.${attempt}`}@${authEmailDomain}`;
+    try {
+      const { uid } = await getAuth().createUser({ email, password });
+      return { authUid: uid, authEmail: email };
+    } catch (err) {
+      if (getErrorCode(err) !== "auth/email-already-exists") throw err;
+    }
+  }
+  throw new Error(`Impossibile creare un account per ${username}.`);
+};
+
+const main = async () => {
+  const users = await getFirestore().collection("users").get();
+  for (const user of users.docs) {
+    const username = String(user.get("username") ?? user.id);
+    const password: unknown = user.get("password");
+
+    if (user.get("authUid")) {
+      if (password === undefined) continue;
+      console.log(`${username}: account già attivo, password in chiaro rimossa`);
+      if (!dryRun) await user.ref.update({ password: FieldValue.delete() });
+      continue;
+    }
+
+    const keepsPassword = typeof password === "string" && password.length >= MIN_PASSWORD_LENGTH;
+    const newPassword = keepsPassword ? password : generateTemporaryPassword();
+    console.log(keepsPassword
+      ? `${username}: account creato con la password attuale`
+      : `${username}: account creato con la password temporanea ${dryRun ? "(generata al lancio)" : newPassword}`);
+    if (dryRun) continue;
+    const account = await createAccount(username, newPassword);
+    await user.ref.update({ ...account, mustChangePassword: true, password: FieldValue.delete() });
+  }
+  if (dryRun) console.log("Anteprima: nessuna modifica salvata.");
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,27 @@
+// services/auditLogService.ts
+import { type AuditLogEntry } from "../types";
+import { repository, type Unsubscribe } from "./dataRepository";
+
+/**
+ * Servizio storico modifiche
+ *
+ * Subcollection:
+ * - events/{eventId}/audit_log (una voce per ogni modifica di risultato; solo aggiunte)
+ *
+ * Lo storico è separato dal documento evento, così un salvataggio dell'evento
+ * non può sovrascriverlo.
+ */
+
+export async function appendAuditEntry(entry: Omit<AuditLogEntry, 'id'> | null): Promise<void> {
+  if (!entry) return;
+  try {
+    await repository.auditLog.append(entry);
+  } catch (err) {
+    // il risultato è già salvato: lo storico mancante non deve bloccare l'utente
+    console.error("Errore scrittura storico modifiche", err);
+  }
+}
+
+export function subscribeAuditLog(eventId: string, onChange: (entries: AuditLogEntry[]) => void): Unsubscribe {
+  return repository.auditLog.subscribe(eventId, onChange, err => console.error("Errore lettura storico modifiche", err));
+}
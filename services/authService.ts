@@ -0,0 +1,283 @@
+// services/authService.ts
+import { getApps, initializeApp } from "firebase/app";
+import {
+  createUserWithEmailAndPassword,
+  getAuth,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut,
+  updatePassword,
+} from "firebase/auth";
+import { getFunctions, httpsCallable } from "firebase/functions";
+import { app, auth, connectAuth } from "../firebase";
+import { type User } from "../types";
+import { isDemoMode, repository, type Unsubscribe } from "./dataRepository";
+import { createMemoryAccounts } from "./memoryAuth";
+
+/**
+ * Servizio autenticazione (Firebase Auth)
+ *
+ * - Ogni documento users/{id} è collegato a un account Firebase Auth tramite authUid/authEmail.
+ *   Gli utenti entrano con lo username: l'email dell'account è interna e non riceve posta.
+ * - Gli account vengono creati su un'istanza Firebase secondaria, così l'organizzatore
+ *   che crea o resetta un account resta connesso con il proprio.
+ * - Le password non finiscono mai in Firestore: chi riceve una password temporanea
+ *   deve cambiarla al primo accesso (mustChangePassword). Gli utenti con la vecchia
+ *   password in chiaro non possono entrare finché l'organizzatore non li migra.
+ * - Lo username si risolve nell'email dell'account con la Cloud Function lookupUsername:
+ *   prima dell'accesso non si legge la collezione users.
+ * - Il reset della password cambia quella dell'account esistente tramite la Cloud
+ *   Function resetAccountPassword (functions/): l'SDK client non può farlo.
+ * - In modalità demo gli account vivono in memoria (services/memoryAuth.ts).
+ */
+
+const PROVISIONING_APP = "account-provisioning";
+const AUTH_EMAIL_DOMAIN = `users.${app.options.authDomain ?? "gestionale-tornei.app"}`;
+const TEMP_PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+export const MIN_PASSWORD_LENGTH = 6;
+
+export interface ProvisionedAccount {
+  authUid: string;
+  authEmail: string;
+  // presente solo se generata qui: va comunicata all'utente
+  temporaryPassword?: string;
+}
+
+export interface MigrationResult {
+  userId: string;
+  username: string;
+  temporaryPassword?: string;
+  error?: string;
+}
+
+export interface UsernameLookup {
+  exists: boolean;
+  // assente per gli utenti non ancora migrati
+  authEmail?: string;
+}
+
+/** Account primitives shared by Firebase Auth and the in-memory demo accounts. */
+export interface AccountsBackend {
+  /** Creates an account and returns its uid, without touching the current session. */
+  create(email: string, password: string): Promise<string>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  updatePassword(newPassword: string): Promise<void>;
+  /** Sets the password of another account (organizer only). */
+  resetPassword(authUid: string, newPassword: string): Promise<void>;
+  /** Whether `username` (exact match) has a user, and the email of its account; works signed out. */
+  lookupUsername(username: string): Promise<UsernameLookup>;
+  subscribe(onChange: (uid: string | null) => void): Unsubscribe;
+}
+
+const getProvisioningAuth = () => {
+  const existing = getApps().find(a => a.name === PROVISIONING_APP);
+  if (existing) return getAuth(existing);
+  return connectAuth(getAuth(initializeApp(app.options, PROVISIONING_APP)));
+};
+
+const firebaseAccounts: AccountsBackend = {
+  async create(email, password) {
+    const provisioningAuth = getProvisioningAuth();
+    const credential = await createUserWithEmailAndPassword(provisioningAuth, email, password);
+    await signOut(provisioningAuth);
+    return credential.user.uid;
+  },
+  async signIn(email, password) {
+    await signInWithEmailAndPassword(auth, email, password);
+  },
+  async signOut() {
+    await signOut(auth);
+  },
+  async updatePassword(newPassword) {
+    if (!auth.currentUser) throw new Error("Utente non autenticato.");
+    await updatePassword(auth.currentUser, newPassword);
+  },
+  async resetPassword(authUid, newPassword) {
+    await httpsCallable(getFunctions(app), "resetAccountPassword")({ authUid, password: newPassword });
+  },
+  async lookupUsername(username) {
+    const result = await httpsCallable<{ username: string }, UsernameLookup>(getFunctions(app), "lookupUsername")({ username });
+    return result.data;
+  },
+  subscribe: onChange => onAuthStateChanged(auth, firebaseUser => onChange(firebaseUser?.uid ?? null)),
+};
+
+const accounts = isDemoMode ? createMemoryAccounts() : firebaseAccounts;
+
+const slugifyUsername = (username: string) =>
+  username
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ".")
+    .replace(/^\.+|\.+$/g, "") || "utente";
+
+export function generateTemporaryPassword(length = 10): string {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, v => TEMP_PASSWORD_ALPHABET[v % TEMP_PASSWORD_ALPHABET.length]).join("");
+}
+
+const getErrorCode = (err: unknown) => (err as { code?: string } | null)?.code ?? "";
+
+export function describeAuthError(err: unknown): string {
+  switch (getErrorCode(err)) {
+    case "auth/invalid-credential":
+    case "auth/wrong-password":
+    case "auth/user-not-found":
+    case "auth/invalid-email":
+      return "Username o password non validi.";
+    case "auth/too-many-requests":
+      return "Troppi tentativi falliti. Riprova tra qualche minuto.";
+    case "auth/network-request-failed":
+      return "Connessione non disponibile. Riprova.";
+    case "auth/weak-password":
+      return `La password deve essere di almeno ${MIN_PASSWORD_LENGTH} caratteri.`;
+    default:
+      return err instanceof Error ? err.message : "Errore di autenticazione.";
+  }
+}
+
+/**
+ * Creates a Firebase Auth account for `username`. Without `password` a
+ * temporary one is generated and returned. Homonyms get a numbered email.
+ */
+export async function provisionAuthAccount(username: string, password?: string): Promise<ProvisionedAccount> {
+  const temporaryPassword = password ? undefined : generateTemporaryPassword();
+  const slug = slugifyUsername(username);
+
+  for (let attempt = 1; attempt <= 50; attempt++) {
+    const authEmail = `${attempt === 1 ? slug : `${slug}.${attempt}`}@${AUTH_EMAIL_DOMAIN}`;
+    try {
+      const authUid = await accounts.create(authEmail, password ?? temporaryPassword!);
+      const account: ProvisionedAccount = { authUid, authEmail };
+      if (temporaryPassword) account.temporaryPassword = temporaryPassword;
+      return account;
+    } catch (err) {
+      if (getErrorCode(err) !== "auth/email-already-in-use") throw err;
+    }
+  }
+  throw new Error(`Impossibile creare un account per ${username}.`);
+}
+
+/** Creates the participant user linked to `playerId` and returns its temporary password. */
+export async function createParticipantUser(username: string, playerId: string): Promise<string> {
+  const account = await provisionAuthAccount(username);
+  await repository.users.create({
+    username,
+    role: "participant",
+    playerId,
+    authUid: account.authUid,
+    authEmail: account.authEmail,
+    mustChangePassword: true,
+  });
+  return account.temporaryPassword!;
+}
+
+/**
+ * Self-registration: creates the participant with the password they chose.
+ * Returns the account email, to sign in once the registration is complete.
+ */
+export async function registerParticipant(username: string, playerId: string, password: string): Promise<string> {
+  const account = await provisionAuthAccount(username, password);
+  await repository.users.create({
+    username,
+    role: "participant",
+    playerId,
+    authUid: account.authUid,
+    authEmail: account.authEmail,
+  });
+  return account.authEmail;
+}
+
+export async function signInWithAuthEmail(authEmail: string, password: string): Promise<void> {
+  try {
+    await accounts.signIn(authEmail, password);
+  } catch (err) {
+    throw new Error(describeAuthError(err));
+  }
+}
+
+const migrateUser = async (user: User) => {
+  const account = await provisionAuthAccount(user.username);
+  await repository.users.update(user.id, {
+    authUid: account.authUid,
+    authEmail: account.authEmail,
+    mustChangePassword: true,
+    password: undefined,
+  });
+  return account;
+};
+
+/** Whether an account with exactly this username (trimmed) already exists. */
+export async function isUsernameTaken(username: string): Promise<boolean> {
+  return (await accounts.lookupUsername(username.trim())).exists;
+}
+
+export async function signInWithUsername(username: string, password: string): Promise<void> {
+  const { exists, authEmail } = await accounts.lookupUsername(username.trim());
+  if (!exists) throw new Error("Username o password non validi.");
+  if (!authEmail) {
+    throw new Error("Account non ancora attivato: chiedi all'organizzatore la password temporanea.");
+  }
+  try {
+    await accounts.signIn(authEmail, password);
+  } catch (err) {
+    throw new Error(describeAuthError(err));
+  }
+}
+
+export async function signOutCurrentUser(): Promise<void> {
+  await accounts.signOut();
+}
+
+/** Notifies the uid of the signed-in account (null when signed out), starting with the current one. */
+export const subscribeAuthState = (onChange: (uid: string | null) => void): Unsubscribe => accounts.subscribe(onChange);
+
+/** Sets the password chosen at first login, right after signing in with the temporary one. */
+export async function completePasswordChange(userId: string, newPassword: string): Promise<void> {
+  try {
+    await accounts.updatePassword(newPassword);
+  } catch (err) {
+    if (getErrorCode(err) === "auth/requires-recent-login") {
+      throw new Error("Sessione scaduta: esci e accedi di nuovo con la password temporanea.");
+    }
+    throw new Error(describeAuthError(err));
+  }
+  await repository.users.update(userId, { mustChangePassword: undefined });
+}
+
+/**
+ * Organizer-initiated reset: the user's existing account gets a temporary
+ * password, to change at the next login.
+ */
+export async function resetUserPassword(user: User): Promise<string> {
+  if (!user.authUid) throw new Error(`${user.username} non ha ancora un account: va prima migrato.`);
+  const temporaryPassword = generateTemporaryPassword();
+  try {
+    await accounts.resetPassword(user.authUid, temporaryPassword);
+  } catch (err) {
+    throw new Error(describeAuthError(err));
+  }
+  await repository.users.update(user.id, { mustChangePassword: true });
+  return temporaryPassword;
+}
+
+/**
+ * One-off migration of users still holding a plaintext password: each one
+ * gets a Firebase Auth account with a temporary password, reported in the
+ * result, and the old password is removed from Firestore. The old password is
+ * never read: until migrated here these users cannot sign in.
+ */
+export async function migrateLegacyUsers(users: User[]): Promise<MigrationResult[]> {
+  const results: MigrationResult[] = [];
+  for (const user of users.filter(u => !u.authUid)) {
+    try {
+      const account = await migrateUser(user);
+      results.push({ userId: user.id, username: user.username, temporaryPassword: account.temporaryPassword });
+    } catch (err) {
+      results.push({ userId: user.id, username: user.username, error: describeAuthError(err) });
+    }
+  }
+  return results;
+}
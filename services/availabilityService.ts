@@ -1,20 +1,8 @@
 // services/availabilityService.ts
-import {
-  collection,
-  query,
-  where,
-  getDocs,
-  setDoc,
-  doc,
-  deleteDoc,
-  serverTimestamp,
-  orderBy,
-  getDoc,
-} from "firebase/firestore";
-import { db } from "../firebase";
+import { repository } from "./dataRepository";
 
 /**
- * Servizio disponibilità
+ * Servizio disponibilità (i dati passano dal repository, vedi dataRepository.ts)
  *
  * Collections:
  * - availabilities (legacy per data+slot)
@@ -62,132 +50,45 @@ export interface DateUnavailability {
   updatedAt?: any;
 }
 
-// --- collections ---
-const AVAIL_COL = "availabilities"; // legacy
-const GLOBAL_COL = "availability_settings";
-const SLOT_PREF_COL = "slot_preferences";
-const DATE_UNAVAIL_COL = "date_unavailabilities";
-
 // --- legacy: per-date availabilities (lasciamo le funzioni se servono) ---
-function docIdAvail(playerId: string, date: string, slot: string) {
-  return `${playerId}_${date}_${slot}`;
-}
+export const setAvailability = (playerId: string, date: string, slot: string, isAvailable: boolean) =>
+  repository.availability.setAvailability(playerId, date, slot, isAvailable);
 
-export async function setAvailability(playerId: string, date: string, slot: string, isAvailable: boolean): Promise<void> {
-  const id = docIdAvail(playerId, date, slot);
-  const ref = doc(db, AVAIL_COL, id);
-  await setDoc(ref, { playerId, date, slot, isAvailable, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
-}
-
-export async function removeAvailability(playerId: string, date: string, slot: string): Promise<void> {
-  const id = docIdAvail(playerId, date, slot);
-  const ref = doc(db, AVAIL_COL, id);
-  await deleteDoc(ref);
-}
+export const removeAvailability = (playerId: string, date: string, slot: string) =>
+  repository.availability.removeAvailability(playerId, date, slot);
 
-export async function getUserAvailabilities(playerId: string, startDate: string, endDate: string): Promise<AvailabilityRecord[]> {
-  const c = collection(db, AVAIL_COL);
-  const q = query(c, where("playerId", "==", playerId), where("date", ">=", startDate), where("date", "<=", endDate), orderBy("date", "asc"));
-  const snap = await getDocs(q);
-  return snap.docs.map(d => ({ id: d.id, ...(d.data() as AvailabilityRecord) }));
-}
+export const getUserAvailabilities = (playerId: string, startDate: string, endDate: string) =>
+  repository.availability.getUserAvailabilities(playerId, startDate, endDate);
 
 // --- GLOBAL availability (simple on/off per player) ---
-export async function setGlobalAvailability(playerId: string, available: boolean): Promise<void> {
-  const ref = doc(db, GLOBAL_COL, playerId);
-  await setDoc(ref, { playerId, available, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
-}
+export const setGlobalAvailability = (playerId: string, available: boolean) =>
+  repository.availability.setGlobalAvailability(playerId, available);
 
-export async function removeGlobalAvailability(playerId: string): Promise<void> {
-  const ref = doc(db, GLOBAL_COL, playerId);
-  await deleteDoc(ref);
-}
+export const removeGlobalAvailability = (playerId: string) =>
+  repository.availability.removeGlobalAvailability(playerId);
 
-export async function getGlobalAvailability(playerId: string): Promise<GlobalAvailability | null> {
-  const ref = doc(db, GLOBAL_COL, playerId);
-  const snap = await getDoc(ref);
-  if (!snap.exists()) return null;
-  return { id: snap.id, ...(snap.data() as GlobalAvailability) };
-}
+export const getGlobalAvailability = (playerId: string) =>
+  repository.availability.getGlobalAvailability(playerId);
 
-export async function getGlobalAvailabilitiesForPlayers(playerIds: string[]): Promise<GlobalAvailability[]> {
-  const results: GlobalAvailability[] = [];
-  if (!playerIds || playerIds.length === 0) return results;
-  const CHUNK = 10;
-  for (let i = 0; i < playerIds.length; i += CHUNK) {
-    const chunk = playerIds.slice(i, i + CHUNK);
-    const c = collection(db, GLOBAL_COL);
-    const q = query(c, where("playerId", "in", chunk));
-    const snap = await getDocs(q);
-    snap.docs.forEach(d => results.push({ id: d.id, ...(d.data() as GlobalAvailability) }));
-  }
-  return results;
-}
+export const getGlobalAvailabilitiesForPlayers = (playerIds: string[]) =>
+  repository.availability.getGlobalAvailabilitiesForPlayers(playerIds);
 
 // --- DATE unavailabilities (per-player per-date) ---
-function docIdDateUnavail(playerId: string, date: string) {
-  return `${playerId}_${date}`;
-}
+export const setDateUnavailability = (playerId: string, date: string, unavailable: boolean) =>
+  repository.availability.setDateUnavailability(playerId, date, unavailable);
 
-export async function setDateUnavailability(playerId: string, date: string, unavailable: boolean): Promise<void> {
-  const id = docIdDateUnavail(playerId, date);
-  const ref = doc(db, DATE_UNAVAIL_COL, id);
-  await setDoc(ref, { playerId, date, unavailable, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
-}
+export const removeDateUnavailability = (playerId: string, date: string) =>
+  repository.availability.removeDateUnavailability(playerId, date);
 
-export async function removeDateUnavailability(playerId: string, date: string): Promise<void> {
-  const id = docIdDateUnavail(playerId, date);
-  const ref = doc(db, DATE_UNAVAIL_COL, id);
-  await deleteDoc(ref);
-}
-
-export async function getDateUnavailabilitiesForPlayers(playerIds: string[], startDate?: string, endDate?: string): Promise<DateUnavailability[]> {
-  const results: DateUnavailability[] = [];
-  if (!playerIds || playerIds.length === 0) return results;
-  const CHUNK = 10;
-  for (let i = 0; i < playerIds.length; i += CHUNK) {
-    const chunk = playerIds.slice(i, i + CHUNK);
-    const c = collection(db, DATE_UNAVAIL_COL);
-    // Build query: playerId in chunk, optional date range
-    let q;
-    if (startDate && endDate) {
-      q = query(c, where("playerId", "in", chunk), where("date", ">=", startDate), where("date", "<=", endDate), orderBy("date", "asc"));
-    } else {
-      q = query(c, where("playerId", "in", chunk));
-    }
-    const snap = await getDocs(q);
-    snap.docs.forEach(d => results.push({ id: d.id, ...(d.data() as DateUnavailability) }));
-  }
-  return results;
-}
+export const getDateUnavailabilitiesForPlayers = (playerIds: string[], startDate?: string, endDate?: string) =>
+  repository.availability.getDateUnavailabilitiesForPlayers(playerIds, startDate, endDate);
 
 // --- SLOT preferences (per slot created by admin) ---
-function docIdSlotPref(playerId: string, slotId: string) {
-  return `${playerId}_${slotId}`;
-}
+export const setSlotPreference = (playerId: string, slotId: string, isPreferred: boolean) =>
+  repository.availability.setSlotPreference(playerId, slotId, isPreferred);
 
-export async function setSlotPreference(playerId: string, slotId: string, isPreferred: boolean): Promise<void> {
-  const id = docIdSlotPref(playerId, slotId);
-  const ref = doc(db, SLOT_PREF_COL, id);
-  await setDoc(ref, { playerId, slotId, isPreferred, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
-}
+export const removeSlotPreference = (playerId: string, slotId: string) =>
+  repository.availability.removeSlotPreference(playerId, slotId);
 
-export async function removeSlotPreference(playerId: string, slotId: string): Promise<void> {
-  const id = docIdSlotPref(playerId, slotId);
-  const ref = doc(db, SLOT_PREF_COL, id);
-  await deleteDoc(ref);
-}
-
-export async function getSlotPreferencesForPlayers(playerIds: string[]): Promise<SlotPreference[]> {
-  const results: SlotPreference[] = [];
-  if (!playerIds || playerIds.length === 0) return results;
-  const CHUNK = 10;
-  for (let i = 0; i < playerIds.length; i += CHUNK) {
-    const chunk = playerIds.slice(i, i + CHUNK);
-    const c = collection(db, SLOT_PREF_COL);
-    const q = query(c, where("playerId", "in", chunk));
-    const snap = await getDocs(q);
-    snap.docs.forEach(d => results.push({ id: d.id, ...(d.data() as SlotPreference) }));
-  }
-  return results;
-}
+export const getSlotPreferencesForPlayers = (playerIds: string[]) =>
+  repository.availability.getSlotPreferencesForPlayers(playerIds);
@@ -0,0 +1,229 @@
+// services/dataRepository.ts
+import {
+  type AuditLogEntry,
+  type Event,
+  type EventRole,
+  type Match,
+  type Player,
+  type SummerRankingData,
+  type Tournament,
+  type User,
+  type Venue,
+} from "../types";
+import { replaceTournamentMatch } from "../utils/proposals";
+import { CURRENT_SCHEMA_VERSION, getChangedFields, migrateEvent, type MigrationContext, type StoredEvent } from "../utils/schemaMigrations";
+import type { AvailabilityRecord, DateUnavailability, GlobalAvailability, SlotPreference } from "./availabilityService";
+import { createFirestoreBackend } from "./firestoreRepository";
+import { createMemoryBackend } from "./memoryRepository";
+
+/**
+ * Livello di accesso ai dati
+ *
+ * I componenti leggono e scrivono solo tramite `repository`, mai con l'SDK Firestore.
+ * Due implementazioni con la stessa API:
+ * - Firestore (default)
+ * - in memoria, con i dati di data/mockData.ts: DEMO_MODE=true in .env.local
+ *   fa girare l'app senza Firebase, con dati sempre uguali a ogni avvio
+ *
+ * Nei patch un campo a undefined viene rimosso dal documento.
+ *
+ * Gli eventi arrivano ai componenti già portati all'ultima versione dello schema
+ * (utils/schemaMigrations.ts); su database restano come sono finché non vengono
+ * salvati o finché un organizzatore non lancia le migrazioni (services/migrationService.ts).
+ * Le scritture controllate salvano prima la migrazione, così confrontano dati nella stessa forma.
+ *
+ * Prenotazioni e risultati passano da scritture controllate (tournaments.saveChecked,
+ * matches.save, events.updateRankingChecked): se nel frattempo qualcuno ha cambiato la stessa partita, preso lo
+ * stesso slot o lo stesso campo alla stessa ora (in qualsiasi evento) non viene scritto nulla e si riceve un
+ * WriteConflictError.
+ */
+
+export type Unsubscribe = () => void;
+
+export type EventPatch = Partial<Omit<Event, 'id'>>;
+export type PlayerPatch = Partial<Omit<Player, 'id'>>;
+export type UserPatch = Partial<Omit<User, 'id'>>;
+
+export type WriteConflictCode = 'slot-taken' | 'court-taken' | 'data-changed';
+
+const WRITE_CONFLICT_MESSAGES: Record<WriteConflictCode, string> = {
+  'slot-taken': "Slot già preso: qualcun altro l'ha appena prenotato. Ricarica la pagina e scegline un altro.",
+  'court-taken': "Campo già occupato a quell'ora: qualcuno l'ha appena prenotato, anche in un altro evento. Ricarica la pagina e scegli un altro orario.",
+  'data-changed': 'Dati cambiati nel frattempo: qualcun altro ha appena modificato questa partita. Ricarica la pagina e riprova.',
+};
+
+export type WriteConflictError = Error & { code: WriteConflictCode };
+
+export const createWriteConflict = (code: WriteConflictCode): WriteConflictError =>
+  Object.assign(new Error(WRITE_CONFLICT_MESSAGES[code]), { code });
+
+export const isWriteConflict = (err: unknown): err is WriteConflictError => {
+  const code = (err as { code?: unknown } | null)?.code;
+  return err instanceof Error && typeof code === 'string' && code in WRITE_CONFLICT_MESSAGES;
+};
+
+export interface EventsRepository {
+  subscribe(onChange: (events: Event[]) => void): Unsubscribe;
+  /** Every event exactly as stored, without the read-time schema migrations. */
+  listStored(): Promise<StoredEvent[]>;
+  /** One event exactly as stored. */
+  getStored(eventId: string): Promise<StoredEvent>;
+  create(data: Omit<Event, 'id'>): Promise<string>;
+  update(eventId: string, patch: EventPatch): Promise<void>;
+  remove(eventId: string): Promise<void>;
+  /**
+   * Appends a pending registration and counts one use of the invitation code. Deadline,
+   * expiry, maximum uses and duplicates are checked on the stored event in the same
+   * atomic write; if one fails nothing is written and the error carries its message.
+   */
+  addJoinRequest(eventId: string, player: Player): Promise<void>;
+  /** Grants `role` to `userId`, or revokes it when `role` is null. */
+  setRole(eventId: string, userId: string, role: EventRole | null): Promise<void>;
+  /** Ranking saved before it moved into the event document, if any. */
+  getLegacySummerRanking(): Promise<SummerRankingData | null>;
+  /**
+   * Atomically writes `next` if everything it changes still equals `base` (what the caller
+   * read) and no other match holds a slot it books, or one of its courts at the same start in any
+   * event; otherwise throws a WriteConflictError.
+   */
+  updateTournamentsChecked(eventId: string, base: Tournament[], next: Tournament[]): Promise<void>;
+  /** Same check as `updateTournamentsChecked`, for the ranking data and its matches. */
+  updateRankingChecked(eventId: string, base: SummerRankingData, next: SummerRankingData): Promise<void>;
+}
+
+export interface TournamentsRepository {
+  save(eventId: string, tournaments: Tournament[]): Promise<void>;
+  /** Like `save`, but fails with a WriteConflictError if `base` is out of date or a booked slot was taken. */
+  saveChecked(eventId: string, base: Tournament[], tournaments: Tournament[]): Promise<void>;
+}
+
+export interface MatchesRepository {
+  /**
+   * Replaces `match` in its group or bracket mirror and saves the event tournaments.
+   * Checked against `event`: throws a WriteConflictError if the match changed meanwhile.
+   */
+  save(event: Pick<Event, 'id' | 'tournaments'>, tournamentId: string, match: Match): Promise<void>;
+}
+
+export interface PlayersRepository {
+  subscribe(onChange: (players: Player[]) => void): Unsubscribe;
+  findByNameAndPhone(name: string, phone: string): Promise<Player | null>;
+  create(data: Omit<Player, 'id'>): Promise<string>;
+  update(playerId: string, patch: PlayerPatch): Promise<void>;
+  remove(playerId: string): Promise<void>;
+}
+
+export interface UsersRepository {
+  subscribe(onChange: (users: User[]) => void): Unsubscribe;
+  findByUsername(username: string): Promise<User[]>;
+  findByPlayerId(playerId: string): Promise<User[]>;
+  create(data: Omit<User, 'id'>): Promise<string>;
+  update(userId: string, patch: UserPatch): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+export interface AvailabilityRepository {
+  setAvailability(playerId: string, date: string, slot: string, isAvailable: boolean): Promise<void>;
+  removeAvailability(playerId: string, date: string, slot: string): Promise<void>;
+  getUserAvailabilities(playerId: string, startDate: string, endDate: string): Promise<AvailabilityRecord[]>;
+  setGlobalAvailability(playerId: string, available: boolean): Promise<void>;
+  removeGlobalAvailability(playerId: string): Promise<void>;
+  getGlobalAvailability(playerId: string): Promise<GlobalAvailability | null>;
+  getGlobalAvailabilitiesForPlayers(playerIds: string[]): Promise<GlobalAvailability[]>;
+  setDateUnavailability(playerId: string, date: string, unavailable: boolean): Promise<void>;
+  removeDateUnavailability(playerId: string, date: string): Promise<void>;
+  getDateUnavailabilitiesForPlayers(playerIds: string[], startDate?: string, endDate?: string): Promise<DateUnavailability[]>;
+  setSlotPreference(playerId: string, slotId: string, isPreferred: boolean): Promise<void>;
+  removeSlotPreference(playerId: string, slotId: string): Promise<void>;
+  getSlotPreferencesForPlayers(playerIds: string[]): Promise<SlotPreference[]>;
+  /** Live slot preferences of `playerIds`; every call receives the full list. */
+  subscribeSlotPreferences(playerIds: string[], onChange: (preferences: SlotPreference[]) => void): Unsubscribe;
+  /** Live date unavailabilities of `playerIds`; every call receives the full list. */
+  subscribeDateUnavailabilities(playerIds: string[], onChange: (entries: DateUnavailability[]) => void): Unsubscribe;
+}
+
+export interface VenuesRepository {
+  subscribe(onChange: (venues: Venue[]) => void): Unsubscribe;
+  save(venue: Venue): Promise<void>;
+  remove(venueId: string): Promise<void>;
+}
+
+export interface AuditLogRepository {
+  append(entry: Omit<AuditLogEntry, 'id'>): Promise<void>;
+  /** Entries of the event, newest first. */
+  subscribe(eventId: string, onChange: (entries: AuditLogEntry[]) => void, onError?: (err: unknown) => void): Unsubscribe;
+}
+
+/** What a storage backend has to provide; tournaments and matches are built on top of events. */
+export interface DataBackend {
+  events: EventsRepository;
+  players: PlayersRepository;
+  users: UsersRepository;
+  availability: AvailabilityRepository;
+  venues: VenuesRepository;
+  auditLog: AuditLogRepository;
+}
+
+export interface DataRepository extends DataBackend {
+  tournaments: TournamentsRepository;
+  matches: MatchesRepository;
+}
+
+export const createRepository = (backend: DataBackend): DataRepository => {
+  let migrationContext: Promise<MigrationContext> | null = null;
+  const getMigrationContext = () => migrationContext ??= backend.events.getLegacySummerRanking()
+    .catch(error => {
+      console.error('Errore lettura fallback Summer Ranking Next', error);
+      return null;
+    })
+    .then(legacySummerRanking => ({ legacySummerRanking }));
+
+  // le scritture controllate confrontano dati già migrati con quelli salvati:
+  // un evento ancora a una versione vecchia va prima salvato nell'ultima
+  const saveMigrated = async (eventId: string) => {
+    const stored = await backend.events.getStored(eventId);
+    if ((stored.schemaVersion ?? 0) >= CURRENT_SCHEMA_VERSION) return;
+    const { event } = migrateEvent(stored, await getMigrationContext());
+    await backend.events.update(eventId, getChangedFields(stored, event));
+  };
+
+  const events: EventsRepository = {
+    ...backend.events,
+    subscribe: onChange => {
+      let active = true;
+      const unsubscribe = backend.events.subscribe(stored => {
+        void getMigrationContext().then(context => {
+          if (active) onChange(stored.map(event => migrateEvent(event, context).event));
+        });
+      });
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+    async updateTournamentsChecked(eventId, base, next) {
+      await saveMigrated(eventId);
+      await backend.events.updateTournamentsChecked(eventId, base, next);
+    },
+    async updateRankingChecked(eventId, base, next) {
+      await saveMigrated(eventId);
+      await backend.events.updateRankingChecked(eventId, base, next);
+    },
+  };
+  const tournaments: TournamentsRepository = {
+    save: (eventId, nextTournaments) => backend.events.update(eventId, { tournaments: nextTournaments }),
+    saveChecked: (eventId, base, nextTournaments) => events.updateTournamentsChecked(eventId, base, nextTournaments),
+  };
+  const matches: MatchesRepository = {
+    save: (event, tournamentId, match) => tournaments.saveChecked(
+      event.id,
+      event.tournaments,
+      event.tournaments.map(t => t.id === tournamentId ? replaceTournamentMatch(t, match) : t),
+    ),
+  };
+  return { ...backend, events, tournaments, matches };
+};
+
+export const isDemoMode = process.env.DEMO_MODE === 'true';
+
+export const repository: DataRepository = createRepository(isDemoMode ? createMemoryBackend() : createFirestoreBackend());
@@ -0,0 +1,488 @@
+// services/firestoreEvents.ts
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  where,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
+  type Query,
+  type QueryDocumentSnapshot,
+  type WriteBatch,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { type Event, type Match, type SummerRankingData, type Tournament } from "../types";
+import { getOccupiedSlotIds } from "../utils/proposals";
+import { getCourtClaimIds } from "../utils/venues";
+import { removeUndefined } from "../utils/removeUndefined";
+import { stableStringify } from "../utils/stableStringify";
+import { createWriteConflict, type EventPatch, type EventsRepository, type Unsubscribe } from "./dataRepository";
+
+/**
+ * Eventi su Firestore, divisi in sottocollezioni
+ *
+ * - events/{eventId}: dati dell'evento (giocatori, slot, regole, ruoli, rankingData senza partite)
+ * - events/{eventId}/tournaments/{tournamentId}: torneo senza gironi né partite (tabelloni inclusi)
+ * - events/{eventId}/tournaments/{tournamentId}/groups/{groupId}: girone senza partite
+ * - events/{eventId}/tournaments/{tournamentId}/matches/{matchId}: partita di girone (groupId)
+ *   o di tabellone (bracket: 'playoff' | 'consolation')
+ * - events/{eventId}/ranking_matches/{matchId}: partite del ranking
+ *
+ * I documenti figli hanno un campo `order` che ricostruisce l'ordine degli array.
+ * Chi scrive passa sempre l'evento intero (o un patch): qui si confronta con quanto
+ * già salvato e si scrivono solo i documenti cambiati, così due risultati inseriti
+ * insieme su partite diverse non si sovrascrivono.
+ *
+ * Prenotazioni e risultati usano una transazione (updateTournamentsChecked,
+ * updateRankingChecked): ogni documento toccato deve essere ancora quello letto dal
+ * client, e ogni slot prenotato viene "reclamato" in events/{eventId}/slot_claims/{slotId}.
+ * Un reclamo vale finché la partita che lo ha fatto occupa ancora lo slot, quindi quelli
+ * rimasti indietro (partite spostate con scritture normali) non bloccano nessuno; gli slot
+ * occupati senza reclamo si riconoscono rileggendo le partite che li hanno.
+ * Allo stesso modo ogni campo di un impianto prenotato a un orario viene reclamato in
+ * court_claims/{courtId}_{inizio in ms}, fuori dagli eventi, così lo stesso campo alla stessa
+ * ora non si prende due volte anche da eventi diversi. Non si può cercare chi lo occupa senza
+ * reclamo in tutti gli eventi, né vedere sovrapposizioni con inizi diversi: quelle le segnala
+ * solo il controllo nel client (utils/venues.ts getCourtIssue) prima di salvare.
+ *
+ * Gli eventi nel formato precedente (tutto dentro events/{id}) si leggono così come
+ * sono e vengono migrati appena arrivano dal listener, o alla prima scrittura.
+ */
+
+export const EVENTS_COL = "events";
+const TOURNAMENTS_COL = "tournaments";
+const GROUPS_COL = "groups";
+const MATCHES_COL = "matches";
+const RANKING_MATCHES_COL = "ranking_matches";
+const SLOT_CLAIMS_COL = "slot_claims";
+const COURT_CLAIMS_COL = "court_claims";
+const CHILD_COLS = [TOURNAMENTS_COL, GROUPS_COL, MATCHES_COL, RANKING_MATCHES_COL];
+
+// Firestore accetta al massimo 500 scritture per batch
+const BATCH_LIMIT = 450;
+
+type StoredDoc = DocumentData;
+
+// documento dell'evento + documenti figli per percorso relativo ("tournaments/t1/matches/m1")
+interface StoredEventDoc {
+  data: StoredDoc;
+  children: Map<string, StoredDoc>;
+}
+
+// campi a undefined = campi da rimuovere (Firestore rifiuta undefined)
+export const toFirestorePatch = (patch: object) =>
+  Object.fromEntries(Object.entries(patch).map(([key, value]) => [key, value === undefined ? deleteField() : value]));
+
+const relativePath = (path: string) => path.split("/").slice(2).join("/");
+
+const isLegacy = (data: StoredDoc) =>
+  Array.isArray(data.tournaments) || Array.isArray((data.rankingData as Partial<SummerRankingData> | undefined)?.matches);
+
+export const splitTournaments = (tournaments: Tournament[]): Map<string, StoredDoc> => {
+  const children = new Map<string, StoredDoc>();
+  const put = (path: string, data: object) => children.set(path, removeUndefined(data));
+  tournaments.forEach((tournament, order) => {
+    const { groups, playoffMatches, consolationMatches, ...rest } = tournament;
+    const base = `${TOURNAMENTS_COL}/${tournament.id}`;
+    put(base, { ...rest, order });
+    (groups ?? []).forEach((group, groupOrder) => {
+      const { matches, ...groupRest } = group;
+      put(`${base}/${GROUPS_COL}/${group.id}`, { ...groupRest, order: groupOrder });
+      (matches ?? []).forEach((match, matchOrder) =>
+        put(`${base}/${MATCHES_COL}/${match.id}`, { ...match, groupId: group.id, order: matchOrder }));
+    });
+    (playoffMatches ?? []).forEach((match, matchOrder) =>
+      put(`${base}/${MATCHES_COL}/${match.id}`, { ...match, bracket: "playoff", order: matchOrder }));
+    (consolationMatches ?? []).forEach((match, matchOrder) =>
+      put(`${base}/${MATCHES_COL}/${match.id}`, { ...match, bracket: "consolation", order: matchOrder }));
+  });
+  return children;
+};
+
+const splitRankingMatches = (matches: Match[]) =>
+  new Map<string, StoredDoc>(matches.map((match, order) => [`${RANKING_MATCHES_COL}/${match.id}`, removeUndefined({ ...match, order })]));
+
+const byOrder = (a: StoredDoc, b: StoredDoc) => Number(a.order ?? 0) - Number(b.order ?? 0);
+const withoutOrder = ({ order, ...rest }: StoredDoc) => rest;
+const toMatch = ({ order, groupId, bracket, ...match }: StoredDoc) => match as Match;
+
+export const assembleTournaments = (children: Map<string, StoredDoc>): Tournament[] => {
+  const tournaments: StoredDoc[] = [];
+  const groups = new Map<string, StoredDoc[]>();
+  const matches = new Map<string, StoredDoc[]>();
+  children.forEach((data, path) => {
+    const [col, tournamentId, sub] = path.split("/");
+    if (col !== TOURNAMENTS_COL) return;
+    if (!sub) {
+      tournaments.push({ ...data, id: tournamentId });
+      return;
+    }
+    const target = sub === GROUPS_COL ? groups : matches;
+    target.set(tournamentId, [...(target.get(tournamentId) ?? []), data]);
+  });
+
+  return tournaments.sort(byOrder).map(tournament => {
+    const tournamentMatches = (matches.get(tournament.id) ?? []).sort(byOrder);
+    const pick = (filter: (match: StoredDoc) => boolean) => tournamentMatches.filter(filter).map(toMatch);
+    return {
+      ...withoutOrder(tournament),
+      groups: (groups.get(tournament.id) ?? []).sort(byOrder).map(group => ({
+        ...withoutOrder(group),
+        matches: pick(match => match.groupId === group.id),
+      })),
+      playoffMatches: pick(match => match.bracket === "playoff"),
+      consolationMatches: pick(match => match.bracket === "consolation"),
+    } as Tournament;
+  });
+};
+
+const assembleRankingMatches = (children: Map<string, StoredDoc>): Match[] =>
+  [...children.entries()]
+    .filter(([path]) => path.startsWith(`${RANKING_MATCHES_COL}/`))
+    .map(([, data]) => data)
+    .sort(byOrder)
+    .map(toMatch);
+
+const assembleEvent = (id: string, { data, children }: StoredEventDoc): Event => {
+  const rankingData = data.rankingData as SummerRankingData | undefined;
+  return {
+    ...data,
+    id,
+    tournaments: Array.isArray(data.tournaments) ? data.tournaments : assembleTournaments(children),
+    ...(rankingData
+      ? { rankingData: { ...rankingData, matches: Array.isArray(rankingData.matches) ? rankingData.matches : assembleRankingMatches(children) } }
+      : {}),
+  } as Event;
+};
+
+/**
+ * Turns a patch into the event document fields (undefined = remove) and the child documents
+ * to write (null = delete). Only children that differ from `stored` are returned; an event in
+ * the previous format is moved entirely into subcollections.
+ */
+const planWrite = (stored: StoredEventDoc, patch: EventPatch) => {
+  const { tournaments, rankingData, ...rest } = patch;
+  const legacy = isLegacy(stored.data) ? assembleEvent("", stored) : null;
+  const fields: StoredDoc = { ...rest };
+  const next = new Map<string, StoredDoc>();
+  const sections: string[] = [];
+
+  if ("tournaments" in patch || legacy) {
+    sections.push(TOURNAMENTS_COL);
+    splitTournaments(tournaments ?? legacy?.tournaments ?? []).forEach((data, path) => next.set(path, data));
+    if (legacy) fields.tournaments = undefined;
+  }
+
+  if ("rankingData" in patch || legacy?.rankingData) {
+    sections.push(RANKING_MATCHES_COL);
+    const nextRanking = "rankingData" in patch ? rankingData : legacy?.rankingData;
+    if (nextRanking) {
+      const { matches, ...rankingRest } = nextRanking;
+      fields.rankingData = removeUndefined(rankingRest);
+      splitRankingMatches(matches ?? []).forEach((data, path) => next.set(path, data));
+    } else {
+      fields.rankingData = undefined;
+    }
+  }
+
+  const writes = new Map<string, StoredDoc | null>();
+  const inSections = (path: string) => sections.some(section => path.startsWith(`${section}/`));
+  next.forEach((data, path) => {
+    const current = stored.children.get(path);
+    if (!current || stableStringify(current) !== stableStringify(data)) writes.set(path, data);
+  });
+  stored.children.forEach((_, path) => {
+    if (inSections(path) && !next.has(path)) writes.set(path, null);
+  });
+  return { fields, writes };
+};
+
+const commit = async (ops: Array<(batch: WriteBatch) => void>) => {
+  for (let i = 0; i < ops.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    ops.slice(i, i + BATCH_LIMIT).forEach(op => op(batch));
+    await batch.commit();
+  }
+};
+
+const childWrites = (eventId: string, writes: Map<string, StoredDoc | null>) =>
+  [...writes].map(([path, data]) => (batch: WriteBatch) => {
+    const ref = doc(db, EVENTS_COL, eventId, path);
+    if (data) batch.set(ref, data);
+    else batch.delete(ref);
+  });
+
+const isMatchPath = (path: string) => {
+  const parts = path.split("/");
+  return parts[0] === RANKING_MATCHES_COL || parts[2] === MATCHES_COL;
+};
+const occupiedSlots = (data?: StoredDoc | null) => (data ? getOccupiedSlotIds(toMatch(data)) : []);
+const occupiedCourts = (data?: StoredDoc | null) => (data ? getCourtClaimIds(toMatch(data)) : []);
+
+// campo del documento dell'evento scritto insieme ai documenti figli (rankingData senza partite)
+interface CheckedField {
+  name: string;
+  base: StoredDoc;
+  next: StoredDoc;
+}
+
+// partite che occupano lo slot secondo i dati salvati: in una transazione non si fanno query,
+// quindi si cercano prima e dentro si rileggono una per una
+const findSlotHolders = async (eventRef: DocumentReference, slotId: string, matchCols: string[]) => {
+  const paths = new Set<string>();
+  for (const col of matchCols) {
+    for (const field of ["slotId", "proposal.slotId"]) {
+      const snapshot = await getDocs(query(collection(eventRef, col), where(field, "==", slotId)));
+      snapshot.docs.forEach(d => paths.add(relativePath(d.ref.path)));
+    }
+  }
+  return [...paths];
+};
+
+/**
+ * Writes the child documents that differ between `baseDocs` and `nextDocs` (and `field`, if it
+ * changed) in one transaction, only if the stored ones still equal the base. `matchCols` are the
+ * collections holding the matches that may occupy a booked slot.
+ */
+const commitChecked = async (
+  eventId: string,
+  baseDocs: Map<string, StoredDoc>,
+  nextDocs: Map<string, StoredDoc>,
+  matchCols: string[],
+  field?: CheckedField,
+) => {
+  const eventRef = doc(db, EVENTS_COL, eventId);
+  const changed = [...new Set([...baseDocs.keys(), ...nextDocs.keys()])]
+    .filter(path => stableStringify(baseDocs.get(path) ?? null) !== stableStringify(nextDocs.get(path) ?? null));
+  const changedField = field && stableStringify(field.base) !== stableStringify(field.next) ? field : null;
+
+  const claimed: Array<{ slotId: string; path: string }> = [];
+  const released: Array<{ slotId: string; path: string }> = [];
+  const courtsClaimed: Array<{ claimId: string; path: string }> = [];
+  const courtsReleased: Array<{ claimId: string; path: string }> = [];
+  changed.filter(isMatchPath).forEach(path => {
+    const before = occupiedSlots(baseDocs.get(path));
+    const after = occupiedSlots(nextDocs.get(path));
+    after.filter(slotId => !before.includes(slotId)).forEach(slotId => claimed.push({ slotId, path }));
+    before.filter(slotId => !after.includes(slotId)).forEach(slotId => released.push({ slotId, path }));
+    const courtsBefore = occupiedCourts(baseDocs.get(path));
+    const courtsAfter = occupiedCourts(nextDocs.get(path));
+    courtsAfter.filter(claimId => !courtsBefore.includes(claimId)).forEach(claimId => courtsClaimed.push({ claimId, path }));
+    courtsBefore.filter(claimId => !courtsAfter.includes(claimId)).forEach(claimId => courtsReleased.push({ claimId, path }));
+  });
+
+  // gli slot prenotati prima dei reclami (o con scritture normali) non hanno un reclamo valido:
+  // contano le partite che li occupano davvero
+  const candidates = new Map<string, string[]>();
+  for (const { slotId } of claimed) {
+    if (!candidates.has(slotId)) candidates.set(slotId, await findSlotHolders(eventRef, slotId, matchCols));
+  }
+
+  await runTransaction(db, async transaction => {
+    // in una transazione tutte le letture vanno fatte prima delle scritture
+    for (const path of changed) {
+      const snapshot = await transaction.get(doc(eventRef, path));
+      const current = snapshot.exists() ? snapshot.data() : null;
+      if (stableStringify(current) !== stableStringify(baseDocs.get(path) ?? null)) throw createWriteConflict("data-changed");
+    }
+    if (changedField) {
+      const snapshot = await transaction.get(eventRef);
+      const current = snapshot.data()?.[changedField.name] ?? null;
+      if (stableStringify(current) !== stableStringify(changedField.base)) throw createWriteConflict("data-changed");
+    }
+    for (const { slotId, path } of claimed) {
+      const claim = await transaction.get(doc(eventRef, SLOT_CLAIMS_COL, slotId));
+      const claimPath = claim.exists() ? (claim.data().matchPath as string) : null;
+      const holderPaths = new Set([...(claimPath ? [claimPath] : []), ...candidates.get(slotId)!]);
+      holderPaths.delete(path);
+      for (const holderPath of holderPaths) {
+        const holder = changed.includes(holderPath)
+          ? nextDocs.get(holderPath)
+          : (await transaction.get(doc(eventRef, holderPath))).data();
+        if (occupiedSlots(holder).includes(slotId)) throw createWriteConflict("slot-taken");
+      }
+    }
+    // il reclamo del campo può essere di un altro evento: vale finché quella partita lo occupa ancora
+    for (const { claimId, path } of courtsClaimed) {
+      const claim = await transaction.get(doc(db, COURT_CLAIMS_COL, claimId));
+      if (!claim.exists()) continue;
+      const { eventId: holderEventId, matchPath } = claim.data() as { eventId: string; matchPath: string };
+      if (holderEventId === eventId && matchPath === path) continue;
+      const holder = holderEventId === eventId && changed.includes(matchPath)
+        ? nextDocs.get(matchPath)
+        : (await transaction.get(doc(db, EVENTS_COL, holderEventId, matchPath))).data();
+      if (occupiedCourts(holder).includes(claimId)) throw createWriteConflict("court-taken");
+    }
+    const ownClaims: string[] = [];
+    for (const { slotId, path } of released) {
+      const claim = await transaction.get(doc(eventRef, SLOT_CLAIMS_COL, slotId));
+      if (claim.exists() && claim.data().matchPath === path) ownClaims.push(slotId);
+    }
+    const ownCourtClaims: string[] = [];
+    for (const { claimId, path } of courtsReleased) {
+      const claim = await transaction.get(doc(db, COURT_CLAIMS_COL, claimId));
+      if (claim.exists() && claim.data().eventId === eventId && claim.data().matchPath === path) ownCourtClaims.push(claimId);
+    }
+
+    changed.forEach(path => {
+      const data = nextDocs.get(path);
+      if (data) transaction.set(doc(eventRef, path), data);
+      else transaction.delete(doc(eventRef, path));
+    });
+    if (changedField) transaction.update(eventRef, { [changedField.name]: changedField.next });
+    ownClaims.forEach(slotId => transaction.delete(doc(eventRef, SLOT_CLAIMS_COL, slotId)));
+    claimed.forEach(({ slotId, path }) => transaction.set(doc(eventRef, SLOT_CLAIMS_COL, slotId), {
+      matchPath: path,
+      claimedAt: new Date().toISOString(),
+    }));
+    ownCourtClaims.forEach(claimId => transaction.delete(doc(db, COURT_CLAIMS_COL, claimId)));
+    courtsClaimed.forEach(({ claimId, path }) => transaction.set(doc(db, COURT_CLAIMS_COL, claimId), {
+      eventId,
+      matchPath: path,
+      claimedAt: new Date().toISOString(),
+    }));
+  });
+};
+
+const commitTournamentsChecked = (eventId: string, base: Tournament[], next: Tournament[]) => {
+  const tournamentIds = new Set([...base, ...next].map(tournament => tournament.id));
+  return commitChecked(
+    eventId,
+    splitTournaments(base),
+    splitTournaments(next),
+    [...tournamentIds].map(id => `${TOURNAMENTS_COL}/${id}/${MATCHES_COL}`),
+  );
+};
+
+const commitRankingChecked = (eventId: string, base: SummerRankingData, next: SummerRankingData) => {
+  const { matches: baseMatches, ...baseRest } = base;
+  const { matches: nextMatches, ...nextRest } = next;
+  return commitChecked(
+    eventId,
+    splitRankingMatches(baseMatches ?? []),
+    splitRankingMatches(nextMatches ?? []),
+    [RANKING_MATCHES_COL],
+    { name: "rankingData", base: removeUndefined(baseRest), next: removeUndefined(nextRest) },
+  );
+};
+
+const loadStoredEvent = async (eventId: string): Promise<StoredEventDoc> => {
+  const eventRef = doc(db, EVENTS_COL, eventId);
+  const snapshot = await getDoc(eventRef);
+  if (!snapshot.exists()) throw new Error(`Evento ${eventId} non trovato.`);
+  const children = new Map<string, StoredDoc>();
+  const add = (docs: QueryDocumentSnapshot[]) => docs.forEach(d => children.set(relativePath(d.ref.path), d.data()));
+
+  const tournaments = await getDocs(collection(eventRef, TOURNAMENTS_COL));
+  add(tournaments.docs);
+  for (const tournament of tournaments.docs) {
+    add((await getDocs(collection(tournament.ref, GROUPS_COL))).docs);
+    add((await getDocs(collection(tournament.ref, MATCHES_COL))).docs);
+  }
+  add((await getDocs(collection(eventRef, RANKING_MATCHES_COL))).docs);
+  return { data: snapshot.data(), children };
+};
+
+export const createFirestoreEvents = (): Pick<EventsRepository, "subscribe" | "listStored" | "getStored" | "create" | "update" | "remove" | "updateTournamentsChecked" | "updateRankingChecked"> => {
+  // ultimo stato ricevuto dal listener: base per capire cosa è cambiato
+  const stored = new Map<string, StoredEventDoc>();
+  const migrated = new Set<string>();
+
+  const getStoredDoc = async (eventId: string) => stored.get(eventId) ?? loadStoredEvent(eventId);
+
+  const update = async (eventId: string, patch: EventPatch) => {
+    const { fields, writes } = planWrite(await getStoredDoc(eventId), patch);
+    const ops = childWrites(eventId, writes);
+    // il documento dell'evento per ultimo: durante una migrazione resta leggibile nel formato vecchio
+    if (Object.keys(fields).length > 0) {
+      ops.push(batch => batch.update(doc(db, EVENTS_COL, eventId), toFirestorePatch(fields)));
+    }
+    await commit(ops);
+  };
+
+  const migrate = (eventId: string) => {
+    if (migrated.has(eventId)) return;
+    migrated.add(eventId);
+    update(eventId, {}).catch(error => {
+      console.error(`Errore migrazione evento ${eventId} in sottocollezioni`, error);
+    });
+  };
+
+  return {
+    subscribe(onChange) {
+      const snapshots = new Map<string, QueryDocumentSnapshot[]>();
+      const emit = () => {
+        // si aspetta la prima risposta di tutti i listener: niente eventi mezzi vuoti
+        if (snapshots.size < CHILD_COLS.length + 1) return;
+        const children = new Map<string, Map<string, StoredDoc>>();
+        CHILD_COLS.forEach(name => snapshots.get(name)!.forEach(d => {
+          const [root, eventId] = d.ref.path.split("/");
+          if (root !== EVENTS_COL) return;
+          if (!children.has(eventId)) children.set(eventId, new Map());
+          children.get(eventId)!.set(relativePath(d.ref.path), d.data());
+        }));
+        stored.clear();
+        snapshots.get(EVENTS_COL)!.forEach(d => stored.set(d.id, { data: d.data(), children: children.get(d.id) ?? new Map() }));
+        onChange([...stored].map(([id, event]) => assembleEvent(id, event)));
+        stored.forEach((event, id) => { if (isLegacy(event.data)) migrate(id); });
+      };
+      const listen = (name: string, source: Query) => onSnapshot(source, snapshot => {
+        snapshots.set(name, snapshot.docs);
+        emit();
+      });
+
+      const unsubscribes: Unsubscribe[] = [
+        listen(EVENTS_COL, collection(db, EVENTS_COL)),
+        ...CHILD_COLS.map(name => listen(name, collectionGroup(db, name))),
+      ];
+      return () => {
+        unsubscribes.forEach(u => u());
+        stored.clear();
+      };
+    },
+
+    async listStored() {
+      const snapshot = await getDocs(collection(db, EVENTS_COL));
+      return Promise.all(snapshot.docs.map(async d => assembleEvent(d.id, await loadStoredEvent(d.id))));
+    },
+
+    getStored: async eventId => assembleEvent(eventId, await getStoredDoc(eventId)),
+
+    async create(data) {
+      const eventRef = doc(collection(db, EVENTS_COL));
+      const { fields, writes } = planWrite({ data: {}, children: new Map() }, data);
+      await commit([
+        batch => batch.set(eventRef, removeUndefined(fields)),
+        ...childWrites(eventRef.id, writes),
+      ]);
+      return eventRef.id;
+    },
+
+    update,
+
+    async updateTournamentsChecked(eventId, base, next) {
+      // il controllo lavora sui documenti separati: un evento nel formato vecchio va prima migrato
+      if (isLegacy((await getStoredDoc(eventId)).data)) await update(eventId, {});
+      await commitTournamentsChecked(eventId, base, next);
+    },
+
+    async updateRankingChecked(eventId, base, next) {
+      if (isLegacy((await getStoredDoc(eventId)).data)) await update(eventId, {});
+      await commitRankingChecked(eventId, base, next);
+    },
+
+    async remove(eventId) {
+      const { children } = await getStoredDoc(eventId);
+      const ops = childWrites(eventId, new Map([...children.keys()].map(path => [path, null])));
+      ops.push(batch => batch.delete(doc(db, EVENTS_COL, eventId)));
+      await commit(ops);
+    },
+  };
+};
@@ -0,0 +1,237 @@
+// services/firestoreRepository.ts
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { type AuditLogEntry, type Event, type Player, type SummerRankingData, type User, type Venue } from "../types";
+import { getJoinRequestError } from "../utils/invitations";
+import { removeUndefined } from "../utils/removeUndefined";
+import type { AvailabilityRecord, DateUnavailability, GlobalAvailability, SlotPreference } from "./availabilityService";
+import type { AvailabilityRepository, DataBackend, Unsubscribe } from "./dataRepository";
+import { createFirestoreEvents, EVENTS_COL, toFirestorePatch } from "./firestoreEvents";
+
+/**
+ * Implementazione Firestore del livello dati
+ *
+ * Collections:
+ * - events, con tornei, gironi e partite in sottocollezioni (vedi firestoreEvents.ts)
+ * - events/{eventId}/audit_log (storico modifiche, solo aggiunte)
+ * - players, users, venues
+ * - availabilities (legacy per data+slot)
+ * - availability_settings (global on/off per player)
+ * - slot_preferences (preference per slot)
+ * - date_unavailabilities (per-player per-date non disponibilità)
+ */
+
+export const PLAYERS_COL = "players";
+export const USERS_COL = "users";
+export const VENUES_COL = "venues";
+export const AUDIT_LOG_COL = "audit_log";
+const LEGACY_RANKING_DOC = ["summerRankingNext", "main"] as const;
+
+const AVAIL_COL = "availabilities"; // legacy
+const GLOBAL_COL = "availability_settings";
+const SLOT_PREF_COL = "slot_preferences";
+const DATE_UNAVAIL_COL = "date_unavailabilities";
+
+// Firestore 'in' supports up to 10 values
+const IN_CHUNK = 10;
+
+const chunk = <T,>(items: T[]) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += IN_CHUNK) chunks.push(items.slice(i, i + IN_CHUNK));
+  return chunks;
+};
+
+const subscribeCollection = <T,>(name: string, onChange: (items: T[]) => void): Unsubscribe =>
+  onSnapshot(collection(db, name), snapshot => {
+    onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as T));
+  });
+
+// se un documento ha ancora la vecchia password in chiaro (functions/src/migrateLegacyUsers.ts la rimuove) non arriva ai componenti
+const toUser = (d: QueryDocumentSnapshot): User => {
+  const { password, ...data } = d.data();
+  return { ...data, id: d.id } as User;
+};
+
+// query "playerId in ..." divisa a blocchi: ogni notifica riporta l'elenco completo
+const subscribeByPlayerIds = <T,>(name: string, playerIds: string[], onChange: (items: T[]) => void): Unsubscribe => {
+  const byChunk = new Map<number, T[]>();
+  const unsubscribes = chunk(playerIds).map((ids, index) =>
+    onSnapshot(query(collection(db, name), where("playerId", "in", ids)), snapshot => {
+      byChunk.set(index, snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as T));
+      onChange([...byChunk.values()].flat());
+    }),
+  );
+  return () => unsubscribes.forEach(u => u());
+};
+
+const getByPlayerIds = async <T,>(name: string, playerIds: string[], ...constraints: QueryConstraint[]): Promise<T[]> => {
+  const results: T[] = [];
+  for (const ids of chunk(playerIds ?? [])) {
+    const snap = await getDocs(query(collection(db, name), where("playerId", "in", ids), ...constraints));
+    snap.docs.forEach(d => results.push({ id: d.id, ...d.data() } as T));
+  }
+  return results;
+};
+
+const createAvailabilityRepository = (): AvailabilityRepository => ({
+  async setAvailability(playerId, date, slot, isAvailable) {
+    await setDoc(doc(db, AVAIL_COL, `${playerId}_${date}_${slot}`), { playerId, date, slot, isAvailable, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
+  },
+  async removeAvailability(playerId, date, slot) {
+    await deleteDoc(doc(db, AVAIL_COL, `${playerId}_${date}_${slot}`));
+  },
+  async getUserAvailabilities(playerId, startDate, endDate) {
+    const q = query(collection(db, AVAIL_COL), where("playerId", "==", playerId), where("date", ">=", startDate), where("date", "<=", endDate), orderBy("date", "asc"));
+    const snap = await getDocs(q);
+    return snap.docs.map(d => ({ id: d.id, ...(d.data() as AvailabilityRecord) }));
+  },
+
+  async setGlobalAvailability(playerId, available) {
+    await setDoc(doc(db, GLOBAL_COL, playerId), { playerId, available, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
+  },
+  async removeGlobalAvailability(playerId) {
+    await deleteDoc(doc(db, GLOBAL_COL, playerId));
+  },
+  async getGlobalAvailability(playerId) {
+    const snap = await getDoc(doc(db, GLOBAL_COL, playerId));
+    if (!snap.exists()) return null;
+    return { id: snap.id, ...(snap.data() as GlobalAvailability) };
+  },
+  getGlobalAvailabilitiesForPlayers: playerIds => getByPlayerIds<GlobalAvailability>(GLOBAL_COL, playerIds),
+
+  async setDateUnavailability(playerId, date, unavailable) {
+    await setDoc(doc(db, DATE_UNAVAIL_COL, `${playerId}_${date}`), { playerId, date, unavailable, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
+  },
+  async removeDateUnavailability(playerId, date) {
+    await deleteDoc(doc(db, DATE_UNAVAIL_COL, `${playerId}_${date}`));
+  },
+  getDateUnavailabilitiesForPlayers: (playerIds, startDate, endDate) => startDate && endDate
+    ? getByPlayerIds<DateUnavailability>(DATE_UNAVAIL_COL, playerIds, where("date", ">=", startDate), where("date", "<=", endDate), orderBy("date", "asc"))
+    : getByPlayerIds<DateUnavailability>(DATE_UNAVAIL_COL, playerIds),
+
+  async setSlotPreference(playerId, slotId, isPreferred) {
+    await setDoc(doc(db, SLOT_PREF_COL, `${playerId}_${slotId}`), { playerId, slotId, isPreferred, updatedAt: serverTimestamp(), createdAt: serverTimestamp() }, { merge: true });
+  },
+  async removeSlotPreference(playerId, slotId) {
+    await deleteDoc(doc(db, SLOT_PREF_COL, `${playerId}_${slotId}`));
+  },
+  getSlotPreferencesForPlayers: playerIds => getByPlayerIds<SlotPreference>(SLOT_PREF_COL, playerIds),
+
+  subscribeSlotPreferences: (playerIds, onChange) => subscribeByPlayerIds(SLOT_PREF_COL, playerIds, onChange),
+  subscribeDateUnavailabilities: (playerIds, onChange) => subscribeByPlayerIds(DATE_UNAVAIL_COL, playerIds, onChange),
+});
+
+export const createFirestoreBackend = (): DataBackend => ({
+  events: {
+    ...createFirestoreEvents(),
+    // arrayUnion/increment: chi si iscrive non ha (e non deve sovrascrivere) la lista completa;
+    // la transazione rilegge l'evento, così due iscrizioni insieme non superano i posti del codice
+    async addJoinRequest(eventId, player) {
+      const eventRef = doc(db, EVENTS_COL, eventId);
+      await runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(eventRef);
+        if (!snapshot.exists()) throw new Error(`Evento ${eventId} non trovato.`);
+        const joinError = getJoinRequestError(snapshot.data() as Event, player.id);
+        if (joinError) throw new Error(joinError);
+        transaction.update(eventRef, {
+          players: arrayUnion(player),
+          "invitation.uses": increment(1),
+        });
+      });
+    },
+    async setRole(eventId, userId, role) {
+      await updateDoc(doc(db, EVENTS_COL, eventId), {
+        [`roles.${userId}`]: role ?? deleteField(),
+      });
+    },
+    async getLegacySummerRanking() {
+      const snapshot = await getDoc(doc(db, ...LEGACY_RANKING_DOC));
+      return snapshot.exists() ? (snapshot.data() as SummerRankingData) : null;
+    },
+  },
+
+  players: {
+    subscribe: onChange => subscribeCollection<Player>(PLAYERS_COL, onChange),
+    async findByNameAndPhone(name, phone) {
+      const snap = await getDocs(query(collection(db, PLAYERS_COL), where("name", "==", name), where("phone", "==", phone)));
+      if (snap.empty) return null;
+      return { ...snap.docs[0].data(), id: snap.docs[0].id } as Player;
+    },
+    async create(data) {
+      const ref = await addDoc(collection(db, PLAYERS_COL), data);
+      return ref.id;
+    },
+    async update(playerId, patch) {
+      await updateDoc(doc(db, PLAYERS_COL, playerId), toFirestorePatch(patch));
+    },
+    async remove(playerId) {
+      await deleteDoc(doc(db, PLAYERS_COL, playerId));
+    },
+  },
+
+  users: {
+    subscribe: onChange => onSnapshot(collection(db, USERS_COL), snapshot => onChange(snapshot.docs.map(toUser))),
+    async findByUsername(username) {
+      const snap = await getDocs(query(collection(db, USERS_COL), where("username", "==", username)));
+      return snap.docs.map(toUser);
+    },
+    async findByPlayerId(playerId) {
+      const snap = await getDocs(query(collection(db, USERS_COL), where("playerId", "==", playerId)));
+      return snap.docs.map(toUser);
+    },
+    async create(data) {
+      const ref = await addDoc(collection(db, USERS_COL), data);
+      return ref.id;
+    },
+    async update(userId, patch) {
+      await updateDoc(doc(db, USERS_COL, userId), toFirestorePatch(patch));
+    },
+    async remove(userId) {
+      await deleteDoc(doc(db, USERS_COL, userId));
+    },
+  },
+
+  availability: createAvailabilityRepository(),
+
+  venues: {
+    subscribe: onChange => subscribeCollection<Venue>(VENUES_COL, onChange),
+    async save(venue) {
+      await setDoc(doc(db, VENUES_COL, venue.id), removeUndefined(venue));
+    },
+    async remove(venueId) {
+      await deleteDoc(doc(db, VENUES_COL, venueId));
+    },
+  },
+
+  auditLog: {
+    async append(entry) {
+      await addDoc(collection(db, EVENTS_COL, entry.eventId, AUDIT_LOG_COL), removeUndefined(entry));
+    },
+    subscribe(eventId, onChange, onError) {
+      const q = query(collection(db, EVENTS_COL, eventId, AUDIT_LOG_COL), orderBy("createdAt", "desc"));
+      return onSnapshot(q, snapshot => {
+        onChange(snapshot.docs.map(d => ({ ...(d.data() as Omit<AuditLogEntry, 'id'>), id: d.id })));
+      }, onError);
+    },
+  },
+});
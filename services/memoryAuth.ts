@@ -0,0 +1,72 @@
+// services/memoryAuth.ts
+import { DEMO_PASSWORD, MOCK_USERS } from "../data/mockData";
+import type { AccountsBackend } from "./authService";
+import { repository } from "./dataRepository";
+
+/**
+ * Account di accesso in memoria (modalità demo)
+ *
+ * Stessa interfaccia degli account Firebase Auth usati da authService. Gli
+ * errori riportano gli stessi codici "auth/..." così i messaggi non cambiano.
+ * Gli utenti di data/mockData.ts partono con l'account già attivo (DEMO_PASSWORD).
+ */
+
+const authError = (code: string) => Object.assign(new Error(code), { code });
+
+export const createMemoryAccounts = (): AccountsBackend => {
+  const passwords = new Map<string, string>();
+  const uids = new Map<string, string>();
+  const listeners = new Set<(uid: string | null) => void>();
+  let currentUid: string | null = null;
+  let nextUid = 1;
+
+  MOCK_USERS.forEach(user => {
+    if (!user.authEmail || !user.authUid) return;
+    passwords.set(user.authEmail, DEMO_PASSWORD);
+    uids.set(user.authEmail, user.authUid);
+  });
+
+  const setCurrentUid = (uid: string | null) => {
+    currentUid = uid;
+    listeners.forEach(listener => listener(uid));
+  };
+
+  return {
+    async create(email, password) {
+      // stesso minimo di Firebase Auth
+      if (password.length < 6) throw authError("auth/weak-password");
+      if (passwords.has(email)) throw authError("auth/email-already-in-use");
+      const uid = `demo-uid-${nextUid++}`;
+      passwords.set(email, password);
+      uids.set(email, uid);
+      return uid;
+    },
+    async signIn(email, password) {
+      if (passwords.get(email) !== password) throw authError("auth/invalid-credential");
+      setCurrentUid(uids.get(email)!);
+    },
+    async signOut() {
+      setCurrentUid(null);
+    },
+    async updatePassword(newPassword) {
+      const email = [...uids.entries()].find(([, uid]) => uid === currentUid)?.[0];
+      if (!email) throw new Error("Utente non autenticato.");
+      passwords.set(email, newPassword);
+    },
+    async resetPassword(authUid, newPassword) {
+      const email = [...uids.entries()].find(([, uid]) => uid === authUid)?.[0];
+      if (!email) throw authError("auth/user-not-found");
+      passwords.set(email, newPassword);
+    },
+    async lookupUsername(username) {
+      const users = await repository.users.findByUsername(username);
+      const authEmail = users.find(user => user.authEmail)?.authEmail;
+      return authEmail ? { exists: true, authEmail } : { exists: users.length > 0 };
+    },
+    subscribe(onChange) {
+      listeners.add(onChange);
+      onChange(currentUid);
+      return () => { listeners.delete(onChange); };
+    },
+  };
+};
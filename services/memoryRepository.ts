@@ -0,0 +1,338 @@
+// services/memoryRepository.ts
+import { MOCK_EVENTS, MOCK_USERS } from "../data/mockData";
+import { type AuditLogEntry, type Event, type Match, type Player, type Tournament, type User, type Venue } from "../types";
+import { getJoinRequestError } from "../utils/invitations";
+import { getOccupiedSlotIds } from "../utils/proposals";
+import { isSameData } from "../utils/stableStringify";
+import { getCourtClaimIds } from "../utils/venues";
+import type { AvailabilityRecord, DateUnavailability, GlobalAvailability, SlotPreference } from "./availabilityService";
+import { createWriteConflict, type AvailabilityRepository, type DataBackend, type Unsubscribe } from "./dataRepository";
+import { assembleTournaments, splitTournaments } from "./firestoreEvents";
+
+/**
+ * Implementazione in memoria del livello dati (modalità demo)
+ *
+ * Parte dai dati di data/mockData.ts e non salva nulla: ricaricando la pagina
+ * si riparte sempre dallo stesso stato. Gli id nuovi sono progressivi
+ * (mem-1, mem-2, ...) e le notifiche ai listener partono subito dopo ogni
+ * scrittura, così il comportamento è deterministico.
+ */
+
+export interface MemorySeed {
+  events: Event[];
+  players: Player[];
+  users: User[];
+  venues?: Venue[];
+}
+
+type Stored = { id: string };
+
+const clone = <T,>(value: T): T => structuredClone(value);
+
+// patch come updateDoc: i campi a undefined vengono rimossi
+const applyPatch = <T extends Stored>(item: T, patch: object): T => {
+  const next = { ...item } as Record<string, unknown>;
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === undefined) delete next[key];
+    else next[key] = clone(value);
+  });
+  return next as T;
+};
+
+const createCollection = <T extends Stored>(initial: T[] = []) => {
+  const items = new Map<string, T>(initial.map(item => [item.id, clone(item)]));
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+  return {
+    list: (): T[] => [...items.values()].map(clone),
+    get: (id: string): T | undefined => (items.has(id) ? clone(items.get(id)!) : undefined),
+    set(item: T) {
+      items.set(item.id, clone(item));
+      notify();
+    },
+    patch(id: string, patch: object) {
+      const current = items.get(id);
+      if (!current) throw new Error(`Documento ${id} non trovato.`);
+      items.set(id, applyPatch(current, patch));
+      notify();
+    },
+    remove(id: string) {
+      items.delete(id);
+      notify();
+    },
+    subscribe(onChange: (items: T[]) => void, filter: (item: T) => boolean = () => true): Unsubscribe {
+      const listener = () => onChange([...items.values()].filter(filter).map(clone));
+      listeners.add(listener);
+      listener();
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+const sameData = (a?: unknown, b?: unknown) => isSameData(a ?? null, b ?? null);
+
+const tournamentMatches = (tournaments: Tournament[]) =>
+  tournaments.flatMap(t => [...t.groups.flatMap(g => g.matches), ...(t.playoffMatches ?? []), ...(t.consolationMatches ?? [])]);
+
+// slot → partita che lo occupa
+const getSlotHolders = (matches: Match[]) => {
+  const holders = new Map<string, string>();
+  matches.forEach(match => getOccupiedSlotIds(match).forEach(slotId => holders.set(slotId, match.id)));
+  return holders;
+};
+
+// base → next non deve prendere slot che nei dati attuali occupa un'altra partita
+const assertSlotsFree = (current: Match[], base: Match[], next: Match[]) => {
+  const holders = getSlotHolders(current);
+  const before = getSlotHolders(base);
+  getSlotHolders(next).forEach((matchId, slotId) => {
+    if (before.get(slotId) === matchId) return;
+    if (holders.has(slotId) && holders.get(slotId) !== matchId) throw createWriteConflict('slot-taken');
+  });
+};
+
+// campo e orario → partite che lo occupano dopo la scrittura, in tutti gli eventi (come court_claims)
+const getCourtHolders = (events: Event[]) => {
+  const holders = new Map<string, string[]>();
+  events.forEach(event => [...tournamentMatches(event.tournaments ?? []), ...(event.rankingData?.matches ?? [])]
+    .forEach(match => getCourtClaimIds(match).forEach(claimId => {
+      holders.set(claimId, [...(holders.get(claimId) ?? []), `${event.id}/${match.id}`]);
+    })));
+  return holders;
+};
+
+// base → next non deve prendere un campo a un orario che occupa un'altra partita, di qualsiasi evento
+const assertCourtsFree = (updatedEvents: Event[], eventId: string, base: Match[], next: Match[]) => {
+  const holders = getCourtHolders(updatedEvents);
+  const before = new Map(base.map(match => [match.id, getCourtClaimIds(match)]));
+  next.forEach(match => getCourtClaimIds(match).forEach(claimId => {
+    if (before.get(match.id)?.includes(claimId)) return;
+    if ((holders.get(claimId) ?? []).some(holder => holder !== `${eventId}/${match.id}`)) {
+      throw createWriteConflict('court-taken');
+    }
+  }));
+};
+
+/** Seed built from data/mockData.ts: global players are the ones registered in the mock events. */
+export const createDefaultSeed = (): MemorySeed => {
+  const players = new Map<string, Player>();
+  MOCK_EVENTS.flatMap(e => e.players).forEach(p => {
+    if (!players.has(p.id)) players.set(p.id, { ...p, status: 'confirmed' });
+  });
+  return { events: MOCK_EVENTS, players: [...players.values()], users: MOCK_USERS };
+};
+
+const createMemoryAvailability = (): AvailabilityRepository => {
+  const availabilities = createCollection<AvailabilityRecord & Stored>();
+  const globals = createCollection<GlobalAvailability & Stored>();
+  const dateUnavailabilities = createCollection<DateUnavailability & Stored>();
+  const slotPreferences = createCollection<SlotPreference & Stored>();
+  const byPlayers = (playerIds: string[]) => (item: { playerId: string }) => playerIds.includes(item.playerId);
+  const now = () => new Date().toISOString();
+
+  return {
+    async setAvailability(playerId, date, slot, isAvailable) {
+      availabilities.set({ id: `${playerId}_${date}_${slot}`, playerId, date, slot, isAvailable, updatedAt: now() });
+    },
+    async removeAvailability(playerId, date, slot) {
+      availabilities.remove(`${playerId}_${date}_${slot}`);
+    },
+    async getUserAvailabilities(playerId, startDate, endDate) {
+      return availabilities.list()
+        .filter(a => a.playerId === playerId && a.date >= startDate && a.date <= endDate)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async setGlobalAvailability(playerId, available) {
+      globals.set({ id: playerId, playerId, available, updatedAt: now() });
+    },
+    async removeGlobalAvailability(playerId) {
+      globals.remove(playerId);
+    },
+    getGlobalAvailability: async playerId => globals.get(playerId) ?? null,
+    getGlobalAvailabilitiesForPlayers: async playerIds => globals.list().filter(byPlayers(playerIds)),
+
+    async setDateUnavailability(playerId, date, unavailable) {
+      dateUnavailabilities.set({ id: `${playerId}_${date}`, playerId, date, unavailable, updatedAt: now() });
+    },
+    async removeDateUnavailability(playerId, date) {
+      dateUnavailabilities.remove(`${playerId}_${date}`);
+    },
+    async getDateUnavailabilitiesForPlayers(playerIds, startDate, endDate) {
+      return dateUnavailabilities.list()
+        .filter(byPlayers(playerIds))
+        .filter(d => !startDate || !endDate || (d.date >= startDate && d.date <= endDate))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async setSlotPreference(playerId, slotId, isPreferred) {
+      slotPreferences.set({ id: `${playerId}_${slotId}`, playerId, slotId, isPreferred, updatedAt: now() });
+    },
+    async removeSlotPreference(playerId, slotId) {
+      slotPreferences.remove(`${playerId}_${slotId}`);
+    },
+    getSlotPreferencesForPlayers: async playerIds => slotPreferences.list().filter(byPlayers(playerIds)),
+
+    subscribeSlotPreferences: (playerIds, onChange) => slotPreferences.subscribe(onChange, byPlayers(playerIds)),
+    subscribeDateUnavailabilities: (playerIds, onChange) => dateUnavailabilities.subscribe(onChange, byPlayers(playerIds)),
+  };
+};
+
+export const createMemoryBackend = (seed: MemorySeed = createDefaultSeed()): DataBackend => {
+  const events = createCollection<Event>(seed.events);
+  const players = createCollection<Player>(seed.players);
+  const users = createCollection<User>(seed.users);
+  const venues = createCollection<Venue>(seed.venues ?? []);
+  const auditLog = createCollection<AuditLogEntry>();
+  let nextId = 1;
+  const newId = () => `mem-${nextId++}`;
+
+  return {
+    events: {
+      subscribe: onChange => events.subscribe(onChange),
+      listStored: async () => events.list(),
+      async getStored(eventId) {
+        const event = events.get(eventId);
+        if (!event) throw new Error(`Evento ${eventId} non trovato.`);
+        return event;
+      },
+      async create(data) {
+        const id = newId();
+        events.set({ ...clone(data), id });
+        return id;
+      },
+      async update(eventId, patch) {
+        events.patch(eventId, patch);
+      },
+      async remove(eventId) {
+        events.remove(eventId);
+      },
+      async addJoinRequest(eventId, player) {
+        const event = events.get(eventId);
+        if (!event) throw new Error(`Evento ${eventId} non trovato.`);
+        const joinError = getJoinRequestError(event, player.id);
+        if (joinError) throw new Error(joinError);
+        const invitation = event.invitation ?? { uses: 0 };
+        events.patch(eventId, {
+          players: [...event.players, player],
+          invitation: { ...invitation, uses: invitation.uses + 1 },
+        });
+      },
+      async setRole(eventId, userId, role) {
+        const roles = { ...(events.get(eventId)?.roles ?? {}) };
+        if (role) roles[userId] = role;
+        else delete roles[userId];
+        events.patch(eventId, { roles });
+      },
+      getLegacySummerRanking: async () => null,
+      // un solo client: il controllo serve a comportarsi come Firestore con dati non aggiornati
+      async updateTournamentsChecked(eventId, base, next) {
+        const event = events.get(eventId);
+        if (!event) throw new Error(`Evento ${eventId} non trovato.`);
+        // stessi documenti di Firestore (torneo, girone, partita): cambi su altre partite non sono conflitti
+        const current = splitTournaments(event.tournaments);
+        const baseDocs = splitTournaments(base);
+        const nextDocs = splitTournaments(next);
+        const changed = [...new Set([...baseDocs.keys(), ...nextDocs.keys()])]
+          .filter(path => !sameData(baseDocs.get(path), nextDocs.get(path)));
+        if (changed.some(path => !sameData(current.get(path), baseDocs.get(path)))) {
+          throw createWriteConflict('data-changed');
+        }
+        assertSlotsFree(tournamentMatches(event.tournaments), tournamentMatches(base), tournamentMatches(next));
+        changed.forEach(path => {
+          const data = nextDocs.get(path);
+          if (data) current.set(path, data);
+          else current.delete(path);
+        });
+        const tournaments = assembleTournaments(current);
+        assertCourtsFree(
+          events.list().map(e => (e.id === eventId ? { ...e, tournaments } : e)),
+          eventId,
+          tournamentMatches(base),
+          tournamentMatches(next),
+        );
+        events.patch(eventId, { tournaments });
+      },
+      async updateRankingChecked(eventId, base, next) {
+        const event = events.get(eventId);
+        if (!event) throw new Error(`Evento ${eventId} non trovato.`);
+        const current = event.rankingData;
+        const find = (matches: Match[] | undefined, id: string) => matches?.find(m => m.id === id);
+        const touched = [...new Set([...base.matches, ...next.matches].map(m => m.id))]
+          .filter(id => !sameData(find(base.matches, id), find(next.matches, id)));
+        const { matches: _baseMatches, ...baseRest } = base;
+        const { matches: _nextMatches, ...nextRest } = next;
+        const { matches: _currentMatches, ...currentRest } = current ?? { matches: [] };
+        if (
+          touched.some(id => !sameData(find(current?.matches, id), find(base.matches, id))) ||
+          (!sameData(baseRest, nextRest) && !sameData(currentRest, baseRest))
+        ) {
+          throw createWriteConflict('data-changed');
+        }
+        assertSlotsFree(current?.matches ?? [], base.matches, next.matches);
+        assertCourtsFree(
+          events.list().map(e => (e.id === eventId ? { ...e, rankingData: next } : e)),
+          eventId,
+          base.matches,
+          next.matches,
+        );
+        events.patch(eventId, { rankingData: next });
+      },
+    },
+
+    players: {
+      subscribe: onChange => players.subscribe(onChange),
+      findByNameAndPhone: async (name, phone) => players.list().find(p => p.name === name && p.phone === phone) ?? null,
+      async create(data) {
+        const id = newId();
+        players.set({ ...clone(data), id });
+        return id;
+      },
+      async update(playerId, patch) {
+        players.patch(playerId, patch);
+      },
+      async remove(playerId) {
+        players.remove(playerId);
+      },
+    },
+
+    users: {
+      subscribe: onChange => users.subscribe(onChange),
+      findByUsername: async username => users.list().filter(u => u.username === username),
+      findByPlayerId: async playerId => users.list().filter(u => u.playerId === playerId),
+      async create(data) {
+        const id = newId();
+        users.set({ ...clone(data), id });
+        return id;
+      },
+      async update(userId, patch) {
+        users.patch(userId, patch);
+      },
+      async remove(userId) {
+        users.remove(userId);
+      },
+    },
+
+    availability: createMemoryAvailability(),
+
+    venues: {
+      subscribe: onChange => venues.subscribe(onChange),
+      async save(venue) {
+        venues.set(venue);
+      },
+      async remove(venueId) {
+        venues.remove(venueId);
+      },
+    },
+
+    auditLog: {
+      async append(entry) {
+        auditLog.set({ ...clone(entry), id: newId() });
+      },
+      subscribe: (eventId, onChange) => auditLog.subscribe(
+        entries => onChange(entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt))),
+        entry => entry.eventId === eventId,
+      ),
+    },
+  };
+};
@@ -0,0 +1,43 @@
+// services/migrationService.ts
+import { CURRENT_SCHEMA_VERSION, getChangedFields, migrateEvent, type EventMigrationReport } from "../utils/schemaMigrations";
+import { repository } from "./dataRepository";
+
+/**
+ * Migrazioni dello schema sul database
+ *
+ * La lettura porta già ogni evento all'ultima versione (dataRepository), ma su
+ * database restano i documenti vecchi finché qualcuno non li salva. Da qui un
+ * organizzatore li aggiorna tutti insieme:
+ * - in anteprima (dryRun) si ottiene solo il resoconto di cosa cambierebbe
+ * - altrimenti ogni evento viene salvato con i soli campi cambiati e il nuovo schemaVersion
+ *
+ * Gli eventi già alla versione corrente vengono saltati, quindi rilanciare è innocuo.
+ */
+
+export interface EventMigrationResult extends EventMigrationReport {
+  applied: boolean;
+  error?: string;
+}
+
+export async function runEventMigrations({ dryRun }: { dryRun: boolean }): Promise<EventMigrationResult[]> {
+  const [storedEvents, legacySummerRanking] = await Promise.all([
+    repository.events.listStored(),
+    repository.events.getLegacySummerRanking(),
+  ]);
+  const results: EventMigrationResult[] = [];
+  for (const stored of storedEvents.filter(e => (e.schemaVersion ?? 0) < CURRENT_SCHEMA_VERSION)) {
+    const { event, report } = migrateEvent(stored, { legacySummerRanking });
+    const result: EventMigrationResult = { ...report, applied: false };
+    if (!dryRun) {
+      try {
+        await repository.events.update(stored.id, getChangedFields(stored, event));
+        result.applied = true;
+      } catch (err) {
+        console.error(`Errore migrazione evento ${stored.id}`, err);
+        result.error = 'Salvataggio non riuscito.';
+      }
+    }
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,84 @@
+// services/permissionService.ts
+import { type Event, type EventRole, type User } from "../types";
+import { repository } from "./dataRepository";
+
+/**
+ * Servizio permessi per evento
+ *
+ * Gli organizzatori globali (User.role === 'organizer') possono tutto su ogni evento.
+ * Per gli altri utenti vale il ruolo assegnato nell'evento:
+ * - events/{id}.ownerId → proprietario (tutto, compresa l'assegnazione dei ruoli)
+ * - events/{id}.roles.{userId} → 'coOrganizer' | 'referee' | 'staff'
+ *
+ * I componenti ricevono un EventPermissions e non controllano più User.role.
+ */
+
+export type EventCapability =
+  | 'viewAdmin'         // vede i pannelli dell'organizzatore (anche in sola lettura)
+  | 'manageStructure'   // tornei, gironi, giocatori, slot, tabelloni, regolamenti
+  | 'manageResults'     // inserisce, conferma e corregge i risultati
+  | 'manageRoles';      // assegna i ruoli dell'evento
+
+export interface EventPermissions {
+  canViewAdmin: boolean;
+  canManageStructure: boolean;
+  canManageResults: boolean;
+  canManageRoles: boolean;
+}
+
+export const EVENT_ROLE_LABELS: Record<EventRole, string> = {
+  coOrganizer: 'Co-organizzatore',
+  referee: 'Arbitro risultati',
+  staff: 'Staff (sola lettura)',
+};
+
+const ROLE_CAPABILITIES: Record<EventRole, EventCapability[]> = {
+  coOrganizer: ['viewAdmin', 'manageStructure', 'manageResults'],
+  referee: ['viewAdmin', 'manageResults'],
+  staff: ['viewAdmin'],
+};
+
+export const NO_PERMISSIONS: EventPermissions = {
+  canViewAdmin: false,
+  canManageStructure: false,
+  canManageResults: false,
+  canManageRoles: false,
+};
+
+const isGlobalOrganizer = (user?: User | null) => user?.role === 'organizer';
+
+const isEventOwner = (user: User | null | undefined, event: Pick<Event, 'ownerId'>) =>
+  !!user && !!event.ownerId && event.ownerId === user.id;
+
+/** Role assigned to `user` in `event`, ignoring ownership and global organizers. */
+export function getEventRole(user: User | null | undefined, event: Pick<Event, 'roles'>): EventRole | null {
+  if (!user) return null;
+  return event.roles?.[user.id] ?? null;
+}
+
+/** Whether `user` has `capability` on `event`. */
+export function can(user: User | null | undefined, event: Pick<Event, 'ownerId' | 'roles'>, capability: EventCapability): boolean {
+  if (isGlobalOrganizer(user) || isEventOwner(user, event)) return true;
+  const role = getEventRole(user, event);
+  return !!role && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+export function getEventPermissions(user: User | null | undefined, event?: Pick<Event, 'ownerId' | 'roles'> | null): EventPermissions {
+  if (!event) return NO_PERMISSIONS;
+  return {
+    canViewAdmin: can(user, event, 'viewAdmin'),
+    canManageStructure: can(user, event, 'manageStructure'),
+    canManageResults: can(user, event, 'manageResults'),
+    canManageRoles: can(user, event, 'manageRoles'),
+  };
+}
+
+/** Events `user` helps run: every event for global organizers, otherwise owned or staffed ones. */
+export function getManagedEvents(user: User | null | undefined, events: Event[]): Event[] {
+  return events.filter(event => can(user, event, 'viewAdmin'));
+}
+
+/** Grants `role` to `userId` in the event, or revokes it when `role` is null. */
+export async function setEventRole(eventId: string, userId: string, role: EventRole | null): Promise<void> {
+  await repository.events.setRole(eventId, userId, role);
+}
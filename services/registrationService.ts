@@ -0,0 +1,101 @@
+// services/registrationService.ts
+import { type Event, type Player, type PlayerLevel } from "../types";
+import { getJoinRequestError } from "../utils/invitations";
+import { describeAuthError, isUsernameTaken, MIN_PASSWORD_LENGTH, registerParticipant, signInWithAuthEmail } from "./authService";
+import { repository } from "./dataRepository";
+
+/**
+ * Servizio iscrizioni con codice invito
+ *
+ * La richiesta entra in events/{id}.players con status 'pending' e l'organizzatore
+ * la approva o la rifiuta da PlayerManagement. La richiesta si aggiunge alla lista
+ * senza riscriverla: il partecipante non ha (e non deve sovrascrivere) quella completa.
+ * Il controllo qui sull'evento in memoria serve solo a rispondere subito: quello che
+ * conta (scadenza, usi massimi, già iscritto) lo rifà addJoinRequest insieme alla scrittura.
+ */
+
+export interface JoinRequestData {
+  name: string;
+  phone: string;
+  level: PlayerLevel;
+}
+
+const createInitialsAvatar = (name: string): string => {
+  const initials = name.split(' ').map(n => n[0]).slice(0, 2).join('').toUpperCase();
+  const colors = ['#8b5cf6', '#22d3ee', '#f59e0b', '#10b981', '#ef4444', '#3b82f6'];
+  const color = colors[initials.charCodeAt(0) % colors.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" width="100" height="100"><rect width="100" height="100" fill="${color}"/><text x="50" y="50" font-family="sans-serif" font-size="48" fill="white" text-anchor="middle" alignment-baseline="central" dy=".3em">${initials}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+const assertCanJoin = (event: Event, playerId?: string) => {
+  const joinError = getJoinRequestError(event, playerId);
+  if (joinError) throw new Error(joinError);
+};
+
+const buildPendingPlayer = (playerId: string, data: JoinRequestData, avatar: string): Player => ({
+  id: playerId,
+  name: data.name.trim(),
+  phone: data.phone.trim(),
+  avatar,
+  status: 'pending',
+  level: data.level,
+  joinRequestedAt: new Date().toISOString(),
+});
+
+/** A signed-in participant asks to join `event` with their existing player profile. */
+export async function requestToJoinEvent(event: Event, player: Player, data: JoinRequestData): Promise<void> {
+  assertCanJoin(event, player.id);
+  await repository.events.addJoinRequest(event.id, buildPendingPlayer(player.id, data, player.avatar || createInitialsAvatar(data.name)));
+}
+
+/**
+ * New user: creates the global player, the account (username = name) and the
+ * pending registration, then signs the user in. If the account cannot be
+ * created the player is removed again.
+ */
+export async function registerAndRequestToJoin(
+  event: Event,
+  data: JoinRequestData & { password: string },
+): Promise<void> {
+  assertCanJoin(event);
+  const name = data.name.trim();
+  if (await isUsernameTaken(name)) {
+    throw new Error("Esiste già un account con questo nome: accedi e inserisci il codice dalla tua pagina.");
+  }
+  if (data.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`La password deve essere di almeno ${MIN_PASSWORD_LENGTH} caratteri.`);
+  }
+
+  const avatar = createInitialsAvatar(name);
+  const playerId = await repository.players.create({
+    name,
+    phone: data.phone.trim(),
+    avatar,
+    status: "confirmed",
+  });
+  let authEmail: string;
+  try {
+    authEmail = await registerParticipant(name, playerId, data.password);
+  } catch (err) {
+    await repository.players.remove(playerId).catch(error => {
+      console.error(`Errore rimozione giocatore ${playerId} senza account`, error);
+    });
+    throw new Error(describeAuthError(err));
+  }
+  // l'account ormai esiste: anche se l'iscrizione non passa si entra e si riprova dalla propria pagina,
+  // ma l'errore da mostrare resta quello dell'iscrizione (es. codice scaduto)
+  let joinError: unknown = null;
+  try {
+    await repository.events.addJoinRequest(event.id, buildPendingPlayer(playerId, data, avatar));
+  } catch (err) {
+    joinError = err;
+  }
+  try {
+    await signInWithAuthEmail(authEmail, data.password);
+  } catch (err) {
+    if (!joinError) throw err;
+    console.error("Errore accesso dopo l'iscrizione non riuscita", err);
+  }
+  if (joinError) throw joinError;
+}
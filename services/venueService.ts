@@ -0,0 +1,21 @@
+// services/venueService.ts
+import { type Venue } from "../types";
+import { repository } from "./dataRepository";
+
+/**
+ * Servizio impianti
+ *
+ * Collection:
+ * - venues (un documento per impianto, con campi, orari e chiusure; ownerId = organizzatore)
+ *
+ * Gli slot e le partite salvano venueId/courtId; nome impianto e campo restano
+ * copiati in location/field per la visualizzazione.
+ */
+
+export async function saveVenue(venue: Venue): Promise<void> {
+  await repository.venues.save(venue);
+}
+
+export async function deleteVenue(venueId: string): Promise<void> {
+  await repository.venues.remove(venueId);
+}
@@ -6,20 +6,99 @@ export interface Player {
   status: 'pending' | 'confirmed';
   summerRankingStartPoints?: number;
   summerRankingJoinedAt?: string;
+  club?: string; // circolo di appartenenza (vincoli del sorteggio gironi)
+  level?: PlayerLevel; // livello dichiarato nella richiesta di iscrizione
+  joinRequestedAt?: string;
 }
 
+export type PlayerLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export interface SetScore {
+  games1: number;
+  games2: number;
+  tieBreak1?: number;
+  tieBreak2?: number;
+}
+
+export interface MatchTieBreakScore {
+  points1: number;
+  points2: number;
+}
+
+export interface MatchScore {
+  sets: SetScore[];
+  matchTieBreak?: MatchTieBreakScore;
+}
+
+// played = risultato normale; le altre tipologie non richiedono (walkover, doppia assenza, annullata)
+// o richiedono solo in parte (ritiro) il punteggio
+export type MatchResultType = 'played' | 'walkover' | 'retirement' | 'doubleNoShow' | 'annulled';
+
 export interface Match {
   id: string;
   player1Id: string;
   player2Id: string;
   score1: number | null;
   score2: number | null;
+  score?: MatchScore | null; // dettaglio set; score1/score2 restano i game totali
+  resultType?: MatchResultType | null;
+  awardedTo?: 1 | 2 | null; // vincitore per walkover / ritiro
   status: 'pending' | 'scheduled' | 'completed';
   scheduledTime?: string;
   location?: string;
   field?: string;
   slotId?: string;
+  venueId?: string;
+  courtId?: string; // campo dell'impianto: location/field restano come etichette
   completedAt?: string;
+  round?: number; // giornata (girone all'italiana) o turno (sistema svizzero)
+  proposal?: BookingProposal; // prenotazione in attesa di conferma dell'avversario
+  resultConfirmation?: ResultConfirmation; // assente: risultato inserito dall'organizzatore o storico
+}
+
+export type ResultConfirmationStatus = 'submitted' | 'confirmed' | 'disputed';
+
+// Ciclo di vita di un risultato inserito da un giocatore
+export interface ResultConfirmation {
+  status: ResultConfirmationStatus;
+  submittedBy: string; // id del competitore che ha inserito il risultato
+  submittedAt: string; // ISO
+  confirmedBy?: string;
+  confirmedAt?: string;
+  disputedBy?: string;
+  disputedAt?: string;
+  disputeReason?: string;
+}
+
+export type BookingProposalKind = 'booking' | 'reschedule';
+
+// Proposta di data/slot: finché è valida lo slot resta bloccato
+export interface BookingProposal {
+  id: string;
+  kind: BookingProposalKind;
+  proposedBy: string; // id del competitore (giocatore o squadra) che propone
+  scheduledTime: string; // ISO
+  slotId?: string;
+  location?: string;
+  field?: string;
+  venueId?: string;
+  courtId?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type GroupFormat = 'roundRobin' | 'swiss';
+
+export interface SwissBye {
+  round: number;
+  playerId: string;
+}
+
+// Finestra di date indicativa entro cui giocare una giornata (YYYY-MM-DD)
+export interface GroupMatchday {
+  round: number;
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface Group {
@@ -28,6 +107,10 @@ export interface Group {
   playerIds: string[];
   matches: Match[];
   rules?: string; // <-- aggiunto campo regolamento
+  format?: GroupFormat; // assente = girone all'italiana
+  swissRounds?: number;
+  swissByes?: SwissBye[];
+  matchdays?: GroupMatchday[];
 }
 
 export interface PadelTeam {
@@ -45,7 +128,7 @@ export interface PointRule {
   loserPoints: number;
 }
 
-export type TieBreaker = 'goalDifference' | 'goalsFor' | 'wins' | 'headToHead';
+export type TieBreaker = 'goalDifference' | 'goalsFor' | 'wins' | 'headToHead' | 'setsRatio' | 'gamesRatio' | 'fewestWalkoversConceded' | 'buchholz' | 'sonnebornBerger' | 'drawOfLots';
 
 export interface PlayoffSetting {
   groupId: string;
@@ -58,13 +141,41 @@ export interface ConsolationSetting {
   endRank: number;
 }
 
+// Come rendere confrontabili gironi di dimensioni diverse
+export type CrossGroupNormalization = 'pointsPerMatch' | 'excludeLastPlaced';
+
+// Ripescaggio: i migliori `count` classificati in posizione `rank` tra tutti i gironi (es. le migliori terze)
+export interface CrossGroupQualification {
+  rank: number;
+  count: number;
+  normalization: CrossGroupNormalization;
+}
+
+export interface SpecialResultPoints {
+    walkoverWinnerPoints: number;
+    walkoverLoserPoints: number;
+    walkoverGamesAwarded: number; // game assegnati al vincitore a tavolino (es. 12 = 6-0 6-0)
+    retirementWinnerPoints: number;
+    retirementLoserPoints: number;
+    doubleNoShowPoints: number;
+}
+
 export interface TournamentSettings {
     pointsPerDraw: number;
+    specialResultPoints?: SpecialResultPoints;
     pointRules: PointRule[];
     tieBreakers: TieBreaker[];
+    drawOfLotsSeed?: string; // seme del sorteggio, salvato perché la classifica resti stabile
     playoffSettings: PlayoffSetting[];
+    playoffCrossGroup?: CrossGroupQualification | null;
+    playoffFormat?: BracketFormat;
+    grandFinalReset?: boolean; // doppia eliminazione: spareggio se vince chi arriva dal tabellone perdenti
     hasBronzeFinal: boolean;
     consolationSettings: ConsolationSetting[];
+    consolationCrossGroup?: CrossGroupQualification | null;
+    proposalExpiryHours?: number; // validità delle proposte di prenotazione tra giocatori
+    resultAutoConfirmHours?: number; // dopo quante ore un risultato non contestato si conferma da solo
+    groupRoundRobin?: Record<string, boolean>; // girone → andata e ritorno
 }
 
 export interface TimeSlot {
@@ -72,6 +183,43 @@ export interface TimeSlot {
     start: string;
     location: string;
     field: string;
+    seriesId?: string; // slot creati dal generatore ricorrente, eliminabili in blocco
+    venueId?: string;
+    courtId?: string; // location/field restano come etichette leggibili
+}
+
+export type CourtSurface = 'clay' | 'hard' | 'grass' | 'synthetic' | 'carpet';
+
+export interface Court {
+  id: string;
+  name: string;
+  surface: CourtSurface;
+  indoor: boolean;
+}
+
+// Orario di apertura per giorno della settimana (0 = domenica), HH:mm
+export interface VenueOpeningHours {
+  weekday: number;
+  open: string;
+  close: string;
+}
+
+// Chiusura straordinaria, date incluse (YYYY-MM-DD)
+export interface VenueClosure {
+  id: string;
+  fromDate: string;
+  toDate: string;
+  reason?: string;
+}
+
+export interface Venue {
+  id: string;
+  ownerId: string; // utente organizzatore che gestisce l'impianto
+  name: string;
+  address?: string;
+  courts: Court[];
+  openingHours: VenueOpeningHours[];
+  closures: VenueClosure[];
 }
 
 export interface PlayoffMatch {
@@ -82,17 +230,50 @@ export interface PlayoffMatch {
   player2Id: string | null;
   score1: number | null;
   score2: number | null;
+  score?: MatchScore | null;
+  resultType?: MatchResultType | null;
+  awardedTo?: 1 | 2 | null;
   winnerId: string | null;
   nextMatchId: string | null;
+  nextMatchSlot?: 1 | 2; // se assente si deduce dalla posizione nel turno (tabelloni a eliminazione diretta)
   isBronzeFinal?: boolean;
   loserGoesToBronzeFinal?: boolean;
+  // doppia eliminazione
+  bracketSide?: BracketSide;
+  loserNextMatchId?: string | null;
+  loserNextMatchSlot?: 1 | 2;
+  byeSlot?: 1 | 2 | null; // lato che non verrà mai occupato: chi arriva passa il turno
+  isVoid?: boolean; // entrambi i lati vuoti, la partita non si gioca
+  isGrandFinalReset?: boolean;
 }
 
+export type BracketFormat = 'singleElimination' | 'doubleElimination';
+export type BracketSide = 'winners' | 'losers' | 'grandFinal';
+
 export interface PlayoffBracket {
   matches: PlayoffMatch[];
   isGenerated: boolean;
   finalId: string | null;
   bronzeFinalId: string | null;
+  format?: BracketFormat;
+  grandFinalResetId?: string | null;
+}
+
+export type GroupDrawSeedingSource = 'rankingPoints' | 'pastTournament' | 'manual';
+export type GroupDrawMethod = 'serpentine' | 'pots';
+export type GroupDrawConstraint = 'sameClub' | 'samePartner';
+
+// Traccia del sorteggio gironi: con lo stesso seme e gli stessi dati il sorteggio si ripete identico
+export interface GroupDrawRecord {
+  seed: string;
+  method: GroupDrawMethod;
+  seedingSource: GroupDrawSeedingSource;
+  sourceTournamentId?: string;
+  constraints: GroupDrawConstraint[];
+  seedOrder: string[];
+  groupSizes: number[];
+  violations: number;
+  drawnAt: string;
 }
 
 export interface Tournament {
@@ -108,6 +289,14 @@ export interface Tournament {
   // NEW: partite “prenotabili” visibili nel tab Partite
   playoffMatches?: Match[];
   consolationMatches?: Match[];
+  groupDraw?: GroupDrawRecord;
+  // giocatori esclusi dalle qualificazioni ai playoff prima della generazione del tabellone
+  playoffWithdrawals?: PlayoffWithdrawal[];
+}
+
+export interface PlayoffWithdrawal {
+  groupId: string;
+  playerId: string;
 }
 
 export interface Event {
@@ -116,10 +305,30 @@ export interface Event {
   tournaments: Tournament[];
   players: Player[];
   invitationCode: string;
+  invitation?: InvitationSettings;
+  // oltre questa data nessuna nuova iscrizione, qualunque codice si usi
+  registrationDeadline?: string;
   eventType?: 'ranking_singolare' | 'tournament_singolare' | 'tournament_padel';
   rankingData?: SummerRankingData;
   globalTimeSlots?: TimeSlot[];
   rules?: string;
+  // utente che ha creato l'evento: solo lui (o un organizzatore globale) assegna i ruoli
+  ownerId?: string;
+  // ruoli per evento, indicizzati per id utente
+  roles?: Record<string, EventRole>;
+  // versione dello schema salvato (utils/schemaMigrations): assente = dati precedenti alle migrazioni
+  schemaVersion?: number;
+}
+
+// coOrganizer: tutto tranne i ruoli; referee: solo risultati; staff: sola lettura
+export type EventRole = 'coOrganizer' | 'referee' | 'staff';
+
+export interface InvitationSettings {
+  expiresAt?: string;
+  maxUses?: number;
+  // iscrizioni fatte con il codice attuale: si azzera quando il codice viene rigenerato
+  uses: number;
+  rotatedAt?: string;
 }
 
 export type SummerAvailabilityStatus = 'available' | 'unavailable';
@@ -169,11 +378,16 @@ export interface SummerRankingMasterMatch {
   player2Id: string | null;
   score1: number | null;
   score2: number | null;
+  score?: MatchScore | null;
+  resultType?: MatchResultType | null;
+  awardedTo?: 1 | 2 | null;
   status: 'pending' | 'scheduled' | 'completed';
   scheduledTime?: string;
   location?: string;
   field?: string;
   slotId?: string;
+  venueId?: string;
+  courtId?: string;
   completedAt?: string;
 }
 
@@ -211,6 +425,11 @@ export interface SummerRankingRulesConfig {
   drawPercentage: number;
   drawFixed: number;
 
+  walkoverWinPoints: number;
+  walkoverLossPoints: number;
+  retirementWinPercentage: number;
+  doubleNoShowPoints: number;
+
   participationBonusEnabled: boolean;
   participationBase: number;
   participationWeeklyBonus: number;
@@ -232,6 +451,10 @@ export interface SummerRankingRulesConfig {
   masterMinMatches: number;
 
   headToHeadLimit: number;
+
+  proposalExpiryHours: number;
+
+  resultAutoConfirmHours: number;
 }
 
 export interface SummerRankingData {
@@ -254,12 +477,59 @@ export interface StandingsEntry {
     goalsFor: number;
     goalsAgainst: number;
     goalDifference: number;
+    setsFor: number;
+    setsAgainst: number;
+    walkoversConceded: number;
+    buchholz: number; // somma dei punti degli avversari incontrati
+    sonnebornBerger: number; // punti degli avversari battuti + metà di quelli pareggiati
+    // presente solo se a pari punti con chi lo precede: indica il criterio che li ha separati
+    tieBreak?: StandingsTieBreak;
+}
+
+export interface StandingsTieBreak {
+    criterion: TieBreaker | null; // null = parità non risolta dai criteri configurati
+    tiedPlayers: number; // giocatori ancora in parità quando il criterio è stato applicato
+}
+
+export type AuditSource = 'tournamentMatches' | 'playoffs' | 'consolation' | 'rankingMatches' | 'rankingMaster';
+export type AuditAction = 'resultSaved' | 'resultReset' | 'resultReverted';
+
+// Risultato di una partita prima o dopo una modifica
+export interface AuditResultSnapshot {
+  status: Match['status'];
+  score1: number | null;
+  score2: number | null;
+  score?: MatchScore | null;
+  resultType?: MatchResultType | null;
+  awardedTo?: 1 | 2 | null;
+}
+
+// Voce dello storico modifiche: events/{eventId}/audit_log, mai aggiornata né cancellata
+export interface AuditLogEntry {
+  id: string;
+  eventId: string;
+  tournamentId?: string;
+  matchId: string; // per i tabelloni l'id della partita in calendario (po-/co-)
+  matchLabel: string;
+  action: AuditAction;
+  source: AuditSource; // schermata da cui è partita la modifica
+  userId: string;
+  userName: string;
+  createdAt: string; // ISO
+  before: AuditResultSnapshot;
+  after: AuditResultSnapshot;
+  revertOf?: string; // id della voce annullata
 }
 
 export interface User {
     id: string;
     username: string;
-    password: string;
+    // vecchia password in chiaro degli account non migrati: il repository non la legge mai, la migrazione la cancella
+    password?: string;
     role: 'organizer' | 'participant';
     playerId?: string;
+    authUid?: string;
+    authEmail?: string;
+    // password temporanea (creazione, migrazione o reset): va cambiata al primo accesso
+    mustChangePassword?: boolean;
 }
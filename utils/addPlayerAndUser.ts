@@ -1,27 +1,22 @@
-import { db } from "../firebase";
-import { collection, addDoc, updateDoc, doc } from "firebase/firestore";
+import { createParticipantUser } from "../services/authService";
+import { repository } from "../services/dataRepository";
 
-// Passa l'oggetto event come parametro!
-export async function addPlayerAndUser(event: any, playerData: { name: string; phone: string; avatar: string; }) {
-  // 1. Crea il giocatore globale (in "players" collection)
-  const playerRef = await addDoc(collection(db, "players"), {
+// Passa l'oggetto event come parametro! Restituisce la password temporanea del nuovo utente.
+export async function addPlayerAndUser(event: any, playerData: { name: string; phone: string; avatar: string; }): Promise<string> {
+  // 1. Crea il giocatore globale (in "players")
+  const playerId = await repository.players.create({
     name: playerData.name,
     phone: playerData.phone,
     avatar: playerData.avatar,
     status: "confirmed"
   });
 
-  // 2. Crea l'utente Firestore collegato (in "users" collection)
-  await addDoc(collection(db, "users"), {
-    username: playerData.name, // "Nome Cognome"
-    password: "1234",          // password default
-    role: "participant",
-    playerId: playerRef.id     // collega utente e giocatore
-  });
+  // 2. Crea l'account di accesso e l'utente collegato (username "Nome Cognome")
+  const temporaryPassword = await createParticipantUser(playerData.name, playerId);
 
-  // 3. Aggiungi il player all'evento (usa id creato da Firestore!)
+  // 3. Aggiungi il player all'evento (usa l'id appena creato!)
   const newPlayer = {
-    id: playerRef.id,
+    id: playerId,
     name: playerData.name,
     phone: playerData.phone,
     avatar: playerData.avatar,
@@ -29,5 +24,6 @@ export async function addPlayerAndUser(event: any, playerData: { name: string; p
   };
 
   const updatedPlayers = [...event.players, newPlayer];
-  await updateDoc(doc(db, "events", event.id), { players: updatedPlayers });
+  await repository.events.update(event.id, { players: updatedPlayers });
+  return temporaryPassword;
 }
\ No newline at end of file
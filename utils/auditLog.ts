@@ -0,0 +1,134 @@
+import {
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditResultSnapshot,
+  type AuditSource,
+  type Match,
+  type User,
+} from '../types';
+import { formatMatchScore, hasMatchResult, RESULT_TYPE_LABELS } from './score';
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  tournamentMatches: 'Partite del torneo',
+  playoffs: 'Tabellone playoff',
+  consolation: 'Tabellone consolazione',
+  rankingMatches: 'Partite del ranking',
+  rankingMaster: 'Master del ranking',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  resultSaved: 'Risultato salvato',
+  resultReset: 'Risultato cancellato',
+  resultReverted: 'Modifica annullata',
+};
+
+export interface AuditActor {
+  userId: string;
+  userName: string;
+}
+
+export const getAuditActor = (user?: Pick<User, 'id' | 'username'> | null): AuditActor => ({
+  userId: user?.id ?? 'unknown',
+  userName: user?.username ?? 'Sconosciuto',
+});
+
+type ResultFields = Pick<Match, 'status' | 'score1' | 'score2' | 'score' | 'resultType' | 'awardedTo'>;
+
+/** Result fields of a match, without undefined keys (Firestore rejects them). */
+export const snapshotResult = (match: ResultFields): AuditResultSnapshot => {
+  const snapshot: AuditResultSnapshot = { status: match.status, score1: match.score1 ?? null, score2: match.score2 ?? null };
+  if (match.score !== undefined) snapshot.score = match.score;
+  if (match.resultType !== undefined) snapshot.resultType = match.resultType;
+  if (match.awardedTo !== undefined) snapshot.awardedTo = match.awardedTo;
+  return snapshot;
+};
+
+// campi assenti e valori di default si equivalgono (partite salvate prima dei set)
+const normalizeSnapshot = (snapshot: AuditResultSnapshot) => JSON.stringify([
+  snapshot.status,
+  snapshot.score1 ?? null,
+  snapshot.score2 ?? null,
+  snapshot.score ?? null,
+  snapshot.resultType ?? 'played',
+  snapshot.awardedTo ?? null,
+]);
+
+export const isSameResult = (a: AuditResultSnapshot, b: AuditResultSnapshot) =>
+  normalizeSnapshot(a) === normalizeSnapshot(b);
+
+interface ResultChange {
+  eventId: string;
+  tournamentId?: string;
+  matchId: string;
+  matchLabel: string;
+  source: AuditSource;
+  actor: AuditActor;
+  before: ResultFields;
+  after: ResultFields;
+  action?: AuditAction;
+  revertOf?: string;
+  now?: Date;
+}
+
+/**
+ * Builds the audit entry for a result change, or null when the result did not
+ * actually change. The id is assigned by Firestore when the entry is stored.
+ */
+export const buildResultAuditEntry = ({
+  eventId,
+  tournamentId,
+  matchId,
+  matchLabel,
+  source,
+  actor,
+  before,
+  after,
+  action,
+  revertOf,
+  now = new Date(),
+}: ResultChange): Omit<AuditLogEntry, 'id'> | null => {
+  const beforeSnapshot = snapshotResult(before);
+  const afterSnapshot = snapshotResult(after);
+  if (isSameResult(beforeSnapshot, afterSnapshot)) return null;
+  const entry: Omit<AuditLogEntry, 'id'> = {
+    eventId,
+    matchId,
+    matchLabel,
+    action: action ?? (hasMatchResult(afterSnapshot) ? 'resultSaved' : 'resultReset'),
+    source,
+    userId: actor.userId,
+    userName: actor.userName,
+    createdAt: now.toISOString(),
+    before: beforeSnapshot,
+    after: afterSnapshot,
+  };
+  if (tournamentId) entry.tournamentId = tournamentId;
+  if (revertOf) entry.revertOf = revertOf;
+  return entry;
+};
+
+export const formatAuditResult = (snapshot: AuditResultSnapshot) => {
+  if (!hasMatchResult(snapshot)) return 'nessun risultato';
+  const type = snapshot.resultType && snapshot.resultType !== 'played' ? ` (${RESULT_TYPE_LABELS[snapshot.resultType]})` : '';
+  return `${formatMatchScore(snapshot)}${type}`;
+};
+
+/**
+ * Only group and ranking matches can be reverted from the log: a bracket
+ * result also moved players to later rounds, so it is corrected from the
+ * bracket itself.
+ */
+export const canRevertAuditEntry = (entry: AuditLogEntry) =>
+  entry.source === 'rankingMatches' ||
+  (entry.source === 'tournamentMatches' && !entry.matchId.startsWith('po-') && !entry.matchId.startsWith('co-'));
+
+/** Puts the result recorded in `snapshot` back on the match. */
+export const applyResultSnapshot = <T extends Match>(match: T, snapshot: AuditResultSnapshot): T => ({
+  ...match,
+  status: snapshot.status,
+  score1: snapshot.score1,
+  score2: snapshot.score2,
+  score: snapshot.score ?? null,
+  resultType: snapshot.resultType ?? 'played',
+  awardedTo: snapshot.awardedTo ?? null,
+});
@@ -0,0 +1,393 @@
+import { type BracketFormat, type Match, type PlayoffBracket, type PlayoffMatch } from '../types';
+import { EMPTY_MATCH_RESULT, getWinnerSide, hasMatchResult, type MatchResultFields } from './score';
+
+export const BRACKET_FORMAT_LABELS: Record<BracketFormat, string> = {
+  singleElimination: 'Eliminazione diretta',
+  doubleElimination: 'Doppia eliminazione',
+};
+
+const BYE = 'BYE';
+
+type SlotSource = { assignment: string } | { matchId: string; outcome: 'winner' | 'loser' };
+
+const createBracketMatch = (id: string, round: number, matchIndex: number, extra: Partial<PlayoffMatch> = {}): PlayoffMatch => ({
+  id, round, matchIndex,
+  player1Id: null, player2Id: null, score1: null, score2: null,
+  winnerId: null, nextMatchId: null,
+  ...extra,
+});
+
+const setSlot = (match: PlayoffMatch, slot: 1 | 2, playerId: string | null) => {
+  if (slot === 1) match.player1Id = playerId;
+  else match.player2Id = playerId;
+};
+
+// Tabelloni vecchi non salvano nextMatchSlot: il lato dipende dalla posizione della partita nel turno.
+const getNextMatchSlot = (bracket: PlayoffBracket, match: PlayoffMatch): 1 | 2 => {
+  if (match.nextMatchSlot) return match.nextMatchSlot;
+  const roundMatches = bracket.matches
+    .filter(m => m.round === match.round && !m.isBronzeFinal)
+    .sort((a, b) => a.matchIndex - b.matchIndex);
+  return roundMatches.findIndex(m => m.id === match.id) % 2 === 0 ? 1 : 2;
+};
+
+// Inserisce un giocatore e, se l'altro lato è un bye, lo fa avanzare subito.
+const placePlayer = (bracket: PlayoffBracket, matchId: string, slot: 1 | 2, playerId: string) => {
+  const target = bracket.matches.find(m => m.id === matchId);
+  if (!target) return;
+  setSlot(target, slot, playerId);
+  if (target.byeSlot && target.byeSlot !== slot) {
+    target.winnerId = playerId;
+    if (target.nextMatchId) placePlayer(bracket, target.nextMatchId, getNextMatchSlot(bracket, target), playerId);
+  }
+};
+
+export const buildSingleEliminationBracket = (assignments: string[], hasBronzeFinal: boolean): PlayoffBracket => {
+  const bracketSize = assignments.length;
+  const newMatches: PlayoffMatch[] = [];
+  const numRounds = Math.log2(bracketSize);
+  let matchCounter = 0;
+
+  for (let round = 1; round <= numRounds; round++) {
+    const matchesInRound = bracketSize / (2 ** round);
+    for (let i = 0; i < matchesInRound; i++) {
+      newMatches.push(createBracketMatch(`plm-${matchCounter}`, round, matchCounter, {
+        loserGoesToBronzeFinal: round === numRounds - 1,
+      }));
+      matchCounter++;
+    }
+  }
+
+  newMatches.forEach(match => {
+    if (match.round < numRounds) {
+      const roundMatches = newMatches.filter(m => m.round === match.round);
+      const matchIndexInRound = roundMatches.findIndex(m => m.id === match.id);
+      const nextRoundMatches = newMatches.filter(m => m.round === match.round + 1);
+      const nextMatch = nextRoundMatches[Math.floor(matchIndexInRound / 2)];
+      if (nextMatch) match.nextMatchId = nextMatch.id;
+    }
+  });
+
+  let bronzeFinalId: string | null = null;
+  if (bracketSize > 2 && hasBronzeFinal) {
+    const bronzeMatch = createBracketMatch('plm-bronze', numRounds, 999, { isBronzeFinal: true });
+    newMatches.push(bronzeMatch);
+    bronzeFinalId = bronzeMatch.id;
+  }
+
+  const firstRoundMatches = newMatches.filter(m => m.round === 1 && !m.isBronzeFinal);
+  firstRoundMatches.forEach((match, i) => {
+    const p1Id = assignments[i * 2];
+    const p2Id = assignments[i * 2 + 1];
+    const isP1Bye = p1Id === BYE;
+    const isP2Bye = p2Id === BYE;
+
+    match.player1Id = isP1Bye ? null : p1Id;
+    match.player2Id = isP2Bye ? null : p2Id;
+
+    let winnerId: string | null = null;
+    if (!isP1Bye && isP2Bye) winnerId = p1Id;
+    if (isP1Bye && !isP2Bye) winnerId = p2Id;
+
+    if (winnerId) {
+      match.winnerId = winnerId;
+      const nextMatch = newMatches.find(m => m.id === match.nextMatchId);
+      if (nextMatch) setSlot(nextMatch, i % 2 === 0 ? 1 : 2, winnerId);
+    }
+  });
+
+  return {
+    matches: newMatches,
+    isGenerated: true,
+    format: 'singleElimination',
+    finalId: newMatches.find(m => m.round === numRounds && !m.isBronzeFinal)?.id ?? null,
+    bronzeFinalId,
+  };
+};
+
+/**
+ * Double elimination for a power-of-two bracket (at least 4 slots).
+ * Winners' round r feeds its losers into the losers' bracket: round 1 losers meet each other,
+ * later losers drop into the even losers' rounds (in reverse order on alternate rounds to
+ * delay rematches). The winners' champion plays the losers' champion in the grand final.
+ */
+export const buildDoubleEliminationBracket = (assignments: string[], grandFinalReset: boolean): PlayoffBracket => {
+  const bracketSize = assignments.length;
+  const winnersRounds = Math.log2(bracketSize);
+  const losersRounds = 2 * (winnersRounds - 1);
+  const sources = new Map<string, { 1?: SlotSource; 2?: SlotSource }>();
+  const matches: PlayoffMatch[] = [];
+  let matchCounter = 0;
+
+  const addMatch = (id: string, round: number, extra: Partial<PlayoffMatch>) => {
+    const match = createBracketMatch(id, round, matchCounter++, extra);
+    matches.push(match);
+    sources.set(match.id, {});
+    return match;
+  };
+  const link = (from: PlayoffMatch, outcome: 'winner' | 'loser', to: PlayoffMatch, slot: 1 | 2) => {
+    if (outcome === 'winner') {
+      from.nextMatchId = to.id;
+      from.nextMatchSlot = slot;
+    } else {
+      from.loserNextMatchId = to.id;
+      from.loserNextMatchSlot = slot;
+    }
+    sources.get(to.id)![slot] = { matchId: from.id, outcome };
+  };
+
+  const winners: PlayoffMatch[][] = [];
+  for (let round = 1; round <= winnersRounds; round++) {
+    winners.push(Array.from({ length: bracketSize / 2 ** round }, (_, i) =>
+      addMatch(`plm-w${round}-${i}`, round, { bracketSide: 'winners' })
+    ));
+  }
+  const losers: PlayoffMatch[][] = [];
+  for (let round = 1; round <= losersRounds; round++) {
+    const size = bracketSize / 2 ** (Math.ceil(round / 2) + 1);
+    losers.push(Array.from({ length: size }, (_, i) =>
+      addMatch(`plm-l${round}-${i}`, round, { bracketSide: 'losers' })
+    ));
+  }
+  const grandFinal = addMatch('plm-gf', winnersRounds + 1, { bracketSide: 'grandFinal' });
+  const reset = grandFinalReset
+    ? addMatch('plm-gf-reset', winnersRounds + 2, { bracketSide: 'grandFinal', isGrandFinalReset: true })
+    : null;
+
+  winners[0].forEach((match, i) => {
+    sources.get(match.id)![1] = { assignment: assignments[i * 2] };
+    sources.get(match.id)![2] = { assignment: assignments[i * 2 + 1] };
+  });
+  winners.forEach((roundMatches, r) => {
+    roundMatches.forEach((match, i) => {
+      if (r + 1 < winners.length) link(match, 'winner', winners[r + 1][Math.floor(i / 2)], i % 2 === 0 ? 1 : 2);
+      else link(match, 'winner', grandFinal, 1);
+
+      if (r === 0) {
+        link(match, 'loser', losers[0][Math.floor(i / 2)], i % 2 === 0 ? 1 : 2);
+      } else {
+        const dropRound = losers[2 * r - 1];
+        const target = r % 2 === 1 ? dropRound.length - 1 - i : i;
+        link(match, 'loser', dropRound[target], 2);
+      }
+    });
+  });
+  losers.forEach((roundMatches, r) => {
+    roundMatches.forEach((match, i) => {
+      if (r + 1 === losers.length) link(match, 'winner', grandFinal, 2);
+      else if (r % 2 === 0) link(match, 'winner', losers[r + 1][i], 1);
+      else link(match, 'winner', losers[r + 1][Math.floor(i / 2)], i % 2 === 0 ? 1 : 2);
+    });
+  });
+
+  // I bye si propagano: un lato è vuoto se la sua partita d'origine non ha il giocatore che dovrebbe mandare.
+  const isDeadSource = (source?: SlotSource): boolean => {
+    if (!source) return true;
+    if ('assignment' in source) return source.assignment === BYE;
+    const from = matches.find(m => m.id === source.matchId)!;
+    return source.outcome === 'winner' ? !!from.isVoid : (!!from.isVoid || !!from.byeSlot);
+  };
+  matches.forEach(match => {
+    if (match.isGrandFinalReset) return;
+    const slotSources = sources.get(match.id)!;
+    const dead1 = isDeadSource(slotSources[1]);
+    const dead2 = isDeadSource(slotSources[2]);
+    if (dead1 && dead2) match.isVoid = true;
+    else if (dead1 || dead2) match.byeSlot = dead1 ? 1 : 2;
+  });
+
+  const bracket: PlayoffBracket = {
+    matches,
+    isGenerated: true,
+    format: 'doubleElimination',
+    finalId: grandFinal.id,
+    bronzeFinalId: null,
+    grandFinalResetId: reset?.id ?? null,
+  };
+  winners[0].forEach((match, i) => {
+    [assignments[i * 2], assignments[i * 2 + 1]].forEach((playerId, side) => {
+      if (playerId && playerId !== BYE) placePlayer(bracket, match.id, side === 0 ? 1 : 2, playerId);
+    });
+  });
+  return bracket;
+};
+
+/**
+ * Records a result on a copy of the bracket and moves winner (and, in double
+ * elimination, loser) to their next matches. Returns the updated copy.
+ */
+export const advanceBracketMatch = (params: {
+  bracket: PlayoffBracket;
+  matchId: string;
+  result: MatchResultFields;
+  hasBronzeFinal: boolean;
+}) => {
+  const { bracket, matchId, result, hasBronzeFinal } = params;
+
+  const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(bracket));
+  const match = bracketCopy.matches.find(m => m.id === matchId);
+  if (!match) return { bracketCopy, updatedMatch: null as PlayoffMatch | null };
+
+  Object.assign(match, result);
+
+  // walkover e ritiro fanno avanzare il giocatore a cui è assegnata la vittoria
+  const winnerSide = getWinnerSide(result);
+  if (!winnerSide || !match.player1Id || !match.player2Id) return { bracketCopy, updatedMatch: match };
+  const winnerId = winnerSide === 1 ? match.player1Id : match.player2Id;
+  const loserId = winnerSide === 1 ? match.player2Id : match.player1Id;
+  match.winnerId = winnerId;
+
+  if (match.nextMatchId) placePlayer(bracketCopy, match.nextMatchId, getNextMatchSlot(bracketCopy, match), winnerId);
+  if (match.loserNextMatchId) placePlayer(bracketCopy, match.loserNextMatchId, match.loserNextMatchSlot ?? 1, loserId);
+
+  // finale: se vince chi arriva dal tabellone perdenti si gioca lo spareggio
+  if (match.id === bracketCopy.finalId && bracketCopy.grandFinalResetId) {
+    const reset = bracketCopy.matches.find(m => m.id === bracketCopy.grandFinalResetId);
+    if (reset) {
+      reset.player1Id = winnerSide === 2 ? match.player1Id : null;
+      reset.player2Id = winnerSide === 2 ? match.player2Id : null;
+    }
+  }
+
+  if (match.loserGoesToBronzeFinal && bracketCopy.bronzeFinalId && hasBronzeFinal) {
+    const bronzeMatch = bracketCopy.matches.find(m => m.id === bracketCopy.bronzeFinalId);
+    if (bronzeMatch) {
+      if (bronzeMatch.player1Id === null) bronzeMatch.player1Id = loserId;
+      else if (bronzeMatch.player2Id === null) bronzeMatch.player2Id = loserId;
+    }
+  }
+
+  return { bracketCopy, updatedMatch: match };
+};
+
+export const getBracketChampionId = (bracket: PlayoffBracket): string | null => {
+  const final = bracket.matches.find(m => m.id === bracket.finalId);
+  if (!final?.winnerId) return null;
+  if (bracket.format !== 'doubleElimination' || !bracket.grandFinalResetId) return final.winnerId;
+  // chi arriva imbattuto vince subito la finale; altrimenti decide lo spareggio
+  if (final.winnerId === final.player1Id) return final.winnerId;
+  return bracket.matches.find(m => m.id === bracket.grandFinalResetId)?.winnerId ?? null;
+};
+
+export const buildLeagueMatchFromBracketMatch = (pm: PlayoffMatch, leagueMatchId: string): Match | null => {
+  if (!pm.player1Id || !pm.player2Id) return null;
+  return {
+    id: leagueMatchId,
+    player1Id: pm.player1Id,
+    player2Id: pm.player2Id,
+    score1: pm.score1,
+    score2: pm.score2,
+    score: pm.score ?? null,
+    resultType: pm.resultType ?? null,
+    awardedTo: pm.awardedTo ?? null,
+    status: hasMatchResult(pm) ? 'completed' : 'pending',
+  };
+};
+
+/**
+ * Makes sure every bracket match with both competitors has its mirror "league" match
+ * (the one players book from the Partite tab). Existing mirrors keep their booking fields.
+ */
+export const syncLeagueMatchesWithBracket = (
+  bracket: PlayoffBracket,
+  leagueMatches: Match[],
+  toLeagueMatchId: (bracketMatchId: string) => string,
+): Match[] => {
+  const next = leagueMatches.slice();
+  bracket.matches.forEach(pm => {
+    const built = buildLeagueMatchFromBracketMatch(pm, toLeagueMatchId(pm.id));
+    if (!built) return;
+    const idx = next.findIndex(m => m.id === built.id);
+    if (idx === -1) next.push(built);
+    else next[idx] = { ...next[idx], player1Id: built.player1Id, player2Id: built.player2Id };
+  });
+  return next;
+};
+
+// Toglie dal tabellone i giocatori mandati avanti da `match` e annulla a cascata le partite che li contenevano.
+const clearPropagation = (bracket: PlayoffBracket, match: PlayoffMatch, affected: Set<string>) => {
+  if (!match.winnerId) return;
+  const winnerId = match.winnerId;
+  const loserId = match.player1Id === winnerId ? match.player2Id : match.player1Id;
+  const find = (id?: string | null) => (id ? bracket.matches.find(m => m.id === id) : undefined);
+
+  const removeFrom = (target: PlayoffMatch | undefined, playerId: string | null, slots: (1 | 2)[]) => {
+    if (!target || !playerId) return;
+    const slot = slots.find(s => (s === 1 ? target.player1Id : target.player2Id) === playerId);
+    if (!slot) return;
+    invalidateMatch(bracket, target, affected);
+    setSlot(target, slot, null);
+  };
+
+  const next = find(match.nextMatchId);
+  if (next) removeFrom(next, winnerId, [getNextMatchSlot(bracket, match)]);
+  removeFrom(find(match.loserNextMatchId), loserId, [match.loserNextMatchSlot ?? 1]);
+  if (match.loserGoesToBronzeFinal) removeFrom(find(bracket.bronzeFinalId), loserId, [1, 2]);
+
+  if (match.id === bracket.finalId) {
+    const reset = find(bracket.grandFinalResetId);
+    if (reset && (reset.player1Id || reset.player2Id)) {
+      invalidateMatch(bracket, reset, affected);
+      reset.player1Id = null;
+      reset.player2Id = null;
+    }
+  }
+};
+
+const invalidateMatch = (bracket: PlayoffBracket, match: PlayoffMatch, affected: Set<string>) => {
+  affected.add(match.id);
+  clearPropagation(bracket, match, affected);
+  Object.assign(match, EMPTY_MATCH_RESULT);
+  match.winnerId = null;
+};
+
+/**
+ * Changes the result of a bracket match that may already have been played.
+ * When the winner changes, every later match the old winner or loser had
+ * reached (next round, losers' bracket, bronze final, grand final reset) loses
+ * that competitor and its result, then the new result is propagated as usual.
+ * `affectedMatchIds` lists those later matches, for a preview or for clearing
+ * their bookings.
+ */
+export const correctBracketMatch = (params: {
+  bracket: PlayoffBracket;
+  matchId: string;
+  result: MatchResultFields;
+  hasBronzeFinal: boolean;
+}) => {
+  const { bracket, matchId, result, hasBronzeFinal } = params;
+  const original = bracket.matches.find(m => m.id === matchId);
+  if (!original?.winnerId) return { ...advanceBracketMatch(params), affectedMatchIds: [] as string[] };
+
+  const winnerSide = getWinnerSide(result);
+  const newWinnerId = winnerSide === 1 ? original.player1Id : winnerSide === 2 ? original.player2Id : null;
+  const bracketCopy: PlayoffBracket = JSON.parse(JSON.stringify(bracket));
+  const match = bracketCopy.matches.find(m => m.id === matchId)!;
+
+  // stesso vincitore: cambia solo il punteggio, il resto del tabellone resta valido
+  if (newWinnerId === original.winnerId) {
+    Object.assign(match, result);
+    return { bracketCopy, updatedMatch: match, affectedMatchIds: [] as string[] };
+  }
+
+  const affected = new Set<string>();
+  clearPropagation(bracketCopy, match, affected);
+  match.winnerId = null;
+  const advanced = advanceBracketMatch({ bracket: bracketCopy, matchId, result, hasBronzeFinal });
+  return { ...advanced, affectedMatchIds: Array.from(affected) };
+};
+
+/**
+ * Drops the mirror league matches of bracket matches invalidated by a
+ * correction: their result and booking belonged to a pairing that no longer
+ * exists. `syncLeagueMatchesWithBracket` recreates them once both competitors
+ * are known again.
+ */
+export const dropInvalidatedLeagueMatches = (
+  leagueMatches: Match[],
+  affectedMatchIds: string[],
+  toLeagueMatchId: (bracketMatchId: string) => string,
+): Match[] => {
+  const dropped = new Set(affectedMatchIds.map(toLeagueMatchId));
+  return leagueMatches.filter(m => !dropped.has(m.id));
+};
@@ -0,0 +1,247 @@
+import {
+  type GroupDrawConstraint,
+  type GroupDrawMethod,
+  type GroupDrawSeedingSource,
+  type PadelTeam,
+  type Player,
+  type Tournament,
+} from '../types';
+import { calculateStandings } from './standings';
+
+export const GROUP_DRAW_SOURCE_LABELS: Record<GroupDrawSeedingSource, string> = {
+  rankingPoints: 'Punti ranking',
+  pastTournament: 'Classifica di un torneo precedente',
+  manual: 'Ordine manuale',
+};
+
+export const GROUP_DRAW_METHOD_LABELS: Record<GroupDrawMethod, string> = {
+  serpentine: 'Serpentina',
+  pots: 'Fasce di livello',
+};
+
+export const GROUP_DRAW_CONSTRAINT_LABELS: Record<GroupDrawConstraint, string> = {
+  sameClub: 'Stesso circolo in gironi diversi',
+  samePartner: 'Compagni di squadra in gironi diversi',
+};
+
+// Numero massimo di tentativi del backtracking prima di allentare i vincoli
+const MAX_SEARCH_STEPS = 50000;
+
+export interface GroupDrawCompetitor {
+  id: string;
+  playerIds: string[];
+}
+
+export interface GroupDrawResult {
+  // un array di id per girone, nell'ordine dei gironi
+  assignments: string[][];
+  // coppie che violano i vincoli quando non è stato possibile rispettarli
+  violations: [string, string][];
+  // true se i gironi non hanno potuto ricevere un solo componente per fascia
+  potsRelaxed: boolean;
+}
+
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Generatore mulberry32: stesso seme, stessa sequenza.
+export const createSeededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const getDrawCompetitors = (players: Player[], teams: PadelTeam[], isPadel: boolean): GroupDrawCompetitor[] => {
+  if (isPadel) return teams.map(team => ({ id: team.id, playerIds: [team.player1Id, team.player2Id] }));
+  return players.filter(p => p.status === 'confirmed').map(p => ({ id: p.id, playerIds: [p.id] }));
+};
+
+export const getBalancedGroupSizes = (competitorCount: number, groupCount: number): number[] => {
+  if (groupCount <= 0) return [];
+  const base = Math.floor(competitorCount / groupCount);
+  return [...Array(groupCount).keys()].map(i => base + (i < competitorCount % groupCount ? 1 : 0));
+};
+
+interface RankForDrawOptions {
+  competitors: GroupDrawCompetitor[];
+  source: GroupDrawSeedingSource;
+  players: Player[];
+  seed: string;
+  pastTournament?: Tournament | null;
+  manualOrder?: string[];
+}
+
+/**
+ * Orders the competitors by level. Equal levels (and competitors missing from
+ * the chosen source) are ordered by the seeded random generator, so the same
+ * seed always gives the same order.
+ */
+export const rankCompetitorsForDraw = ({ competitors, source, players, seed, pastTournament, manualOrder }: RankForDrawOptions): string[] => {
+  const random = createSeededRandom(`${seed}:order`);
+  const shuffled = shuffle(competitors, random);
+
+  if (source === 'manual') {
+    const order = (manualOrder ?? []).filter(id => shuffled.some(c => c.id === id));
+    return [...order, ...shuffled.map(c => c.id).filter(id => !order.includes(id))];
+  }
+
+  if (source === 'pastTournament' && pastTournament) {
+    const positions = new Map<string, [number, number]>();
+    pastTournament.groups.forEach(group => {
+      calculateStandings(group, players, pastTournament.settings).forEach((entry, index) => {
+        const perMatch = entry.played > 0 ? entry.points / entry.played : 0;
+        positions.set(entry.playerId, [index, perMatch]);
+      });
+    });
+    // per le squadre vale la posizione migliore tra squadra e singoli giocatori
+    const getPosition = (c: GroupDrawCompetitor): [number, number] => [c.id, ...c.playerIds]
+      .map(id => positions.get(id))
+      .filter((p): p is [number, number] => !!p)
+      .sort((a, b) => (a[0] - b[0]) || (b[1] - a[1]))[0] ?? [Infinity, 0];
+    return [...shuffled]
+      .sort((a, b) => {
+        const [rankA, pointsA] = getPosition(a);
+        const [rankB, pointsB] = getPosition(b);
+        if (rankA !== rankB) return rankA === Infinity ? 1 : rankB === Infinity ? -1 : rankA - rankB;
+        return pointsB - pointsA;
+      })
+      .map(c => c.id);
+  }
+
+  const getPoints = (c: GroupDrawCompetitor) =>
+    c.playerIds.reduce((sum, id) => sum + (players.find(p => p.id === id)?.summerRankingStartPoints ?? 0), 0);
+  return [...shuffled].sort((a, b) => getPoints(b) - getPoints(a)).map(c => c.id);
+};
+
+/** Returns a checker telling whether two competitors must not share a group. */
+export const buildDrawConflictChecker = (
+  competitors: GroupDrawCompetitor[],
+  constraints: GroupDrawConstraint[],
+  players: Player[],
+  partnerTeams: PadelTeam[],
+) => {
+  const byId = new Map(competitors.map(c => [c.id, c]));
+  const getClubs = (c: GroupDrawCompetitor) => new Set(c.playerIds
+    .map(id => players.find(p => p.id === id)?.club?.trim().toLowerCase())
+    .filter((club): club is string => !!club));
+  const arePartners = (a: GroupDrawCompetitor, b: GroupDrawCompetitor) =>
+    a.playerIds.some(id => b.playerIds.includes(id))
+    || partnerTeams.some(team =>
+      (a.playerIds.includes(team.player1Id) && b.playerIds.includes(team.player2Id))
+      || (a.playerIds.includes(team.player2Id) && b.playerIds.includes(team.player1Id)));
+
+  return (aId: string, bId: string) => {
+    const a = byId.get(aId);
+    const b = byId.get(bId);
+    if (!a || !b) return false;
+    if (constraints.includes('samePartner') && arePartners(a, b)) return true;
+    if (constraints.includes('sameClub')) {
+      const clubsB = getClubs(b);
+      if ([...getClubs(a)].some(club => clubsB.has(club))) return true;
+    }
+    return false;
+  };
+};
+
+interface DrawGroupsOptions {
+  seedOrder: string[];
+  groupSizes: number[];
+  method: GroupDrawMethod;
+  seed: string;
+  conflicts: (aId: string, bId: string) => boolean;
+}
+
+/**
+ * Distributes the ranked competitors into groups. Serpentine fills the groups
+ * 1→N then N→1 by level; pots split the ranking into blocks of N and draw each
+ * block at random, one competitor per group. Constraints and group sizes are
+ * enforced by backtracking; if the constraints cannot all be met, the draw
+ * still completes and the offending pairs are reported.
+ */
+export const drawGroups = ({ seedOrder, groupSizes, method, seed, conflicts }: DrawGroupsOptions): GroupDrawResult => {
+  const groupCount = groupSizes.length;
+  if (groupCount === 0) return { assignments: [], violations: [], potsRelaxed: false };
+  const random = createSeededRandom(`${seed}:draw`);
+
+  // ordine di estrazione e girone preferito per ciascun competitore
+  const order: { id: string; pot: number; preferred: number }[] = [];
+  for (let start = 0; start < seedOrder.length; start += groupCount) {
+    const pot = start / groupCount;
+    const block = seedOrder.slice(start, start + groupCount);
+    if (method === 'pots') {
+      const groupOrder = shuffle([...Array(groupCount).keys()], random);
+      shuffle(block, random).forEach((id, i) => order.push({ id, pot, preferred: groupOrder[i] }));
+    } else {
+      block.forEach((id, i) => order.push({ id, pot, preferred: pot % 2 === 0 ? i : groupCount - 1 - i }));
+    }
+  }
+
+  const attempt = (respectConstraints: boolean, onePerPot: boolean): string[][] | null => {
+    const groups: { id: string; pot: number }[][] = groupSizes.map(() => []);
+    let steps = 0;
+    const place = (index: number): boolean => {
+      if (index === order.length) return true;
+      if (++steps > MAX_SEARCH_STEPS) return false;
+      const { id, pot, preferred } = order[index];
+      const candidates = [...Array(groupCount).keys()]
+        .sort((a, b) => Math.abs(a - preferred) - Math.abs(b - preferred) || a - b);
+      for (const g of candidates) {
+        const members = groups[g];
+        if (members.length >= groupSizes[g]) continue;
+        if (onePerPot && members.some(m => m.pot === pot)) continue;
+        if (respectConstraints && members.some(m => conflicts(id, m.id))) continue;
+        members.push({ id, pot });
+        if (place(index + 1)) return true;
+        members.pop();
+      }
+      return false;
+    };
+    return place(0) ? groups.map(members => members.map(m => m.id)) : null;
+  };
+
+  // ultima risorsa: ognuno nel girone libero con meno incompatibilità
+  const placeWithFewestConflicts = (): string[][] => {
+    const groups: string[][] = groupSizes.map(() => []);
+    order.forEach(({ id, preferred }) => {
+      const best = [...Array(groupCount).keys()]
+        .filter(g => groups[g].length < groupSizes[g])
+        .map(g => ({ g, clashes: groups[g].filter(other => conflicts(id, other)).length }))
+        .sort((a, b) => (a.clashes - b.clashes) || (Math.abs(a.g - preferred) - Math.abs(b.g - preferred)) || (a.g - b.g))[0];
+      if (best) groups[best.g].push(id);
+    });
+    return groups;
+  };
+
+  let potsRelaxed = false;
+  let assignments = attempt(true, true);
+  if (!assignments) {
+    potsRelaxed = true;
+    assignments = attempt(true, false) ?? placeWithFewestConflicts();
+  }
+
+  const violations: [string, string][] = [];
+  assignments.forEach(members => members.forEach((a, i) => members.slice(i + 1).forEach(b => {
+    if (conflicts(a, b)) violations.push([a, b]);
+  })));
+  return { assignments, violations, potsRelaxed };
+};
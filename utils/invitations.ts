@@ -0,0 +1,68 @@
+import { type Event, type InvitationSettings, type PlayerLevel } from '../types';
+
+export const PLAYER_LEVEL_LABELS: Record<PlayerLevel, string> = {
+  beginner: 'Principiante',
+  intermediate: 'Intermedio',
+  advanced: 'Avanzato',
+  expert: 'Agonista',
+};
+
+export const JOIN_LINK_PARAM = 'join';
+
+export const generateInvitationCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+
+export const normalizeInvitationCode = (code: string) => code.trim().toUpperCase();
+
+export const getInvitationSettings = (event: Pick<Event, 'invitation'>): InvitationSettings =>
+  event.invitation ?? { uses: 0 };
+
+export const findEventByInvitationCode = (events: Event[], code: string) => {
+  const wanted = normalizeInvitationCode(code);
+  if (!wanted) return undefined;
+  return events.find(e => normalizeInvitationCode(e.invitationCode ?? '') === wanted);
+};
+
+/**
+ * Why a code cannot be used right now, or null when registrations are open.
+ * The event deadline applies to every code; expiry and maximum uses belong
+ * to the current code and reset when it is rotated.
+ */
+export const getInvitationError = (event: Pick<Event, 'invitation' | 'registrationDeadline'>, now = new Date()): string | null => {
+  if (event.registrationDeadline && new Date(event.registrationDeadline).getTime() < now.getTime()) {
+    return 'Le iscrizioni a questo evento sono chiuse.';
+  }
+  const settings = getInvitationSettings(event);
+  if (settings.expiresAt && new Date(settings.expiresAt).getTime() < now.getTime()) {
+    return 'Il codice invito è scaduto: chiedine uno nuovo all\'organizzatore.';
+  }
+  if (settings.maxUses !== undefined && settings.uses >= settings.maxUses) {
+    return 'Il codice invito ha raggiunto il numero massimo di iscrizioni.';
+  }
+  return null;
+};
+
+/** Why `playerId` cannot join `event` now (closed registrations or already registered), or null. */
+export const getJoinRequestError = (event: Pick<Event, 'invitation' | 'registrationDeadline' | 'players'>, playerId?: string, now = new Date()): string | null => {
+  const invitationError = getInvitationError(event, now);
+  if (invitationError) return invitationError;
+  if (playerId && (event.players ?? []).some(p => p.id === playerId)) {
+    return 'Sei già iscritto a questo evento (o la tua richiesta è in attesa di approvazione).';
+  }
+  return null;
+};
+
+/** New code for the event: the old one stops working and the use count restarts. */
+export const rotateInvitation = (event: Event, now = new Date()): { invitationCode: string; invitation: InvitationSettings } => {
+  let invitationCode = generateInvitationCode();
+  while (invitationCode === event.invitationCode) invitationCode = generateInvitationCode();
+  return {
+    invitationCode,
+    invitation: { ...getInvitationSettings(event), uses: 0, rotatedAt: now.toISOString() },
+  };
+};
+
+export const buildJoinLink = (code: string) =>
+  `${window.location.origin}${window.location.pathname}?${JOIN_LINK_PARAM}=${encodeURIComponent(code)}`;
+
+export const readJoinCodeFromUrl = () =>
+  new URLSearchParams(window.location.search).get(JOIN_LINK_PARAM) ?? '';
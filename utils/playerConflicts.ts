@@ -0,0 +1,146 @@
+import { type Event, type Match, type SummerRankingMasterMatch } from '../types';
+import { getActiveProposal } from './proposals';
+import { getCompetitorPlayerIds } from './scheduler';
+import { DEFAULT_COURT_BOOKING_MINUTES } from './venues';
+
+export interface PlayerBooking {
+  playerId: string;
+  start: number; // ms
+  eventId: string;
+  eventName: string;
+  matchId: string;
+  location?: string;
+  field?: string;
+}
+
+export interface PlayerScheduleConflict {
+  playerId: string;
+  first: PlayerBooking;
+  second: PlayerBooking;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const getEventMatchesWithRanking = (event: Event): Match[] => [
+  ...(event.tournaments ?? []).flatMap(t => [
+    ...(t.groups ?? []).flatMap(g => g.matches ?? []),
+    ...(t.playoffMatches ?? []),
+    ...(t.consolationMatches ?? []),
+  ]),
+  ...(event.rankingData?.matches ?? []),
+];
+
+const getEventScheduledMatches = (event: Event): (Match | SummerRankingMasterMatch)[] => [
+  ...getEventMatchesWithRanking(event),
+  ...(event.rankingData?.master?.matches ?? []),
+].filter(m => m.status === 'scheduled' && !!m.scheduledTime);
+
+const toBookings = (
+  event: Event,
+  match: Match | SummerRankingMasterMatch,
+  scheduledTime: string,
+  location?: string,
+  field?: string,
+): PlayerBooking[] => {
+  const start = new Date(scheduledTime).getTime();
+  if (isNaN(start)) return [];
+  const playerIds = [match.player1Id, match.player2Id]
+    .filter((id): id is string => !!id)
+    .flatMap(id => getCompetitorPlayerIds(event, id));
+  return Array.from(new Set(playerIds)).map(playerId => ({
+    playerId,
+    start,
+    eventId: event.id,
+    eventName: event.name,
+    matchId: match.id,
+    location,
+    field,
+  }));
+};
+
+/**
+ * Scheduled matches of every event, one entry per real player: padel teams
+ * are expanded into their two members.
+ */
+export const getPlayerBookings = (events: Event[]): PlayerBooking[] => events.flatMap(event =>
+  getEventScheduledMatches(event).flatMap(match =>
+    toBookings(event, match, match.scheduledTime as string, match.location, match.field)));
+
+/**
+ * Times held by active proposals in every event, in the same shape as
+ * {@link getPlayerBookings}: until the opponent answers, both players may end
+ * up playing then.
+ */
+export const getProposalBookings = (events: Event[], now = Date.now()): PlayerBooking[] => events.flatMap(event =>
+  getEventMatchesWithRanking(event).flatMap(match => {
+    const proposal = getActiveProposal(match, now);
+    return proposal ? toBookings(event, match, proposal.scheduledTime, proposal.location, proposal.field) : [];
+  }));
+
+/** Bookings of the given players that overlap a match starting at `start`. */
+export const findPlayerConflicts = (
+  bookings: PlayerBooking[],
+  playerIds: string[],
+  start: string,
+  durationMinutes = DEFAULT_COURT_BOOKING_MINUTES,
+  ignoreMatchId?: string,
+): PlayerBooking[] => {
+  const time = new Date(start).getTime();
+  if (isNaN(time)) return [];
+  const length = durationMinutes * 60000;
+  return bookings.filter(b =>
+    playerIds.includes(b.playerId) && b.matchId !== ignoreMatchId && Math.abs(b.start - time) < length);
+};
+
+/** Every pair of overlapping bookings of the same player, earliest first. */
+export const getPlayerScheduleConflicts = (
+  bookings: PlayerBooking[],
+  durationMinutes = DEFAULT_COURT_BOOKING_MINUTES,
+): PlayerScheduleConflict[] => {
+  const length = durationMinutes * 60000;
+  const byPlayer = new Map<string, PlayerBooking[]>();
+  bookings.forEach(b => byPlayer.set(b.playerId, [...(byPlayer.get(b.playerId) ?? []), b]));
+
+  const conflicts: PlayerScheduleConflict[] = [];
+  byPlayer.forEach((list, playerId) => {
+    const sorted = [...list].sort((a, b) => a.start - b.start);
+    sorted.forEach((first, i) => {
+      for (let j = i + 1; j < sorted.length && sorted[j].start - first.start < length; j++) {
+        if (sorted[j].matchId !== first.matchId) conflicts.push({ playerId, first, second: sorted[j] });
+      }
+    });
+  });
+  return conflicts.sort((a, b) => a.first.start - b.first.start);
+};
+
+export const formatBookingTime = (booking: PlayerBooking) => {
+  const d = new Date(booking.start);
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/** Warning text for a booking that overlaps other matches of its players. */
+export const formatPlayerConflictWarning = (conflicts: PlayerBooking[], getPlayerName: (playerId: string) => string) =>
+  conflicts
+    .map(c => `${getPlayerName(c.playerId)} ha già una partita il ${formatBookingTime(c)} (evento "${c.eventName}").`)
+    .join('\n');
+
+export const createPlayerNameResolver = (events: Event[]) => {
+  const names = new Map(events.flatMap(e => e.players ?? []).map(p => [p.id, p.name]));
+  return (playerId: string) => names.get(playerId) ?? playerId;
+};
+
+/**
+ * Warning for booking the two competitors of `event` at `start`, or null when
+ * none of their players has an overlapping match in any event.
+ */
+export const getBookingConflictWarning = (
+  events: Event[],
+  event: Event,
+  competitorIds: string[],
+  start: string,
+  ignoreMatchId?: string,
+): string | null => {
+  const playerIds = competitorIds.flatMap(id => getCompetitorPlayerIds(event, id));
+  const conflicts = findPlayerConflicts(getPlayerBookings(events), playerIds, start, DEFAULT_COURT_BOOKING_MINUTES, ignoreMatchId);
+  return conflicts.length > 0 ? formatPlayerConflictWarning(conflicts, createPlayerNameResolver(events)) : null;
+};
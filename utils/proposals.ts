@@ -0,0 +1,114 @@
+import { type BookingProposal, type BookingProposalKind, type Match, type TimeSlot, type Tournament } from '../types';
+
+export const DEFAULT_PROPOSAL_EXPIRY_HOURS = 48;
+
+export const BOOKING_PROPOSAL_KIND_LABELS: Record<BookingProposalKind, string> = {
+  booking: 'Proposta di prenotazione',
+  reschedule: 'Richiesta di spostamento',
+};
+
+interface CreateProposalOptions {
+  kind: BookingProposalKind;
+  proposedBy: string;
+  scheduledTime: string;
+  slot?: TimeSlot | null;
+  // senza slot (sfide del ranking) luogo e campo arrivano dal form
+  location?: string;
+  field?: string;
+  venueId?: string;
+  courtId?: string;
+  expiryHours?: number;
+  now?: Date;
+}
+
+/** Builds a proposal without undefined keys, which Firestore rejects. */
+export const createBookingProposal = ({
+  kind,
+  proposedBy,
+  scheduledTime,
+  slot,
+  location,
+  field,
+  venueId,
+  courtId,
+  expiryHours = DEFAULT_PROPOSAL_EXPIRY_HOURS,
+  now = new Date(),
+}: CreateProposalOptions): BookingProposal => {
+  const proposal: BookingProposal = {
+    id: `prop_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    proposedBy,
+    scheduledTime: new Date(scheduledTime).toISOString(),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + expiryHours * 3600000).toISOString(),
+  };
+  const resolvedLocation = slot?.location ?? location;
+  const resolvedField = slot?.field ?? field;
+  const resolvedVenueId = slot ? slot.venueId : venueId;
+  const resolvedCourtId = slot ? slot.courtId : courtId;
+  if (slot) proposal.slotId = slot.id;
+  if (resolvedLocation) proposal.location = resolvedLocation;
+  if (resolvedField) proposal.field = resolvedField;
+  if (resolvedVenueId) proposal.venueId = resolvedVenueId;
+  if (resolvedCourtId) proposal.courtId = resolvedCourtId;
+  return proposal;
+};
+
+/** A proposal holds its slot until it is answered or expires. */
+export const isProposalActive = (proposal?: BookingProposal | null, now = Date.now()): proposal is BookingProposal =>
+  !!proposal && new Date(proposal.expiresAt).getTime() > now;
+
+export const getActiveProposal = (match: Pick<Match, 'proposal'>, now = Date.now()) =>
+  isProposalActive(match.proposal, now) ? match.proposal : null;
+
+/** The competitor who has to answer the proposal. */
+export const getProposalRecipient = (match: Pick<Match, 'player1Id' | 'player2Id'>, proposal: BookingProposal) =>
+  proposal.proposedBy === match.player1Id ? match.player2Id : match.player1Id;
+
+export const getHeldSlotIds = (matches: Pick<Match, 'proposal'>[], now = Date.now()) => matches
+  .map(m => getActiveProposal(m, now)?.slotId)
+  .filter((slotId): slotId is string => !!slotId);
+
+/** Slots a match takes up: its own booking (scheduled or played) and the slot of its active proposal. */
+export const getOccupiedSlotIds = (match: Match, now = Date.now()): string[] => [
+  ...(match.slotId && (match.status === 'scheduled' || match.status === 'completed') ? [match.slotId] : []),
+  ...getHeldSlotIds([match], now),
+];
+
+export const clearProposal = <T extends Match>(match: T): T => {
+  const { proposal: _proposal, ...rest } = match;
+  return rest as T;
+};
+
+/** Schedules the match on the proposed date and drops the proposal. */
+export const acceptProposal = <T extends Match>(match: T): T => {
+  const proposal = match.proposal;
+  if (!proposal) return match;
+  const { proposal: _proposal, slotId: _slotId, venueId: _venueId, courtId: _courtId, ...rest } = match;
+  return {
+    ...rest,
+    status: 'scheduled',
+    scheduledTime: proposal.scheduledTime,
+    location: proposal.location ?? '',
+    field: proposal.field ?? (proposal.location ?? ''),
+    ...(proposal.slotId ? { slotId: proposal.slotId } : {}),
+    ...(proposal.venueId ? { venueId: proposal.venueId } : {}),
+    ...(proposal.courtId ? { courtId: proposal.courtId } : {}),
+  } as T;
+};
+
+export const formatProposalExpiry = (proposal: BookingProposal, now = Date.now()) => {
+  const hours = Math.max(0, Math.round((new Date(proposal.expiresAt).getTime() - now) / 3600000));
+  return hours >= 24 ? `scade tra ${Math.round(hours / 24)} g` : hours > 0 ? `scade tra ${hours} h` : 'in scadenza';
+};
+
+/** Replaces a match wherever it lives in the tournament (groups, playoff or consolation). */
+export const replaceTournamentMatch = (tournament: Tournament, updatedMatch: Match): Tournament => {
+  const replace = (matches: Match[]) => matches.map(m => m.id === updatedMatch.id ? updatedMatch : m);
+  return {
+    ...tournament,
+    groups: tournament.groups.map(g => g.matches.some(m => m.id === updatedMatch.id) ? { ...g, matches: replace(g.matches) } : g),
+    ...(tournament.playoffMatches ? { playoffMatches: replace(tournament.playoffMatches) } : {}),
+    ...(tournament.consolationMatches ? { consolationMatches: replace(tournament.consolationMatches) } : {}),
+  };
+};
@@ -0,0 +1,82 @@
+import { type CrossGroupNormalization, type CrossGroupQualification, type Group, type StandingsEntry, type TournamentSettings } from '../types';
+import { buildStandingsMap } from './standings';
+import { isResultConfirmed } from './resultConfirmation';
+
+export const CROSS_GROUP_NORMALIZATION_LABELS: Record<CrossGroupNormalization, string> = {
+  pointsPerMatch: 'Media punti per partita',
+  excludeLastPlaced: 'Escludi risultati contro le ultime classificate',
+};
+
+export interface GroupStandings {
+  group: Group;
+  // classifica già filtrata (es. senza i ritirati), nell'ordine definitivo del girone
+  standings: StandingsEntry[];
+}
+
+export interface CrossGroupCandidate {
+  playerId: string;
+  groupId: string;
+  groupName: string;
+  rank: number;
+  played: number;
+  points: number;
+  goalDifference: number;
+  goalsFor: number;
+  // valore usato per il confronto: punti o media punti a seconda della normalizzazione
+  rating: number;
+  excludedOpponents: number;
+  qualified: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Ranks the competitors placed `rule.rank` in each group against each other.
+ * With `excludeLastPlaced`, larger groups drop the results against their bottom
+ * competitors so that every candidate is compared on the same number of opponents.
+ */
+export const rankCrossGroupCandidates = (
+  groupStandings: GroupStandings[],
+  rule: CrossGroupQualification,
+  settings: TournamentSettings,
+): CrossGroupCandidate[] => {
+  const eligibleGroups = groupStandings.filter(({ standings }) => standings.length >= rule.rank);
+  if (eligibleGroups.length === 0 || rule.rank < 1) return [];
+  const smallestGroupSize = Math.min(...eligibleGroups.map(({ standings }) => standings.length));
+
+  const candidates = eligibleGroups.map(({ group, standings }) => {
+    const entry = standings[rule.rank - 1];
+    let stats = entry;
+    let excludedOpponents = 0;
+
+    if (rule.normalization === 'excludeLastPlaced' && standings.length > smallestGroupSize) {
+      const excludedIds = new Set(standings.slice(smallestGroupSize).map(e => e.playerId));
+      const keptMatches = (Array.isArray(group.matches) ? group.matches : []).filter(m =>
+        m.status === 'completed' && isResultConfirmed(m, settings.resultAutoConfirmHours) && !excludedIds.has(m.player1Id) && !excludedIds.has(m.player2Id)
+      );
+      stats = buildStandingsMap([entry.playerId], keptMatches, settings)[entry.playerId];
+      excludedOpponents = excludedIds.size;
+    }
+
+    const perMatch = (value: number) => (stats.played > 0 ? round2(value / stats.played) : 0);
+    const useAverage = rule.normalization === 'pointsPerMatch';
+    return {
+      playerId: entry.playerId,
+      groupId: group.id,
+      groupName: group.name,
+      rank: rule.rank,
+      played: stats.played,
+      points: stats.points,
+      goalDifference: useAverage ? perMatch(stats.goalDifference) : stats.goalDifference,
+      goalsFor: useAverage ? perMatch(stats.goalsFor) : stats.goalsFor,
+      rating: useAverage ? perMatch(stats.points) : stats.points,
+      excludedOpponents,
+      qualified: false,
+    };
+  });
+
+  const sorted = [...candidates].sort((a, b) =>
+    (b.rating - a.rating) || (b.goalDifference - a.goalDifference) || (b.goalsFor - a.goalsFor)
+  );
+  return sorted.map((candidate, index) => ({ ...candidate, qualified: index < rule.count }));
+};
@@ -0,0 +1,88 @@
+import { type Match, type ResultConfirmation, type ResultConfirmationStatus } from '../types';
+
+export const DEFAULT_RESULT_AUTO_CONFIRM_HOURS = 24;
+
+export const RESULT_CONFIRMATION_LABELS: Record<ResultConfirmationStatus, string> = {
+  submitted: 'Risultato provvisorio',
+  confirmed: 'Risultato confermato',
+  disputed: 'Risultato contestato',
+};
+
+type ConfirmableMatch = Pick<Match, 'resultConfirmation'>;
+
+const getAutoConfirmTime = (confirmation: ResultConfirmation, autoConfirmHours: number) =>
+  new Date(confirmation.submittedAt).getTime() + autoConfirmHours * 3600000;
+
+/**
+ * Current state of a result. Results without a confirmation record (entered
+ * by an organizer, or saved before the lifecycle existed) count as confirmed,
+ * and a submitted result nobody disputed confirms itself after
+ * `autoConfirmHours`.
+ */
+export const getResultConfirmationStatus = (
+  match: ConfirmableMatch,
+  autoConfirmHours = DEFAULT_RESULT_AUTO_CONFIRM_HOURS,
+  now = Date.now(),
+): ResultConfirmationStatus => {
+  const confirmation = match.resultConfirmation;
+  if (!confirmation) return 'confirmed';
+  if (confirmation.status === 'submitted' && getAutoConfirmTime(confirmation, autoConfirmHours) <= now) return 'confirmed';
+  return confirmation.status;
+};
+
+export const isResultConfirmed = (match: ConfirmableMatch, autoConfirmHours?: number, now?: number) =>
+  getResultConfirmationStatus(match, autoConfirmHours, now) === 'confirmed';
+
+/** The competitor expected to confirm or dispute the result. */
+export const getResultConfirmer = (match: Pick<Match, 'player1Id' | 'player2Id' | 'resultConfirmation'>) =>
+  match.resultConfirmation
+    ? (match.resultConfirmation.submittedBy === match.player1Id ? match.player2Id : match.player1Id)
+    : null;
+
+const withoutConfirmation = <T extends Match>(match: T): T => {
+  const { resultConfirmation: _resultConfirmation, ...rest } = match;
+  return rest as T;
+};
+
+/**
+ * Marks a freshly saved result as submitted by `submittedBy`. Without a
+ * submitter (the organizer saved it) the result is final straight away.
+ */
+export const withSubmittedResult = <T extends Match>(match: T, submittedBy?: string | null, now = new Date()): T =>
+  submittedBy
+    ? { ...match, resultConfirmation: { status: 'submitted', submittedBy, submittedAt: now.toISOString() } }
+    : withoutConfirmation(match);
+
+export const confirmResult = <T extends Match>(match: T, confirmedBy: string, now = new Date()): T => {
+  if (!match.resultConfirmation) return match;
+  return {
+    ...match,
+    resultConfirmation: { ...match.resultConfirmation, status: 'confirmed', confirmedBy, confirmedAt: now.toISOString() },
+  };
+};
+
+export const disputeResult = <T extends Match>(match: T, disputedBy: string, reason?: string, now = new Date()): T => {
+  if (!match.resultConfirmation) return match;
+  const confirmation: ResultConfirmation = {
+    ...match.resultConfirmation,
+    status: 'disputed',
+    disputedBy,
+    disputedAt: now.toISOString(),
+  };
+  if (reason?.trim()) confirmation.disputeReason = reason.trim();
+  else delete confirmation.disputeReason;
+  return { ...match, resultConfirmation: confirmation };
+};
+
+/** Drops the confirmation record, e.g. when the result is deleted. */
+export const clearResultConfirmation = withoutConfirmation;
+
+export const formatAutoConfirm = (
+  match: ConfirmableMatch,
+  autoConfirmHours = DEFAULT_RESULT_AUTO_CONFIRM_HOURS,
+  now = Date.now(),
+) => {
+  if (!match.resultConfirmation) return '';
+  const hours = Math.max(0, Math.round((getAutoConfirmTime(match.resultConfirmation, autoConfirmHours) - now) / 3600000));
+  return hours > 0 ? `conferma automatica tra ${hours} h` : 'conferma automatica imminente';
+};
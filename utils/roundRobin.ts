@@ -0,0 +1,63 @@
+import { type Group, type GroupMatchday, type Match } from '../types';
+
+export interface RoundRobinPairing {
+  round: number;
+  player1Id: string;
+  player2Id: string;
+}
+
+/**
+ * Splits a round robin into matchdays with the circle method: the first
+ * competitor stays fixed while the others rotate, so everyone plays at most
+ * once per matchday. With an odd count a placeholder is added and whoever
+ * meets it rests. With `doubleRoundRobin` the second leg repeats the first
+ * matchday by matchday with home and away swapped.
+ */
+export const buildRoundRobinSchedule = (playerIds: string[], doubleRoundRobin: boolean): RoundRobinPairing[] => {
+  if (playerIds.length < 2) return [];
+  const slots: (string | null)[] = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const roundsPerLeg = slots.length - 1;
+  const half = slots.length / 2;
+  const firstLeg: RoundRobinPairing[] = [];
+
+  let rotation = slots.slice(1);
+  for (let round = 1; round <= roundsPerLeg; round++) {
+    const lineup = [slots[0], ...rotation];
+    for (let i = 0; i < half; i++) {
+      let home = lineup[i];
+      let away = lineup[lineup.length - 1 - i];
+      if (!home || !away) continue;
+      // alterna casa/trasferta del giocatore fisso per bilanciare il calendario
+      if (i === 0 && round % 2 === 0) [home, away] = [away, home];
+      firstLeg.push({ round, player1Id: home, player2Id: away });
+    }
+    rotation = [rotation[rotation.length - 1], ...rotation.slice(0, -1)];
+  }
+
+  if (!doubleRoundRobin) return firstLeg;
+  const secondLeg = firstLeg.map(p => ({ round: p.round + roundsPerLeg, player1Id: p.player2Id, player2Id: p.player1Id }));
+  return [...firstLeg, ...secondLeg];
+};
+
+export const getMatchRounds = (matches: Match[]) =>
+  Array.from(new Set<number>(matches.flatMap(m => (m.round !== undefined ? [m.round] : [])))).sort((a, b) => a - b);
+
+// Chi non gioca in una giornata riposa (turno di riposo dei gironi dispari).
+export const getRestingPlayerIds = (group: Group, round: number) => {
+  const busy = new Set((group.matches ?? []).filter(m => m.round === round).flatMap(m => [m.player1Id, m.player2Id]));
+  return group.playerIds.filter(id => !busy.has(id));
+};
+
+export const getMatchdayWindow = (group: Group, round: number): GroupMatchday | undefined =>
+  (Array.isArray(group.matchdays) ? group.matchdays : []).find(md => md.round === round);
+
+const formatDay = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+export const formatMatchdayWindow = (matchday?: GroupMatchday) => {
+  if (!matchday || (!matchday.startDate && !matchday.endDate)) return '';
+  if (matchday.startDate && matchday.endDate) return `dal ${formatDay(matchday.startDate)} al ${formatDay(matchday.endDate)}`;
+  return matchday.startDate ? `dal ${formatDay(matchday.startDate)}` : `entro il ${formatDay(matchday.endDate as string)}`;
+};
@@ -0,0 +1,151 @@
+import { type Event, type Match, type TimeSlot } from '../types';
+import { type PlayerBooking } from './playerConflicts';
+import { getActiveProposal, getHeldSlotIds } from './proposals';
+
+export interface SchedulableMatch {
+  tournamentId: string;
+  groupId: string;
+  match: Match;
+  // giocatori reali coinvolti (per il padel i due componenti di ciascuna squadra)
+  playerIds: string[];
+}
+
+export interface ScheduleAssignment extends SchedulableMatch {
+  slot: TimeSlot;
+  // quanti giocatori hanno indicato lo slot come preferito
+  preferredBy: number;
+}
+
+export interface UnscheduledMatch extends SchedulableMatch {
+  reason: string;
+}
+
+export interface ScheduleProposal {
+  assignments: ScheduleAssignment[];
+  unscheduled: UnscheduledMatch[];
+}
+
+export interface SchedulerOptions {
+  matches: SchedulableMatch[];
+  slots: TimeSlot[];
+  // orari (ms) delle partite già programmate per ciascun giocatore
+  busyTimes: Record<string, number[]>;
+  preferredSlots: Record<string, Set<string>>;
+  unavailableDates: Record<string, Set<string>>;
+  matchDurationMinutes: number;
+  minRestMinutes: number;
+}
+
+export const getSlotDateKey = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const getEventMatches = (event: Event): Match[] => (event.tournaments ?? []).flatMap(t => [
+  ...(t.groups ?? []).flatMap(g => g.matches ?? []),
+  ...(t.playoffMatches ?? []),
+  ...(t.consolationMatches ?? []),
+]);
+
+/**
+ * Slots already taken by a scheduled or completed match anywhere in the event,
+ * or held by a proposal waiting for the opponent.
+ */
+export const getBookedSlotIds = (event: Event) => new Set([
+  ...getEventMatches(event)
+    .filter(m => m.slotId && (m.status === 'scheduled' || m.status === 'completed'))
+    .map(m => m.slotId as string),
+  ...getHeldSlotIds(getEventMatches(event)),
+]);
+
+// Per il padel un competitore è una squadra: servono i giocatori che la compongono.
+export const getCompetitorPlayerIds = (event: Event, competitorId: string): string[] => {
+  const team = (event.tournaments ?? [])
+    .flatMap(t => t.padelTeams ?? [])
+    .find(candidate => candidate.id === competitorId);
+  return team ? [team.player1Id, team.player2Id] : [competitorId];
+};
+
+/**
+ * Busy times per player from the given bookings: pass the scheduled matches
+ * and the active proposals of every event (see utils/playerConflicts.ts), so
+ * nobody is double-booked across events.
+ */
+export const getBusyTimesByPlayer = (bookings: PlayerBooking[]): Record<string, number[]> => {
+  const busy: Record<string, number[]> = {};
+  bookings.forEach(b => { (busy[b.playerId] ??= []).push(b.start); });
+  return busy;
+};
+
+export const getSchedulableMatches = (event: Event, tournamentId?: string): SchedulableMatch[] =>
+  (event.tournaments ?? [])
+    .filter(t => !tournamentId || t.id === tournamentId)
+    .flatMap(t => (t.groups ?? []).flatMap(g => (g.matches ?? [])
+      .filter(m => m.status === 'pending' && !getActiveProposal(m))
+      .map(match => ({
+        tournamentId: t.id,
+        groupId: g.id,
+        match,
+        playerIds: [match.player1Id, match.player2Id].flatMap(id => getCompetitorPlayerIds(event, id)),
+      }))));
+
+/**
+ * Proposes slots for pending matches. A slot is allowed only if no player is
+ * unavailable that day and every player keeps `matchDuration + minRest`
+ * between the start of two matches (so nobody is ever double-booked). At each
+ * step the match with the fewest allowed slots is placed first, in the slot
+ * preferred by most of its players (earliest on ties).
+ */
+export const proposeSchedule = ({
+  matches,
+  slots,
+  busyTimes,
+  preferredSlots,
+  unavailableDates,
+  matchDurationMinutes,
+  minRestMinutes,
+}: SchedulerOptions): ScheduleProposal => {
+  const gap = (matchDurationMinutes + minRestMinutes) * 60000;
+  const busy: Record<string, number[]> = {};
+  Object.entries(busyTimes).forEach(([playerId, times]) => { busy[playerId] = [...times]; });
+  const freeSlots = [...slots].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  const remaining = [...matches];
+  const assignments: ScheduleAssignment[] = [];
+  const unscheduled: UnscheduledMatch[] = [];
+
+  const isAllowed = (item: SchedulableMatch, slot: TimeSlot) => {
+    const time = new Date(slot.start).getTime();
+    const dateKey = getSlotDateKey(slot.start);
+    return item.playerIds.every(playerId =>
+      !unavailableDates[playerId]?.has(dateKey)
+      && (busy[playerId] ?? []).every(other => Math.abs(other - time) >= gap));
+  };
+  const countPreferred = (item: SchedulableMatch, slot: TimeSlot) =>
+    item.playerIds.filter(playerId => preferredSlots[playerId]?.has(slot.id)).length;
+
+  while (remaining.length > 0) {
+    const options = remaining.map(item => ({ item, allowed: freeSlots.filter(slot => isAllowed(item, slot)) }));
+    const blocked = options.filter(option => option.allowed.length === 0);
+    if (blocked.length > 0) {
+      blocked.forEach(({ item }) => {
+        unscheduled.push({
+          ...item,
+          reason: freeSlots.length === 0
+            ? 'Nessuno slot libero rimasto'
+            : 'Nessuno slot compatibile con indisponibilità e riposo dei giocatori',
+        });
+        remaining.splice(remaining.indexOf(item), 1);
+      });
+      continue;
+    }
+
+    const { item, allowed } = options.reduce((best, option) => (option.allowed.length < best.allowed.length ? option : best));
+    const slot = allowed.reduce((best, candidate) => (countPreferred(item, candidate) > countPreferred(item, best) ? candidate : best));
+    assignments.push({ ...item, slot, preferredBy: countPreferred(item, slot) });
+    item.playerIds.forEach(playerId => { (busy[playerId] ??= []).push(new Date(slot.start).getTime()); });
+    freeSlots.splice(freeSlots.indexOf(slot), 1);
+    remaining.splice(remaining.indexOf(item), 1);
+  }
+
+  return { assignments, unscheduled };
+};
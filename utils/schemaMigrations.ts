@@ -0,0 +1,214 @@
+import { type Event, type PlayoffWithdrawal, type SummerRankingData, type TimeSlot, type Tournament } from '../types';
+import { isSameData } from './stableStringify';
+import { generateRulesText, normalizeRulesConfig } from './summerRanking';
+
+/** Event document as stored: any schema version, with fields possibly missing or in an old shape. */
+export type StoredEvent = Partial<Omit<Event, 'id'>> & { id: string };
+
+/** Data outside the event document that some migrations need. */
+export interface MigrationContext {
+  // ranking salvato prima che passasse dentro l'evento (summerRankingNext/main)
+  legacySummerRanking: SummerRankingData | null;
+}
+
+export interface EventMigration {
+  version: number;
+  description: string;
+  /**
+   * Upgrades the event to `version` and lists what changed, one line per change.
+   * Must leave data that is already in the new shape untouched: events are migrated
+   * on every read until the upgraded version is saved.
+   */
+  up: (event: StoredEvent, context: MigrationContext) => { event: StoredEvent; changes: string[] };
+}
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+export interface EventMigrationReport {
+  eventId: string;
+  eventName: string;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+}
+
+type LegacyTimeSlot = TimeSlot & { time?: string };
+
+const EVENT_TYPES: NonNullable<Event['eventType']>[] = ['ranking_singolare', 'tournament_singolare', 'tournament_padel'];
+
+/** Fills the ranking data with defaults for every missing field. */
+export const normalizeRankingData = (data?: SummerRankingData | null): SummerRankingData => ({
+  slots: Array.isArray(data?.slots) ? data.slots : [],
+  matches: Array.isArray(data?.matches) ? data.matches : [],
+  participantIds: Array.isArray(data?.participantIds) ? data.participantIds : [],
+  rules: data?.rules ?? generateRulesText(normalizeRulesConfig(data?.rulesConfig)),
+  rulesConfig: data?.rulesConfig,
+  availabilities: data?.availabilities ?? {},
+  master: data?.master
+    ? {
+      format: data.master.format === 'groups' || (Array.isArray(data.master.groups) && data.master.groups.length > 0) ? 'groups' : 'bracket',
+      manualQualifiedPlayerIds: Array.isArray(data.master.manualQualifiedPlayerIds) ? data.master.manualQualifiedPlayerIds : undefined,
+      generatedQualifiedPlayerIds: Array.isArray(data.master.generatedQualifiedPlayerIds) ? data.master.generatedQualifiedPlayerIds : undefined,
+      bracket: data.master.bracket ?? undefined,
+      groups: Array.isArray(data.master.groups) ? data.master.groups : [],
+      matches: Array.isArray(data.master.matches) ? data.master.matches : [],
+      generatedAt: data.master.generatedAt,
+    }
+    : undefined,
+});
+
+const renameSlotTime = (slots: TimeSlot[] | undefined, label: string, changes: string[]): TimeSlot[] | undefined => {
+  if (!Array.isArray(slots) || !slots.some(slot => (slot as LegacyTimeSlot).time !== undefined)) return slots;
+  changes.push(`${label}: ${slots.filter(slot => (slot as LegacyTimeSlot).time !== undefined).length} slot con "time" convertiti in "start"`);
+  return slots.map(slot => {
+    const { time, ...rest } = slot as LegacyTimeSlot;
+    return time === undefined ? slot : { ...rest, start: rest.start ?? time };
+  });
+};
+
+const isPlayoffWithdrawal = (value: unknown): value is PlayoffWithdrawal =>
+  !!value && typeof (value as PlayoffWithdrawal).groupId === 'string' && typeof (value as PlayoffWithdrawal).playerId === 'string';
+
+const upgradeTournamentExtras = (tournament: Tournament, changes: string[]): Tournament => {
+  let next = tournament;
+  const roundRobin: unknown = tournament.settings?.groupRoundRobin;
+  if (roundRobin !== undefined) {
+    const entries = roundRobin && typeof roundRobin === 'object' && !Array.isArray(roundRobin)
+      ? Object.entries(roundRobin).filter(([, value]) => typeof value === 'boolean')
+      : [];
+    const fixed = Object.fromEntries(entries) as Record<string, boolean>;
+    if (!isSameData(fixed, roundRobin)) {
+      changes.push(`Torneo "${tournament.name}": andata e ritorno per girone ripulito`);
+      next = { ...next, settings: { ...next.settings, groupRoundRobin: fixed } };
+    }
+  }
+  const withdrawals: unknown = tournament.playoffWithdrawals;
+  if (withdrawals !== undefined) {
+    const fixed = Array.isArray(withdrawals) ? withdrawals.filter(isPlayoffWithdrawal) : [];
+    if (!isSameData(fixed, withdrawals)) {
+      changes.push(`Torneo "${tournament.name}": ritiri dai playoff non validi rimossi`);
+      next = { ...next, playoffWithdrawals: fixed };
+    }
+  }
+  return next;
+};
+
+/** Ordered list of the event migrations; add new ones at the end with the next version. */
+export const EVENT_MIGRATIONS: EventMigration[] = [
+  {
+    version: 1,
+    description: "Campi base dell'evento",
+    up: event => {
+      const changes: string[] = [];
+      const next = { ...event };
+      if (typeof next.name !== 'string') {
+        next.name = '';
+        changes.push('Nome mancante');
+      }
+      if (typeof next.invitationCode !== 'string') {
+        next.invitationCode = '';
+        changes.push('Codice invito mancante');
+      }
+      if (!Array.isArray(next.players)) {
+        next.players = [];
+        changes.push('Elenco giocatori mancante');
+      }
+      if (!Array.isArray(next.tournaments)) {
+        next.tournaments = [];
+        changes.push('Elenco tornei mancante');
+      }
+      if (!Array.isArray(next.globalTimeSlots)) {
+        next.globalTimeSlots = [];
+        changes.push('Slot orari mancanti');
+      }
+      if (!EVENT_TYPES.includes(next.eventType)) {
+        next.eventType = 'tournament_singolare';
+        changes.push('Tipo evento impostato a torneo singolare');
+      }
+      return { event: next, changes };
+    },
+  },
+  {
+    version: 2,
+    description: 'Slot orari: campo "time" rinominato in "start"',
+    up: event => {
+      const changes: string[] = [];
+      const next = {
+        ...event,
+        globalTimeSlots: renameSlotTime(event.globalTimeSlots, "Slot dell'evento", changes),
+        tournaments: (event.tournaments ?? []).map(tournament => {
+          const timeSlots = renameSlotTime(tournament.timeSlots, `Torneo "${tournament.name}"`, changes);
+          return timeSlots === tournament.timeSlots ? tournament : { ...tournament, timeSlots };
+        }),
+      };
+      if (event.rankingData) {
+        const slots = renameSlotTime(event.rankingData.slots, 'Ranking', changes);
+        if (slots !== event.rankingData.slots) next.rankingData = { ...event.rankingData, slots };
+      }
+      return { event: changes.length > 0 ? next : event, changes };
+    },
+  },
+  {
+    version: 3,
+    description: "Ranking: dati completi dentro l'evento",
+    up: (event, { legacySummerRanking }) => {
+      if (event.eventType !== 'ranking_singolare') return { event, changes: [] };
+      const changes: string[] = [];
+      if (!event.rankingData) {
+        changes.push(legacySummerRanking ? 'Ranking copiato da summerRankingNext/main' : 'Ranking vuoto creato');
+      }
+      const rankingData = normalizeRankingData(event.rankingData ?? legacySummerRanking);
+      if (event.rankingData && !isSameData(event.rankingData, rankingData)) changes.push('Campi mancanti del ranking completati');
+      return { event: changes.length > 0 ? { ...event, rankingData } : event, changes };
+    },
+  },
+  {
+    version: 4,
+    description: 'Tornei: andata e ritorno per girone e ritiri dai playoff',
+    up: event => {
+      const changes: string[] = [];
+      const tournaments = (event.tournaments ?? []).map(tournament => upgradeTournamentExtras(tournament, changes));
+      return { event: changes.length > 0 ? { ...event, tournaments } : event, changes };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = EVENT_MIGRATIONS[EVENT_MIGRATIONS.length - 1].version;
+
+/** Runs, in order, the migrations newer than the event's `schemaVersion`. */
+export const migrateEvent = (stored: StoredEvent, context: MigrationContext): { event: Event; report: EventMigrationReport } => {
+  const fromVersion = stored.schemaVersion ?? 0;
+  const steps: MigrationStepReport[] = [];
+  const migrated = EVENT_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((event, migration) => {
+      const result = migration.up(event, context);
+      steps.push({ version: migration.version, description: migration.description, changes: result.changes });
+      return result.event;
+    }, stored);
+
+  return {
+    event: { ...migrated, schemaVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION) } as Event,
+    report: {
+      eventId: stored.id,
+      eventName: migrated.name ?? '',
+      fromVersion,
+      toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+      steps,
+    },
+  };
+};
+
+/** Top-level fields that differ between the stored and the migrated event (undefined = to remove). */
+export const getChangedFields = (stored: StoredEvent, migrated: StoredEvent): Partial<Omit<Event, 'id'>> => {
+  const keys = new Set([...Object.keys(stored), ...Object.keys(migrated)].filter(key => key !== 'id'));
+  return Object.fromEntries(
+    [...keys]
+      .filter(key => !isSameData(stored[key as keyof StoredEvent], migrated[key as keyof StoredEvent]))
+      .map(key => [key, migrated[key as keyof StoredEvent]]),
+  );
+};
@@ -0,0 +1,361 @@
+import { type MatchResultType, type MatchScore, type SetScore } from '../types';
+
+type ScoredMatch = {
+  score1: number | null;
+  score2: number | null;
+  score?: MatchScore | null;
+  resultType?: MatchResultType | null;
+  awardedTo?: 1 | 2 | null;
+};
+
+export type ScoreSide = 1 | 2;
+
+export const RESULT_TYPE_LABELS: Record<MatchResultType, string> = {
+  played: 'Giocata',
+  walkover: 'Walkover (vittoria a tavolino)',
+  retirement: 'Ritiro',
+  doubleNoShow: 'Doppia assenza',
+  annulled: 'Annullata',
+};
+
+/** Nei tabelloni serve sempre un vincitore: doppia assenza e annullamento non sono ammessi. */
+export const KNOCKOUT_RESULT_TYPES: MatchResultType[] = ['played', 'walkover', 'retirement'];
+
+export interface MatchResultFields {
+  score1: number | null;
+  score2: number | null;
+  score: MatchScore | null;
+  resultType: MatchResultType;
+  awardedTo: ScoreSide | null;
+}
+
+export interface ScoreSummary {
+  games1: number;
+  games2: number;
+  sets1: number;
+  sets2: number;
+  /** null = pareggio (stessi set vinti oppure stessi game nei risultati legacy) */
+  winner: ScoreSide | null;
+  /** true se il risultato arriva solo da score1/score2 (nessun dettaglio set) */
+  isLegacy: boolean;
+}
+
+export interface ScoreDraftSet {
+  games1: string;
+  games2: string;
+  tieBreak1: string;
+  tieBreak2: string;
+}
+
+export interface ScoreDraft {
+  resultType: MatchResultType;
+  awardedTo: '' | '1' | '2';
+  sets: ScoreDraftSet[];
+  hasMatchTieBreak: boolean;
+  matchTieBreak1: string;
+  matchTieBreak2: string;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const hasStructuredScore = (score?: MatchScore | null): score is MatchScore =>
+  !!score && ((Array.isArray(score.sets) && score.sets.length > 0) || !!score.matchTieBreak);
+
+export const getSetWinner = (set: SetScore): ScoreSide | null => {
+  if (set.games1 > set.games2) return 1;
+  if (set.games2 > set.games1) return 2;
+  return null;
+};
+
+/**
+ * Riassume un risultato: set vinti, game totali e vincitore.
+ * Il match tie-break vale come set e come un game per chi lo vince (convenzione FITP).
+ * Le partite salvate prima del dettaglio set usano score1/score2 come game.
+ */
+export const getScoreSummary = (match: ScoredMatch): ScoreSummary | null => {
+  if (hasStructuredScore(match.score)) {
+    const summary: ScoreSummary = { games1: 0, games2: 0, sets1: 0, sets2: 0, winner: null, isLegacy: false };
+    (Array.isArray(match.score.sets) ? match.score.sets : []).forEach(set => {
+      summary.games1 += set.games1;
+      summary.games2 += set.games2;
+      const setWinner = getSetWinner(set);
+      if (setWinner === 1) summary.sets1 += 1;
+      if (setWinner === 2) summary.sets2 += 1;
+    });
+    const tieBreak = match.score.matchTieBreak;
+    if (tieBreak && tieBreak.points1 !== tieBreak.points2) {
+      if (tieBreak.points1 > tieBreak.points2) {
+        summary.sets1 += 1;
+        summary.games1 += 1;
+      } else {
+        summary.sets2 += 1;
+        summary.games2 += 1;
+      }
+    }
+    summary.winner = summary.sets1 > summary.sets2 ? 1 : summary.sets2 > summary.sets1 ? 2 : null;
+    return summary;
+  }
+
+  if (!isFiniteNumber(match.score1) || !isFiniteNumber(match.score2)) return null;
+  return {
+    games1: match.score1,
+    games2: match.score2,
+    sets1: 0,
+    sets2: 0,
+    winner: match.score1 > match.score2 ? 1 : match.score2 > match.score1 ? 2 : null,
+    isLegacy: true,
+  };
+};
+
+export const hasMatchScore = (match: ScoredMatch) => getScoreSummary(match) !== null;
+
+/**
+ * Game di scarto a favore del vincitore. Chi vince al match tie-break può aver fatto meno
+ * game dell'avversario (es. 0-6 7-6 [10-0]): lo scarto allora è 0, mai negativo.
+ */
+export const getWinnerGameMargin = (summary: Pick<ScoreSummary, 'games1' | 'games2'>, winnerSide: ScoreSide) =>
+  Math.max(0, winnerSide === 1 ? summary.games1 - summary.games2 : summary.games2 - summary.games1);
+
+export const getResultType = (match: ScoredMatch): MatchResultType => match.resultType ?? 'played';
+
+/** Vincitore della partita: per walkover e ritiro conta il lato assegnato, non il punteggio. */
+export const getWinnerSide = (match: ScoredMatch): ScoreSide | null => {
+  switch (getResultType(match)) {
+    case 'walkover':
+    case 'retirement':
+      return match.awardedTo ?? null;
+    case 'doubleNoShow':
+    case 'annulled':
+      return null;
+    default:
+      return getScoreSummary(match)?.winner ?? null;
+  }
+};
+
+/** true se la partita ha un esito registrato (anche senza punteggio, es. walkover). */
+export const hasMatchResult = (match: ScoredMatch) => {
+  const resultType = getResultType(match);
+  if (resultType === 'played') return hasMatchScore(match);
+  if (resultType === 'retirement') return !!match.awardedTo;
+  return true;
+};
+
+/** Game totali da salvare in score1/score2, così i lettori legacy continuano a funzionare. */
+export const getLegacyScores = (score: MatchScore): { score1: number; score2: number } => {
+  const summary = getScoreSummary({ score1: null, score2: null, score });
+  return { score1: summary?.games1 ?? 0, score2: summary?.games2 ?? 0 };
+};
+
+const formatSet = (set: SetScore, reversed: boolean) => {
+  const [own, other] = reversed ? [set.games2, set.games1] : [set.games1, set.games2];
+  const tieBreakLoser = set.games1 > set.games2 ? set.tieBreak2 : set.tieBreak1;
+  const tieBreakLabel = isFiniteNumber(tieBreakLoser) && Math.abs(set.games1 - set.games2) === 1 ? `(${tieBreakLoser})` : '';
+  return `${own}-${other}${tieBreakLabel}`;
+};
+
+/**
+ * Testo del risultato, es. "6-4 3-6 [10-8]". Con reversed il punteggio è letto dal lato del giocatore 2.
+ * Per i risultati legacy restituisce "score1 - score2".
+ */
+export const formatMatchScore = (match: ScoredMatch, reversed = false, emptyLabel = '—'): string => {
+  const resultType = getResultType(match);
+  if (resultType === 'walkover' || resultType === 'doubleNoShow' || resultType === 'annulled') {
+    return resultType === 'walkover' ? 'W.O.' : RESULT_TYPE_LABELS[resultType];
+  }
+  if (resultType === 'retirement') {
+    const partial = formatMatchScore({ ...match, resultType: 'played' }, reversed, '');
+    return partial ? `${partial} rit.` : 'Rit.';
+  }
+  if (hasStructuredScore(match.score)) {
+    const parts = (Array.isArray(match.score.sets) ? match.score.sets : []).map(set => formatSet(set, reversed));
+    const tieBreak = match.score.matchTieBreak;
+    if (tieBreak) {
+      parts.push(reversed ? `[${tieBreak.points2}-${tieBreak.points1}]` : `[${tieBreak.points1}-${tieBreak.points2}]`);
+    }
+    return parts.join(' ');
+  }
+  if (!isFiniteNumber(match.score1) || !isFiniteNumber(match.score2)) return emptyLabel;
+  return reversed ? `${match.score2} - ${match.score1}` : `${match.score1} - ${match.score2}`;
+};
+
+/** Punteggio di un solo lato per i tabelloni a due righe, es. "6 3 [10]". */
+export const formatSideScore = (match: ScoredMatch, side: ScoreSide): string | null => {
+  const resultType = getResultType(match);
+  if (resultType === 'walkover') return match.awardedTo === side ? 'W.O.' : null;
+  if (resultType === 'doubleNoShow' || resultType === 'annulled') return null;
+  if (resultType === 'retirement' && match.awardedTo && match.awardedTo !== side) {
+    const partial = formatSideScore({ ...match, resultType: 'played' }, side);
+    return partial ? `${partial} rit.` : 'rit.';
+  }
+  if (hasStructuredScore(match.score)) {
+    const parts = (Array.isArray(match.score.sets) ? match.score.sets : []).map(set => String(side === 1 ? set.games1 : set.games2));
+    const tieBreak = match.score.matchTieBreak;
+    if (tieBreak) parts.push(`[${side === 1 ? tieBreak.points1 : tieBreak.points2}]`);
+    return parts.join(' ');
+  }
+  const value = side === 1 ? match.score1 : match.score2;
+  return isFiniteNumber(value) ? String(value) : null;
+};
+
+const createEmptyDraftSet = (): ScoreDraftSet => ({ games1: '', games2: '', tieBreak1: '', tieBreak2: '' });
+
+const toDraftValue = (value?: number | null) => (isFiniteNumber(value) ? String(value) : '');
+
+export const createEmptyScoreDraft = (): ScoreDraft => ({
+  resultType: 'played',
+  awardedTo: '',
+  sets: [createEmptyDraftSet(), createEmptyDraftSet()],
+  hasMatchTieBreak: false,
+  matchTieBreak1: '',
+  matchTieBreak2: '',
+});
+
+/** Prepara il form di modifica; un risultato legacy diventa un unico set con i game salvati. */
+export const createScoreDraft = (match?: ScoredMatch | null): ScoreDraft => {
+  if (!match) return createEmptyScoreDraft();
+  const resultFields = {
+    resultType: getResultType(match),
+    awardedTo: match.awardedTo ? (String(match.awardedTo) as '1' | '2') : '' as const,
+  };
+  return { ...createSetsDraft(match), ...resultFields };
+};
+
+const createSetsDraft = (match: ScoredMatch): ScoreDraft => {
+  if (hasStructuredScore(match.score)) {
+    const sets = (Array.isArray(match.score.sets) ? match.score.sets : []).map(set => ({
+      games1: toDraftValue(set.games1),
+      games2: toDraftValue(set.games2),
+      tieBreak1: toDraftValue(set.tieBreak1),
+      tieBreak2: toDraftValue(set.tieBreak2),
+    }));
+    return {
+      ...createEmptyScoreDraft(),
+      sets: sets.length > 0 ? sets : [createEmptyDraftSet()],
+      hasMatchTieBreak: !!match.score.matchTieBreak,
+      matchTieBreak1: toDraftValue(match.score.matchTieBreak?.points1),
+      matchTieBreak2: toDraftValue(match.score.matchTieBreak?.points2),
+    };
+  }
+  if (isFiniteNumber(match.score1) && isFiniteNumber(match.score2)) {
+    return {
+      ...createEmptyScoreDraft(),
+      sets: [{ ...createEmptyDraftSet(), games1: String(match.score1), games2: String(match.score2) }],
+    };
+  }
+  return createEmptyScoreDraft();
+};
+
+export const addDraftSet = (draft: ScoreDraft): ScoreDraft => ({ ...draft, sets: [...draft.sets, createEmptyDraftSet()] });
+
+export const removeDraftSet = (draft: ScoreDraft, index: number): ScoreDraft => ({
+  ...draft,
+  sets: draft.sets.filter((_, setIndex) => setIndex !== index),
+});
+
+export const updateDraftSet = (draft: ScoreDraft, index: number, field: keyof ScoreDraftSet, value: string): ScoreDraft => ({
+  ...draft,
+  sets: draft.sets.map((set, setIndex) => (setIndex === index ? { ...set, [field]: value } : set)),
+});
+
+const parseDraftNumber = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : Number.NaN;
+};
+
+/**
+ * Converte il form in MatchScore. I set completamente vuoti vengono ignorati;
+ * i campi opzionali non compilati sono omessi (Firestore rifiuta i valori undefined).
+ * Ogni set deve avere un vincitore e la partita una maggioranza di set; con partial
+ * (punteggio parziale di un ritiro) l'ultimo set può essere in parità e il vincitore manca.
+ */
+export const buildScoreFromDraft = (draft: ScoreDraft, partial = false): { score: MatchScore | null; error: string | null } => {
+  const sets: SetScore[] = [];
+
+  for (let index = 0; index < draft.sets.length; index += 1) {
+    const draftSet = draft.sets[index];
+    if (![draftSet.games1, draftSet.games2, draftSet.tieBreak1, draftSet.tieBreak2].some(value => value.trim())) continue;
+
+    const games1 = parseDraftNumber(draftSet.games1);
+    const games2 = parseDraftNumber(draftSet.games2);
+    if (games1 === null || games2 === null || Number.isNaN(games1) || Number.isNaN(games2)) {
+      return { score: null, error: `Set ${index + 1}: inserisci i game di entrambi i giocatori (numeri interi >= 0).` };
+    }
+
+    const set: SetScore = { games1, games2 };
+    const tieBreak1 = parseDraftNumber(draftSet.tieBreak1);
+    const tieBreak2 = parseDraftNumber(draftSet.tieBreak2);
+    if (Number.isNaN(tieBreak1) || Number.isNaN(tieBreak2)) {
+      return { score: null, error: `Set ${index + 1}: punteggio del tie-break non valido.` };
+    }
+    if (tieBreak1 !== null) set.tieBreak1 = tieBreak1;
+    if (tieBreak2 !== null) set.tieBreak2 = tieBreak2;
+    sets.push(set);
+  }
+
+  const drawnSetIndex = sets.findIndex((set, setIndex) => !getSetWinner(set) && !(partial && setIndex === sets.length - 1));
+  if (drawnSetIndex !== -1) {
+    return { score: null, error: `Set ${drawnSetIndex + 1}: il set deve avere un vincitore (game in parità).` };
+  }
+
+  const score: MatchScore = { sets };
+
+  if (draft.hasMatchTieBreak) {
+    const points1 = parseDraftNumber(draft.matchTieBreak1);
+    const points2 = parseDraftNumber(draft.matchTieBreak2);
+    if (points1 === null || points2 === null || Number.isNaN(points1) || Number.isNaN(points2)) {
+      return { score: null, error: 'Match tie-break: inserisci i punti di entrambi i giocatori.' };
+    }
+    if (points1 === points2) {
+      return { score: null, error: 'Match tie-break: il punteggio non può essere in parità.' };
+    }
+    score.matchTieBreak = { points1, points2 };
+  }
+
+  if (!hasStructuredScore(score)) {
+    return { score: null, error: 'Inserisci almeno un set.' };
+  }
+
+  if (!partial && getScoreSummary({ score1: null, score2: null, score })?.winner === null) {
+    return { score: null, error: 'Set vinti in parità: serve un vincitore (aggiungi un set o il match tie-break).' };
+  }
+
+  return { score, error: null };
+};
+
+/**
+ * Converte il form nei campi risultato da salvare sulla partita.
+ * Walkover, doppia assenza e annullamento non hanno punteggio; il ritiro salva il punteggio parziale, se inserito.
+ */
+export const buildMatchResultFromDraft = (draft: ScoreDraft): { result: MatchResultFields | null; error: string | null } => {
+  const { resultType } = draft;
+  const awardedTo: ScoreSide | null = draft.awardedTo === '1' ? 1 : draft.awardedTo === '2' ? 2 : null;
+
+  if ((resultType === 'walkover' || resultType === 'retirement') && !awardedTo) {
+    return { result: null, error: 'Indica a chi va assegnata la vittoria.' };
+  }
+
+  if (resultType === 'walkover' || resultType === 'doubleNoShow' || resultType === 'annulled') {
+    return { result: { score1: null, score2: null, score: null, resultType, awardedTo: resultType === 'walkover' ? awardedTo : null }, error: null };
+  }
+
+  const hasAnySet = draft.sets.some(set => [set.games1, set.games2, set.tieBreak1, set.tieBreak2].some(value => value.trim()));
+  if (resultType === 'retirement' && !hasAnySet && !draft.hasMatchTieBreak) {
+    return { result: { score1: null, score2: null, score: null, resultType, awardedTo }, error: null };
+  }
+
+  const { score, error } = buildScoreFromDraft(draft, resultType === 'retirement');
+  if (!score) return { result: null, error };
+  const { score1, score2 } = getLegacyScores(score);
+  return { result: { score1, score2, score, resultType, awardedTo: resultType === 'retirement' ? awardedTo : null }, error: null };
+};
+
+/** Campi da scrivere quando un risultato viene cancellato. */
+export const EMPTY_MATCH_RESULT: MatchResultFields = {
+  score1: null,
+  score2: null,
+  score: null,
+  resultType: 'played',
+  awardedTo: null,
+};
@@ -0,0 +1,134 @@
+import { type Group, type Player, type StandingsEntry, type TournamentSettings } from '../types';
+import { calculateStandings } from './standings';
+
+export const BYE = 'BYE';
+
+export interface BracketQualifier {
+  playerId: string;
+  rank: number;
+  fromGroup: string;
+  groupName: string;
+}
+
+export interface SeedingResult {
+  slots: string[];
+  // primo turno in cui due giocatori dello stesso girone possono incontrarsi (1 = primo turno)
+  earliestSameGroupRound: number;
+  // true se la separazione richiesta non era possibile ed è stata allentata
+  relaxed: boolean;
+}
+
+// Numero massimo di tentativi del backtracking prima di allentare il vincolo
+const MAX_SEARCH_STEPS = 20000;
+
+/**
+ * Standard bracket order of seed lines: for 8 slots [1, 8, 4, 5, 2, 7, 3, 6],
+ * so seed 1 and 2 can only meet in the final and the top seeds face the byes.
+ */
+export const getSeedLineOrder = (bracketSize: number): number[] => {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return order;
+};
+
+// Turno (1 = primo) in cui si incrociano due slot del primo turno.
+export const getMeetingRound = (slotA: number, slotB: number) => Math.floor(Math.log2(slotA ^ slotB)) + 1;
+
+export const getTotalRounds = (bracketSize: number) => (bracketSize > 1 ? Math.log2(bracketSize) : 0);
+
+/**
+ * Orders qualifiers for seeding: first by group position, then (same position)
+ * by points per match, game difference per match and games won per match.
+ */
+export const rankQualifiersForSeeding = (
+  qualifiers: BracketQualifier[],
+  groups: Group[],
+  players: Player[],
+  settings: TournamentSettings,
+): BracketQualifier[] => {
+  const entries = new Map<string, StandingsEntry>();
+  groups.forEach(group => {
+    if (!qualifiers.some(q => q.fromGroup === group.id)) return;
+    calculateStandings(group, players, settings).forEach(entry => entries.set(`${group.id}:${entry.playerId}`, entry));
+  });
+  const perMatch = (q: BracketQualifier, key: 'points' | 'goalDifference' | 'goalsFor') => {
+    const entry = entries.get(`${q.fromGroup}:${q.playerId}`);
+    return entry && entry.played > 0 ? entry[key] / entry.played : 0;
+  };
+  const groupOrder = (q: BracketQualifier) => groups.findIndex(g => g.id === q.fromGroup);
+
+  return [...qualifiers].sort((a, b) =>
+    (a.rank - b.rank)
+    || (perMatch(b, 'points') - perMatch(a, 'points'))
+    || (perMatch(b, 'goalDifference') - perMatch(a, 'goalDifference'))
+    || (perMatch(b, 'goalsFor') - perMatch(a, 'goalsFor'))
+    || (groupOrder(a) - groupOrder(b))
+  );
+};
+
+const tryPlaceSeeds = (seeds: BracketQualifier[], slotOfLine: number[], minRound: number): (number | null)[] | null => {
+  // i giocatori con la stessa posizione nel girone possono scambiarsi le linee del loro livello
+  const tierRange = seeds.map(seed => {
+    const start = seeds.findIndex(s => s.rank === seed.rank);
+    let end = start;
+    while (end + 1 < seeds.length && seeds[end + 1].rank === seed.rank) end++;
+    return { start, end };
+  });
+  const lineOfSeed: (number | null)[] = seeds.map(() => null);
+  const usedLines = new Set<number>();
+  let steps = 0;
+
+  const conflicts = (index: number, line: number) => seeds.some((other, otherIndex) => {
+    const otherLine = lineOfSeed[otherIndex];
+    if (otherLine === null || other.fromGroup !== seeds[index].fromGroup) return false;
+    return getMeetingRound(slotOfLine[line], slotOfLine[otherLine]) < minRound;
+  });
+
+  const place = (index: number): boolean => {
+    if (index === seeds.length) return true;
+    if (++steps > MAX_SEARCH_STEPS) return false;
+    const { start, end } = tierRange[index];
+    for (let line = start; line <= end; line++) {
+      if (usedLines.has(line) || conflicts(index, line)) continue;
+      lineOfSeed[index] = line;
+      usedLines.add(line);
+      if (place(index + 1)) return true;
+      lineOfSeed[index] = null;
+      usedLines.delete(line);
+    }
+    return false;
+  };
+
+  return place(0) ? lineOfSeed : null;
+};
+
+/**
+ * Builds the first-round slots (player ids or BYE) from ranked qualifiers.
+ * Byes go to the top seeds; competitors from the same group are kept apart
+ * until `protectedRounds` rounds from the end (1 = final, 2 = semifinal, 0 = no constraint).
+ * If the constraint cannot be met it is relaxed one round at a time.
+ */
+export const buildSeededSlots = (seeds: BracketQualifier[], bracketSize: number, protectedRounds: number): SeedingResult => {
+  const totalRounds = getTotalRounds(bracketSize);
+  const slotOfLine: number[] = [];
+  getSeedLineOrder(bracketSize).forEach((line, slot) => {
+    slotOfLine[line - 1] = slot;
+  });
+
+  const requestedRound = protectedRounds > 0 ? Math.max(1, totalRounds - protectedRounds + 1) : 1;
+  let minRound = requestedRound;
+  let lineOfSeed = tryPlaceSeeds(seeds, slotOfLine, minRound);
+  while (!lineOfSeed && minRound > 1) {
+    minRound--;
+    lineOfSeed = tryPlaceSeeds(seeds, slotOfLine, minRound);
+  }
+
+  const slots: string[] = Array(bracketSize).fill(BYE);
+  seeds.forEach((seed, index) => {
+    slots[slotOfLine[lineOfSeed?.[index] ?? index]] = seed.playerId;
+  });
+  return { slots, earliestSameGroupRound: minRound, relaxed: minRound < requestedRound };
+};
@@ -0,0 +1,176 @@
+import { type TimeSlot } from '../types';
+
+export const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'];
+
+export interface SlotSeriesPattern {
+  weekdays: number[]; // 0 = domenica, come Date.getDay()
+  fromDate: string; // YYYY-MM-DD
+  toDate: string;
+  startTime: string; // HH:mm
+  endTime: string;
+  durationMinutes: number;
+  location: string;
+  fields: string[];
+  // slot su campi registrati: courtIds è allineato a fields
+  venueId?: string;
+  courtIds?: string[];
+  excludedDates: string[];
+  excludeHolidays: boolean;
+}
+
+export interface SlotSeriesSummary {
+  seriesId: string;
+  count: number;
+  bookedCount: number;
+  firstStart: string;
+  lastStart: string;
+  location: string;
+  fields: string[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const createSlotSeriesId = () => 'series_' + Math.random().toString(36).slice(2, 10);
+
+// Pasqua (algoritmo di Meeus) per calcolare il lunedì dell'Angelo
+const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+/** Italian national holidays of the given year as YYYY-MM-DD keys. */
+export const getItalianHolidays = (year: number): string[] => {
+  const easterMonday = getEasterSunday(year);
+  easterMonday.setDate(easterMonday.getDate() + 1);
+  const fixed = ['01-01', '01-06', '04-25', '05-01', '06-02', '08-15', '11-01', '12-08', '12-25', '12-26'];
+  return [...fixed.map(md => `${year}-${md}`), toDateKey(easterMonday)];
+};
+
+/** Expands "1-4" into Campo 1…Campo 4; otherwise splits a comma separated list of names. */
+export const parseFieldList = (input: string): string[] => {
+  const range = input.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+  if (range) {
+    const from = parseInt(range[1], 10);
+    const to = parseInt(range[2], 10);
+    if (to < from) return [];
+    return [...Array(to - from + 1).keys()].map(i => `Campo ${from + i}`);
+  }
+  return input.split(',').map(f => f.trim()).filter(Boolean);
+};
+
+/** Returns a validation message for the pattern, or null if it can be generated. */
+export const validateSlotSeriesPattern = (pattern: SlotSeriesPattern): string | null => {
+  if (pattern.weekdays.length === 0) return 'Seleziona almeno un giorno della settimana.';
+  if (!pattern.fromDate || !pattern.toDate || pattern.toDate < pattern.fromDate) return 'Intervallo di date non valido.';
+  if (!pattern.startTime || !pattern.endTime || toMinutes(pattern.endTime) <= toMinutes(pattern.startTime)) return "L'orario di fine deve seguire quello di inizio.";
+  if (pattern.durationMinutes <= 0) return 'La durata dello slot deve essere positiva.';
+  if (toMinutes(pattern.endTime) - toMinutes(pattern.startTime) < pattern.durationMinutes) return 'La fascia oraria è più corta di uno slot.';
+  if (!pattern.location.trim()) return 'Inserisci il luogo.';
+  if (pattern.fields.length === 0) return 'Inserisci almeno un campo.';
+  return null;
+};
+
+/**
+ * Generates one slot per court for every time step of the chosen weekdays,
+ * skipping excluded dates (and Italian holidays if requested). Starts use the
+ * same local "YYYY-MM-DDTHH:mm" format as the manual slot form.
+ */
+export const generateSlotSeries = (pattern: SlotSeriesPattern, seriesId: string): TimeSlot[] => {
+  if (validateSlotSeriesPattern(pattern)) return [];
+  const excluded = new Set(pattern.excludedDates);
+  const [fromY, fromM, fromD] = pattern.fromDate.split('-').map(Number);
+  const [toY, toM, toD] = pattern.toDate.split('-').map(Number);
+  const day = new Date(fromY, fromM - 1, fromD);
+  const last = new Date(toY, toM - 1, toD);
+  if (pattern.excludeHolidays) {
+    for (let year = fromY; year <= toY; year++) getItalianHolidays(year).forEach(date => excluded.add(date));
+  }
+
+  const startMinutes = toMinutes(pattern.startTime);
+  const endMinutes = toMinutes(pattern.endTime);
+  const slots: TimeSlot[] = [];
+  let counter = 0;
+  while (day.getTime() <= last.getTime()) {
+    const dateKey = toDateKey(day);
+    if (pattern.weekdays.includes(day.getDay()) && !excluded.has(dateKey)) {
+      for (let minutes = startMinutes; minutes + pattern.durationMinutes <= endMinutes; minutes += pattern.durationMinutes) {
+        pattern.fields.forEach((field, index) => {
+          const courtId = pattern.courtIds?.[index];
+          slots.push({
+            id: `${seriesId}_${counter++}`,
+            start: `${dateKey}T${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`,
+            location: pattern.location.trim(),
+            field,
+            seriesId,
+            ...(pattern.venueId && courtId ? { venueId: pattern.venueId, courtId } : {}),
+          });
+        });
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return slots;
+};
+
+/**
+ * Ids of the new slots that overlap an existing slot on the same court (by id
+ * when registered, otherwise by location and field label). Existing slots have
+ * no end time, so they are assumed to last `durationMinutes` as well.
+ */
+export const findOverlappingSlotIds = (newSlots: TimeSlot[], existing: TimeSlot[], durationMinutes: number): Set<string> => {
+  const length = durationMinutes * 60000;
+  const keyOf = (slot: TimeSlot) => slot.courtId
+    ? `court|${slot.courtId}`
+    : `${slot.location.trim().toLowerCase()}|${(slot.field ?? '').trim().toLowerCase()}`;
+  const existingByCourt = new Map<string, number[]>();
+  existing.forEach(slot => {
+    const time = new Date(slot.start).getTime();
+    if (isNaN(time)) return;
+    const key = keyOf(slot);
+    existingByCourt.set(key, [...(existingByCourt.get(key) ?? []), time]);
+  });
+  return new Set(newSlots
+    .filter(slot => {
+      const time = new Date(slot.start).getTime();
+      return (existingByCourt.get(keyOf(slot)) ?? []).some(other => Math.abs(other - time) < length);
+    })
+    .map(slot => slot.id));
+};
+
+export const summarizeSlotSeries = (slots: TimeSlot[], bookedSlotIds: Set<string>): SlotSeriesSummary[] => {
+  const bySeries = new Map<string, TimeSlot[]>();
+  slots.forEach(slot => {
+    if (!slot.seriesId) return;
+    bySeries.set(slot.seriesId, [...(bySeries.get(slot.seriesId) ?? []), slot]);
+  });
+  return Array.from(bySeries.entries()).map(([seriesId, series]) => {
+    const sorted = [...series].sort((a, b) => a.start.localeCompare(b.start));
+    return {
+      seriesId,
+      count: series.length,
+      bookedCount: series.filter(slot => bookedSlotIds.has(slot.id)).length,
+      firstStart: sorted[0].start,
+      lastStart: sorted[sorted.length - 1].start,
+      location: sorted[0].location,
+      fields: Array.from(new Set(series.map(slot => slot.field))),
+    };
+  });
+};
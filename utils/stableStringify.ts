@@ -0,0 +1,17 @@
+/**
+ * JSON serialization with object keys sorted, so two values with the same content compare
+ * equal even when their keys were written in a different order (e.g. read back from Firestore).
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+export const isSameData = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
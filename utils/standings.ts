@@ -1,91 +1,288 @@
-import { type Group, type Player, type StandingsEntry, type TournamentSettings } from '../types';
+import { type Group, type Match, type Player, type SpecialResultPoints, type StandingsEntry, type StandingsTieBreak, type TieBreaker, type TournamentSettings } from '../types';
+import { getResultType, getScoreSummary, getWinnerGameMargin, getWinnerSide, hasMatchScore } from './score';
+import { isResultConfirmed } from './resultConfirmation';
 
-export const calculateStandings = (group: Group, players: Player[], settings: TournamentSettings): StandingsEntry[] => {
-  const standingsMap: { [key: string]: StandingsEntry } = {};
+export const DEFAULT_SPECIAL_RESULT_POINTS: SpecialResultPoints = {
+  walkoverWinnerPoints: 3,
+  walkoverLoserPoints: 0,
+  walkoverGamesAwarded: 12,
+  retirementWinnerPoints: 3,
+  retirementLoserPoints: 0,
+  doubleNoShowPoints: 0,
+};
 
-  (Array.isArray(group.playerIds) ? group.playerIds : []).forEach(playerId => {
-    standingsMap[playerId] = {
-      playerId, played: 0, wins: 0, draws: 0, losses: 0, points: 0,
-      goalsFor: 0, goalsAgainst: 0, goalDifference: 0
-    };
-  });
+export const getSpecialResultPoints = (settings: TournamentSettings): SpecialResultPoints => ({
+  ...DEFAULT_SPECIAL_RESULT_POINTS,
+  ...(settings.specialResultPoints ?? {}),
+});
 
-  (Array.isArray(group.matches) ? group.matches : []).forEach(match => {
-    if (match.status !== 'completed' || match.score1 === null || match.score2 === null) return;
+export const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  goalDifference: 'Differenza Game',
+  goalsFor: 'Game Fatti',
+  wins: 'Numero Vittorie',
+  headToHead: 'Scontro Diretto',
+  setsRatio: 'Quoziente Set',
+  gamesRatio: 'Quoziente Game',
+  fewestWalkoversConceded: 'Meno Walkover Subiti',
+  buchholz: 'Buchholz',
+  sonnebornBerger: 'Sonneborn-Berger',
+  drawOfLots: 'Sorteggio',
+};
 
-    const { player1Id, player2Id, score1, score2 } = match;
-    const stats1 = standingsMap[player1Id];
-    const stats2 = standingsMap[player2Id];
+export const createDrawOfLotsSeed = () => Math.random().toString(36).slice(2, 10);
 
-    if (!stats1 || !stats2) return;
+// Quoziente vinti/persi: senza set o game persi il quoziente è infinito (o 0 se non ne ha vinti).
+const getRatio = (won: number, lost: number) => {
+  if (lost === 0) return won > 0 ? Infinity : 0;
+  return won / lost;
+};
+
+const compareDescending = (a: number, b: number) => (a === b ? 0 : b > a ? 1 : -1);
+
+// Hash FNV-1a di seme + giocatore: stesso seme, stesso ordine a ogni caricamento.
+const getDrawOfLotsValue = (seed: string, playerId: string) => {
+  let hash = 0x811c9dc5;
+  const input = `${seed}:${playerId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createEmptyEntry = (playerId: string): StandingsEntry => ({
+  playerId, played: 0, wins: 0, draws: 0, losses: 0, points: 0,
+  goalsFor: 0, goalsAgainst: 0, goalDifference: 0, setsFor: 0, setsAgainst: 0, walkoversConceded: 0,
+  buchholz: 0, sonnebornBerger: 0
+});
+
+const applyMatchToStandings = (
+  standingsMap: { [key: string]: StandingsEntry },
+  match: Match,
+  settings: TournamentSettings,
+  specialPoints: SpecialResultPoints,
+) => {
+  if (match.status !== 'completed') return;
+  const resultType = getResultType(match);
+  // le partite annullate non entrano in classifica
+  if (resultType === 'annulled') return;
 
+  const { player1Id, player2Id } = match;
+  const stats1 = standingsMap[player1Id];
+  const stats2 = standingsMap[player2Id];
+
+  if (!stats1 || !stats2) return;
+
+  if (resultType === 'doubleNoShow') {
     stats1.played++;
     stats2.played++;
-    stats1.goalsFor += score1;
-    stats2.goalsFor += score2;
-    stats1.goalsAgainst += score2;
-    stats2.goalsAgainst += score1;
-    stats1.goalDifference = stats1.goalsFor - stats1.goalsAgainst;
-    stats2.goalDifference = stats2.goalsFor - stats2.goalsAgainst;
-
-    if (score1 > score2) {
-      stats1.wins++;
-      stats2.losses++;
-      const diff = score1 - score2;
-      const rule = settings.pointRules.find(r => diff >= r.minDiff && diff <= r.maxDiff);
-      if(rule) {
-        stats1.points += rule.winnerPoints;
-        stats2.points += rule.loserPoints;
-      }
-    } else if (score2 > score1) {
-      stats2.wins++;
-      stats1.losses++;
-      const diff = score2 - score1;
-      const rule = settings.pointRules.find(r => diff >= r.minDiff && diff <= r.maxDiff);
-      if(rule) {
-        stats2.points += rule.winnerPoints;
-        stats1.points += rule.loserPoints;
-      }
-    } else {
-      stats1.draws++;
-      stats2.draws++;
-      stats1.points += settings.pointsPerDraw;
-      stats2.points += settings.pointsPerDraw;
+    stats1.losses++;
+    stats2.losses++;
+    stats1.points += specialPoints.doubleNoShowPoints;
+    stats2.points += specialPoints.doubleNoShowPoints;
+    stats1.walkoversConceded++;
+    stats2.walkoversConceded++;
+    return;
+  }
+
+  if (resultType === 'walkover' || resultType === 'retirement') {
+    const winnerSide = getWinnerSide(match);
+    if (!winnerSide) return;
+    const [winner, loser] = winnerSide === 1 ? [stats1, stats2] : [stats2, stats1];
+    // walkover: game assegnati d'ufficio; ritiro: conta il punteggio al momento del ritiro
+    const partial = resultType === 'retirement' ? getScoreSummary(match) : null;
+    const winnerGames = resultType === 'walkover' ? specialPoints.walkoverGamesAwarded : (winnerSide === 1 ? partial?.games1 : partial?.games2) ?? 0;
+    const loserGames = resultType === 'walkover' ? 0 : (winnerSide === 1 ? partial?.games2 : partial?.games1) ?? 0;
+    winner.played++;
+    loser.played++;
+    winner.wins++;
+    loser.losses++;
+    winner.goalsFor += winnerGames;
+    winner.goalsAgainst += loserGames;
+    loser.goalsFor += loserGames;
+    loser.goalsAgainst += winnerGames;
+    winner.goalDifference = winner.goalsFor - winner.goalsAgainst;
+    loser.goalDifference = loser.goalsFor - loser.goalsAgainst;
+    winner.points += resultType === 'walkover' ? specialPoints.walkoverWinnerPoints : specialPoints.retirementWinnerPoints;
+    loser.points += resultType === 'walkover' ? specialPoints.walkoverLoserPoints : specialPoints.retirementLoserPoints;
+    if (resultType === 'walkover') loser.walkoversConceded++;
+    return;
+  }
+
+  const summary = getScoreSummary(match);
+  if (!summary) return;
+  const { games1: score1, games2: score2 } = summary;
+
+  stats1.played++;
+  stats2.played++;
+  stats1.goalsFor += score1;
+  stats2.goalsFor += score2;
+  stats1.goalsAgainst += score2;
+  stats2.goalsAgainst += score1;
+  stats1.goalDifference = stats1.goalsFor - stats1.goalsAgainst;
+  stats2.goalDifference = stats2.goalsFor - stats2.goalsAgainst;
+  stats1.setsFor += summary.sets1;
+  stats2.setsFor += summary.sets2;
+  stats1.setsAgainst += summary.sets2;
+  stats2.setsAgainst += summary.sets1;
+
+  // Il vincitore è deciso dai set; le pointRules restano sulla differenza game a suo favore.
+  if (summary.winner === 1) {
+    stats1.wins++;
+    stats2.losses++;
+    const diff = getWinnerGameMargin(summary, 1);
+    const rule = settings.pointRules.find(r => diff >= r.minDiff && diff <= r.maxDiff);
+    if(rule) {
+      stats1.points += rule.winnerPoints;
+      stats2.points += rule.loserPoints;
+    }
+  } else if (summary.winner === 2) {
+    stats2.wins++;
+    stats1.losses++;
+    const diff = getWinnerGameMargin(summary, 2);
+    const rule = settings.pointRules.find(r => diff >= r.minDiff && diff <= r.maxDiff);
+    if(rule) {
+      stats2.points += rule.winnerPoints;
+      stats1.points += rule.loserPoints;
     }
+  } else {
+    stats1.draws++;
+    stats2.draws++;
+    stats1.points += settings.pointsPerDraw;
+    stats2.points += settings.pointsPerDraw;
+  }
+};
+
+export const buildStandingsMap = (playerIds: string[], matches: Match[], settings: TournamentSettings) => {
+  const standingsMap: { [key: string]: StandingsEntry } = {};
+  const specialPoints = getSpecialResultPoints(settings);
+  playerIds.forEach(playerId => {
+    standingsMap[playerId] = createEmptyEntry(playerId);
+  });
+  matches.forEach(match => applyMatchToStandings(standingsMap, match, settings, specialPoints));
+  return standingsMap;
+};
+
+// Sistema svizzero: il turno di riposo vale come una vittoria a tavolino.
+const applySwissByes = (standingsMap: { [key: string]: StandingsEntry }, group: Group, settings: TournamentSettings) => {
+  const specialPoints = getSpecialResultPoints(settings);
+  (Array.isArray(group.swissByes) ? group.swissByes : []).forEach(bye => {
+    const entry = standingsMap[bye.playerId];
+    if (!entry) return;
+    entry.played++;
+    entry.wins++;
+    entry.points += specialPoints.walkoverWinnerPoints;
   });
+};
+
+const applyOpponentScores = (standingsMap: { [key: string]: StandingsEntry }, matches: Match[]) => {
+  matches.forEach(match => {
+    const resultType = getResultType(match);
+    if (resultType === 'annulled' || resultType === 'doubleNoShow') return;
+    const stats1 = standingsMap[match.player1Id];
+    const stats2 = standingsMap[match.player2Id];
+    if (!stats1 || !stats2) return;
+    const winnerSide = getWinnerSide(match);
+    if (!winnerSide && !hasMatchScore(match)) return;
+    stats1.buchholz += stats2.points;
+    stats2.buchholz += stats1.points;
+    if (winnerSide === 1) stats1.sonnebornBerger += stats2.points;
+    else if (winnerSide === 2) stats2.sonnebornBerger += stats1.points;
+    else {
+      stats1.sonnebornBerger += stats2.points / 2;
+      stats2.sonnebornBerger += stats1.points / 2;
+    }
+  });
+};
+
+interface TieBreakContext {
+  drawOfLotsSeed: string;
+  matches: Match[];
+  settings: TournamentSettings;
+  separations: Map<string, StandingsTieBreak>;
+}
 
-  return Object.values(standingsMap).sort((a, b) => {
-    if (b.points !== a.points) return b.points - a.points;
-    
-    for (const tieBreaker of settings.tieBreakers) {
-        let comparison = 0;
-        switch (tieBreaker) {
-            case 'headToHead':
-                const match = (Array.isArray(group.matches) ? group.matches : []).find(m =>
-                    m.status === 'completed' &&
-                    ((m.player1Id === a.playerId && m.player2Id === b.playerId) ||
-                     (m.player1Id === b.playerId && m.player2Id === a.playerId))
-                );
-                if (match && match.score1 !== null && match.score2 !== null) {
-                    if (match.score1 !== match.score2) {
-                        const winnerId = match.score1 > match.score2 ? match.player1Id : match.player2Id;
-                        if (winnerId === a.playerId) return -1;
-                        if (winnerId === b.playerId) return 1;
-                    }
-                }
-                break;
-            case 'wins':
-                comparison = b.wins - a.wins;
-                break;
-            case 'goalDifference':
-                comparison = b.goalDifference - a.goalDifference;
-                break;
-            case 'goalsFor':
-                comparison = b.goalsFor - a.goalsFor;
-                break;
-        }
-        if (comparison !== 0) return comparison;
+type EntryComparator = (a: StandingsEntry, b: StandingsEntry) => number;
+
+const getCriterionComparator = (criterion: TieBreaker, tied: StandingsEntry[], context: TieBreakContext): EntryComparator => {
+  switch (criterion) {
+    case 'headToHead': {
+      // classifica avulsa: solo gli scontri diretti tra i giocatori ancora a pari merito
+      const tiedIds = new Set(tied.map(entry => entry.playerId));
+      const mutualMatches = context.matches.filter(m => tiedIds.has(m.player1Id) && tiedIds.has(m.player2Id));
+      const mini = buildStandingsMap([...tiedIds], mutualMatches, context.settings);
+      return (a, b) => (mini[b.playerId].points - mini[a.playerId].points) || (mini[b.playerId].wins - mini[a.playerId].wins);
     }
-    return 0;
+    case 'wins':
+      return (a, b) => b.wins - a.wins;
+    case 'goalDifference':
+      return (a, b) => b.goalDifference - a.goalDifference;
+    case 'goalsFor':
+      return (a, b) => b.goalsFor - a.goalsFor;
+    case 'setsRatio':
+      return (a, b) => compareDescending(getRatio(a.setsFor, a.setsAgainst), getRatio(b.setsFor, b.setsAgainst));
+    case 'gamesRatio':
+      return (a, b) => compareDescending(getRatio(a.goalsFor, a.goalsAgainst), getRatio(b.goalsFor, b.goalsAgainst));
+    case 'fewestWalkoversConceded':
+      return (a, b) => a.walkoversConceded - b.walkoversConceded;
+    case 'buchholz':
+      return (a, b) => b.buchholz - a.buchholz;
+    case 'sonnebornBerger':
+      return (a, b) => b.sonnebornBerger - a.sonnebornBerger;
+    case 'drawOfLots':
+      return (a, b) => compareDescending(getDrawOfLotsValue(context.drawOfLotsSeed, a.playerId), getDrawOfLotsValue(context.drawOfLotsSeed, b.playerId));
+  }
+};
+
+// Raggruppa gli elementi (già ordinati) che il comparatore considera uguali.
+const splitIntoTiedBuckets = (entries: StandingsEntry[], compare: EntryComparator): StandingsEntry[][] => {
+  const sorted = [...entries].sort(compare);
+  const buckets: StandingsEntry[][] = [];
+  sorted.forEach(entry => {
+    const current = buckets[buckets.length - 1];
+    if (current && compare(current[0], entry) === 0) current.push(entry);
+    else buckets.push([entry]);
+  });
+  return buckets;
+};
+
+// Applica i criteri configurati in ordine: appena uno separa il gruppo, ogni sottogruppo
+// ancora in parità riparte dal primo criterio (gli scontri diretti vengono ricalcolati sul sottogruppo).
+const resolveTie = (tied: StandingsEntry[], context: TieBreakContext): StandingsEntry[] => {
+  if (tied.length < 2) return tied;
+  for (const criterion of context.settings.tieBreakers ?? []) {
+    const buckets = splitIntoTiedBuckets(tied, getCriterionComparator(criterion, tied, context));
+    if (buckets.length < 2) continue;
+    const ordered: StandingsEntry[] = [];
+    buckets.forEach(bucket => {
+      const resolved = resolveTie(bucket, context);
+      if (ordered.length > 0) {
+        context.separations.set(resolved[0].playerId, { criterion, tiedPlayers: tied.length });
+      }
+      ordered.push(...resolved);
+    });
+    return ordered;
+  }
+  return tied;
+};
+
+export const calculateStandings = (group: Group, players: Player[], settings: TournamentSettings): StandingsEntry[] => {
+  const playerIds = Array.isArray(group.playerIds) ? group.playerIds : [];
+  // i risultati provvisori o contestati entrano in classifica solo dopo la conferma
+  const matches = (Array.isArray(group.matches) ? group.matches : [])
+    .filter(m => m.status === 'completed' && isResultConfirmed(m, settings.resultAutoConfirmHours));
+  const standingsMap = buildStandingsMap(playerIds, matches, settings);
+  applySwissByes(standingsMap, group, settings);
+  applyOpponentScores(standingsMap, matches);
+  // senza seme salvato si usa l'id del girone, comunque stabile tra un caricamento e l'altro
+  const context: TieBreakContext = { drawOfLotsSeed: settings.drawOfLotsSeed ?? group.id, matches, settings, separations: new Map() };
+
+  const pointBuckets = splitIntoTiedBuckets(Object.values(standingsMap), (a, b) => b.points - a.points);
+  return pointBuckets.flatMap(bucket => {
+    const resolved = resolveTie(bucket, context);
+    if (bucket.length < 2) return resolved;
+    return resolved.map((entry, index) => index === 0
+      ? entry
+      : { ...entry, tieBreak: context.separations.get(entry.playerId) ?? { criterion: null, tiedPlayers: bucket.length } });
   });
 };
@@ -9,6 +9,9 @@ import {
   type SummerRankingMasterMatch,
   type SummerRankingRulesConfig,
 } from '../types';
+import { getResultType, getScoreSummary, getWinnerGameMargin, getWinnerSide, hasMatchResult } from './score';
+import { DEFAULT_PROPOSAL_EXPIRY_HOURS, isProposalActive } from './proposals';
+import { DEFAULT_RESULT_AUTO_CONFIRM_HOURS, isResultConfirmed } from './resultConfirmation';
 
 export const SUMMER_RANKING_NAME = 'Summer Ranking Next';
 export const SUMMER_RANKING_MASTER_SIZE = 8;
@@ -36,6 +39,11 @@ export const DEFAULT_RULES_CONFIG: SummerRankingRulesConfig = {
   drawPercentage: 50,
   drawFixed: 10,
 
+  walkoverWinPoints: 10,
+  walkoverLossPoints: -20,
+  retirementWinPercentage: 100,
+  doubleNoShowPoints: -10,
+
   participationBonusEnabled: true,
   participationBase: 5,
   participationWeeklyBonus: 10,
@@ -57,6 +65,10 @@ export const DEFAULT_RULES_CONFIG: SummerRankingRulesConfig = {
   masterMinMatches: 5,
 
   headToHeadLimit: 5,
+
+  proposalExpiryHours: DEFAULT_PROPOSAL_EXPIRY_HOURS,
+
+  resultAutoConfirmHours: DEFAULT_RESULT_AUTO_CONFIRM_HOURS,
 };
 
 export const normalizeRulesConfig = (config?: Partial<SummerRankingRulesConfig> | null): SummerRankingRulesConfig => ({
@@ -85,6 +97,9 @@ export const generateRulesText = (config: SummerRankingRulesConfig): string => {
     `• Se il favorito vince (pari/medio/alto): +${config.favoriteWinLow}/+${config.favoriteWinMedium}/+${config.favoriteWinHigh} pt; se perde: ${config.favoriteLossLow}/${config.favoriteLossMedium}/${config.favoriteLossHigh} pt.`,
     `• Se lo sfavorito vince (pari/medio/alto): +${config.underdogWinLow}/+${config.underdogWinMedium}/+${config.underdogWinHigh} pt; se perde: ${config.underdogLossLow}/${config.underdogLossMedium}/${config.underdogLossHigh} pt.`,
     `• Pareggio: ${drawDesc}. Ai game fatti in partita si aggiungono al punteggio base.`,
+    `• Walkover (vittoria a tavolino): +${config.walkoverWinPoints} pt a chi si presenta, ${config.walkoverLossPoints} pt a chi non si presenta; nessun bonus game o partecipazione.`,
+    `• Ritiro: vale il punteggio al momento del ritiro; il vincitore riceve il ${config.retirementWinPercentage}% dei punti vittoria.`,
+    `• Doppia assenza: ${config.doubleNoShowPoints} pt a entrambi i giocatori. Le partite annullate non contano.`,
   ];
   if (config.wonGamesBonusEnabled) {
     const mult = config.wonGamesMultiplier === 2 ? 'doppi (×2)' : 'normali (×1)';
@@ -217,23 +232,29 @@ export const getSummerRankingLossPoints = (currentPlayerPoints: number, opponent
   return band === 'low' ? cfg.underdogLossLow : band === 'medium' ? cfg.underdogLossMedium : cfg.underdogLossHigh;
 };
 
-const hasValidKnockoutScore = (match: Pick<PlayoffMatch, 'player1Id' | 'player2Id' | 'score1' | 'score2'>) =>
-  !!match.player1Id &&
-  !!match.player2Id &&
-  match.score1 !== null &&
-  match.score2 !== null &&
-  match.score1 >= 0 &&
-  match.score2 >= 0 &&
-  match.score1 !== match.score2;
-
-const getWinnerId = (match: Pick<PlayoffMatch, 'player1Id' | 'player2Id' | 'score1' | 'score2'>) => {
-  if (!hasValidKnockoutScore(match)) return null;
-  return (match.score1 ?? 0) > (match.score2 ?? 0) ? match.player1Id : match.player2Id;
+type KnockoutScoreMatch = Pick<PlayoffMatch, 'player1Id' | 'player2Id' | 'score1' | 'score2' | 'score' | 'resultType' | 'awardedTo'>;
+
+const getKnockoutWinnerSide = (match: KnockoutScoreMatch) => {
+  if (!match.player1Id || !match.player2Id) return null;
+  if (getResultType(match) === 'played') {
+    const summary = getScoreSummary(match);
+    if (!summary || summary.games1 < 0 || summary.games2 < 0) return null;
+  }
+  return getWinnerSide(match);
 };
 
-const getLoserId = (match: Pick<PlayoffMatch, 'player1Id' | 'player2Id' | 'score1' | 'score2'>) => {
-  if (!hasValidKnockoutScore(match)) return null;
-  return (match.score1 ?? 0) > (match.score2 ?? 0) ? match.player2Id : match.player1Id;
+const hasValidKnockoutScore = (match: KnockoutScoreMatch) => getKnockoutWinnerSide(match) !== null;
+
+const getWinnerId = (match: KnockoutScoreMatch) => {
+  const winnerSide = getKnockoutWinnerSide(match);
+  if (!winnerSide) return null;
+  return winnerSide === 1 ? match.player1Id : match.player2Id;
+};
+
+const getLoserId = (match: KnockoutScoreMatch) => {
+  const winnerSide = getKnockoutWinnerSide(match);
+  if (!winnerSide) return null;
+  return winnerSide === 1 ? match.player2Id : match.player1Id;
 };
 
 const setParticipants = (
@@ -248,6 +269,9 @@ const setParticipants = (
   if (!player1Id || !player2Id || playersChanged) {
     match.score1 = null;
     match.score2 = null;
+    match.score = null;
+    match.resultType = null;
+    match.awardedTo = null;
     match.winnerId = null;
     return;
   }
@@ -441,6 +465,9 @@ export const syncSummerRankingMasterMatches = (
         player2Id: match.player2Id,
         score1: isCompleted ? match.score1 : null,
         score2: isCompleted ? match.score2 : null,
+        score: isCompleted ? match.score ?? null : null,
+        resultType: isCompleted ? match.resultType ?? null : null,
+        awardedTo: isCompleted ? match.awardedTo ?? null : null,
         status: isCompleted
           ? 'completed'
           : samePlayers && previousMatch?.slotId && match.player1Id && match.player2Id
@@ -450,6 +477,8 @@ export const syncSummerRankingMasterMatches = (
         location: samePlayers ? previousMatch?.location : undefined,
         field: samePlayers ? previousMatch?.field : undefined,
         slotId: samePlayers ? previousMatch?.slotId : undefined,
+        venueId: samePlayers ? previousMatch?.venueId : undefined,
+        courtId: samePlayers ? previousMatch?.courtId : undefined,
         completedAt: isCompleted ? previousMatch?.completedAt ?? completedAtFallback : undefined,
       };
     });
@@ -476,7 +505,7 @@ export const createSummerRankingMasterGroupMatches = (
       const player2Id = group.playerIds[secondSeedIndex] ?? null;
       const previousMatch = previousMap.get(matchId);
       const samePlayers = previousMatch?.player1Id === player1Id && previousMatch?.player2Id === player2Id;
-      const isCompleted = samePlayers && hasValidKnockoutScore({ player1Id, player2Id, score1: previousMatch?.score1 ?? null, score2: previousMatch?.score2 ?? null });
+      const isCompleted = samePlayers && hasValidKnockoutScore({ player1Id, player2Id, score1: previousMatch?.score1 ?? null, score2: previousMatch?.score2 ?? null, score: previousMatch?.score, resultType: previousMatch?.resultType, awardedTo: previousMatch?.awardedTo });
 
       return {
         id: matchId,
@@ -488,6 +517,9 @@ export const createSummerRankingMasterGroupMatches = (
         player2Id,
         score1: isCompleted ? previousMatch?.score1 ?? null : null,
         score2: isCompleted ? previousMatch?.score2 ?? null : null,
+        score: isCompleted ? previousMatch?.score ?? null : null,
+        resultType: isCompleted ? previousMatch?.resultType ?? null : null,
+        awardedTo: isCompleted ? previousMatch?.awardedTo ?? null : null,
         status: isCompleted
           ? 'completed'
           : samePlayers && previousMatch?.slotId && player1Id && player2Id
@@ -497,6 +529,8 @@ export const createSummerRankingMasterGroupMatches = (
         location: samePlayers ? previousMatch?.location : undefined,
         field: samePlayers ? previousMatch?.field : undefined,
         slotId: samePlayers ? previousMatch?.slotId : undefined,
+        venueId: samePlayers ? previousMatch?.venueId : undefined,
+        courtId: samePlayers ? previousMatch?.courtId : undefined,
         completedAt: isCompleted ? previousMatch?.completedAt ?? completedAtFallback : undefined,
       } as SummerRankingMasterMatch;
     }),
@@ -593,14 +627,46 @@ const getSummerRankingMatchBreakdown = (
   player2PointsBefore: number,
   config: SummerRankingRulesConfig,
 ): SummerRankingMatchBreakdown | null => {
-  if (match.score1 === null || match.score2 === null) return null;
+  const resultType = getResultType(match);
+  if (resultType === 'annulled' || !hasMatchResult(match)) return null;
+
+  if (resultType === 'walkover' || resultType === 'doubleNoShow') {
+    const winnerSide = getWinnerSide(match);
+    const buildSpecialBreakdown = (playerId: string, side: 1 | 2): SummerRankingMatchPlayerBreakdown => {
+      const resultPoints = resultType === 'doubleNoShow'
+        ? config.doubleNoShowPoints
+        : winnerSide === side ? config.walkoverWinPoints : config.walkoverLossPoints;
+      return {
+        playerId,
+        outcome: winnerSide === side ? 'win' : 'loss',
+        resultPoints,
+        gameFatti: 0,
+        gameFattiPoints: 0,
+        participationPoints: 0,
+        gameDiffPoints: 0,
+        rulesAdjustmentPoints: 0,
+        totalPoints: resultPoints,
+      };
+    };
+    return {
+      matchId: match.id,
+      player1: buildSpecialBreakdown(match.player1Id, 1),
+      player2: buildSpecialBreakdown(match.player2Id, 2),
+    };
+  }
+
+  const summary = getScoreSummary(match);
+  const games1 = summary?.games1 ?? 0;
+  const games2 = summary?.games2 ?? 0;
+  const winnerSide = getWinnerSide(match);
+  const winPercentage = resultType === 'retirement' ? config.retirementWinPercentage / 100 : 1;
 
   const diff = Math.abs(player1PointsBefore - player2PointsBefore);
   const band = getSummerRankingDiffBand(diff, config);
   const isPlayer1Favorite = player1PointsBefore >= player2PointsBefore;
   const participationPoints = getParticipationBonus(config);
 
-  if (match.score1 === match.score2) {
+  if (winnerSide === null) {
     const favWin = band === 'low' ? config.favoriteWinLow : band === 'medium' ? config.favoriteWinMedium : config.favoriteWinHigh;
     const undWin = band === 'low' ? config.underdogWinLow : band === 'medium' ? config.underdogWinMedium : config.underdogWinHigh;
     const player1BaseWin = isPlayer1Favorite ? favWin : undWin;
@@ -611,8 +677,8 @@ const getSummerRankingMatchBreakdown = (
     const player2ResultPoints = config.drawMode === 'fixed'
       ? config.drawFixed
       : player2BaseWin * (config.drawPercentage / 100);
-    const player1GameFattiPoints = getWonGamesBonus(match.score1, config);
-    const player2GameFattiPoints = getWonGamesBonus(match.score2, config);
+    const player1GameFattiPoints = getWonGamesBonus(games1, config);
+    const player2GameFattiPoints = getWonGamesBonus(games2, config);
 
     return {
       matchId: match.id,
@@ -620,7 +686,7 @@ const getSummerRankingMatchBreakdown = (
         playerId: match.player1Id,
         outcome: 'draw',
         resultPoints: player1ResultPoints,
-        gameFatti: match.score1,
+        gameFatti: games1,
         gameFattiPoints: player1GameFattiPoints,
         participationPoints,
         gameDiffPoints: 0,
@@ -631,7 +697,7 @@ const getSummerRankingMatchBreakdown = (
         playerId: match.player2Id,
         outcome: 'draw',
         resultPoints: player2ResultPoints,
-        gameFatti: match.score2,
+        gameFatti: games2,
         gameFattiPoints: player2GameFattiPoints,
         participationPoints,
         gameDiffPoints: 0,
@@ -641,18 +707,17 @@ const getSummerRankingMatchBreakdown = (
     };
   }
 
-  const player1Won = match.score1 > match.score2;
+  const player1Won = winnerSide === 1;
   const winnerWasFavorite = player1Won ? isPlayer1Favorite : !isPlayer1Favorite;
-  const winnerResult = winnerWasFavorite
+  const winnerResult = (winnerWasFavorite
     ? (band === 'low' ? config.favoriteWinLow : band === 'medium' ? config.favoriteWinMedium : config.favoriteWinHigh)
-    : (band === 'low' ? config.underdogWinLow : band === 'medium' ? config.underdogWinMedium : config.underdogWinHigh);
+    : (band === 'low' ? config.underdogWinLow : band === 'medium' ? config.underdogWinMedium : config.underdogWinHigh)) * winPercentage;
   const loserResult = winnerWasFavorite
     ? (band === 'low' ? config.favoriteLossLow : band === 'medium' ? config.favoriteLossMedium : config.favoriteLossHigh)
     : (band === 'low' ? config.underdogLossLow : band === 'medium' ? config.underdogLossMedium : config.underdogLossHigh);
-  const scoreDiff = Math.abs(match.score1 - match.score2);
-  const gameDiffPoints = getGameDiffBonus(scoreDiff, config);
-  const winnerGameFatti = player1Won ? match.score1 : match.score2;
-  const loserGameFatti = player1Won ? match.score2 : match.score1;
+  const gameDiffPoints = getGameDiffBonus(getWinnerGameMargin({ games1, games2 }, winnerSide), config);
+  const winnerGameFatti = player1Won ? games1 : games2;
+  const loserGameFatti = player1Won ? games2 : games1;
   const winnerGameFattiPoints = getWonGamesBonus(winnerGameFatti, config);
   const loserGameFattiPoints = getWonGamesBonus(loserGameFatti, config);
   const loserEffectiveReduction = Math.min(Math.abs(loserResult), loserGameFattiPoints);
@@ -689,8 +754,10 @@ const getSummerRankingMatchBreakdown = (
   };
 };
 
+// una sfida mai confermata dall'avversario non consuma scontri diretti
 const countEncounterMatches = (matches: Match[], player1Id: string, player2Id: string) =>
   matches.filter(match => {
+    if (match.status === 'pending' && match.proposal && !isProposalActive(match.proposal)) return false;
     const pair = [match.player1Id, match.player2Id].sort().join(':');
     return pair === [player1Id, player2Id].sort().join(':');
   }).length;
@@ -721,12 +788,13 @@ export const calculateSummerRankingMatchBreakdowns = (
 
   matches
     .filter(match =>
-      match.score1 !== null &&
-      match.score2 !== null &&
+      hasMatchResult(match) &&
+      getResultType(match) !== 'annulled' &&
       (
         match.status === 'completed' ||
         Boolean(match.completedAt)
-      )
+      ) &&
+      isResultConfirmed(match, cfg.resultAutoConfirmHours)
     )
     .slice()
     .sort((a, b) => {
@@ -763,12 +831,13 @@ export const calculateSummerRanking = (
   const confirmedPlayers = players.filter(player => player.status === 'confirmed');
   const completedMatches = matches
     .filter(match =>
-      match.score1 !== null &&
-      match.score2 !== null &&
+      hasMatchResult(match) &&
+      getResultType(match) !== 'annulled' &&
       (
         match.status === 'completed' ||
         Boolean(match.completedAt)
-      )
+      ) &&
+      isResultConfirmed(match, cfg.resultAutoConfirmHours)
     )
     .slice()
     .sort((a, b) => {
@@ -809,21 +878,50 @@ export const calculateSummerRanking = (
     const player1Stats = stats.get(match.player1Id);
     const player2Stats = stats.get(match.player2Id);
     if (!player1Stats || !player2Stats) return;
+    const resultType = getResultType(match);
+    const winnerSide = getWinnerSide(match);
+    const playedAt = getMatchPlayedAt(match);
+    const playedDate = toTimestamp(playedAt);
+
+    if (resultType === 'walkover' || resultType === 'doubleNoShow') {
+      // nessun bonus: solo i punti fissi; l'inattività si azzera solo per chi si è presentato
+      ([[player1Stats, 1, match.player1Id], [player2Stats, 2, match.player2Id]] as const).forEach(([playerStats, side, playerId]) => {
+        const isWinner = winnerSide === side;
+        const resultPoints = resultType === 'doubleNoShow'
+          ? cfg.doubleNoShowPoints
+          : isWinner ? cfg.walkoverWinPoints : cfg.walkoverLossPoints;
+        playerStats.points += resultPoints;
+        playerStats.resultPoints += resultPoints;
+        playerStats.matchesPlayed += 1;
+        if (isWinner) {
+          playerStats.lastMatchAt = playedAt;
+          playerStats.wins += 1;
+          playerStats.recentForm.push('W');
+          if (!Number.isNaN(playedDate)) playedDatesByPlayer.get(playerId)?.push(playedDate);
+        } else {
+          playerStats.losses += 1;
+          playerStats.recentForm.push('L');
+        }
+      });
+      return;
+    }
+
+    const summary = getScoreSummary(match);
+    const games1 = summary?.games1 ?? 0;
+    const games2 = summary?.games2 ?? 0;
+    const winPercentage = resultType === 'retirement' ? cfg.retirementWinPercentage / 100 : 1;
 
     const player1PointsBefore = player1Stats.points;
     const player2PointsBefore = player2Stats.points;
     const diff = Math.abs(player1PointsBefore - player2PointsBefore);
     const band = getSummerRankingDiffBand(diff, cfg);
     const isPlayer1Favorite = player1PointsBefore >= player2PointsBefore;
-    const playedAt = getMatchPlayedAt(match);
-    const playedDate = toTimestamp(playedAt);
     if (!Number.isNaN(playedDate)) {
       playedDatesByPlayer.get(match.player1Id)?.push(playedDate);
       playedDatesByPlayer.get(match.player2Id)?.push(playedDate);
     }
     const participation1 = getParticipationBonus(cfg);
     const participation2 = getParticipationBonus(cfg);
-    const scoreDiff = Math.abs((match.score1 ?? 0) - (match.score2 ?? 0));
 
     player1Stats.matchesPlayed += 1;
     player2Stats.matchesPlayed += 1;
@@ -834,7 +932,7 @@ export const calculateSummerRanking = (
     player1Stats.lastMatchAt = playedAt;
     player2Stats.lastMatchAt = playedAt;
 
-    if (match.score1 === match.score2) {
+    if (winnerSide === null) {
       const favWin = band === 'low' ? cfg.favoriteWinLow : band === 'medium' ? cfg.favoriteWinMedium : cfg.favoriteWinHigh;
       const undWin = band === 'low' ? cfg.underdogWinLow : band === 'medium' ? cfg.underdogWinMedium : cfg.underdogWinHigh;
       const player1BaseWin = isPlayer1Favorite ? favWin : undWin;
@@ -848,8 +946,8 @@ export const calculateSummerRanking = (
         player1DrawPoints = player1BaseWin * (cfg.drawPercentage / 100);
         player2DrawPoints = player2BaseWin * (cfg.drawPercentage / 100);
       }
-      const player1WonGamesBonus = getWonGamesBonus(match.score1 ?? 0, cfg);
-      const player2WonGamesBonus = getWonGamesBonus(match.score2 ?? 0, cfg);
+      const player1WonGamesBonus = getWonGamesBonus(games1, cfg);
+      const player2WonGamesBonus = getWonGamesBonus(games2, cfg);
 
       player1Stats.points += player1DrawPoints + player1WonGamesBonus;
       player2Stats.points += player2DrawPoints + player2WonGamesBonus;
@@ -864,19 +962,19 @@ export const calculateSummerRanking = (
       return;
     }
 
-    const player1Won = (match.score1 ?? 0) > (match.score2 ?? 0);
+    const player1Won = winnerSide === 1;
     const winnerStats = player1Won ? player1Stats : player2Stats;
     const loserStats = player1Won ? player2Stats : player1Stats;
-    const winnerScore = player1Won ? (match.score1 ?? 0) : (match.score2 ?? 0);
-    const loserScore = player1Won ? (match.score2 ?? 0) : (match.score1 ?? 0);
+    const winnerScore = player1Won ? games1 : games2;
+    const loserScore = player1Won ? games2 : games1;
     const winnerWasFavorite = player1Won ? isPlayer1Favorite : !isPlayer1Favorite;
-    const winnerResult = winnerWasFavorite
+    const winnerResult = (winnerWasFavorite
       ? (band === 'low' ? cfg.favoriteWinLow : band === 'medium' ? cfg.favoriteWinMedium : cfg.favoriteWinHigh)
-      : (band === 'low' ? cfg.underdogWinLow : band === 'medium' ? cfg.underdogWinMedium : cfg.underdogWinHigh);
+      : (band === 'low' ? cfg.underdogWinLow : band === 'medium' ? cfg.underdogWinMedium : cfg.underdogWinHigh)) * winPercentage;
     const loserResult = winnerWasFavorite
       ? (band === 'low' ? cfg.favoriteLossLow : band === 'medium' ? cfg.favoriteLossMedium : cfg.favoriteLossHigh)
       : (band === 'low' ? cfg.underdogLossLow : band === 'medium' ? cfg.underdogLossMedium : cfg.underdogLossHigh);
-    const gameDiffBonus = getGameDiffBonus(scoreDiff, cfg);
+    const gameDiffBonus = getGameDiffBonus(getWinnerGameMargin({ games1, games2 }, winnerSide), cfg);
 
     // Winner gains base result + won games bonus (if enabled) + game diff bonus
     const wonGamesBonus = getWonGamesBonus(winnerScore, cfg);
@@ -0,0 +1,100 @@
+import { type Group, type Match, type Player, type SwissBye, type TournamentSettings } from '../types';
+import { calculateStandings } from './standings';
+
+// Numero massimo di tentativi del backtracking prima di accettare le rivincite
+const MAX_SEARCH_STEPS = 20000;
+
+export interface SwissRoundResult {
+  round: number;
+  matches: Match[];
+  bye: SwissBye | null;
+}
+
+const getMatches = (group: Group) => (Array.isArray(group.matches) ? group.matches : []);
+const getByes = (group: Group) => (Array.isArray(group.swissByes) ? group.swissByes : []);
+
+export const getSwissCurrentRound = (group: Group) => Math.max(
+  0,
+  ...getMatches(group).map(m => m.round ?? 0),
+  ...getByes(group).map(b => b.round),
+);
+
+export const getSwissTotalRounds = (group: Group) => {
+  const playerCount = Array.isArray(group.playerIds) ? group.playerIds.length : 0;
+  return group.swissRounds ?? Math.max(1, Math.ceil(Math.log2(Math.max(playerCount, 2))));
+};
+
+/** Returns the reason why the next round cannot be generated, or null if it can. */
+export const getSwissRoundBlocker = (group: Group): string | null => {
+  const playerCount = Array.isArray(group.playerIds) ? group.playerIds.length : 0;
+  if (playerCount < 2) return 'Servono almeno 2 giocatori.';
+  const currentRound = getSwissCurrentRound(group);
+  if (currentRound >= getSwissTotalRounds(group)) return 'Tutti i turni sono stati generati.';
+  const pending = getMatches(group).filter(m => m.round === currentRound && m.status !== 'completed');
+  if (currentRound > 0 && pending.length > 0) return `Completa prima le ${pending.length} partite del turno ${currentRound}.`;
+  return null;
+};
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Abbina in ordine di classifica: ognuno contro il primo disponibile con punteggio uguale o vicino.
+const pairInOrder = (ordered: string[], played: Set<string>, allowRematches: boolean): [string, string][] | null => {
+  let steps = 0;
+  const pairs: [string, string][] = [];
+  const place = (remaining: string[]): boolean => {
+    if (remaining.length === 0) return true;
+    if (++steps > MAX_SEARCH_STEPS) return false;
+    const [first, ...rest] = remaining;
+    for (let i = 0; i < rest.length; i++) {
+      if (!allowRematches && played.has(pairKey(first, rest[i]))) continue;
+      pairs.push([first, rest[i]]);
+      if (place(rest.filter((_, index) => index !== i))) return true;
+      pairs.pop();
+    }
+    return false;
+  };
+  return place(ordered) ? pairs : null;
+};
+
+/**
+ * Builds the next Swiss round from the completed results. Round 1 pairs the top
+ * half against the bottom half; later rounds pair competitors on equal or similar
+ * points who have not met yet. With an odd count the lowest ranked competitor
+ * without a previous bye rests.
+ */
+export const generateSwissRound = (group: Group, players: Player[], settings: TournamentSettings): SwissRoundResult => {
+  const round = getSwissCurrentRound(group) + 1;
+  const byes = getByes(group);
+  let ordered = round === 1
+    ? [...group.playerIds]
+    : calculateStandings(group, players, settings).map(entry => entry.playerId);
+
+  let bye: SwissBye | null = null;
+  if (ordered.length % 2 === 1) {
+    const hadBye = new Set(byes.map(b => b.playerId));
+    const byePlayerId = [...ordered].reverse().find(id => !hadBye.has(id)) ?? ordered[ordered.length - 1];
+    bye = { round, playerId: byePlayerId };
+    ordered = ordered.filter(id => id !== byePlayerId);
+  }
+
+  let pairs: [string, string][];
+  if (round === 1) {
+    const half = ordered.length / 2;
+    pairs = ordered.slice(0, half).map((id, i) => [id, ordered[half + i]]);
+  } else {
+    const played = new Set(getMatches(group).map(m => pairKey(m.player1Id, m.player2Id)));
+    pairs = pairInOrder(ordered, played, false) ?? pairInOrder(ordered, played, true) ?? [];
+  }
+
+  const stamp = Date.now();
+  const matches: Match[] = pairs.map(([player1Id, player2Id], i) => ({
+    id: `m${stamp}r${round}-${i}`,
+    player1Id,
+    player2Id,
+    score1: null,
+    score2: null,
+    status: 'pending',
+    round,
+  }));
+  return { round, matches, bye };
+};
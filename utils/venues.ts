@@ -0,0 +1,177 @@
+import { type Court, type CourtSurface, type Event, type Match, type SummerRankingMasterMatch, type TimeSlot, type Venue } from '../types';
+import { WEEKDAY_LABELS } from './slotSeries';
+import { getActiveProposal } from './proposals';
+
+export const COURT_SURFACE_LABELS: Record<CourtSurface, string> = {
+  clay: 'Terra rossa',
+  hard: 'Cemento',
+  grass: 'Erba',
+  synthetic: 'Erba sintetica',
+  carpet: 'Sintetico indoor',
+};
+
+// Gli slot non hanno un orario di fine: una partita occupa il campo per questa durata
+export const DEFAULT_COURT_BOOKING_MINUTES = 90;
+
+export interface CourtBooking {
+  courtId: string;
+  venueId?: string;
+  start: number; // ms
+  eventId: string;
+  eventName: string;
+  matchId: string;
+}
+
+const createId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+export const createVenueId = () => createId('venue');
+export const createCourtId = () => createId('court');
+export const createClosureId = () => createId('closure');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const getVenueCourt = (venues: Venue[], courtId?: string): { venue: Venue; court: Court } | null => {
+  if (!courtId) return null;
+  for (const venue of venues) {
+    const court = venue.courts.find(c => c.id === courtId);
+    if (court) return { venue, court };
+  }
+  return null;
+};
+
+export const describeCourt = (court: Court) =>
+  `${court.name} • ${COURT_SURFACE_LABELS[court.surface]} • ${court.indoor ? 'coperto' : 'scoperto'}`;
+
+/**
+ * Copies the venue and court of the slot onto the match, dropping the ones of
+ * a previous booking. Keys are omitted rather than left undefined because
+ * Firestore rejects undefined values.
+ */
+export const assignSlotCourt = <T extends Match | SummerRankingMasterMatch>(match: T, slot?: TimeSlot | null): T => {
+  const { venueId: _venueId, courtId: _courtId, ...rest } = match;
+  return {
+    ...rest,
+    ...(slot?.venueId ? { venueId: slot.venueId } : {}),
+    ...(slot?.courtId ? { courtId: slot.courtId } : {}),
+  } as T;
+};
+
+/**
+ * Returns why the venue cannot host a match starting at `start` (local
+ * "YYYY-MM-DDTHH:mm" or ISO) for `durationMinutes`, or null if it is open.
+ * A venue without opening hours is considered always open.
+ */
+export const getVenueClosureReason = (venue: Venue, start: string, durationMinutes: number): string | null => {
+  const date = new Date(start);
+  if (isNaN(date.getTime())) return 'Orario non valido';
+  const dateKey = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const closure = venue.closures.find(c => c.fromDate <= dateKey && dateKey <= c.toDate);
+  if (closure) return `Impianto chiuso${closure.reason ? `: ${closure.reason}` : ''}`;
+  if (venue.openingHours.length === 0) return null;
+
+  const dayHours = venue.openingHours.filter(h => h.weekday === date.getDay());
+  if (dayHours.length === 0) return `Impianto chiuso il ${WEEKDAY_LABELS[date.getDay()].toLowerCase()}`;
+  const from = date.getHours() * 60 + date.getMinutes();
+  const fits = dayHours.some(h => toMinutes(h.open) <= from && from + durationMinutes <= toMinutes(h.close));
+  return fits ? null : "Fuori dall'orario di apertura";
+};
+
+const getEventSlots = (event: Event): TimeSlot[] => [
+  ...(event.globalTimeSlots ?? []),
+  ...(event.rankingData?.slots ?? []),
+];
+
+const getEventScheduledMatches = (event: Event): (Match | SummerRankingMasterMatch)[] => [
+  ...(event.tournaments ?? []).flatMap(t => [
+    ...(t.groups ?? []).flatMap(g => g.matches ?? []),
+    ...(t.playoffMatches ?? []),
+    ...(t.consolationMatches ?? []),
+  ]),
+  ...(event.rankingData?.matches ?? []),
+  ...(event.rankingData?.master?.matches ?? []),
+];
+
+/**
+ * Court occupancy across every event, including courts held by pending
+ * proposals. Matches booked before courts existed inherit the court of their
+ * slot, if it has one.
+ */
+export const getCourtBookings = (events: Event[]): CourtBooking[] => events.flatMap(event => {
+  const slotsById = new Map(getEventSlots(event).map(slot => [slot.id, slot]));
+  return getEventScheduledMatches(event).flatMap(match => {
+    const entries: { courtId?: string; venueId?: string; scheduledTime?: string }[] = [];
+    if ((match.status === 'scheduled' || match.status === 'completed') && match.scheduledTime) {
+      const slot = match.slotId ? slotsById.get(match.slotId) : undefined;
+      entries.push({ courtId: match.courtId ?? slot?.courtId, venueId: match.venueId ?? slot?.venueId, scheduledTime: match.scheduledTime });
+    }
+    const proposal = 'proposal' in match ? getActiveProposal(match) : null;
+    if (proposal) entries.push(proposal);
+    return entries.flatMap(({ courtId, venueId, scheduledTime }) => {
+      const start = scheduledTime ? new Date(scheduledTime).getTime() : NaN;
+      if (!courtId || isNaN(start)) return [];
+      return [{ courtId, venueId, start, eventId: event.id, eventName: event.name, matchId: match.id }];
+    });
+  });
+});
+
+/**
+ * Court and start (`courtId_ms`) of the match's own booking and of its active
+ * proposal. Checked writes claim these ids across all events, so two matches
+ * can never take the same court at the same start; overlapping bookings with
+ * different starts are only caught by {@link getCourtIssue}, before saving.
+ */
+export const getCourtClaimIds = (match: Match, now = Date.now()): string[] => {
+  const entries: { courtId?: string; scheduledTime?: string }[] = [];
+  if (match.status === 'scheduled' || match.status === 'completed') entries.push(match);
+  const proposal = getActiveProposal(match, now);
+  if (proposal) entries.push(proposal);
+  return Array.from(new Set(entries.flatMap(({ courtId, scheduledTime }) => {
+    const start = scheduledTime ? new Date(scheduledTime).getTime() : NaN;
+    return courtId && !isNaN(start) ? [`${courtId}_${start}`] : [];
+  })));
+};
+
+/** First booking that keeps the court busy when a match starts at `start`. */
+export const findCourtConflict = (
+  bookings: CourtBooking[],
+  courtId: string,
+  start: string,
+  durationMinutes = DEFAULT_COURT_BOOKING_MINUTES,
+  ignoreMatchId?: string,
+): CourtBooking | null => {
+  const time = new Date(start).getTime();
+  if (isNaN(time)) return null;
+  const length = durationMinutes * 60000;
+  return bookings.find(b => b.courtId === courtId && b.matchId !== ignoreMatchId && Math.abs(b.start - time) < length) ?? null;
+};
+
+export const formatCourtConflict = (conflict: CourtBooking) => {
+  const d = new Date(conflict.start);
+  return `Campo già occupato alle ${pad(d.getHours())}:${pad(d.getMinutes())} da una partita dell'evento "${conflict.eventName}".`;
+};
+
+/**
+ * Why the court cannot host a match starting at `start`: already taken in any
+ * event, or its venue is closed. Null if it can be booked.
+ */
+export const getCourtIssue = (
+  bookings: CourtBooking[],
+  venues: Venue[],
+  courtId: string,
+  start: string,
+  durationMinutes = DEFAULT_COURT_BOOKING_MINUTES,
+  ignoreMatchId?: string,
+): string | null => {
+  const conflict = findCourtConflict(bookings, courtId, start, durationMinutes, ignoreMatchId);
+  if (conflict) return formatCourtConflict(conflict);
+  const resolved = getVenueCourt(venues, courtId);
+  return resolved ? getVenueClosureReason(resolved.venue, start, durationMinutes) : null;
+};
+
+export const getSlotCourtIssue = (slot: TimeSlot, events: Event[], venues: Venue[], ignoreMatchId?: string): string | null =>
+  slot.courtId
+    ? getCourtIssue(getCourtBookings(events), venues, slot.courtId, slot.start, DEFAULT_COURT_BOOKING_MINUTES, ignoreMatchId)
+    : null;
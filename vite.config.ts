@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.FIREBASE_AUTH_EMULATOR_HOST': JSON.stringify(env.FIREBASE_AUTH_EMULATOR_HOST ?? ''),
+        'process.env.DEMO_MODE': JSON.stringify(env.DEMO_MODE ?? '')
       },
       resolve: {
         alias: {